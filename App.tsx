@@ -3,19 +3,43 @@ import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { Orb } from './components/Orb';
 import { ChatInterface } from './components/ChatInterface';
 import { ChatHistoryPanel } from './components/ChatHistoryPanel';
-import { type ChatMessage, type ServiceIntegration, type ChatSession, type User } from './types';
-import { getAiResponse, getAiSpeech, getAiResponseAfterConsent } from './services/geminiService';
+import { type ChatMessage, type ServiceIntegration, type ChatSession, type User, type UsageEntry, type PriceTable, type RoutingConfig, type ModelChoice, type ConversationSummary, type ConsentChoice, type ConsentRule, type AuditEntry, type EmailDraft, type ToolActivity } from './types';
+import { getAiResponse, getAiSpeech, getAiResponseAfterConsent, getAiResponseAfterDenial, isAbortError } from './services/geminiService';
 import { getDeviceEmailAccounts, signInWithGoogle, signOut } from './services/mockDataService';
 import { VoiceToggle } from './components/VoiceToggle';
 import { ConnectionsModal } from './components/ConnectionsModal';
-import { ConnectionsIcon, HistoryIcon, GoogleIcon, ConversationModeIcon } from './components/icons';
+import { ConnectionsIcon, HistoryIcon, GoogleIcon, ConversationModeIcon, UsageIcon, RoutingIcon, AuditIcon } from './components/icons';
 import { INITIAL_INTEGRATIONS } from './constants';
 import { LiveConversationModal } from './components/LiveConversationModal';
+import { UsageDashboard } from './components/UsageDashboard';
+import { WellbeingDashboard } from './components/WellbeingDashboard';
+import { TaskPanel } from './components/TaskPanel';
+import { RoutingSettingsModal } from './components/RoutingSettingsModal';
+import { AuditLogViewer } from './components/AuditLogViewer';
+import { loadPriceTable, savePriceTable } from './services/usageService';
+import { loadRoutingConfig, saveRoutingConfig } from './services/routingService';
+import { ModelsUnavailableError, getRetryAfterMs } from './services/resilienceService';
+import { loadConsentRules, saveConsentRules, createConsentRules, mergeConsentRules } from './services/consentService';
+import { loadAuditLog, saveAuditLog, appendAuditEntry } from './services/auditService';
+import { getTool, getConsentScopes, undoToolCall, runUserTool, describeToolResult } from './services/tools';
+import { importMailFiles, clearMailbox, getImportedMailCounts } from './services/email';
+import { importCalendar, exportCalendar, getCalendarAdapter } from './services/calendar';
+import { importWellbeingFiles, clearWellbeingData, countWellbeingDays } from './services/wellbeing';
+import { getSmartHomeDevices, getSmartHomeAdapter, loadMqttDevices, saveMqttDevices, type MqttDeviceMapping } from './services/smarthome';
+import { listTasks, createTask, completeTask } from './services/tasks';
+import { getRecording } from './services/providers';
 
 // --- Local Storage Keys ---
 const CHAT_SESSIONS_KEY = 'jarvis-chat-sessions';
 const VOICE_ENABLED_KEY = 'jarvis-voice-enabled';
 const USER_MEMORY_KEY = 'jarvis-user-memory';
+const DRY_RUN_KEY = 'jarvis-dry-run';
+
+// Set LLM_RECORD=true to capture every backend call into a fixture for offline replay.
+const IS_RECORDING = process.env.LLM_RECORD === 'true';
+
+// MQTT devices report changes on their own, so the devices are read again this often
+const SMART_HOME_REFRESH_MS = 60 * 1000;
 
 // --- Audio Utility Functions ---
 
@@ -99,6 +123,17 @@ function splitTextIntoChunks(text: string): string[] {
     return result ? result.map(s => s.trim()).filter(s => s.length > 0) : [cleanText];
 }
 
+// Whether any of the tool calls may have changed the task list, which is then read again.
+function touchedTasks(toolActivity: ToolActivity[] | undefined): boolean {
+    return toolActivity?.some(activity => !activity.dryRun && getTool(activity.toolName)?.integration === 'tasks') ?? false;
+}
+
+// Incrementally speaks a response: update() with the text so far, finish() with the final text.
+interface SpeechStream {
+    update: (partialText: string) => void;
+    finish: (finalText: string) => void;
+}
+
 const App: React.FC = () => {
     const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
     const [activeChatId, setActiveChatId] = useState<string | null>(null);
@@ -122,6 +157,27 @@ const App: React.FC = () => {
     const [isProjectKeyNeeded, setIsProjectKeyNeeded] = useState(false);
     const [isLiveModeOpen, setIsLiveModeOpen] = useState(false);
     const [userMemory, setUserMemory] = useState<string[]>([]);
+    const [isUsageDashboardOpen, setIsUsageDashboardOpen] = useState(false);
+    const [isWellbeingDashboardOpen, setIsWellbeingDashboardOpen] = useState(false);
+    const [priceTable, setPriceTable] = useState<PriceTable>(loadPriceTable);
+    const [isRoutingSettingsOpen, setIsRoutingSettingsOpen] = useState(false);
+    const [routingConfig, setRoutingConfig] = useState<RoutingConfig>(loadRoutingConfig);
+    const [consentRules, setConsentRules] = useState<ConsentRule[]>(loadConsentRules);
+    const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+    // Tools with side effects only preview what they would do
+    const [isDryRun, setIsDryRun] = useState(() => {
+        try {
+            return localStorage.getItem(DRY_RUN_KEY) === 'true';
+        } catch (error) {
+            console.error('Failed to load dry-run setting:', error);
+            return false;
+        }
+    });
+    const [auditLog, setAuditLog] = useState<AuditEntry[]>(loadAuditLog);
+    const [importedMailCounts, setImportedMailCounts] = useState(getImportedMailCounts);
+    const [importedWellbeingDays, setImportedWellbeingDays] = useState(() => countWellbeingDays());
+    const [mqttDevices, setMqttDevices] = useState<MqttDeviceMapping[]>(loadMqttDevices);
+    const [tasks, setTasks] = useState(() => listTasks({ status: 'all' }));
 
     const audioContextRef = useRef<AudioContext | null>(null);
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
@@ -129,13 +185,19 @@ const App: React.FC = () => {
     
     // Track the current speech generation request to handle cancellation
     const speechGenerationRef = useRef(0);
+    // Aborts the in-flight AI request when the user presses Stop
+    const requestControllerRef = useRef<AbortController | null>(null);
 
     // Load sessions and memory from localStorage on initial render
     useEffect(() => {
         try {
             const savedSessions = localStorage.getItem(CHAT_SESSIONS_KEY);
             if (savedSessions) {
-                const sessions = JSON.parse(savedSessions) as ChatSession[];
+                const sessions = (JSON.parse(savedSessions) as ChatSession[]).map(session => ({
+                    ...session,
+                    // A reload mid-response leaves a placeholder behind; keep its text as a finished message
+                    messages: session.messages.map(({ isStreaming, ...message }) => message),
+                }));
                 if (sessions.length > 0) {
                     setChatSessions(sessions);
                     // Set the most recently updated chat as active
@@ -183,6 +245,18 @@ const App: React.FC = () => {
         }
     }, [userMemory]);
 
+    // Reads the devices while the smart home is connected, so the Life State Graph can describe them
+    const isSmartHomeConnected = integrations.some(integration => integration.id === 'smarthome' && integration.connected);
+    useEffect(() => {
+        if (!isSmartHomeConnected) return;
+        const refresh = () => getSmartHomeDevices().catch(error => console.error('Failed to read the smart home devices:', error));
+        refresh();
+        const timer = setInterval(refresh, SMART_HOME_REFRESH_MS);
+        return () => clearInterval(timer);
+    }, [isSmartHomeConnected, mqttDevices]);
+
+    const isTasksConnected = integrations.some(integration => integration.id === 'tasks' && integration.connected);
+
     const activeChat = useMemo(() => {
         return chatSessions.find(chat => chat.id === activeChatId);
     }, [chatSessions, activeChatId]);
@@ -206,6 +280,14 @@ const App: React.FC = () => {
         }
     }, [isVoiceOutputEnabled]);
 
+    useEffect(() => {
+        try {
+            localStorage.setItem(DRY_RUN_KEY, String(isDryRun));
+        } catch (error) {
+            console.error('Failed to save dry-run setting:', error);
+        }
+    }, [isDryRun]);
+
     useEffect(() => {
         if (!audioContextRef.current) {
             try {
@@ -267,56 +349,134 @@ const App: React.FC = () => {
         };
     }, [stopAudioInternal]);
 
-    const playAiSpeech = useCallback(async (text: string) => {
-        if (!isVoiceOutputEnabled || !audioContextRef.current) return;
-        
+    // Starts a speech stream that speaks text sentence by sentence as it arrives.
+    // Returns null when voice output is unavailable.
+    const startSpeechStream = useCallback((chatId: string | null): SpeechStream | null => {
+        if (!isVoiceOutputEnabled || !audioContextRef.current) return null;
+
         // 1. Invalidate previous loops
         speechGenerationRef.current += 1;
         const currentGenId = speechGenerationRef.current;
 
-        // 2. Split text into sentence chunks to minimize initial latency
-        const chunks = splitTextIntoChunks(text);
+        const queue: string[] = [];
+        let isPlaying = false;
+        // The prefix of the streamed text that has already been queued for speech
+        let queuedText = '';
 
-        // 3. Sequential Playback Loop
-        // This function plays chunk[i], and when done, triggers playLoop(i+1)
-        const playLoop = async (index: number) => {
-            if (index >= chunks.length) return;
+        // 2. Sequential Playback Loop
+        // Plays the next queued chunk, and when done, triggers itself again
+        const playNext = async () => {
+            if (isPlaying) return;
             // Check if user cancelled/stopped during previous playback
             if (speechGenerationRef.current !== currentGenId) return;
+            const chunkText = queue.shift();
+            if (chunkText === undefined) return;
 
-            const chunkText = chunks[index];
+            isPlaying = true;
             try {
                 // Fetch audio for this specific chunk
-                const base64Audio = await getAiSpeech(chunkText);
-                
-                // Check cancellation after async fetch
-                if (speechGenerationRef.current !== currentGenId) return;
+                const base64Audio = await getAiSpeech(chunkText, usage => recordSessionUsage(usage, chatId));
 
-                if (base64Audio && audioContextRef.current) {
+                // Check cancellation after async fetch; if fetch failed, skip to next
+                if (base64Audio && audioContextRef.current && speechGenerationRef.current === currentGenId) {
                     // Wrap playAudio in a Promise to await its completion
                     await new Promise<void>((resolve) => {
                          playAudio(base64Audio, audioContextRef.current!, audioSourceRef, resolve);
                     });
-                } else {
-                     // If fetch failed, skip to next immediately
-                     playLoop(index + 1);
-                     return;
                 }
             } catch (error) {
                 console.error("Failed to play speech chunk:", error);
                 // Try next chunk even if this one failed
-                playLoop(index + 1);
-                return;
             }
+            isPlaying = false;
+            playNext();
+        };
 
-            // Immediately start next chunk after current one finishes
-            playLoop(index + 1);
+        // 3. Split text into sentence chunks to minimize initial latency
+        const enqueue = (text: string) => {
+            queue.push(...splitTextIntoChunks(text).filter(chunk => chunk.length > 0));
+            playNext();
         };
 
-        // Start the chain
-        playLoop(0);
+        const getUnqueuedText = (fullText: string) => {
+            // The text restarted (a new model turn), so start queuing from its beginning
+            if (!fullText.startsWith(queuedText)) queuedText = '';
+            return fullText.slice(queuedText.length);
+        };
 
+        return {
+            update: (partialText: string) => {
+                const pending = getUnqueuedText(partialText);
+                // Only speak up to the last finished sentence; the rest may still be growing
+                const sentenceEnd = /[.!?]+\s+/g;
+                let finishedLength = 0;
+                for (let match = sentenceEnd.exec(pending); match; match = sentenceEnd.exec(pending)) {
+                    finishedLength = match.index + match[0].length;
+                }
+                if (finishedLength > 0) {
+                    queuedText += pending.slice(0, finishedLength);
+                    enqueue(pending.slice(0, finishedLength));
+                }
+            },
+            finish: (finalText: string) => {
+                const pending = getUnqueuedText(finalText);
+                queuedText = finalText;
+                if (pending.trim()) enqueue(pending);
+            },
+        };
     }, [isVoiceOutputEnabled]);
+
+    const playAiSpeech = useCallback((text: string, chatId: string | null) => {
+        startSpeechStream(chatId)?.finish(text);
+    }, [startSpeechStream]);
+
+    // Appends a model call to the session's usage ledger, which the usage dashboard reads.
+    const recordSessionUsage = (entry: UsageEntry, chatId: string | null) => {
+        setChatSessions(prevSessions =>
+            prevSessions.map(session =>
+                session.id === chatId
+                    ? { ...session, usage: [...(session.usage ?? []), entry] }
+                    : session
+            )
+        );
+    };
+
+    // Appends a tool call to the audit log, which the audit log viewer reads.
+    const recordAudit = (entry: AuditEntry) => {
+        setAuditLog(prev => {
+            const log = appendAuditEntry(prev, entry);
+            saveAuditLog(log);
+            return log;
+        });
+    };
+
+    // Keeps the running summary of older messages, which later requests send instead of those messages.
+    const saveSessionSummary = (summary: ConversationSummary, chatId: string | null) => {
+        setChatSessions(prevSessions =>
+            prevSessions.map(session => session.id === chatId ? { ...session, summary } : session)
+        );
+    };
+
+    // Shows streamed text in a placeholder AI message, creating it on the first chunk.
+    const showPartialResponse = (text: string, chatId: string | null) => {
+        updateActiveChat(prev => prev.some(m => m.isStreaming)
+            ? prev.map(m => m.isStreaming ? { ...m, text } : m)
+            : [...prev, { author: 'ai', text, isStreaming: true }], chatId);
+    };
+
+    // Adds the final AI message, replacing the streaming placeholder if there is one.
+    const commitAiMessage = (message: ChatMessage, chatId: string | null) => {
+        updateActiveChat(prev => prev.some(m => m.isStreaming)
+            ? prev.map(m => m.isStreaming ? message : m)
+            : [...prev, message], chatId);
+    };
+
+    // Keeps whatever text streamed in before the user stopped the request, marked as interrupted.
+    const interruptAiMessage = (chatId: string | null, usage: UsageEntry[]) => {
+        updateActiveChat(prev => prev.some(m => m.isStreaming)
+            ? prev.map(m => m.isStreaming ? { ...m, isStreaming: false, interrupted: true, usage } : m)
+            : [...prev, { author: 'ai', text: '', interrupted: true, usage }], chatId);
+    };
     
     const updateActiveChat = (updater: (prevMessages: ChatMessage[]) => ChatMessage[], chatId: string | null = activeChatId) => {
         setChatSessions(prevSessions =>
@@ -339,10 +499,35 @@ const App: React.FC = () => {
         }
         updateActiveChat(prev => [...prev, userMessage]);
         setIsLoading(true);
+        const chatId = activeChatId;
+        const speech = startSpeechStream(chatId);
+        const controller = new AbortController();
+        requestControllerRef.current = controller;
+        // Usage of every model call made for this message, attached to whichever message ends up showing the result
+        const usage: UsageEntry[] = [];
+        const onUsage = (entry: UsageEntry) => {
+            usage.push(entry);
+            recordSessionUsage(entry, chatId);
+        };
 
         try {
             // Pass the current userMemory to the service to inject into the AI's system prompt
-            const aiResponse = await getAiResponse(text, media, options, activeChat.messages, integrations, userMemory);
+            const aiResponse = await getAiResponse(text, media, options, activeChat.messages, integrations, userMemory, {
+                onPartialText: partialText => {
+                    if (controller.signal.aborted) return;
+                    showPartialResponse(partialText, chatId);
+                    speech?.update(partialText);
+                },
+                signal: controller.signal,
+                onUsage,
+                routingConfig,
+                modelOverride: activeChat.modelOverride,
+                summary: activeChat.summary,
+                consentRules,
+                sessionId: chatId ?? undefined,
+                onAudit: recordAudit,
+                dryRun: isDryRun,
+            });
             const aiMessage: ChatMessage = { 
                 author: 'ai', 
                 text: aiResponse.text,
@@ -351,7 +536,14 @@ const App: React.FC = () => {
                 groundingSources: aiResponse.groundingSources,
                 requiresConsent: aiResponse.requiresConsent,
                 action: aiResponse.action,
-                requiresBillingProject: aiResponse.requiresBillingProject
+                consentScopes: aiResponse.consentScopes,
+                completedCalls: aiResponse.completedCalls,
+                requiresBillingProject: aiResponse.requiresBillingProject,
+                usage,
+                route: aiResponse.route,
+                toolActivity: aiResponse.toolActivity,
+                emailDraft: aiResponse.emailDraft,
+                wellbeingChart: aiResponse.wellbeingChart
             };
             
             if (aiResponse.requiresBillingProject) {
@@ -367,59 +559,314 @@ const App: React.FC = () => {
                 });
             }
 
-            updateActiveChat(prev => [...prev, aiMessage]);
+            commitAiMessage(aiMessage, chatId);
+            if (touchedTasks(aiResponse.toolActivity)) {
+                setTasks(listTasks({ status: 'all' }));
+            }
+            if (aiResponse.summary) {
+                saveSessionSummary(aiResponse.summary, chatId);
+            }
             
             if (!aiResponse.requiresConsent && !aiResponse.generatedImage && !aiResponse.generatedVideo && !aiResponse.requiresBillingProject) {
-                // Do not await the speech generation so the UI unblocks immediately
-                // The new playAiSpeech handles chunking internally
-                playAiSpeech(aiResponse.text);
+                // Speak whatever the stream has not already spoken; not awaited so the UI unblocks immediately
+                speech?.finish(aiResponse.text);
             }
         } catch (error: any) {
+            if (controller.signal.aborted || isAbortError(error)) {
+                interruptAiMessage(chatId, usage);
+                return;
+            }
             console.error("Error getting AI response:", error);
             let errorText = "I'm sorry, I encountered an error.";
-            if (error?.status === 503 || error?.code === 503 || error?.message?.includes('overloaded')) {
-                errorText = "The AI service is currently overloaded. Please try again in a moment.";
+            const retryAfterMs = error instanceof ModelsUnavailableError && error.retryAt ? error.retryAt - Date.now() : getRetryAfterMs(error);
+            const waitHint = retryAfterMs ? ` Please try again in about ${Math.ceil(retryAfterMs / 1000)} seconds.` : " Please try again in a moment.";
+            if (error instanceof ModelsUnavailableError) {
+                errorText = `Every model I can use has been failing, so I'm pausing requests for a while.${waitHint}`;
+            } else if (error?.status === 503 || error?.code === 503 || error?.message?.includes('overloaded')) {
+                errorText = `The AI service is currently overloaded, including the fallback models.${waitHint}`;
             } else if (error?.status === 429 || error?.code === 429) {
-                 errorText = "I'm receiving too many requests right now. Please wait a moment.";
+                 errorText = `I'm receiving too many requests right now.${waitHint}`;
             }
-            const errorMessage: ChatMessage = { author: 'ai', text: errorText };
-            updateActiveChat(prev => [...prev, errorMessage]);
+            const errorMessage: ChatMessage = { author: 'ai', text: errorText, usage };
+            commitAiMessage(errorMessage, chatId);
             // Do not await error speech either
-            playAiSpeech(errorMessage.text);
+            playAiSpeech(errorMessage.text, chatId);
         } finally {
+            if (requestControllerRef.current === controller) requestControllerRef.current = null;
             setIsLoading(false);
         }
-    }, [activeChat, integrations, stopAudioInternal, playAiSpeech, activeChatId, userMemory]);
+    }, [activeChat, integrations, stopAudioInternal, playAiSpeech, startSpeechStream, activeChatId, userMemory, routingConfig, consentRules, isDryRun]);
 
-    const handleConsent = useCallback(async (messageToApprove: ChatMessage) => {
+    const handleConsent = useCallback(async (messageToApprove: ChatMessage, choice: ConsentChoice, toolArgs: Record<string, any>) => {
         if (!messageToApprove.action || !activeChat) return;
         stopAudioInternal();
-        
-        updateActiveChat(prev => prev.map(m => m === messageToApprove ? { ...m, consentGranted: true, text: `${m.text}\n\n*Access granted. Proceeding...*` } : m));
+
+        // The call as the user reviewed it, possibly with edited arguments
+        const action = { toolName: messageToApprove.action.toolName, toolArgs };
+        // Remember the decision before continuing, so the follow-up already sees it
+        const tool = getTool(action.toolName);
+        const scopes = tool ? getConsentScopes(tool, toolArgs, integrations) : [{ toolName: action.toolName }];
+        const newRules = createConsentRules(choice, scopes, activeChatId ?? undefined);
+        const updatedRules = newRules.length > 0 ? mergeConsentRules(consentRules, newRules) : consentRules;
+        if (newRules.length > 0) {
+            setConsentRules(updatedRules);
+            saveConsentRules(updatedRules);
+        }
+
+        const isAllowed = choice.effect === 'allow';
+        const decidedMessage: ChatMessage = isAllowed
+            ? { ...messageToApprove, action, consentScopes: scopes, consentGranted: true, text: `${messageToApprove.text}\n\n*Access granted. Proceeding...*` }
+            : { ...messageToApprove, action, consentScopes: scopes, consentDenied: true, text: `${messageToApprove.text}\n\n*Access denied.*` };
+        updateActiveChat(prev => prev.map(m => m === messageToApprove ? decidedMessage : m));
         setIsLoading(true);
 
-        const historyUpToConsentRequest = activeChat.messages.slice(0, activeChat.messages.indexOf(messageToApprove) + 1);
+        const historyUpToConsentRequest = [...activeChat.messages.slice(0, activeChat.messages.indexOf(messageToApprove)), decidedMessage];
+
+        const chatId = activeChatId;
+        const speech = startSpeechStream(chatId);
+        const controller = new AbortController();
+        requestControllerRef.current = controller;
+        // Usage of every model call made for this message, attached to whichever message ends up showing the result
+        const usage: UsageEntry[] = [];
+        const onUsage = (entry: UsageEntry) => {
+            usage.push(entry);
+            recordSessionUsage(entry, chatId);
+        };
 
         try {
-            const aiResponse = await getAiResponseAfterConsent(messageToApprove.action, historyUpToConsentRequest, integrations);
-            const aiMessage: ChatMessage = { author: 'ai', text: aiResponse.text };
-            updateActiveChat(prev => [...prev, aiMessage]);
-            // Do not await the speech generation so the UI unblocks immediately
-            playAiSpeech(aiResponse.text);
+            const continueAfterDecision = isAllowed ? getAiResponseAfterConsent : getAiResponseAfterDenial;
+            const aiResponse = await continueAfterDecision(action, historyUpToConsentRequest, integrations, {
+                onPartialText: partialText => {
+                    if (controller.signal.aborted) return;
+                    showPartialResponse(partialText, chatId);
+                    speech?.update(partialText);
+                },
+                signal: controller.signal,
+                onUsage,
+                routingConfig,
+                modelOverride: activeChat.modelOverride,
+                summary: activeChat.summary,
+                consentRules: updatedRules,
+                sessionId: chatId ?? undefined,
+                onAudit: recordAudit,
+                dryRun: isDryRun,
+            });
+            // The model may carry on with more tools, including one that asks for consent again
+            const aiMessage: ChatMessage = {
+                author: 'ai',
+                text: aiResponse.text,
+                generatedImage: aiResponse.generatedImage,
+                generatedVideo: aiResponse.generatedVideo,
+                groundingSources: aiResponse.groundingSources,
+                requiresConsent: aiResponse.requiresConsent,
+                action: aiResponse.action,
+                consentScopes: aiResponse.consentScopes,
+                completedCalls: aiResponse.completedCalls,
+                requiresBillingProject: aiResponse.requiresBillingProject,
+                usage,
+                route: aiResponse.route,
+                toolActivity: aiResponse.toolActivity,
+                emailDraft: aiResponse.emailDraft,
+                wellbeingChart: aiResponse.wellbeingChart
+            };
+            if (aiResponse.requiresBillingProject) {
+                setIsProjectKeyNeeded(true);
+            }
+            if (aiResponse.learnedFacts && aiResponse.learnedFacts.length > 0) {
+                setUserMemory(prev => [...new Set([...prev, ...(aiResponse.learnedFacts || [])])]);
+            }
+            commitAiMessage(aiMessage, chatId);
+            if (touchedTasks(aiResponse.toolActivity)) {
+                setTasks(listTasks({ status: 'all' }));
+            }
+            if (!aiResponse.requiresConsent) {
+                // Do not await the speech generation so the UI unblocks immediately
+                speech?.finish(aiResponse.text);
+            }
         } catch (error: any) {
+            if (controller.signal.aborted || isAbortError(error)) {
+                interruptAiMessage(chatId, usage);
+                return;
+            }
             console.error("Error getting AI response after consent:", error);
             let errorText = "Thank you. However, I encountered an error while proceeding.";
-             if (error?.status === 503 || error?.code === 503 || error?.message?.includes('overloaded')) {
+             if (error instanceof ModelsUnavailableError || error?.status === 503 || error?.code === 503 || error?.message?.includes('overloaded')) {
                 errorText = "The system is busy right now. Please try granting permission again in a moment.";
             }
-            const errorMessage: ChatMessage = { author: 'ai', text: errorText };
-            updateActiveChat(prev => [...prev, errorMessage]);
+            const errorMessage: ChatMessage = { author: 'ai', text: errorText, usage };
+            commitAiMessage(errorMessage, chatId);
             // Do not await error speech
-            playAiSpeech(errorMessage.text);
+            playAiSpeech(errorMessage.text, chatId);
         } finally {
+            if (requestControllerRef.current === controller) requestControllerRef.current = null;
             setIsLoading(false);
         }
-    }, [activeChat, integrations, stopAudioInternal, playAiSpeech, activeChatId]);
+    }, [activeChat, integrations, stopAudioInternal, playAiSpeech, startSpeechStream, activeChatId, routingConfig, consentRules, isDryRun]);
+
+    // Sends a draft card as the user edited it. The outcome is noted in the message, so the model sees it too.
+    const handleSendDraft = useCallback(async (draft: EmailDraft) => {
+        const chatId = activeChatId;
+        const args = {
+            accountId: draft.accountId,
+            to: draft.to,
+            cc: draft.cc,
+            subject: draft.subject,
+            body: draft.body,
+            inReplyTo: draft.inReplyTo,
+            references: draft.references,
+        };
+        const result = await runUserTool('sendEmail', args, {
+            connections: integrations,
+            sessionId: chatId ?? undefined,
+            onAudit: recordAudit,
+            dryRun: isDryRun,
+        });
+        const activity = describeToolResult('sendEmail', args, result);
+        const sentDraft: EmailDraft = result.error !== undefined
+            ? { ...draft, error: result.error }
+            : { ...draft, error: undefined, sentAt: result.dryRun ? undefined : Date.now() };
+        updateActiveChat(prev => prev.map(m => m.emailDraft?.id === draft.id ? {
+            ...m,
+            text: result.error !== undefined ? m.text : `${m.text}\n\n*${activity.dryRun ? `Dry run: ${activity.summary}` : activity.summary}.*`,
+            emailDraft: sentDraft,
+            toolActivity: [...(m.toolActivity ?? []), activity],
+        } : m), chatId);
+    }, [activeChatId, integrations, isDryRun]);
+
+    // Reverts a tool call shown under an AI message. The note added to the message tells the model too.
+    const handleUndo = useCallback(async (message: ChatMessage, activityIndex: number) => {
+        const activity = message.toolActivity?.[activityIndex];
+        if (!activity) return;
+        const chatId = activeChatId;
+        let note: string;
+        let undone = false;
+        try {
+            note = `*Undone: ${await undoToolCall(activity, { sessionId: chatId ?? undefined, onAudit: recordAudit })}.*`;
+            undone = true;
+            if (touchedTasks([activity])) {
+                setTasks(listTasks({ status: 'all' }));
+            }
+        } catch (error) {
+            note = `*Couldn't undo: ${(error as Error).message}*`;
+        }
+        // Matched by the activity, since the message object may have been replaced while the undo ran
+        updateActiveChat(prev => prev.map(m => m.toolActivity?.[activityIndex] === activity ? {
+            ...m,
+            text: `${m.text}\n\n${note}`,
+            toolActivity: m.toolActivity.map((a, i) => i === activityIndex && undone ? { ...a, undo: undefined, undone: true } : a),
+        } : m), chatId);
+    }, [activeChatId]);
+
+    const handleStop = useCallback(() => {
+        requestControllerRef.current?.abort();
+        stopAudioInternal();
+    }, [stopAudioInternal]);
+
+    const handlePriceTableChange = useCallback((newPriceTable: PriceTable) => {
+        setPriceTable(newPriceTable);
+        savePriceTable(newPriceTable);
+    }, []);
+
+    const handleRoutingConfigChange = useCallback((newConfig: RoutingConfig) => {
+        setRoutingConfig(newConfig);
+        saveRoutingConfig(newConfig);
+    }, []);
+
+    const handleRevokeConsent = useCallback((ruleId: string) => {
+        setConsentRules(prev => {
+            const rules = prev.filter(rule => rule.id !== ruleId);
+            saveConsentRules(rules);
+            return rules;
+        });
+    }, []);
+
+    const handleImportMail = useCallback(async (accountId: string, files: File[]) => {
+        const result = await importMailFiles(accountId, files);
+        setImportedMailCounts(getImportedMailCounts());
+        return result;
+    }, []);
+
+    const handleClearMailbox = useCallback((accountId: string) => {
+        clearMailbox(accountId);
+        setImportedMailCounts(getImportedMailCounts());
+    }, []);
+
+    const handleImportCalendar = useCallback(async (files: File[]) => {
+        let count = 0;
+        for (const file of files) {
+            count += await importCalendar(await file.text());
+        }
+        return count;
+    }, []);
+
+    const handleExportCalendar = useCallback(async () => {
+        const blob = new Blob([await exportCalendar()], { type: 'text/calendar' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `jarvis-calendar-${new Date().toISOString().slice(0, 10)}.ics`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }, []);
+
+    const handleImportWellbeing = useCallback(async (files: File[]) => {
+        const result = await importWellbeingFiles(files);
+        setImportedWellbeingDays(countWellbeingDays());
+        return result;
+    }, []);
+
+    const handleClearWellbeing = useCallback(() => {
+        clearWellbeingData();
+        setImportedWellbeingDays(0);
+    }, []);
+
+    const handleSaveMqttDevices = useCallback((devices: MqttDeviceMapping[]) => {
+        saveMqttDevices(devices);
+        setMqttDevices(devices);
+    }, []);
+
+    const handleAddTask = useCallback((title: string) => {
+        createTask({ title });
+        setTasks(listTasks({ status: 'all' }));
+    }, []);
+
+    const handleCompleteTask = useCallback((id: string, completed: boolean) => {
+        try {
+            completeTask(id, completed);
+        } catch (error) {
+            console.error('Failed to update the task:', error);
+        }
+        setTasks(listTasks({ status: 'all' }));
+    }, []);
+
+    const handleOpenWellbeingDashboard = useCallback(() => {
+        setIsConnectionsModalOpen(false);
+        setIsWellbeingDashboardOpen(true);
+    }, []);
+
+    const handleClearAuditLog = useCallback(() => {
+        setAuditLog([]);
+        saveAuditLog([]);
+    }, []);
+
+    // Saves the calls recorded so far as a fixture file for the replay provider.
+    const handleDownloadRecording = useCallback(() => {
+        const recording = getRecording();
+        if (!recording) return;
+        const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `jarvis-fixture-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }, []);
+
+    const handleModelOverrideChange = useCallback((modelOverride: ModelChoice | undefined) => {
+        setChatSessions(prevSessions =>
+            prevSessions.map(session => session.id === activeChatId ? { ...session, modelOverride } : session)
+        );
+    }, [activeChatId]);
 
     const handleToggleVoice = useCallback(() => {
         setIsVoiceOutputEnabled(prev => {
@@ -576,6 +1023,41 @@ const App: React.FC = () => {
                     >
                         <ConnectionsIcon />
                     </button>
+                     <button
+                        onClick={() => setIsUsageDashboardOpen(true)}
+                        className="p-2 rounded-full text-slate-400 hover:text-cyan-400 hover:bg-slate-700/50 transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label="View usage and cost"
+                        title="View usage and cost"
+                    >
+                        <UsageIcon />
+                    </button>
+                     <button
+                        onClick={() => setIsAuditLogOpen(true)}
+                        className="p-2 rounded-full text-slate-400 hover:text-cyan-400 hover:bg-slate-700/50 transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label="View tool audit log"
+                        title="View tool audit log"
+                    >
+                        <AuditIcon />
+                    </button>
+                     <button
+                        onClick={() => setIsRoutingSettingsOpen(true)}
+                        className="p-2 rounded-full text-slate-400 hover:text-cyan-400 hover:bg-slate-700/50 transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label="Model routing settings"
+                        title="Model routing settings"
+                    >
+                        <RoutingIcon />
+                    </button>
+                    {IS_RECORDING && (
+                        <button
+                            onClick={handleDownloadRecording}
+                            className="flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-semibold text-red-300 border border-red-400/50 hover:bg-red-500/10 transition-colors focus:outline-none focus:ring-2 focus:ring-red-400"
+                            aria-label="Download recorded fixture"
+                            title="Download the calls recorded so far as a replay fixture"
+                        >
+                            <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-hidden="true"></span>
+                            REC
+                        </button>
+                    )}
                 </div>
                 <div className="absolute top-2 right-2 flex items-center gap-4">
                     {user ? (
@@ -622,6 +1104,14 @@ const App: React.FC = () => {
                     >
                         <ConversationModeIcon />
                     </button>
+                    <button
+                        onClick={() => setIsDryRun(prev => !prev)}
+                        className={`px-2 py-1 rounded-full text-xs font-semibold border transition-colors focus:outline-none focus:ring-2 focus:ring-amber-400 ${isDryRun ? 'text-amber-300 border-amber-400/60 bg-amber-500/10' : 'text-slate-400 border-slate-600 hover:text-slate-200'}`}
+                        aria-pressed={isDryRun}
+                        title={isDryRun ? 'Dry run is on: actions that change your data are only previewed' : 'Turn on dry run to preview actions that change your data'}
+                    >
+                        DRY RUN
+                    </button>
                     <VoiceToggle isEnabled={isVoiceOutputEnabled} onToggle={handleToggleVoice} disabled={!audioContextRef.current} />
                 </div>
                 <div className="flex flex-col items-center">
@@ -631,16 +1121,27 @@ const App: React.FC = () => {
                 </div>
             </header>
             
-            <main className="flex-1 flex flex-col min-h-0">
-                <ChatInterface
-                    key={activeChatId} // Force re-mount on chat switch to clear state
-                    messages={activeChat?.messages || []}
-                    isLoading={isLoading}
-                    onSendMessage={handleSendMessage}
-                    onConsent={handleConsent}
-                    isProjectKeyNeeded={isProjectKeyNeeded}
-                    onSelectProjectKey={handleSelectProjectKey}
-                />
+            <main className="flex-1 flex gap-4 min-h-0">
+                <div className="flex-1 flex flex-col min-h-0 min-w-0">
+                    <ChatInterface
+                        key={activeChatId} // Force re-mount on chat switch to clear state
+                        messages={activeChat?.messages || []}
+                        isLoading={isLoading}
+                        onSendMessage={handleSendMessage}
+                        onConsent={handleConsent}
+                        onUndo={handleUndo}
+                        onSendDraft={handleSendDraft}
+                        integrations={integrations}
+                        onStop={handleStop}
+                        priceTable={priceTable}
+                        modelOverride={activeChat?.modelOverride}
+                        summary={activeChat?.summary}
+                        onModelOverrideChange={handleModelOverrideChange}
+                        isProjectKeyNeeded={isProjectKeyNeeded}
+                        onSelectProjectKey={handleSelectProjectKey}
+                    />
+                </div>
+                {isTasksConnected && <TaskPanel tasks={tasks} onAdd={handleAddTask} onComplete={handleCompleteTask} />}
             </main>
             
             <ConnectionsModal 
@@ -648,6 +1149,46 @@ const App: React.FC = () => {
                 onClose={() => setIsConnectionsModalOpen(false)}
                 integrations={integrations}
                 onToggle={handleToggleIntegration}
+                consentRules={consentRules}
+                onRevokeConsent={handleRevokeConsent}
+                importedMailCounts={importedMailCounts}
+                onImportMail={handleImportMail}
+                onClearMailbox={handleClearMailbox}
+                calendarSource={getCalendarAdapter().name}
+                smartHomeSource={getSmartHomeAdapter().name}
+                mqttDevices={mqttDevices}
+                onSaveMqttDevices={handleSaveMqttDevices}
+                onImportCalendar={handleImportCalendar}
+                onExportCalendar={handleExportCalendar}
+                importedWellbeingDays={importedWellbeingDays}
+                onImportWellbeing={handleImportWellbeing}
+                onClearWellbeing={handleClearWellbeing}
+                onOpenWellbeingDashboard={handleOpenWellbeingDashboard}
+            />
+            <WellbeingDashboard
+                isOpen={isWellbeingDashboardOpen}
+                onClose={() => setIsWellbeingDashboardOpen(false)}
+                importedDays={importedWellbeingDays}
+            />
+            <UsageDashboard
+                isOpen={isUsageDashboardOpen}
+                onClose={() => setIsUsageDashboardOpen(false)}
+                sessions={chatSessions}
+                priceTable={priceTable}
+                onPriceTableChange={handlePriceTableChange}
+            />
+            <AuditLogViewer
+                isOpen={isAuditLogOpen}
+                onClose={() => setIsAuditLogOpen(false)}
+                entries={auditLog}
+                sessions={chatSessions}
+                onClear={handleClearAuditLog}
+            />
+            <RoutingSettingsModal
+                isOpen={isRoutingSettingsOpen}
+                onClose={() => setIsRoutingSettingsOpen(false)}
+                config={routingConfig}
+                onConfigChange={handleRoutingConfigChange}
             />
             <LiveConversationModal
                 isOpen={isLiveModeOpen}
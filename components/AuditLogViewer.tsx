@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import { type AuditConsent, type AuditEntry, type ChatSession } from '../types';
+import { filterAuditLog, exportAuditLogJson, exportAuditLogCsv, type AuditFilter } from '../services/auditService';
+import { getTool } from '../services/tools';
+
+interface AuditLogViewerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    entries: AuditEntry[];
+    sessions: ChatSession[];
+    onClear: () => void;
+}
+
+const CONSENT_LABELS: Record<AuditConsent, string> = {
+    'not-required': 'Not needed',
+    'remembered': 'Remembered',
+    'granted': 'Granted',
+    'denied': 'Denied',
+    'requested': 'Asked',
+};
+
+const CONSENT_COLORS: Record<AuditConsent, string> = {
+    'not-required': 'text-slate-400',
+    'remembered': 'text-cyan-300',
+    'granted': 'text-green-300',
+    'denied': 'text-red-300',
+    'requested': 'text-amber-300',
+};
+
+const selectClasses = "bg-slate-900/80 border border-slate-600 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+function downloadFile(content: string, type: string, extension: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `jarvis-audit-log-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Lists every tool call the assistant made, newest first, with filters and JSON/CSV export of the filtered entries.
+ */
+export const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ isOpen, onClose, entries, sessions, onClear }) => {
+    const [filter, setFilter] = useState<AuditFilter>({});
+
+    const filtered = useMemo(() => filterAuditLog(entries, filter).reverse(), [entries, filter]);
+    const toolNames = useMemo(() => [...new Set(entries.map(e => e.toolName))].sort(), [entries]);
+    const sessionIds = useMemo(() => [...new Set(entries.map(e => e.sessionId).filter((id): id is string => !!id))], [entries]);
+
+    if (!isOpen) return null;
+
+    // Same title as the chat history panel: the first user message
+    const getSessionLabel = (sessionId: string) => {
+        const session = sessions.find(s => s.id === sessionId);
+        return session ? session.messages.find(m => m.author === 'user')?.text.substring(0, 40) || 'New Chat' : 'Deleted chat';
+    };
+
+    const updateFilter = (changes: Partial<AuditFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="audit-title"
+        >
+            <div
+                className="bg-slate-800/80 border border-slate-700 rounded-xl shadow-2xl w-full max-w-3xl"
+                onClick={e => e.stopPropagation()} // Prevent closing when clicking inside
+            >
+                <header className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <h2 id="audit-title" className="text-lg font-bold text-slate-200">Tool Audit Log</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-slate-400 hover:bg-slate-700"
+                        aria-label="Close"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </header>
+
+                <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="search"
+                            value={filter.query ?? ''}
+                            onChange={e => updateFilter({ query: e.target.value })}
+                            placeholder="Search arguments, results, errors"
+                            className={`${selectClasses} flex-1 min-w-[12rem]`}
+                            aria-label="Search the audit log"
+                        />
+                        <select value={filter.toolName ?? ''} onChange={e => updateFilter({ toolName: e.target.value || undefined })} className={selectClasses} aria-label="Filter by tool">
+                            <option value="">All tools</option>
+                            {toolNames.map(name => <option key={name} value={name}>{getTool(name)?.label ?? name}</option>)}
+                        </select>
+                        <select value={filter.sessionId ?? ''} onChange={e => updateFilter({ sessionId: e.target.value || undefined })} className={selectClasses} aria-label="Filter by chat">
+                            <option value="">All chats</option>
+                            {sessionIds.map(id => <option key={id} value={id}>{getSessionLabel(id)}</option>)}
+                        </select>
+                        <select value={filter.consent ?? ''} onChange={e => updateFilter({ consent: (e.target.value || undefined) as AuditConsent | undefined })} className={selectClasses} aria-label="Filter by consent">
+                            <option value="">Any consent</option>
+                            {(Object.keys(CONSENT_LABELS) as AuditConsent[]).map(consent => <option key={consent} value={consent}>{CONSENT_LABELS[consent]}</option>)}
+                        </select>
+                        <label className="flex items-center gap-1 text-xs text-slate-400">
+                            <input type="checkbox" checked={!!filter.errorsOnly} onChange={e => updateFilter({ errorsOnly: e.target.checked })} className="accent-cyan-500" />
+                            Errors only
+                        </label>
+                    </div>
+
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="text-slate-400">{filtered.length} of {entries.length} calls</span>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => downloadFile(exportAuditLogJson(filtered), 'application/json', 'json')}
+                                disabled={filtered.length === 0}
+                                className="text-cyan-400 hover:text-cyan-300 disabled:text-slate-500"
+                            >
+                                Export JSON
+                            </button>
+                            <button
+                                onClick={() => downloadFile(exportAuditLogCsv(filtered), 'text/csv', 'csv')}
+                                disabled={filtered.length === 0}
+                                className="text-cyan-400 hover:text-cyan-300 disabled:text-slate-500"
+                            >
+                                Export CSV
+                            </button>
+                            <button
+                                onClick={onClear}
+                                disabled={entries.length === 0}
+                                className="text-slate-400 hover:text-red-300 disabled:text-slate-500"
+                            >
+                                Clear log
+                            </button>
+                        </div>
+                    </div>
+
+                    {filtered.length === 0 ? (
+                        <p className="text-sm text-slate-400">{entries.length === 0 ? 'No tool calls recorded yet.' : 'No calls match these filters.'}</p>
+                    ) : (
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-slate-400">
+                                <tr>
+                                    <th className="py-1 font-semibold">Time</th>
+                                    <th className="py-1 font-semibold">Tool</th>
+                                    <th className="py-1 font-semibold">Consent</th>
+                                    <th className="py-1 font-semibold">Outcome</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-300">
+                                {filtered.map(entry => (
+                                    <tr key={entry.id} className="border-t border-slate-700/50 align-top">
+                                        <td className="py-1.5 pr-2 text-xs text-slate-400 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                        <td className="py-1.5 pr-2">
+                                            <details>
+                                                <summary className="cursor-pointer">{getTool(entry.toolName)?.label ?? entry.toolName}</summary>
+                                                <pre className="mt-1 text-[11px] text-slate-400 whitespace-pre-wrap break-all">{JSON.stringify(entry.args, null, 2)}</pre>
+                                            </details>
+                                        </td>
+                                        <td className={`py-1.5 pr-2 text-xs ${CONSENT_COLORS[entry.consent]}`}>{CONSENT_LABELS[entry.consent]}</td>
+                                        <td className="py-1.5 text-xs">
+                                            {entry.dryRun && <span className="font-semibold text-amber-300">Dry run · </span>}
+                                            {entry.error !== undefined
+                                                ? <span className="text-red-300">{entry.error}</span>
+                                                : entry.summary ?? <span className="text-slate-500">Waiting for the user</span>}
+                                            {entry.durationMs !== undefined && <span className="text-slate-500"> · {entry.durationMs} ms</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
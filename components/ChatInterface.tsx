@@ -1,19 +1,31 @@
 
 import React, { useRef, useEffect } from 'react';
-import { type ChatMessage } from '../types';
+import { type ChatMessage, type PriceTable, type ModelChoice, type ConversationSummary, type ConsentChoice, type ServiceIntegration, type EmailDraft } from '../types';
 import { Message } from './Message';
 import { InputBar } from './InputBar';
+import { ModelOverridePicker } from './ModelOverridePicker';
+import { ConsentPrompt } from './ConsentPrompt';
+import { EmailDraftCard } from './EmailDraftCard';
+import { WellbeingChartView } from './WellbeingChartView';
 
 interface ChatInterfaceProps {
     messages: ChatMessage[];
     isLoading: boolean;
     onSendMessage: (text: string, media?: {type: 'image' | 'video' | 'audio', data: string}, options?: {aspectRatio?: string}) => void;
-    onConsent: (message: ChatMessage) => void;
+    onConsent: (message: ChatMessage, choice: ConsentChoice, toolArgs: Record<string, any>) => void;
+    onUndo: (message: ChatMessage, activityIndex: number) => void;
+    onSendDraft: (draft: EmailDraft) => Promise<void>;
+    integrations: ServiceIntegration[];
+    onStop: () => void;
+    priceTable: PriceTable;
+    modelOverride?: ModelChoice;
+    onModelOverrideChange: (override: ModelChoice | undefined) => void;
+    summary?: ConversationSummary;
     isProjectKeyNeeded: boolean;
     onSelectProjectKey: () => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isLoading, onSendMessage, onConsent, isProjectKeyNeeded, onSelectProjectKey }) => {
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isLoading, onSendMessage, onConsent, onUndo, onSendDraft, integrations, onStop, priceTable, modelOverride, onModelOverrideChange, summary, isProjectKeyNeeded, onSelectProjectKey }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     const scrollToBottom = () => {
@@ -41,6 +53,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isLoadin
                 )}
                 {messages.map((msg, index) => (
                     <div key={index}>
+                        {summary && index === summary.coveredCount && (
+                            <details className="my-3 text-xs text-slate-500">
+                                <summary className="cursor-pointer text-center list-none border-t border-slate-700/70 pt-2 hover:text-slate-300">
+                                    Messages above are summarized for the assistant
+                                </summary>
+                                <p className="mt-2 p-3 bg-slate-900/50 rounded-lg text-slate-400 whitespace-pre-wrap">{summary.text}</p>
+                            </details>
+                        )}
                         <Message 
                             author={msg.author} 
                             text={msg.text} 
@@ -50,18 +70,34 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isLoadin
                             generatedImage={msg.generatedImage} 
                             generatedVideo={msg.generatedVideo}
                             groundingSources={msg.groundingSources}
+                            isStreaming={msg.isStreaming}
+                            interrupted={msg.interrupted}
+                            usage={msg.usage}
+                            priceTable={priceTable}
+                            route={msg.route}
+                            toolActivity={msg.toolActivity}
+                            onUndo={isLoading ? undefined : activityIndex => onUndo(msg, activityIndex)}
                         />
-                        {msg.author === 'ai' && msg.requiresConsent && !msg.consentGranted && (
-                            <div className="flex justify-start pl-11 pt-2 animate-fade-in">
-                                <button 
-                                    onClick={() => onConsent(msg)}
-                                    disabled={isLoading}
-                                    className="text-sm font-semibold bg-cyan-500 text-white rounded-lg px-4 py-2 hover:bg-cyan-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 transition-colors disabled:bg-slate-600"
-                                >
-                                    Grant Access & Proceed
-                                </button>
+                        {msg.author === 'ai' && msg.wellbeingChart && (
+                            <div className="ml-11 mt-2 p-3 max-w-xl bg-slate-800/60 border border-slate-700 rounded-lg">
+                                <WellbeingChartView chart={msg.wellbeingChart} />
                             </div>
                         )}
+                        {msg.author === 'ai' && msg.emailDraft && (
+                            <EmailDraftCard
+                                draft={msg.emailDraft}
+                                disabled={isLoading}
+                                onSend={onSendDraft}
+                            />
+                        )}
+                        {msg.author === 'ai' && msg.requiresConsent && msg.action && !msg.consentGranted && !msg.consentDenied && (
+                            <ConsentPrompt
+                                action={msg.action}
+                                integrations={integrations}
+                                disabled={isLoading}
+                                onDecide={(choice, toolArgs) => onConsent(msg, choice, toolArgs)}
+                            />
+                        )}
                     </div>
                 ))}
                 {isLoading && messages[messages.length-1]?.author === 'user' && (
@@ -70,6 +106,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, isLoadin
                 <div ref={messagesEndRef} />
             </div>
             <div className="p-4 bg-slate-800/70 border-t border-slate-700/50 flex-shrink-0">
+                {isLoading && (
+                    <div className="flex justify-center mb-3 animate-fade-in">
+                        <button
+                            onClick={onStop}
+                            className="flex items-center gap-2 text-sm font-semibold text-slate-300 bg-slate-700/80 border border-slate-600 rounded-lg px-4 py-1.5 hover:bg-slate-700 hover:text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-colors"
+                            aria-label="Stop generating"
+                        >
+                            <span className="w-3 h-3 bg-current rounded-sm" aria-hidden="true"></span>
+                            Stop
+                        </button>
+                    </div>
+                )}
+                <ModelOverridePicker override={modelOverride} onChange={onModelOverrideChange} disabled={isLoading} />
                 <InputBar onSendMessage={onSendMessage} isLoading={isLoading} />
             </div>
         </div>
@@ -1,12 +1,36 @@
 
-import React from 'react';
-import { type ServiceIntegration, ServiceAccount } from '../types';
+import React, { useState } from 'react';
+import { type ServiceIntegration, type ServiceName, type ConsentRule, ServiceAccount } from '../types';
+import { getToolsForIntegration } from '../services/tools';
+import { type MailImportResult } from '../services/email';
+import { type WellbeingImportResult } from '../services/wellbeing';
+import { validateMqttDevice, parsePayloads, formatPayloads, type MqttDeviceMapping } from '../services/smarthome';
+import { describeConsentScope } from './ConsentPrompt';
 
 interface ConnectionsModalProps {
     isOpen: boolean;
     onClose: () => void;
     integrations: ServiceIntegration[];
     onToggle: (serviceId: string, accountId?: string) => void;
+    consentRules: ConsentRule[];
+    onRevokeConsent: (ruleId: string) => void;
+    // Number of imported messages per email account
+    importedMailCounts: { [accountId: string]: number };
+    onImportMail: (accountId: string, files: File[]) => Promise<MailImportResult>;
+    onClearMailbox: (accountId: string) => void;
+    // Where the calendar is kept, e.g. "local" or "caldav"
+    calendarSource: string;
+    onImportCalendar: (files: File[]) => Promise<number>;
+    onExportCalendar: () => Promise<void>;
+    // Where devices come from, e.g. "sample", "home-assistant" or "home-assistant+mqtt"
+    smartHomeSource: string;
+    mqttDevices: MqttDeviceMapping[];
+    onSaveMqttDevices: (devices: MqttDeviceMapping[]) => void;
+    // Days with imported health data; 0 while the sample data is used
+    importedWellbeingDays: number;
+    onImportWellbeing: (files: File[]) => Promise<WellbeingImportResult>;
+    onClearWellbeing: () => void;
+    onOpenWellbeingDashboard: () => void;
 }
 
 interface ToggleSwitchProps {
@@ -33,8 +57,325 @@ const ToggleSwitch: React.FC<ToggleSwitchProps> = ({ checked, onChange, label })
     </button>
 );
 
+// What the assistant can do with a connection, from the tool registry.
+const ToolList: React.FC<{ integration: ServiceName }> = ({ integration }) => {
+    const tools = getToolsForIntegration(integration);
+    if (tools.length === 0) return null;
+    return (
+        <ul className="mt-2 pl-10 flex flex-wrap gap-1.5">
+            {tools.map(tool => (
+                <li
+                    key={tool.declaration.name}
+                    className="text-[11px] bg-slate-700/60 text-slate-300 rounded px-1.5 py-0.5"
+                    title={tool.declaration.description}
+                >
+                    {tool.label}
+                    {tool.privacy === 'private' && <span className="ml-1 text-amber-300/90">· {tool.alwaysAsk === true ? 'asks every time' : tool.alwaysAsk ? 'asks first, some every time' : 'asks first'}</span>}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+interface MailboxImportProps {
+    accountId: string;
+    count: number;
+    onImport: (accountId: string, files: File[]) => Promise<MailImportResult>;
+    onClear: (accountId: string) => void;
+}
+
+function describeImport({ imported, duplicates, failed }: MailImportResult): string {
+    const parts = [`Imported ${imported} message${imported === 1 ? '' : 's'}`];
+    if (duplicates > 0) parts.push(`${duplicates} already imported`);
+    if (failed.length > 0) parts.push(`${failed.length} file${failed.length === 1 ? '' : 's'} unreadable`);
+    return parts.join(', ');
+}
+
+// Imports local mail for an account: mbox or .eml files, or a whole Maildir folder.
+const MailboxImport: React.FC<MailboxImportProps> = ({ accountId, count, onImport, onClear }) => {
+    const [status, setStatus] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = ''; // Lets the same files be picked again
+        if (files.length === 0) return;
+        setIsImporting(true);
+        try {
+            setStatus(describeImport(await onImport(accountId, files)));
+        } catch (error) {
+            console.error('Failed to import mail:', error);
+            setStatus('Import failed.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const linkClasses = "cursor-pointer text-cyan-400 hover:text-cyan-300";
+    return (
+        <div className="pl-4 text-[11px] text-slate-400 space-y-0.5">
+            <div className="flex flex-wrap items-center gap-x-3">
+                <span>{isImporting ? 'Importing…' : count > 0 ? `${count} imported messages` : 'Sample mail'}</span>
+                <label className={linkClasses}>
+                    Import files
+                    <input type="file" multiple accept=".mbox,.mbx,.eml,message/rfc822" onChange={handleFiles} disabled={isImporting} className="hidden" />
+                </label>
+                <label className={linkClasses}>
+                    Import Maildir
+                    {/* webkitdirectory isn't in React's input props */}
+                    <input type="file" {...({ webkitdirectory: '' } as object)} onChange={handleFiles} disabled={isImporting} className="hidden" />
+                </label>
+                {count > 0 && (
+                    <button onClick={() => { onClear(accountId); setStatus(null); }} className="hover:text-red-400">
+                        Clear
+                    </button>
+                )}
+            </div>
+            {status && <p>{status}</p>}
+        </div>
+    );
+};
+
+interface CalendarFilesProps {
+    source: string;
+    onImport: (files: File[]) => Promise<number>;
+    onExport: () => Promise<void>;
+}
+
+// Imports .ics files into the calendar and exports it as one.
+const CalendarFiles: React.FC<CalendarFilesProps> = ({ source, onImport, onExport }) => {
+    const [status, setStatus] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const run = async (action: () => Promise<string | null>, failure: string) => {
+        setIsBusy(true);
+        try {
+            setStatus(await action());
+        } catch (error) {
+            console.error(failure, error);
+            setStatus(`${failure} ${(error as Error).message}`);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = ''; // Lets the same files be picked again
+        if (files.length === 0) return;
+        run(async () => {
+            const count = await onImport(files);
+            return `Imported ${count} event${count === 1 ? '' : 's'}`;
+        }, 'Import failed.');
+    };
+
+    const linkClasses = "cursor-pointer text-cyan-400 hover:text-cyan-300";
+    return (
+        <div className="mt-2 pl-10 text-[11px] text-slate-400 space-y-0.5">
+            <div className="flex flex-wrap items-center gap-x-3">
+                <span>{isBusy ? 'Working…' : source === 'caldav' ? 'Synced with CalDAV' : 'Stored in this browser'}</span>
+                <label className={linkClasses}>
+                    Import .ics
+                    <input type="file" multiple accept=".ics,text/calendar" onChange={handleFiles} disabled={isBusy} className="hidden" />
+                </label>
+                <button onClick={() => run(async () => { await onExport(); return null; }, 'Export failed.')} disabled={isBusy} className={linkClasses}>
+                    Export .ics
+                </button>
+            </div>
+            {status && <p>{status}</p>}
+        </div>
+    );
+};
+
+interface WellbeingImportProps {
+    days: number;
+    onImport: (files: File[]) => Promise<WellbeingImportResult>;
+    onClear: () => void;
+    onOpenDashboard: () => void;
+}
+
+function describeWellbeingImport({ days, failed }: WellbeingImportResult): string {
+    const parts = [days > 0 ? `Imported ${days} day${days === 1 ? '' : 's'} of data` : 'Found no health data'];
+    if (failed.length > 0) parts.push(`${failed.length} file${failed.length === 1 ? '' : 's'} not recognized`);
+    return parts.join(', ');
+}
+
+// Imports health data: an Apple Health export.xml, a Google Takeout Fit folder or CSV files.
+const WellbeingImport: React.FC<WellbeingImportProps> = ({ days, onImport, onClear, onOpenDashboard }) => {
+    const [status, setStatus] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
 
-export const ConnectionsModal: React.FC<ConnectionsModalProps> = ({ isOpen, onClose, integrations, onToggle }) => {
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = ''; // Lets the same files be picked again
+        if (files.length === 0) return;
+        setIsImporting(true);
+        try {
+            setStatus(describeWellbeingImport(await onImport(files)));
+        } catch (error) {
+            console.error('Failed to import health data:', error);
+            setStatus('Import failed.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const linkClasses = "cursor-pointer text-cyan-400 hover:text-cyan-300";
+    return (
+        <div className="mt-2 pl-10 text-[11px] text-slate-400 space-y-0.5">
+            <div className="flex flex-wrap items-center gap-x-3">
+                <span>{isImporting ? 'Importing…' : days > 0 ? `${days} days of imported data` : 'Sample data'}</span>
+                <button onClick={onOpenDashboard} className={linkClasses}>
+                    Charts
+                </button>
+                <label className={linkClasses}>
+                    Import files
+                    <input type="file" multiple accept=".xml,.csv,.json" onChange={handleFiles} disabled={isImporting} className="hidden" />
+                </label>
+                <label className={linkClasses}>
+                    Import folder
+                    {/* webkitdirectory isn't in React's input props */}
+                    <input type="file" {...({ webkitdirectory: '' } as object)} onChange={handleFiles} disabled={isImporting} className="hidden" />
+                </label>
+                {days > 0 && (
+                    <button onClick={() => { onClear(); setStatus(null); }} className="hover:text-red-400">
+                        Clear
+                    </button>
+                )}
+            </div>
+            {status && <p>{status}</p>}
+        </div>
+    );
+};
+
+const SMART_HOME_SOURCES: { [source: string]: string } = {
+    'home-assistant': 'Connected to Home Assistant',
+    'home-assistant+mqtt': 'Connected to Home Assistant and MQTT',
+    mqtt: 'Connected to MQTT',
+    sample: 'Sample home',
+};
+
+interface MqttDevicesProps {
+    devices: MqttDeviceMapping[];
+    onSave: (devices: MqttDeviceMapping[]) => void;
+}
+
+const EMPTY_MQTT_FORM = { id: '', name: '', stateTopic: '', stateField: '', commandTopic: '', commandTemplate: '', payloads: '', unit: '' };
+
+const MQTT_FIELDS: { field: keyof typeof EMPTY_MQTT_FORM, placeholder: string }[] = [
+    { field: 'name', placeholder: 'Name, e.g. Garage light' },
+    { field: 'id', placeholder: 'Id, e.g. light.garage' },
+    { field: 'stateTopic', placeholder: 'State topic, e.g. zigbee2mqtt/garage' },
+    { field: 'stateField', placeholder: 'JSON field with the state (optional), e.g. state' },
+    { field: 'commandTopic', placeholder: 'Command topic (optional), e.g. zigbee2mqtt/garage/set' },
+    { field: 'commandTemplate', placeholder: 'Command payload (optional), e.g. {"state":"{value}"}' },
+    { field: 'payloads', placeholder: 'Payloads (optional), e.g. on=1, off=0' },
+    { field: 'unit', placeholder: 'Unit (optional), e.g. °C' },
+];
+
+// The topics and payloads of devices that speak plain MQTT, added to and edited here.
+const MqttDevices: React.FC<MqttDevicesProps> = ({ devices, onSave }) => {
+    const [form, setForm] = useState<typeof EMPTY_MQTT_FORM | null>(null);
+    // The id of the device being edited; null while adding one
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const openForm = (device?: MqttDeviceMapping) => {
+        setEditingId(device?.id ?? null);
+        setForm(device ? { ...EMPTY_MQTT_FORM, ...device, payloads: formatPayloads(device.payloads) } : EMPTY_MQTT_FORM);
+        setError(null);
+    };
+
+    const handleSave = () => {
+        if (!form) return;
+        // Optional fields left empty are left out
+        const optional = (value: string) => value.trim() || undefined;
+        const device: MqttDeviceMapping = {
+            id: form.id.trim(),
+            name: form.name.trim(),
+            stateTopic: form.stateTopic.trim(),
+            stateField: optional(form.stateField),
+            commandTopic: optional(form.commandTopic),
+            commandTemplate: optional(form.commandTemplate),
+            payloads: parsePayloads(form.payloads),
+            unit: optional(form.unit),
+        };
+        const others = devices.filter(other => other.id !== editingId);
+        const problem = validateMqttDevice(device, others);
+        if (problem) return setError(problem);
+        onSave(editingId ? devices.map(other => other.id === editingId ? device : other) : [...devices, device]);
+        setForm(null);
+    };
+
+    const linkClasses = "cursor-pointer text-cyan-400 hover:text-cyan-300";
+    return (
+        <div className="space-y-1">
+            {devices.map(device => (
+                <div key={device.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate" title={device.stateTopic}>{device.name} <span className="text-slate-500">({device.id})</span></span>
+                    <span className="flex gap-2 flex-shrink-0">
+                        <button onClick={() => openForm(device)} className={linkClasses}>Edit</button>
+                        <button onClick={() => onSave(devices.filter(other => other.id !== device.id))} className="hover:text-red-400">Remove</button>
+                    </span>
+                </div>
+            ))}
+            {form ? (
+                <div className="space-y-1 pt-1">
+                    {MQTT_FIELDS.map(({ field, placeholder }) => (
+                        <input
+                            key={field}
+                            value={form[field]}
+                            onChange={event => setForm({ ...form, [field]: event.target.value })}
+                            placeholder={placeholder}
+                            aria-label={placeholder}
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-[11px] text-slate-200 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                        />
+                    ))}
+                    {error && <p className="text-red-400">{error}</p>}
+                    <div className="flex gap-3">
+                        <button onClick={handleSave} className={linkClasses}>{editingId ? 'Save' : 'Add'}</button>
+                        <button onClick={() => setForm(null)} className="hover:text-slate-200">Cancel</button>
+                    </div>
+                </div>
+            ) : (
+                <button onClick={() => openForm()} className={linkClasses}>Add MQTT device</button>
+            )}
+        </div>
+    );
+};
+
+// Decisions remembered from consent prompts, which the user can take back.
+const RememberedPermissions: React.FC<{ rules: ConsentRule[], onRevoke: (ruleId: string) => void }> = ({ rules, onRevoke }) => {
+    const activeRules = rules.filter(rule => !rule.expiresAt || rule.expiresAt > Date.now());
+    return (
+        <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-200">Remembered permissions</h3>
+            {activeRules.length === 0 ? (
+                <p className="text-xs text-slate-400">None yet. You're asked before the assistant reads or changes private data.</p>
+            ) : (
+                <ul className="space-y-1">
+                    {activeRules.map(rule => (
+                        <li key={rule.id} className="flex items-center justify-between gap-2 p-2 bg-slate-900/50 rounded-lg text-xs">
+                            <span className="text-slate-300">
+                                <span className={rule.effect === 'allow' ? 'text-cyan-400' : 'text-red-400'}>{rule.effect === 'allow' ? 'Allowed' : 'Denied'}</span>
+                                {' '}{describeConsentScope(rule)}
+                                <span className="text-slate-500">
+                                    {rule.sessionId ? ' · one chat' : ''}
+                                    {rule.expiresAt ? ` · until ${new Date(rule.expiresAt).toLocaleString()}` : ''}
+                                </span>
+                            </span>
+                            <button onClick={() => onRevoke(rule.id)} className="text-slate-400 hover:text-red-400" aria-label={`Revoke ${describeConsentScope(rule)}`}>
+                                &times;
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+};
+
+export const ConnectionsModal: React.FC<ConnectionsModalProps> = ({ isOpen, onClose, integrations, onToggle, consentRules, onRevokeConsent, importedMailCounts, onImportMail, onClearMailbox, calendarSource, onImportCalendar, onExportCalendar, smartHomeSource, mqttDevices, onSaveMqttDevices, importedWellbeingDays, onImportWellbeing, onClearWellbeing, onOpenWellbeingDashboard }) => {
     if (!isOpen) return null;
 
     return (
@@ -86,17 +427,40 @@ export const ConnectionsModal: React.FC<ConnectionsModalProps> = ({ isOpen, onCl
                                         />
                                     )}
                                 </div>
+                                <ToolList integration={integration.id} />
+                                {integration.id === 'calendar' && (
+                                    <CalendarFiles source={calendarSource} onImport={onImportCalendar} onExport={onExportCalendar} />
+                                )}
+                                {integration.id === 'smarthome' && (
+                                    <div className="mt-2 pl-10 text-[11px] text-slate-400 space-y-1">
+                                        <p>{SMART_HOME_SOURCES[smartHomeSource] ?? smartHomeSource}</p>
+                                        {smartHomeSource.endsWith('mqtt') && <MqttDevices devices={mqttDevices} onSave={onSaveMqttDevices} />}
+                                    </div>
+                                )}
+                                {integration.id === 'wellbeing' && (
+                                    <WellbeingImport days={importedWellbeingDays} onImport={onImportWellbeing} onClear={onClearWellbeing} onOpenDashboard={onOpenWellbeingDashboard} />
+                                )}
                                 {/* If the integration has sub-accounts (e.g., email), list them with individual toggles */}
                                 {integration.accounts && (
                                     <div className="mt-3 pl-10 space-y-2 border-l border-slate-700 ml-3">
                                         {integration.accounts.map(account => (
-                                            <div key={account.id} className="flex items-center justify-between pl-4">
-                                                <p className="text-sm text-slate-300">{account.id}</p>
-                                                <ToggleSwitch
-                                                    checked={account.connected}
-                                                    onChange={() => onToggle(integration.id, account.id)}
-                                                    label={`Connect ${account.id}`}
-                                                />
+                                            <div key={account.id} className="space-y-1">
+                                                <div className="flex items-center justify-between pl-4">
+                                                    <p className="text-sm text-slate-300">{account.id}</p>
+                                                    <ToggleSwitch
+                                                        checked={account.connected}
+                                                        onChange={() => onToggle(integration.id, account.id)}
+                                                        label={`Connect ${account.id}`}
+                                                    />
+                                                </div>
+                                                {integration.id === 'email' && (
+                                                    <MailboxImport
+                                                        accountId={account.id}
+                                                        count={importedMailCounts[account.id] ?? 0}
+                                                        onImport={onImportMail}
+                                                        onClear={onClearMailbox}
+                                                    />
+                                                )}
                                             </div>
                                         ))}
                                     </div>
@@ -104,6 +468,7 @@ export const ConnectionsModal: React.FC<ConnectionsModalProps> = ({ isOpen, onCl
                             </li>
                         ))}
                     </ul>
+                    <RememberedPermissions rules={consentRules} onRevoke={onRevokeConsent} />
                 </div>
             </div>
         </div>
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { type ConsentChoice, type ConsentDuration, type ConsentScope, type ServiceIntegration } from '../types';
+import { CONSENT_EXPIRY_OPTIONS } from '../services/consentService';
+import { getTool, getConsentScopes, validateArguments, asksEveryTime } from '../services/tools';
+import { ToolArgumentsForm } from './ToolArgumentsForm';
+
+interface ConsentPromptProps {
+    action: { toolName: string; toolArgs: any; };
+    integrations: ServiceIntegration[];
+    disabled?: boolean;
+    // Called with the arguments as the user left them
+    onDecide: (choice: ConsentChoice, toolArgs: Record<string, any>) => void;
+}
+
+const DURATION_OPTIONS: { value: ConsentDuration, label: string }[] = [
+    { value: 'once', label: 'Just this once' },
+    { value: 'session', label: 'For this chat' },
+    { value: 'always', label: 'Always' },
+];
+
+const selectClasses = "bg-slate-900/80 border border-slate-600 rounded px-1.5 py-0.5 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-cyan-500 disabled:opacity-50";
+
+export function describeConsentScope(scope: ConsentScope): string {
+    const label = getTool(scope.toolName)?.label ?? scope.toolName;
+    return scope.account ? `${label} · ${scope.account}` : label;
+}
+
+/**
+ * Asks the user to allow or deny a private tool call, and for how long to remember the answer.
+ * The call's arguments can be reviewed and corrected first; Allow stays disabled while they are invalid.
+ */
+export const ConsentPrompt: React.FC<ConsentPromptProps> = ({ action, integrations, disabled, onDecide }) => {
+    const [duration, setDuration] = useState<ConsentDuration>('once');
+    const [expiryIndex, setExpiryIndex] = useState(0);
+    const [toolArgs, setToolArgs] = useState<Record<string, any>>(action.toolArgs ?? {});
+
+    const tool = getTool(action.toolName);
+    const errors = tool ? validateArguments(tool.declaration.parameters, toolArgs) : [];
+    const scopes = tool ? getConsentScopes(tool, toolArgs, integrations) : [{ toolName: action.toolName }];
+    const alwaysAsk = tool ? asksEveryTime(tool, toolArgs) : false;
+
+    const decide = (effect: ConsentChoice['effect']) => {
+        if (alwaysAsk) {
+            onDecide({ effect, duration: 'once' }, toolArgs);
+            return;
+        }
+        onDecide({ effect, duration, expiresInMs: duration === 'always' ? CONSENT_EXPIRY_OPTIONS[expiryIndex].value : undefined }, toolArgs);
+    };
+
+    return (
+        <div className="ml-11 mt-2 p-3 max-w-xl bg-slate-800/60 border border-slate-700 rounded-lg space-y-3 animate-fade-in">
+            <ul className="text-xs text-slate-300 space-y-0.5">
+                {scopes.map(scope => <li key={`${scope.toolName}-${scope.account ?? ''}`}>{describeConsentScope(scope)}</li>)}
+            </ul>
+            <ToolArgumentsForm
+                parameters={tool?.declaration.parameters}
+                args={toolArgs}
+                onChange={setToolArgs}
+                errors={errors}
+                disabled={disabled}
+            />
+            {alwaysAsk ? (
+                <p className="text-xs text-slate-400">You're asked every time for this.</p>
+            ) : (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                    <label htmlFor="consent-duration">Remember</label>
+                    <select
+                        id="consent-duration"
+                        value={duration}
+                        onChange={e => setDuration(e.target.value as ConsentDuration)}
+                        disabled={disabled}
+                        className={selectClasses}
+                    >
+                        {DURATION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    {duration === 'always' && (
+                        <select
+                            value={expiryIndex}
+                            onChange={e => setExpiryIndex(Number(e.target.value))}
+                            disabled={disabled}
+                            className={selectClasses}
+                            aria-label="Remember for"
+                        >
+                            {CONSENT_EXPIRY_OPTIONS.map((option, index) => <option key={option.label} value={index}>{option.label}</option>)}
+                        </select>
+                    )}
+                </div>
+            )}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => decide('allow')}
+                    disabled={disabled || errors.length > 0}
+                    className="text-sm font-semibold bg-cyan-500 text-white rounded-lg px-4 py-2 hover:bg-cyan-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 transition-colors disabled:bg-slate-600"
+                >
+                    Allow
+                </button>
+                <button
+                    onClick={() => decide('deny')}
+                    disabled={disabled}
+                    className="text-sm font-semibold bg-slate-700 text-slate-200 rounded-lg px-4 py-2 hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-slate-500 transition-colors disabled:opacity-50"
+                >
+                    Deny
+                </button>
+            </div>
+        </div>
+    );
+};
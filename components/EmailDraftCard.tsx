@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { type EmailDraft } from '../types';
+
+interface EmailDraftCardProps {
+    draft: EmailDraft;
+    disabled?: boolean;
+    // Called with the draft as the user left it; resolves once the send attempt is over
+    onSend: (draft: EmailDraft) => Promise<void>;
+}
+
+const inputClasses = "w-full bg-slate-900/80 border border-slate-600 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500 disabled:opacity-50";
+
+const splitAddresses = (text: string) => text.split(',').map(address => address.trim()).filter(Boolean);
+
+/**
+ * An email the assistant drafted. It stays editable until the user sends it; pressing Send is their approval.
+ */
+export const EmailDraftCard: React.FC<EmailDraftCardProps> = ({ draft, disabled, onSend }) => {
+    const [to, setTo] = useState(draft.to.join(', '));
+    const [cc, setCc] = useState(draft.cc?.join(', ') ?? '');
+    const [subject, setSubject] = useState(draft.subject);
+    const [body, setBody] = useState(draft.body);
+    const [isSending, setIsSending] = useState(false);
+
+    if (draft.sentAt) {
+        return (
+            <div className="ml-11 mt-2 p-3 max-w-xl bg-slate-800/60 border border-slate-700 rounded-lg text-sm text-slate-300 space-y-1">
+                <p className="text-xs text-green-300/90">Sent from {draft.accountId} · {new Date(draft.sentAt).toLocaleString()}</p>
+                <p><span className="text-slate-400">To:</span> {draft.to.join(', ')}</p>
+                {draft.cc && <p><span className="text-slate-400">Cc:</span> {draft.cc.join(', ')}</p>}
+                <p className="font-semibold">{draft.subject}</p>
+                <p className="whitespace-pre-wrap text-slate-400">{draft.body}</p>
+            </div>
+        );
+    }
+
+    const recipients = splitAddresses(to);
+    const handleSend = async () => {
+        setIsSending(true);
+        try {
+            const ccAddresses = splitAddresses(cc);
+            await onSend({ ...draft, to: recipients, cc: ccAddresses.length > 0 ? ccAddresses : undefined, subject, body });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const isDisabled = disabled || isSending;
+    return (
+        <div className="ml-11 mt-2 p-3 max-w-xl bg-slate-800/60 border border-slate-700 rounded-lg space-y-2 animate-fade-in">
+            <p className="text-xs text-slate-400">Draft from {draft.accountId}</p>
+            <input value={to} onChange={e => setTo(e.target.value)} disabled={isDisabled} placeholder="To" aria-label="To" className={inputClasses} />
+            <input value={cc} onChange={e => setCc(e.target.value)} disabled={isDisabled} placeholder="Cc" aria-label="Cc" className={inputClasses} />
+            <input value={subject} onChange={e => setSubject(e.target.value)} disabled={isDisabled} placeholder="Subject" aria-label="Subject" className={inputClasses} />
+            <textarea value={body} onChange={e => setBody(e.target.value)} disabled={isDisabled} rows={8} aria-label="Message" className={inputClasses} />
+            {draft.error && <p className="text-xs text-red-300">Not sent: {draft.error}</p>}
+            <button
+                onClick={handleSend}
+                disabled={isDisabled || recipients.length === 0}
+                className="text-sm font-semibold bg-cyan-500 text-white rounded-lg px-4 py-2 hover:bg-cyan-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-800 focus:ring-cyan-500 transition-colors disabled:bg-slate-600"
+            >
+                {isSending ? 'Sending…' : 'Send'}
+            </button>
+        </div>
+    );
+};
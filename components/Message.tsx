@@ -1,6 +1,8 @@
 
 import React from 'react';
-import { type MessageAuthor, type GroundingSource, type GeneratedVideo } from '../types';
+import { type MessageAuthor, type GroundingSource, type GeneratedVideo, type UsageEntry, type PriceTable, type RouteDecision, type ToolActivity } from '../types';
+import { sumUsage, formatCost } from '../services/usageService';
+import { describeRoute } from '../services/routingService';
 
 interface MessageProps {
     author: MessageAuthor;
@@ -12,6 +14,14 @@ interface MessageProps {
     generatedVideo?: GeneratedVideo;
     groundingSources?: GroundingSource[];
     isLoading?: boolean;
+    isStreaming?: boolean;
+    interrupted?: boolean;
+    usage?: UsageEntry[];
+    priceTable?: PriceTable;
+    route?: RouteDecision;
+    toolActivity?: ToolActivity[];
+    // Reverts the tool call at this index of toolActivity
+    onUndo?: (activityIndex: number) => void;
 }
 
 const UserIcon: React.FC = () => (
@@ -51,7 +61,19 @@ const GroundingSources: React.FC<{ sources: GroundingSource[] }> = ({ sources })
     </div>
 );
 
-export const Message: React.FC<MessageProps> = ({ author, text, image, video, audio, generatedImage, generatedVideo, groundingSources, isLoading = false }) => {
+// A one-line summary of the model calls behind a message: models, tokens and estimated cost.
+const UsageSummary: React.FC<{ usage: UsageEntry[], priceTable: PriceTable }> = ({ usage, priceTable }) => {
+    const totals = sumUsage(usage, priceTable);
+    const models = [...new Set(usage.map(u => u.model))].join(', ');
+    const tokens = totals.inputTokens + totals.outputTokens + totals.thinkingTokens;
+    return (
+        <p className="text-[11px] text-slate-500 pt-1" title={`Input ${totals.inputTokens}, output ${totals.outputTokens}, thinking ${totals.thinkingTokens}`}>
+            {models} · {tokens.toLocaleString()} tokens · {formatCost(totals.cost)}
+        </p>
+    );
+};
+
+export const Message: React.FC<MessageProps> = ({ author, text, image, video, audio, generatedImage, generatedVideo, groundingSources, isLoading = false, isStreaming = false, interrupted = false, usage, priceTable, route, toolActivity, onUndo }) => {
     const isUser = author === 'user';
     
     const containerClasses = `flex items-start gap-3 max-w-xl animate-fade-in ${isUser ? 'ml-auto flex-row-reverse' : 'mr-auto'}`;
@@ -89,8 +111,45 @@ export const Message: React.FC<MessageProps> = ({ author, text, image, video, au
                                 </div>
                             )}
                         </MediaGrid>
-                        {text && <p className="text-slate-200 whitespace-pre-wrap">{text}</p>}
+                        {text && (
+                            <p className="text-slate-200 whitespace-pre-wrap">
+                                {text}
+                                {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-cyan-400 animate-pulse" aria-hidden="true"></span>}
+                            </p>
+                        )}
                         {groundingSources && groundingSources.length > 0 && <GroundingSources sources={groundingSources} />}
+                        {toolActivity && toolActivity.length > 0 && (
+                            <ul className="text-xs text-slate-400 space-y-0.5 border-t border-slate-600 pt-2">
+                                {toolActivity.map((activity, index) => (
+                                    <li key={index} className={activity.failed ? 'text-red-300/90' : activity.dryRun ? 'text-amber-300/90' : undefined}>
+                                        {activity.dryRun && <span className="font-semibold">Dry run · </span>}
+                                        <span className={activity.undone ? 'line-through' : undefined}>{activity.summary}</span>
+                                        {activity.undone && ' (undone)'}
+                                        {onUndo && activity.undo && !activity.undone && activity.undo.expiresAt > Date.now() && (
+                                            <button
+                                                onClick={() => onUndo(index)}
+                                                className="ml-2 text-cyan-400 hover:text-cyan-300 font-semibold"
+                                                title={`Available until ${new Date(activity.undo.expiresAt).toLocaleTimeString()}`}
+                                            >
+                                                Undo
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        {interrupted && <p className="text-xs italic text-slate-400">Response stopped.</p>}
+                        {route?.fallbackFrom && (
+                            <p className="text-xs text-amber-300/90 pt-1">
+                                {route.fallbackFrom} was unavailable, so {route.model} answered instead.
+                            </p>
+                        )}
+                        {route && (
+                            <p className="text-[11px] text-slate-500 pt-1">
+                                Answered by {route.model}{route.thinkingBudget !== undefined ? ` (thinking ${route.thinkingBudget})` : ''} · {describeRoute(route)}
+                            </p>
+                        )}
+                        {usage && usage.length > 0 && priceTable && <UsageSummary usage={usage} priceTable={priceTable} />}
                     </div>
                 )}
             </div>
@@ -0,0 +1,62 @@
+import React from 'react';
+import { type ModelChoice } from '../types';
+import { ROUTABLE_MODELS, getThinkingOptions } from '../services/routingService';
+
+interface ModelOverridePickerProps {
+    override?: ModelChoice;
+    onChange: (override: ModelChoice | undefined) => void;
+    disabled?: boolean;
+}
+
+const AUTO = 'auto';
+
+const selectClasses = "bg-slate-900/80 border border-slate-600 rounded px-1.5 py-0.5 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-cyan-500 disabled:opacity-50";
+
+// Lets the user pin this chat to a model and thinking budget instead of routing each message.
+export const ModelOverridePicker: React.FC<ModelOverridePickerProps> = ({ override, onChange, disabled }) => {
+    const handleModelChange = (model: string) => {
+        if (model === AUTO) {
+            onChange(undefined);
+            return;
+        }
+        // Keep the budget if the new model supports it
+        const keepBudget = getThinkingOptions(model).some(o => o.value === override?.thinkingBudget);
+        onChange({ model, thinkingBudget: keepBudget ? override?.thinkingBudget : undefined });
+    };
+
+    const handleBudgetChange = (value: string) => {
+        onChange({ model: override!.model, thinkingBudget: value === '' ? undefined : Number(value) });
+    };
+
+    return (
+        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+            <label htmlFor="model-override">Model</label>
+            <select
+                id="model-override"
+                value={override?.model ?? AUTO}
+                onChange={e => handleModelChange(e.target.value)}
+                disabled={disabled}
+                className={selectClasses}
+            >
+                <option value={AUTO}>Auto (routing rules)</option>
+                {ROUTABLE_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+            {override && (
+                <>
+                    <label htmlFor="thinking-override">Thinking</label>
+                    <select
+                        id="thinking-override"
+                        value={override.thinkingBudget ?? ''}
+                        onChange={e => handleBudgetChange(e.target.value)}
+                        disabled={disabled}
+                        className={selectClasses}
+                    >
+                        {getThinkingOptions(override.model).map(option => (
+                            <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                        ))}
+                    </select>
+                </>
+            )}
+        </div>
+    );
+};
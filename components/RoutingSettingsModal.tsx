@@ -0,0 +1,232 @@
+import React from 'react';
+import { type RoutingConfig, type RoutingRule, type RouteTier, type ModelChoice } from '../types';
+import { DEFAULT_ROUTING_CONFIG, ROUTABLE_MODELS, ROUTE_TIERS, getThinkingOptions } from '../services/routingService';
+
+interface RoutingSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    config: RoutingConfig;
+    onConfigChange: (config: RoutingConfig) => void;
+}
+
+const MEDIA_TYPES: ('image' | 'video' | 'audio')[] = ['image', 'video', 'audio'];
+
+const inputClasses = "bg-slate-900/80 border border-slate-600 rounded px-1.5 py-0.5 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+export const RoutingSettingsModal: React.FC<RoutingSettingsModalProps> = ({ isOpen, onClose, config, onConfigChange }) => {
+    if (!isOpen) return null;
+
+    const updateRule = (id: string, changes: Partial<RoutingRule>) => {
+        onConfigChange({ ...config, rules: config.rules.map(r => r.id === id ? { ...r, ...changes } : r) });
+    };
+
+    const moveRule = (index: number, offset: number) => {
+        const rules = [...config.rules];
+        const [rule] = rules.splice(index, 1);
+        rules.splice(index + offset, 0, rule);
+        onConfigChange({ ...config, rules });
+    };
+
+    const addRule = () => {
+        const rule: RoutingRule = { id: Date.now().toString(), name: 'New rule', keywords: [], tier: 'complex' };
+        onConfigChange({ ...config, rules: [...config.rules, rule] });
+    };
+
+    const toggleMediaType = (rule: RoutingRule, mediaType: 'image' | 'video' | 'audio') => {
+        const current = rule.mediaTypes ?? [];
+        const mediaTypes = current.includes(mediaType) ? current.filter(t => t !== mediaType) : [...current, mediaType];
+        updateRule(rule.id, { mediaTypes: mediaTypes.length > 0 ? mediaTypes : undefined });
+    };
+
+    const updateTier = (tier: RouteTier, choice: ModelChoice) => {
+        onConfigChange({ ...config, tiers: { ...config.tiers, [tier]: choice } });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="routing-title"
+        >
+            <div
+                className="bg-slate-800/80 border border-slate-700 rounded-xl shadow-2xl w-full max-w-2xl"
+                onClick={e => e.stopPropagation()} // Prevent closing when clicking inside
+            >
+                <header className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <h2 id="routing-title" className="text-lg font-bold text-slate-200">Model Routing</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-slate-400 hover:bg-slate-700"
+                        aria-label="Close"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </header>
+
+                <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto text-sm">
+                    <p className="text-slate-400">
+                        Each message goes to the first rule that matches. If none does, a small classifier model picks the tier, or the default tier is used. A model chosen for a chat overrides all of this.
+                    </p>
+
+                    <section>
+                        <h3 className="font-semibold text-slate-200 mb-2">Tiers</h3>
+                        <div className="space-y-2">
+                            {ROUTE_TIERS.map(tier => (
+                                <div key={tier} className="flex items-center gap-2">
+                                    <span className="w-20 capitalize text-slate-300">{tier}</span>
+                                    <select
+                                        value={config.tiers[tier].model}
+                                        onChange={e => updateTier(tier, { model: e.target.value })}
+                                        className={inputClasses}
+                                        aria-label={`${tier} model`}
+                                    >
+                                        {ROUTABLE_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                                    </select>
+                                    <select
+                                        value={config.tiers[tier].thinkingBudget ?? ''}
+                                        onChange={e => updateTier(tier, { ...config.tiers[tier], thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                        className={inputClasses}
+                                        aria-label={`${tier} thinking budget`}
+                                    >
+                                        {getThinkingOptions(config.tiers[tier].model).map(option => (
+                                            <option key={option.label} value={option.value ?? ''}>Thinking: {option.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+
+                    <section>
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="font-semibold text-slate-200">Rules</h3>
+                            <button onClick={addRule} className="text-xs text-cyan-400 hover:text-cyan-300">Add rule</button>
+                        </div>
+                        {config.rules.length === 0 && <p className="text-xs text-slate-400">No rules. Every message is classified.</p>}
+                        <ul className="space-y-2">
+                            {config.rules.map((rule, index) => (
+                                <li key={rule.id} className="p-3 bg-slate-900/50 rounded-lg space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            value={rule.name}
+                                            onChange={e => updateRule(rule.id, { name: e.target.value })}
+                                            className={`${inputClasses} flex-1`}
+                                            aria-label="Rule name"
+                                        />
+                                        <span className="text-xs text-slate-400">sends to</span>
+                                        <select
+                                            value={rule.tier}
+                                            onChange={e => updateRule(rule.id, { tier: e.target.value as RouteTier })}
+                                            className={inputClasses}
+                                            aria-label={`${rule.name} tier`}
+                                        >
+                                            {ROUTE_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+                                        </select>
+                                        <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-slate-200 disabled:opacity-30" aria-label="Move rule up">&uarr;</button>
+                                        <button onClick={() => moveRule(index, 1)} disabled={index === config.rules.length - 1} className="text-slate-400 hover:text-slate-200 disabled:opacity-30" aria-label="Move rule down">&darr;</button>
+                                        <button
+                                            onClick={() => onConfigChange({ ...config, rules: config.rules.filter(r => r.id !== rule.id) })}
+                                            className="text-slate-400 hover:text-red-400"
+                                            aria-label={`Delete ${rule.name}`}
+                                        >
+                                            &times;
+                                        </button>
+                                    </div>
+                                    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                                        <label className="flex items-center gap-1">
+                                            Keywords
+                                            <input
+                                                value={rule.keywords?.join(', ') ?? ''}
+                                                onChange={e => updateRule(rule.id, { keywords: e.target.value.split(',').map(k => k.trimStart()) })}
+                                                placeholder="any message"
+                                                className={`${inputClasses} w-48`}
+                                            />
+                                        </label>
+                                        <label className="flex items-center gap-1">
+                                            Max words
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={rule.maxWords ?? ''}
+                                                onChange={e => updateRule(rule.id, { maxWords: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                                                className={`${inputClasses} w-14`}
+                                            />
+                                        </label>
+                                        {MEDIA_TYPES.map(mediaType => (
+                                            <label key={mediaType} className="flex items-center gap-1">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={rule.mediaTypes?.includes(mediaType) ?? false}
+                                                    onChange={() => toggleMediaType(rule, mediaType)}
+                                                    className="accent-cyan-500"
+                                                />
+                                                {mediaType}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h3 className="font-semibold text-slate-200">When no rule matches</h3>
+                        <label className="flex items-center gap-2 text-slate-300">
+                            <input
+                                type="checkbox"
+                                checked={config.useClassifier}
+                                onChange={e => onConfigChange({ ...config, useClassifier: e.target.checked })}
+                                className="accent-cyan-500"
+                            />
+                            Classify with
+                            <select
+                                value={config.classifierModel}
+                                onChange={e => onConfigChange({ ...config, classifierModel: e.target.value })}
+                                disabled={!config.useClassifier}
+                                className={inputClasses}
+                                aria-label="Classifier model"
+                            >
+                                {ROUTABLE_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 text-slate-300">
+                            Otherwise use the
+                            <select
+                                value={config.defaultTier}
+                                onChange={e => onConfigChange({ ...config, defaultTier: e.target.value as RouteTier })}
+                                className={inputClasses}
+                                aria-label="Default tier"
+                            >
+                                {ROUTE_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+                            </select>
+                            tier
+                        </label>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h3 className="font-semibold text-slate-200">Fallback chain</h3>
+                        <p className="text-xs text-slate-400">
+                            When a model keeps failing or is rate limited, its turn goes to the next model in this list. Models that fail repeatedly are skipped for a minute.
+                        </p>
+                        <input
+                            value={config.fallbackChain.join(', ')}
+                            onChange={e => onConfigChange({ ...config, fallbackChain: e.target.value.split(',').map(m => m.trimStart()) })}
+                            className={`${inputClasses} w-full`}
+                            aria-label="Fallback chain"
+                        />
+                    </section>
+
+                    <div className="flex justify-end border-t border-slate-700 pt-4">
+                        <button onClick={() => onConfigChange(DEFAULT_ROUTING_CONFIG)} className="text-xs text-slate-400 hover:text-slate-200">
+                            Reset to defaults
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { type Task, describeDue, isOverdue } from '../services/tasks';
+
+interface TaskPanelProps {
+    // Open tasks first, as listTasks sorts them
+    tasks: Task[];
+    onAdd: (title: string) => void;
+    onComplete: (id: string, completed: boolean) => void;
+}
+
+// Completed tasks shown under the open ones
+const MAX_COMPLETED_SHOWN = 10;
+
+const TaskRow: React.FC<{ task: Task, onComplete: (id: string, completed: boolean) => void }> = ({ task, onComplete }) => {
+    const due = describeDue(task)?.replace(', overdue', '');
+    return (
+        <li className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-700/40">
+            <button
+                onClick={() => onComplete(task.id, !task.completedAt)}
+                className={`mt-0.5 w-4 h-4 flex-shrink-0 rounded-full border flex items-center justify-center ${task.completedAt ? 'bg-cyan-600 border-cyan-600' : 'border-slate-500 hover:border-cyan-400'}`}
+                aria-label={task.completedAt ? `Reopen ${task.title}` : `Complete ${task.title}`}
+            >
+                {task.completedAt && (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                    </svg>
+                )}
+            </button>
+            <div className="min-w-0">
+                <p className={`text-sm break-words ${task.completedAt ? 'text-slate-500 line-through' : 'text-slate-200'}`} title={task.notes}>
+                    {task.priority === 'high' && !task.completedAt && <span className="text-amber-400 mr-1" title="High priority">!</span>}
+                    {task.title}
+                </p>
+                {(due || task.project) && (
+                    <p className="text-[11px] text-slate-400">
+                        {due && <span className={isOverdue(task) ? 'text-red-400' : undefined}>{due}</span>}
+                        {due && task.project && ' · '}
+                        {task.project}
+                    </p>
+                )}
+            </div>
+        </li>
+    );
+};
+
+/**
+ * The to-do list next to the chat: open tasks, soonest due first, with a field to add one and the
+ * recently completed ones below.
+ */
+export const TaskPanel: React.FC<TaskPanelProps> = ({ tasks, onAdd, onComplete }) => {
+    const [title, setTitle] = useState('');
+    const [showCompleted, setShowCompleted] = useState(false);
+    const open = tasks.filter(task => !task.completedAt);
+    const completed = tasks.filter(task => task.completedAt);
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!title.trim()) return;
+        onAdd(title.trim());
+        setTitle('');
+    };
+
+    return (
+        <aside className="hidden lg:flex flex-col w-72 flex-shrink-0 bg-slate-800/50 border border-slate-700 rounded-xl" aria-labelledby="tasks-title">
+            <header className="flex items-center justify-between p-3 border-b border-slate-700">
+                <h2 id="tasks-title" className="font-bold text-slate-200">Tasks</h2>
+                <span className="text-xs text-slate-400">{open.length} open</span>
+            </header>
+            <form onSubmit={handleSubmit} className="p-2 border-b border-slate-700">
+                <input
+                    value={title}
+                    onChange={event => setTitle(event.target.value)}
+                    placeholder="Add a task"
+                    aria-label="Add a task"
+                    className="w-full bg-slate-900/80 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+            </form>
+            <div className="flex-1 overflow-y-auto p-1">
+                {open.length === 0 && <p className="p-2 text-xs text-slate-500">Nothing to do. Ask the assistant to remind you of something.</p>}
+                <ul>
+                    {open.map(task => <TaskRow key={task.id} task={task} onComplete={onComplete} />)}
+                </ul>
+                {completed.length > 0 && (
+                    <>
+                        <button onClick={() => setShowCompleted(prev => !prev)} className="px-2 pt-2 text-[11px] text-slate-400 hover:text-slate-200">
+                            {showCompleted ? 'Hide' : 'Show'} completed ({completed.length})
+                        </button>
+                        {showCompleted && (
+                            <ul>
+                                {completed.slice(0, MAX_COMPLETED_SHOWN).map(task => <TaskRow key={task.id} task={task} onComplete={onComplete} />)}
+                            </ul>
+                        )}
+                    </>
+                )}
+            </div>
+        </aside>
+    );
+};
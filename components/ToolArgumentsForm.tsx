@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Type, type Schema } from '@google/genai';
+import { type ArgumentError } from '../services/tools';
+
+interface ToolArgumentsFormProps {
+    parameters?: Schema; // The tool declaration's parameter schema
+    args: Record<string, any>;
+    onChange: (args: Record<string, any>) => void;
+    errors: ArgumentError[];
+    disabled?: boolean;
+}
+
+const inputClasses = "w-full bg-slate-900/80 border border-slate-600 rounded px-1.5 py-0.5 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500 disabled:opacity-50";
+
+// Arrays are edited as comma-separated lists and objects as JSON, so they keep their raw text while typed.
+function formatValue(schema: Schema, value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (schema.type === Type.ARRAY && Array.isArray(value)) return value.join(', ');
+    if (schema.type === Type.OBJECT) return JSON.stringify(value);
+    return String(value);
+}
+
+// Unparseable input is kept as text, so validation reports it against the field.
+function parseValue(schema: Schema, text: string): unknown {
+    if (text.trim() === '') return undefined;
+    switch (schema.type) {
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return isNaN(Number(text)) ? text : Number(text);
+        case Type.ARRAY: {
+            const items = text.split(',').map(item => item.trim()).filter(Boolean);
+            const itemType = schema.items?.type;
+            return itemType === Type.NUMBER || itemType === Type.INTEGER ? items.map(item => isNaN(Number(item)) ? item : Number(item)) : items;
+        }
+        case Type.OBJECT:
+            try {
+                return JSON.parse(text);
+            } catch {
+                return text;
+            }
+        default:
+            return text;
+    }
+}
+
+/**
+ * An editable form for a pending tool call, with one field per declared parameter.
+ */
+export const ToolArgumentsForm: React.FC<ToolArgumentsFormProps> = ({ parameters, args, onChange, errors, disabled }) => {
+    // Raw text of fields being typed into, for values that are reformatted when parsed
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const properties = Object.entries<Schema>(parameters?.properties ?? {});
+    if (properties.length === 0) return null;
+
+    const setValue = (key: string, value: unknown) => {
+        const { [key]: _previous, ...rest } = args;
+        onChange(value === undefined ? rest : { ...rest, [key]: value });
+    };
+
+    const setText = (key: string, schema: Schema, text: string) => {
+        setDrafts(prev => ({ ...prev, [key]: text }));
+        setValue(key, parseValue(schema, text));
+    };
+
+    return (
+        <div className="space-y-2">
+            {properties.map(([key, schema]) => {
+                const id = `tool-arg-${key}`;
+                const required = parameters?.required?.includes(key);
+                const fieldErrors = errors.filter(e => e.path === key || e.path.startsWith(`${key}.`) || e.path.startsWith(`${key}[`));
+                let field: React.ReactNode;
+                if (schema.enum) {
+                    field = (
+                        <select id={id} value={args[key] ?? ''} onChange={e => setValue(key, e.target.value || undefined)} disabled={disabled} className={inputClasses}>
+                            <option value="">(not set)</option>
+                            {schema.enum.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                    );
+                } else if (schema.type === Type.BOOLEAN) {
+                    field = <input id={id} type="checkbox" checked={!!args[key]} onChange={e => setValue(key, e.target.checked)} disabled={disabled} className="accent-cyan-500" />;
+                } else {
+                    field = (
+                        <input
+                            id={id}
+                            type={schema.type === Type.NUMBER || schema.type === Type.INTEGER ? 'number' : 'text'}
+                            value={drafts[key] ?? formatValue(schema, args[key])}
+                            onChange={e => setText(key, schema, e.target.value)}
+                            placeholder={schema.type === Type.ARRAY ? 'Comma-separated' : schema.type === Type.OBJECT ? 'JSON' : undefined}
+                            disabled={disabled}
+                            className={inputClasses}
+                        />
+                    );
+                }
+                return (
+                    <div key={key}>
+                        <label htmlFor={id} className="block text-xs text-slate-400 mb-0.5" title={schema.description}>
+                            {key}{required && <span className="text-amber-300/90"> *</span>}
+                        </label>
+                        {field}
+                        {fieldErrors.map(error => <p key={error.path + error.message} className="text-[11px] text-red-300 mt-0.5">{error.message}</p>)}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
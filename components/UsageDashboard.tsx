@@ -0,0 +1,188 @@
+import React, { useState, useMemo } from 'react';
+import { type ChatSession, type PriceTable, type ModelPrice } from '../types';
+import { groupUsage, sumUsage, formatCost, DEFAULT_PRICE_TABLE, type UsageGrouping } from '../services/usageService';
+
+interface UsageDashboardProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sessions: ChatSession[];
+    priceTable: PriceTable;
+    onPriceTableChange: (priceTable: PriceTable) => void;
+}
+
+const GROUPINGS: { id: UsageGrouping, label: string }[] = [
+    { id: 'model', label: 'By Model' },
+    { id: 'session', label: 'By Session' },
+    { id: 'day', label: 'By Day' },
+];
+
+const PRICE_FIELDS: { field: keyof ModelPrice, label: string }[] = [
+    { field: 'inputPerMillion', label: 'Input / 1M' },
+    { field: 'outputPerMillion', label: 'Output / 1M' },
+    { field: 'perImage', label: 'Image' },
+    { field: 'perVideoSecond', label: 'Video sec' },
+];
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose, sessions, priceTable, onPriceTableChange }) => {
+    const [grouping, setGrouping] = useState<UsageGrouping>('model');
+    const [isEditingPrices, setIsEditingPrices] = useState(false);
+
+    const groups = useMemo(() => groupUsage(sessions, grouping, priceTable), [sessions, grouping, priceTable]);
+    const totals = useMemo(() => sumUsage(sessions.flatMap(s => s.usage ?? []), priceTable), [sessions, priceTable]);
+
+    if (!isOpen) return null;
+
+    const getLabel = (key: string) => {
+        if (grouping !== 'session') return key;
+        // Same title as the chat history panel: the first user message
+        const session = sessions.find(s => s.id === key);
+        return session?.messages.find(m => m.author === 'user')?.text.substring(0, 40) || 'New Chat';
+    };
+
+    const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+        const parsed = parseFloat(value);
+        onPriceTableChange({
+            ...priceTable,
+            [model]: { ...priceTable[model], [field]: isNaN(parsed) ? 0 : parsed },
+        });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="usage-title"
+        >
+            <div
+                className="bg-slate-800/80 border border-slate-700 rounded-xl shadow-2xl w-full max-w-2xl"
+                onClick={e => e.stopPropagation()} // Prevent closing when clicking inside
+            >
+                <header className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <h2 id="usage-title" className="text-lg font-bold text-slate-200">Usage & Cost</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-slate-400 hover:bg-slate-700"
+                        aria-label="Close"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </header>
+
+                <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                        <div className="p-3 bg-slate-900/50 rounded-lg">
+                            <p className="text-xs text-slate-400">Estimated cost</p>
+                            <p className="text-xl font-bold text-cyan-400">{formatCost(totals.cost)}</p>
+                        </div>
+                        <div className="p-3 bg-slate-900/50 rounded-lg">
+                            <p className="text-xs text-slate-400">Tokens</p>
+                            <p className="text-xl font-bold text-slate-200">{formatNumber(totals.inputTokens + totals.outputTokens + totals.thinkingTokens)}</p>
+                        </div>
+                        <div className="p-3 bg-slate-900/50 rounded-lg">
+                            <p className="text-xs text-slate-400">Model calls</p>
+                            <p className="text-xl font-bold text-slate-200">{formatNumber(totals.calls)}</p>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2" role="tablist">
+                        {GROUPINGS.map(g => (
+                            <button
+                                key={g.id}
+                                role="tab"
+                                aria-selected={grouping === g.id}
+                                onClick={() => setGrouping(g.id)}
+                                className={`text-sm rounded-full px-3 py-1 transition-colors ${grouping === g.id ? 'bg-cyan-500 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                {g.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {groups.length === 0 ? (
+                        <p className="text-sm text-slate-400">No usage recorded yet.</p>
+                    ) : (
+                        <table className="w-full text-sm text-left">
+                            <thead className="text-xs text-slate-400">
+                                <tr>
+                                    <th className="py-1 font-semibold">{GROUPINGS.find(g => g.id === grouping)!.label.replace('By ', '')}</th>
+                                    <th className="py-1 font-semibold text-right">Input</th>
+                                    <th className="py-1 font-semibold text-right">Output</th>
+                                    <th className="py-1 font-semibold text-right">Thinking</th>
+                                    <th className="py-1 font-semibold text-right">Media</th>
+                                    <th className="py-1 font-semibold text-right">Cost</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-300">
+                                {groups.map(group => (
+                                    <tr key={group.key} className="border-t border-slate-700/50">
+                                        <td className="py-1.5 pr-2 truncate max-w-[12rem]">{getLabel(group.key)}</td>
+                                        <td className="py-1.5 text-right">{formatNumber(group.totals.inputTokens)}</td>
+                                        <td className="py-1.5 text-right">{formatNumber(group.totals.outputTokens)}</td>
+                                        <td className="py-1.5 text-right">{formatNumber(group.totals.thinkingTokens)}</td>
+                                        <td className="py-1.5 text-right">
+                                            {[group.totals.images > 0 && `${group.totals.images} img`, group.totals.videoSeconds > 0 && `${group.totals.videoSeconds}s video`].filter(Boolean).join(', ') || '-'}
+                                        </td>
+                                        <td className="py-1.5 text-right text-cyan-300">{formatCost(group.totals.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <div className="border-t border-slate-700 pt-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-sm font-semibold text-slate-200">Price Table (USD)</h3>
+                            <div className="flex gap-2">
+                                {isEditingPrices && (
+                                    <button onClick={() => onPriceTableChange(DEFAULT_PRICE_TABLE)} className="text-xs text-slate-400 hover:text-slate-200">
+                                        Reset to defaults
+                                    </button>
+                                )}
+                                <button onClick={() => setIsEditingPrices(e => !e)} className="text-xs text-cyan-400 hover:text-cyan-300">
+                                    {isEditingPrices ? 'Done' : 'Edit prices'}
+                                </button>
+                            </div>
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">Costs are estimates from this table. Models not listed are counted as free.</p>
+                        {isEditingPrices && (
+                            <table className="w-full text-xs text-left mt-2">
+                                <thead className="text-slate-400">
+                                    <tr>
+                                        <th className="py-1 font-semibold">Model</th>
+                                        {PRICE_FIELDS.map(f => <th key={f.field} className="py-1 font-semibold">{f.label}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {Object.entries(priceTable).map(([model, price]) => (
+                                        <tr key={model}>
+                                            <td className="py-1 pr-2 text-slate-300 truncate max-w-[10rem]">{model}</td>
+                                            {PRICE_FIELDS.map(f => (
+                                                <td key={f.field} className="py-1 pr-1">
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="0.01"
+                                                        value={price[f.field] ?? 0}
+                                                        onChange={e => handlePriceChange(model, f.field, e.target.value)}
+                                                        className="w-20 bg-slate-900/80 border border-slate-600 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                                                        aria-label={`${model} ${f.label}`}
+                                                    />
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
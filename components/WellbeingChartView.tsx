@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { type WellbeingChart } from '../types';
+
+interface WellbeingChartViewProps {
+    chart: WellbeingChart;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WIDTH = 320;
+const HEIGHT = 56;
+const PADDING = 4;
+
+const METRIC_COLORS: { [metric: string]: string } = {
+    sleep: '#818cf8',
+    hrv: '#22d3ee',
+    restingHeartRate: '#f87171',
+    readiness: '#34d399',
+    steps: '#fbbf24',
+    activeEnergy: '#fb923c',
+    weight: '#a78bfa',
+};
+
+const dayIndex = (start: string, date: string) => Math.round((Date.parse(date) - Date.parse(start)) / DAY_MS);
+
+const formatDay = (date: string) => new Date(`${date}T00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export function formatWellbeingValue(metric: string, unit: string, value: number): string {
+    if (metric === 'sleep') {
+        const minutes = Math.round(value);
+        return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+    }
+    return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} ${unit}`;
+}
+
+/**
+ * Wellbeing metrics as a column of small line charts over the same days. Hovering shows each metric's
+ * value on that day; the chips above hide and show metrics.
+ */
+export const WellbeingChartView: React.FC<WellbeingChartViewProps> = ({ chart }) => {
+    const [hidden, setHidden] = useState<string[]>([]);
+    const [hoverDay, setHoverDay] = useState<number | null>(null);
+    const dayCount = dayIndex(chart.start, chart.end) + 1;
+    const toX = (day: number) => PADDING + (dayCount > 1 ? day / (dayCount - 1) : 0.5) * (WIDTH - 2 * PADDING);
+    const hoverDate = hoverDay === null ? null : new Date(Date.parse(chart.start) + hoverDay * DAY_MS).toISOString().slice(0, 10);
+
+    const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+        const bounds = event.currentTarget.getBoundingClientRect();
+        const x = (event.clientX - bounds.left) / bounds.width * WIDTH;
+        const day = Math.round((x - PADDING) / (WIDTH - 2 * PADDING) * (dayCount - 1));
+        setHoverDay(Math.min(dayCount - 1, Math.max(0, day)));
+    };
+
+    const toggle = (metric: string) => setHidden(prev => prev.includes(metric) ? prev.filter(m => m !== metric) : [...prev, metric]);
+
+    return (
+        <div className="space-y-2 text-xs text-slate-300">
+            <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-slate-400 mr-1">
+                    {hoverDate ? formatDay(hoverDate) : `${formatDay(chart.start)} – ${formatDay(chart.end)}`}
+                    {chart.source === 'sample' && ' · sample data'}
+                </span>
+                {chart.series.map(({ metric, label }) => (
+                    <button
+                        key={metric}
+                        onClick={() => toggle(metric)}
+                        className={`px-2 py-0.5 rounded-full border ${hidden.includes(metric) ? 'border-slate-600 text-slate-500' : 'border-slate-500 text-slate-200'}`}
+                        aria-pressed={!hidden.includes(metric)}
+                    >
+                        <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: METRIC_COLORS[metric] }} />
+                        {label}
+                    </button>
+                ))}
+            </div>
+            {chart.series.filter(({ metric }) => !hidden.includes(metric)).map(({ metric, label, unit, points }) => {
+                const values = points.map(point => point.value);
+                const min = Math.min(...values);
+                const max = Math.max(...values);
+                // Keeps a flat line in the middle rather than dividing by zero
+                const spread = max - min || 1;
+                const toY = (value: number) => HEIGHT - PADDING - (value - min) / spread * (HEIGHT - 2 * PADDING);
+                const average = values.reduce((total, value) => total + value, 0) / values.length;
+                const hovered = hoverDate ? points.find(point => point.date === hoverDate) : undefined;
+                const color = METRIC_COLORS[metric] ?? '#cbd5e1';
+                return (
+                    <div key={metric}>
+                        <div className="flex justify-between text-[11px]">
+                            <span className="text-slate-400">{label}</span>
+                            <span>
+                                {points.length === 0 ? 'No data'
+                                    : hovered ? formatWellbeingValue(metric, unit, hovered.value)
+                                    : hoverDate ? '—'
+                                    : `avg ${formatWellbeingValue(metric, unit, Math.round(average * 10) / 10)}`}
+                            </span>
+                        </div>
+                        <svg
+                            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                            className="w-full h-14 bg-slate-900/40 rounded"
+                            onMouseMove={handleMouseMove}
+                            onMouseLeave={() => setHoverDay(null)}
+                            role="img"
+                            aria-label={`${label} from ${chart.start} to ${chart.end}`}
+                        >
+                            {points.length > 0 && (
+                                <>
+                                    <polyline
+                                        points={points.map(point => `${toX(dayIndex(chart.start, point.date))},${toY(point.value)}`).join(' ')}
+                                        fill="none"
+                                        stroke={color}
+                                        strokeWidth={1.5}
+                                        strokeLinejoin="round"
+                                    />
+                                    {dayCount <= 31 && points.map(point => (
+                                        <circle key={point.date} cx={toX(dayIndex(chart.start, point.date))} cy={toY(point.value)} r={1.8} fill={color} />
+                                    ))}
+                                </>
+                            )}
+                            {hoverDay !== null && (
+                                <line x1={toX(hoverDay)} x2={toX(hoverDay)} y1={0} y2={HEIGHT} stroke="#94a3b8" strokeWidth={0.75} strokeDasharray="2 2" />
+                            )}
+                            {hovered && <circle cx={toX(hoverDay!)} cy={toY(hovered.value)} r={3} fill={color} stroke="#0f172a" strokeWidth={1} />}
+                        </svg>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
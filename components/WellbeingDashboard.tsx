@@ -0,0 +1,93 @@
+import React, { useState, useMemo } from 'react';
+import { getWellbeingSeries, buildWellbeingChart, summarizeMetric, ALL_WELLBEING_CHART_METRICS, type WellbeingMetric } from '../services/wellbeing';
+import { addDays } from '../services/calendar';
+import { WellbeingChartView, formatWellbeingValue } from './WellbeingChartView';
+
+interface WellbeingDashboardProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Days of imported data; a change means the charts must be read again
+    importedDays: number;
+}
+
+const RANGES = [
+    { days: 7, label: 'Week' },
+    { days: 30, label: '30 days' },
+    { days: 90, label: '90 days' },
+    { days: 365, label: 'Year' },
+];
+
+export const WellbeingDashboard: React.FC<WellbeingDashboardProps> = ({ isOpen, onClose, importedDays }) => {
+    const [rangeDays, setRangeDays] = useState(30);
+
+    const { chart, changes } = useMemo(() => {
+        const { series, source } = getWellbeingSeries();
+        const end = new Date().toLocaleDateString('en-CA');
+        const start = addDays(end, 1 - rangeDays);
+        // Readiness is derived, so only the measured metrics are compared with the period before
+        const changes = ALL_WELLBEING_CHART_METRICS
+            .filter((metric): metric is WellbeingMetric => metric !== 'readiness')
+            .map(metric => summarizeMetric(series, metric, start, end))
+            .filter(summary => summary.change !== undefined);
+        return { chart: buildWellbeingChart(series, ALL_WELLBEING_CHART_METRICS, start, end, source), changes };
+        // Read again whenever the dashboard opens, in case data was imported meanwhile
+    }, [isOpen, rangeDays, importedDays]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="wellbeing-title"
+        >
+            <div
+                className="bg-slate-800/80 border border-slate-700 rounded-xl shadow-2xl w-full max-w-2xl"
+                onClick={e => e.stopPropagation()} // Prevent closing when clicking inside
+            >
+                <header className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <h2 id="wellbeing-title" className="text-lg font-bold text-slate-200">Wellbeing</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-slate-400 hover:bg-slate-700"
+                        aria-label="Close"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </header>
+
+                <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="flex gap-2">
+                        {RANGES.map(({ days, label }) => (
+                            <button
+                                key={days}
+                                onClick={() => setRangeDays(days)}
+                                className={`px-3 py-1 text-xs rounded-lg ${rangeDays === days ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {changes.length > 0 && (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {changes.map(({ metric, label, unit, average, change }) => (
+                                <div key={metric} className="p-2 bg-slate-900/50 rounded-lg">
+                                    <p className="text-[11px] text-slate-400">{label}</p>
+                                    <p className="text-sm text-slate-200">{formatWellbeingValue(metric, unit, average!)}</p>
+                                    <p className="text-[11px] text-slate-400">
+                                        {change! >= 0 ? '+' : '−'}{formatWellbeingValue(metric, unit, Math.abs(change!))} vs previous {rangeDays} days
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <WellbeingChartView key={rangeDays} chart={chart} />
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,8 @@
 
 import { type ServiceIntegration } from './types';
-import { EmailIcon, CalendarIcon, WellbeingIcon, SmartHomeIcon } from './components/icons';
+import { EmailIcon, CalendarIcon, WellbeingIcon, SmartHomeIcon, TasksIcon } from './components/icons';
+import { describeKnownDevices } from './services/smarthome';
+import { describeOpenTasks } from './services/tasks';
 
 export const AI_PERSONA_INSTRUCTIONS = `
 You are Nanda's assistant, a personal AI assistant with a vast array of new capabilities. Your personality is calm, intelligent, proactive, and helpful.
@@ -9,7 +11,7 @@ You are Nanda's assistant, a personal AI assistant with a vast array of new capa
 - **Conversational AI:** Engage in natural, helpful conversations.
 - **Task Execution:** Use your tools to assist the user with their requests.
 - **Context-Awareness:** Use the chat history and the 'Life State Graph' to provide relevant responses.
-- **Privacy First:** ALWAYS use the 'requestPermission' tool before accessing private data (email, calendar).
+- **Privacy First:** ALWAYS use the 'requestPermission' tool before accessing private data (email, calendar). Private tools also check the user's saved permissions themselves; if a tool reports that the user refused access, respect that and don't ask again.
 
 ### LONG-TERM MEMORY (Crucial)
 - You have a long-term memory system.
@@ -19,59 +21,59 @@ You are Nanda's assistant, a personal AI assistant with a vast array of new capa
 
 ### NEW CAPABILITIES ###
 
-1.  **Model Selection & Performance:**
-    - For simple, quick questions (e.g., "hello", "thanks"), you MUST use the 'gemini-2.5-flash-lite' model for low latency.
-    - For complex, creative, or reasoning-heavy tasks (e.g., writing code, planning a project, deep analysis), you MUST use the 'gemini-2.5-pro' model with the maximum 'thinkingBudget' to provide the most thorough response.
-    - For all other standard requests, use the default 'gemini-2.5-flash' model.
-
-2.  **Image Generation & Editing:**
+1.  **Image Generation & Editing:**
     - **Generation:** When asked to "draw," "create," or "generate an image," you MUST use the 'generateImage' tool. This tool uses the 'imagen-4.0-generate-001' model. You can also specify an 'aspectRatio' (e.g., '16:9', '1:1'). If the user doesn't specify, you can ask or infer a suitable one.
     - **Editing:** If the user uploads an image and asks you to change it (e.g., "add a retro filter," "remove the person"), you MUST use the 'editImage' tool. This tool uses the 'gemini-2.5-flash-image' model.
 
-3.  **Video Generation:**
+2.  **Video Generation:**
     - To generate a video, you MUST use the 'generateVideo' tool. This tool uses the 'veo-3.1-fast-generate-preview' model.
     - **From Text:** If the user provides only a text prompt (e.g., "create a video of a robot skateboarding"), call the tool with the 'prompt' and an 'aspectRatio'.
     - **From Image (Animation):** If the user uploads an image and asks you to animate it, call the tool with the user's 'prompt', the uploaded 'image', and an 'aspectRatio'.
     - **Aspect Ratio:** You must always provide an aspect ratio, either '16:9' (landscape) or '9:16' (portrait). Ask the user if it's unclear.
     - **API Key:** Video generation requires a user-configured project. If you try to generate a video and it fails because of a missing key, you MUST inform the user they need to select a project key and that a button is available in the UI to do so.
 
-4.  **Information Grounding (Search & Maps):**
+3.  **Information Grounding (Search & Maps):**
     - **Google Search:** For questions about recent events, news, or any topic requiring up-to-the-minute information, you MUST use the 'useGoogleSearch' tool. This will ground your response in real-time search data.
     - **Google Maps:** For questions about places, locations, businesses, or directions, you MUST first use the 'requestLocation' tool to get the user's current location, then use the 'useGoogleMaps' tool to provide geographically relevant answers.
     - **Citation:** When using Search or Maps, you MUST display the source links provided in the tool's response.
 
-5.  **Multimedia Understanding:**
-    - **Image Analysis:** If a user uploads an image and asks a question about it (e.g., "what is this flower?"), you will receive the image and prompt together. Analyze the image to answer the question. Use 'gemini-2.5-flash'.
-    - **Video/Audio Analysis:** If a user uploads a video or audio file, they are asking you to analyze it. Use the 'gemini-2.5-pro' model for these complex tasks to provide a detailed summary, transcription, or answer.
+4.  **Multimedia Understanding:**
+    - **Image Analysis:** If a user uploads an image and asks a question about it (e.g., "what is this flower?"), you will receive the image and prompt together. Analyze the image to answer the question.
+    - **Video/Audio Analysis:** If a user uploads a video or audio file, they are asking you to analyze it. Provide a detailed summary, transcription, or answer.
 
-6.  **Real-time Conversation:**
+5.  **Real-time Conversation:**
     - If the user wants to have a real-time voice chat, you can suggest they use the "Conversation Mode" button in the app. You cannot start this mode yourself.
 
 ### Existing Capabilities
-- **Calendar Management:** Use 'createCalendarEvent'. Ask for missing details (title, date, time).
-- **Wellbeing:** Use 'getWellbeingData' and offer to visualize the 'vibe' with 'generateImage'.
+- **Calendar Management:** Use 'getCalendarEvents' with a date range to look at the schedule, 'createCalendarEvent' to add events, and 'updateCalendarEvent' or 'deleteCalendarEvent' to move or cancel them. To reschedule, find a time with 'findFreeSlots' first. Ask for missing details (title, date, time). If a booking clashes with another event, tell the user before double-booking.
+- **Wellbeing:** Use 'getWellbeingData' with a date range and the metrics you need. Talk about trends rather than single numbers (e.g. "your sleep has dropped 40 minutes this week"), using each metric's change against the previous period. When a trend is worth seeing, show it with 'showWellbeingChart'. Offer to visualize the 'vibe' with 'generateImage'.
+- **Smart Home:** Use 'getSmartHomeStatus' to find devices and their ids, 'setDeviceState' to change one, 'activateScene' for scenes, and 'getDeviceHistory' for questions about the past ("did I lock the door?"). The user approves every change to locks, thermostats and doors, so just make the call.
+- **Tasks:** When the user asks to be reminded of something or mentions a to-do ("remind me to send the design feedback"), add it with 'createTask', with a due date when one is given or implied. Use 'listTasks' to look beyond the open tasks in the Life State Graph, 'completeTask' when something is done, and 'updateTask' to reschedule or reprioritize.
 `;
 
 const MOCK_DATA_SOURCES = {
     calendar: `
-- **Calendar:**
-  - 9:00 AM - 10:00 AM: Design Review (Critical)
-  - 2:00 PM - 2:30 PM: 1:1 with Sarah
-  - 5:00 PM: Dentist Appointment
+- **Calendar:** Connected. Read it with 'getCalendarEvents' rather than guessing the schedule.
 `,
     wellbeing: `
-- **Wearable Data:**
-  - Sleep: 6 hours, 15 minutes (below average)
-  - Heart Rate Variability (HRV): Low, indicating potential stress or fatigue.
-  - Readiness Score: 65/100 (Suggests a lighter day)
+- **Wearable Data:** Connected. Read sleep, steps, resting heart rate, HRV, active energy and weight with 'getWellbeingData' rather than guessing.
 `,
-    smarthome: `
-- **Smart Home:**
-  - Office Light: On
-  - Thermostat: 70°F
-`
 };
 
+// The devices as last read from the hub; they are read when the connection is turned on and after every change.
+function describeSmartHome(): string {
+    const devices = describeKnownDevices();
+    if (!devices) return `- **Smart Home:** Connected. Read the devices with 'getSmartHomeStatus' rather than guessing.\n`;
+    return `- **Smart Home:**\n${devices.map(device => `  - ${device}\n`).join('')}`;
+}
+
+// Tasks are kept in this browser, so the list is read fresh for every message.
+function describeTasks(): string {
+    const tasks = describeOpenTasks();
+    if (tasks.length === 0) return `- **Open Tasks:** None.\n`;
+    return `- **Open Tasks:**\n${tasks.map(task => `  - ${task}\n`).join('')}`;
+}
+
 /**
  * Generates the "Life State Graph" context for the AI based on connected services.
  * @param connections The current state of service integrations.
@@ -79,6 +81,9 @@ const MOCK_DATA_SOURCES = {
  */
 export function generateLifeStateGraph(connections: ServiceIntegration[]): string {
     let graph = "Here is a snapshot of the user's current 'Life State Graph' for context. Use this information to answer the user's prompts realistically.\n";
+    // Dates the user mentions ("tomorrow", "next Friday") are relative to this
+    const now = new Date();
+    graph += `- **Now:** ${now.toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'short' })} (${Intl.DateTimeFormat().resolvedOptions().timeZone})\n`;
     
     const connectedServices = connections.filter(c => c.connected);
 
@@ -92,6 +97,10 @@ export function generateLifeStateGraph(connections: ServiceIntegration[]): strin
             if (connectedAccounts.length > 0) {
                 graph += `- **Connected Email Accounts:** ${connectedAccounts.map(a => a.id).join(', ')}\n`;
             }
+        } else if (service.id === 'smarthome') {
+            graph += describeSmartHome();
+        } else if (service.id === 'tasks') {
+            graph += describeTasks();
         } else {
              // Use a type guard to access MOCK_DATA_SOURCES safely
             const key = service.id as keyof typeof MOCK_DATA_SOURCES;
@@ -104,7 +113,14 @@ export function generateLifeStateGraph(connections: ServiceIntegration[]): strin
     return graph;
 }
 
-export function generateSystemInstruction(connections: ServiceIntegration[], memory: string[]): string {
+// Context for chats whose older messages were condensed into a running summary.
+export function generateConversationSummary(summary?: string): string {
+    return summary
+        ? `\n\n### EARLIER IN THIS CONVERSATION\nOlder messages of this chat are no longer shown to you. This is a summary of them:\n${summary}`
+        : '';
+}
+
+export function generateSystemInstruction(connections: ServiceIntegration[], memory: string[], conversationSummary?: string): string {
     let instruction = `${AI_PERSONA_INSTRUCTIONS}\n\n${generateLifeStateGraph(connections)}`;
     
     if (memory && memory.length > 0) {
@@ -116,7 +132,7 @@ export function generateSystemInstruction(connections: ServiceIntegration[], mem
         instruction += `\n\n### LEARNED USER FACTS\n(No facts learned yet. Listen to the user to learn their preferences.)`;
     }
     
-    return instruction;
+    return instruction + generateConversationSummary(conversationSummary);
 }
 
 
@@ -150,4 +166,11 @@ export const INITIAL_INTEGRATIONS: ServiceIntegration[] = [
         connected: false,
         icon: SmartHomeIcon
     },
+    {
+        id: 'tasks',
+        name: 'Tasks',
+        description: 'Keep a to-do list with due dates, priorities and projects.',
+        connected: true,
+        icon: TasksIcon
+    },
 ];
@@ -0,0 +1,87 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type Plugin } from 'vite';
+import { type ApiAccess, HttpError, decodePath, failRequest, guardRequest, readBody, reply } from './http';
+
+const PROXY_PATH = '/api/caldav';
+const ALLOWED_METHODS = ['REPORT', 'PROPFIND', 'GET', 'PUT', 'DELETE'];
+// Request headers a CalDAV client needs passed on
+const FORWARDED_HEADERS = ['content-type', 'depth', 'if-match', 'if-none-match'];
+// Queries are XML, events iCalendar
+const BODY_TYPES = ['application/xml', 'text/xml', 'text/calendar'];
+
+export interface CalDavConfig {
+    url: string; // The calendar collection, e.g. http://localhost:5232/user/calendar/
+    user?: string;
+    password?: string;
+}
+
+/**
+ * Reads the CalDAV settings from the environment: CALDAV_URL, the address of the calendar
+ * collection, and CALDAV_USER / CALDAV_PASSWORD for servers that need a login. Null without CALDAV_URL.
+ */
+export function getCalDavConfig(env: Record<string, string>): CalDavConfig | null {
+    if (!env.CALDAV_URL) return null;
+    return {
+        url: env.CALDAV_URL.endsWith('/') ? env.CALDAV_URL : `${env.CALDAV_URL}/`,
+        user: env.CALDAV_USER || undefined,
+        password: env.CALDAV_PASSWORD || undefined,
+    };
+}
+
+async function handleRequest(config: CalDavConfig | null, req: IncomingMessage, res: ServerResponse) {
+    if (!config) {
+        return reply(res, 503, { error: 'CalDAV is not set up. Set CALDAV_URL in .env.local and restart the server.' });
+    }
+    if (!ALLOWED_METHODS.includes(req.method ?? '')) {
+        return reply(res, 405, { error: `${req.method} is not supported.` });
+    }
+    const headers: Record<string, string> = {};
+    for (const name of FORWARDED_HEADERS) {
+        const value = req.headers[name];
+        if (typeof value === 'string') headers[name] = value;
+    }
+    if (config.user) {
+        headers.authorization = `Basic ${Buffer.from(`${config.user}:${config.password ?? ''}`).toString('base64')}`;
+    }
+    try {
+        // Only the collection itself and the resources directly in it can be reached
+        const resource = decodePath((req.url ?? '').slice(PROXY_PATH.length).replace(/^\//, '').split('?')[0]);
+        if (resource.includes('/') || resource === '.' || resource === '..') {
+            return reply(res, 400, { error: 'Only resources in the calendar collection can be reached.' });
+        }
+        const response = await fetch(new URL(encodeURIComponent(resource), config.url), {
+            method: req.method,
+            headers,
+            body: req.method === 'GET' || req.method === 'DELETE' ? undefined : await readBody(req),
+        });
+        res.statusCode = response.status;
+        for (const name of ['content-type', 'etag']) {
+            const value = response.headers.get(name);
+            if (value) res.setHeader(name, value);
+        }
+        res.end(await response.text());
+    } catch (error) {
+        if (error instanceof HttpError) return reply(res, error.status, { error: error.message });
+        console.error('CalDAV proxy failed:', error);
+        reply(res, 502, { error: `The CalDAV server could not be reached: ${(error as Error).message}` });
+    }
+}
+
+/**
+ * Serves /api/caldav on the dev and preview servers, passing requests on to the CalDAV calendar
+ * with the configured login. Browsers can't reach most CalDAV servers directly (no CORS), and the
+ * credentials stay on the server.
+ */
+export function caldavProxyPlugin(config: CalDavConfig | null, access: ApiAccess): Plugin {
+    const middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        const path = req.url?.split('?')[0];
+        if (path !== PROXY_PATH && !path?.startsWith(`${PROXY_PATH}/`)) return next();
+        if (!guardRequest(req, res, access, BODY_TYPES)) return;
+        handleRequest(config, req, res).catch(failRequest(res, 'CalDAV proxy'));
+    };
+    return {
+        name: 'caldav-proxy',
+        configureServer: server => { server.middlewares.use(middleware); },
+        configurePreviewServer: server => { server.middlewares.use(middleware); },
+    };
+}
@@ -0,0 +1,99 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type Plugin } from 'vite';
+import { type ApiAccess, HttpError, decodePath, failRequest, guardRequest, readBody, reply } from './http';
+
+const PROXY_PATH = '/api/homeassistant';
+// The parts of Home Assistant's REST API the app uses; everything else (config, events, templates) stays closed
+const ALLOWED_ROUTES: { method: string, path: RegExp }[] = [
+    { method: 'GET', path: /^states$/ },
+    { method: 'GET', path: /^states\/[a-z0-9_]+\.[a-z0-9_]+$/ },
+    { method: 'GET', path: /^history\/period\/[0-9T:.+\-Z]+$/ },
+    { method: 'POST', path: /^services\/[a-z0-9_]+\/[a-z0-9_]+$/ },
+];
+// The services the app calls, by domain (see services/smarthome/commands.ts); scripts, shell commands and the like stay closed
+const ALLOWED_SERVICES: { [domain: string]: string[] } = {
+    light: ['turn_on', 'turn_off'],
+    switch: ['turn_on', 'turn_off'],
+    fan: ['turn_on', 'turn_off'],
+    input_boolean: ['turn_on', 'turn_off'],
+    media_player: ['turn_on', 'turn_off'],
+    lock: ['lock', 'unlock'],
+    cover: ['open_cover', 'close_cover', 'set_cover_position'],
+    climate: ['set_temperature', 'set_hvac_mode'],
+    scene: ['turn_on'],
+};
+
+export interface HomeAssistantConfig {
+    url: string; // e.g. http://homeassistant.local:8123/
+    token: string; // A long-lived access token, from the user's profile page in Home Assistant
+}
+
+/**
+ * Reads the Home Assistant settings from the environment: HOME_ASSISTANT_URL and HOME_ASSISTANT_TOKEN.
+ * Null unless both are set.
+ */
+export function getHomeAssistantConfig(env: Record<string, string>): HomeAssistantConfig | null {
+    if (!env.HOME_ASSISTANT_URL || !env.HOME_ASSISTANT_TOKEN) return null;
+    return {
+        url: env.HOME_ASSISTANT_URL.endsWith('/') ? env.HOME_ASSISTANT_URL : `${env.HOME_ASSISTANT_URL}/`,
+        token: env.HOME_ASSISTANT_TOKEN,
+    };
+}
+
+async function handleRequest(config: HomeAssistantConfig | null, req: IncomingMessage, res: ServerResponse) {
+    if (!config) {
+        return reply(res, 503, { error: 'Home Assistant is not set up. Set HOME_ASSISTANT_URL and HOME_ASSISTANT_TOKEN in .env.local and restart the server.' });
+    }
+    const [path, query] = (req.url ?? '').slice(PROXY_PATH.length).replace(/^\//, '').split('?');
+    try {
+        const route = decodePath(path);
+        if (!ALLOWED_ROUTES.some(allowed => allowed.method === req.method && allowed.path.test(route))) {
+            return reply(res, 404, { error: `${req.method} ${route} is not available through the proxy.` });
+        }
+        let body: string | undefined;
+        if (req.method === 'POST') {
+            const [, domain, service] = route.split('/');
+            if (!ALLOWED_SERVICES[domain]?.includes(service)) {
+                return reply(res, 403, { error: `${domain}.${service} is not available through the proxy.` });
+            }
+            body = await readBody(req);
+            // A service only reaches entities of its own domain
+            const entityId = JSON.parse(body)?.entity_id;
+            if (typeof entityId !== 'string' || !entityId.startsWith(`${domain}.`)) {
+                return reply(res, 400, { error: `${domain}.${service} needs the entity_id of one ${domain}.` });
+            }
+        }
+        const response = await fetch(new URL(`api/${route}${query ? `?${query}` : ''}`, config.url), {
+            method: req.method,
+            headers: { authorization: `Bearer ${config.token}`, 'content-type': 'application/json' },
+            body,
+        });
+        res.statusCode = response.status;
+        res.setHeader('Content-Type', response.headers.get('content-type') ?? 'application/json');
+        res.end(await response.text());
+    } catch (error) {
+        if (error instanceof HttpError) return reply(res, error.status, { error: error.message });
+        if (error instanceof SyntaxError) return reply(res, 400, { error: 'The request body is not valid JSON.' });
+        console.error('Home Assistant proxy failed:', error);
+        reply(res, 502, { error: `Home Assistant could not be reached: ${(error as Error).message}` });
+    }
+}
+
+/**
+ * Serves /api/homeassistant on the dev and preview servers, passing the app's requests on to Home
+ * Assistant's REST API with the access token, which never reaches the browser. Only the services
+ * the app calls go through, one device at a time.
+ */
+export function homeAssistantProxyPlugin(config: HomeAssistantConfig | null, access: ApiAccess): Plugin {
+    const middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        const path = req.url?.split('?')[0];
+        if (path !== PROXY_PATH && !path?.startsWith(`${PROXY_PATH}/`)) return next();
+        if (!guardRequest(req, res, access)) return;
+        handleRequest(config, req, res).catch(failRequest(res, 'Home Assistant proxy'));
+    };
+    return {
+        name: 'home-assistant-proxy',
+        configureServer: server => { server.middlewares.use(middleware); },
+        configurePreviewServer: server => { server.middlewares.use(middleware); },
+    };
+}
@@ -0,0 +1,112 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+
+// Bodies the relay and proxies accept; email with attachments is the largest
+export const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Methods that carry a body, whose content type is checked
+const BODY_METHODS = ['POST', 'PUT', 'PATCH', 'REPORT', 'PROPFIND'];
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+export class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * Who may use the relay and the proxies. They act with the user's credentials, so by default only
+ * this machine; API_ALLOW_REMOTE=true lets other machines on the network in too.
+ */
+export interface ApiAccess {
+    allowRemote: boolean;
+}
+
+export function getApiAccess(env: Record<string, string>): ApiAccess {
+    return { allowRemote: env.API_ALLOW_REMOTE === 'true' };
+}
+
+export function readBody(req: IncomingMessage, limit = MAX_BODY_BYTES): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        let size = 0;
+        req.setEncoding('utf-8');
+        req.on('data', (chunk: string) => {
+            size += Buffer.byteLength(chunk);
+            if (size > limit) {
+                req.removeAllListeners('data');
+                req.resume(); // Drains the rest so the reply can still be sent
+                reject(new HttpError(413, `The request body is larger than ${limit} bytes.`));
+                return;
+            }
+            body += chunk;
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+export function reply(res: ServerResponse, status: number, body: object) {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+}
+
+// Decodes a request path; a malformed escape such as %E0 is the client's mistake, answered with a 400.
+export function decodePath(path: string): string {
+    try {
+        return decodeURIComponent(path);
+    } catch {
+        throw new HttpError(400, 'The request path is not valid.');
+    }
+}
+
+/**
+ * Answers a request whose handler failed unexpectedly, so no error escapes the middleware and
+ * takes down the server. Use it as the handler promise's catch.
+ */
+export function failRequest(res: ServerResponse, name: string) {
+    return (error: unknown) => {
+        console.error(`${name} failed:`, error);
+        if (res.headersSent) res.destroy();
+        else reply(res, 500, { error: `${name} failed.` });
+    };
+}
+
+// Whether the request was sent by a page of this server rather than by another site.
+function isSameOrigin(req: IncomingMessage): boolean {
+    const site = req.headers['sec-fetch-site'];
+    if (site) return site === 'same-origin';
+    // Browsers without Fetch Metadata still send Origin on cross-site requests
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    try {
+        return new URL(origin).host === req.headers.host;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks a request to the relay or a proxy, and replies with an error when it must not go through:
+ * it has to come from this machine (unless remote access is on) and from the app's own pages, and a
+ * body must have one of `bodyTypes`. None of those are types a form or a plain cross-site fetch can
+ * send without a CORS preflight, which the server never answers. Returns whether to go on.
+ */
+export function guardRequest(req: IncomingMessage, res: ServerResponse, access: ApiAccess, bodyTypes = ['application/json']): boolean {
+    if (!access.allowRemote && !LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress ?? '')) {
+        reply(res, 403, { error: 'Only this machine can use this endpoint. Set API_ALLOW_REMOTE=true in .env.local to allow others on the network.' });
+        return false;
+    }
+    if (!isSameOrigin(req)) {
+        reply(res, 403, { error: 'Requests from other sites are not allowed.' });
+        return false;
+    }
+    const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (BODY_METHODS.includes(req.method ?? '') && (!contentType || !bodyTypes.includes(contentType))) {
+        reply(res, 415, { error: `The request body must be ${bodyTypes.join(' or ')}.` });
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,124 @@
+import http from 'http';
+import net, { type AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { generate, parser, type Packet } from 'mqtt-packet';
+import { matchesFilter, mqttBridgePlugin } from './mqttBridge';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A broker that keeps one retained state per topic and plays a device: commands on <topic>/set are
+// reported back on <topic>. Subscriptions to "denied" are refused.
+function startBroker(published: string[]): net.Server {
+    const retained = new Map<string, string>([['home/fan', 'ON']]);
+    return net.createServer(socket => {
+        const incoming = parser();
+        const send = (packet: Packet) => socket.write(generate(packet));
+        const deliver = (topic: string, payload: string) => send({ cmd: 'publish', topic, payload: Buffer.from(payload), qos: 0, retain: false, dup: false });
+        incoming.on('packet', packet => {
+            switch (packet.cmd) {
+                case 'connect':
+                    return send({ cmd: 'connack', returnCode: 0, sessionPresent: false });
+                case 'subscribe':
+                    send({ cmd: 'suback', messageId: packet.messageId, granted: packet.subscriptions.map(({ topic }) => topic === 'denied' ? 128 : 1) });
+                    for (const { topic } of packet.subscriptions) {
+                        if (retained.has(topic)) deliver(topic, retained.get(topic)!);
+                    }
+                    return;
+                case 'unsubscribe':
+                    return send({ cmd: 'unsuback', messageId: packet.messageId, granted: [] });
+                case 'publish': {
+                    const payload = packet.payload.toString();
+                    published.push(`${packet.topic} ${payload}`);
+                    const state = packet.topic.replace(/\/set$/, '');
+                    retained.set(state, payload);
+                    return deliver(state, payload);
+                }
+                case 'pingreq':
+                    return send({ cmd: 'pingresp' });
+            }
+        });
+        socket.on('data', chunk => incoming.parse(chunk));
+        socket.on('error', () => undefined);
+    });
+}
+
+describe('matchesFilter', () => {
+    it('follows the + and # wildcards', () => {
+        expect(matchesFilter('home/+/state', 'home/fan/state')).toBe(true);
+        expect(matchesFilter('home/+/state', 'home/fan/speed')).toBe(false);
+        expect(matchesFilter('home/#', 'home/fan/state')).toBe(true);
+        expect(matchesFilter('home/fan', 'home/fan/state')).toBe(false);
+    });
+});
+
+describe('MQTT bridge', () => {
+    const published: string[] = [];
+    let broker: net.Server;
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+        broker = startBroker(published);
+        await new Promise<void>(resolve => broker.listen(0, '127.0.0.1', resolve));
+        const plugin = mqttBridgePlugin({ url: `mqtt://127.0.0.1:${(broker.address() as AddressInfo).port}` }, { allowRemote: false });
+        let middleware: http.RequestListener | undefined;
+        (plugin.configureServer as Function)({ middlewares: { use: (handler: http.RequestListener) => middleware = handler } });
+        server = http.createServer((req, res) => (middleware as Function)(req, res, () => { res.statusCode = 404; res.end(); }));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/mqtt`;
+    });
+
+    afterAll(() => {
+        server.close();
+        broker.close();
+    });
+
+    const post = (path: string, body: object) => fetch(`${base}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    it('subscribes and keeps the messages that come in', async () => {
+        const response = await post('subscribe', { topics: ['home/fan'] });
+        expect(await response.json()).toEqual({ connected: true, topics: ['home/fan'] });
+        await delay(100);
+        const { messages } = await (await fetch(`${base}/messages`)).json();
+        expect(messages['home/fan'].payload).toBe('ON');
+    });
+
+    it('publishes commands and records the state they lead to', async () => {
+        expect((await post('publish', { topic: 'home/fan/set', payload: 'OFF' })).status).toBe(200);
+        await delay(100);
+        expect(published).toContain('home/fan/set OFF');
+        const { messages } = await (await fetch(`${base}/history?topic=home/fan`)).json();
+        expect(messages.map((message: { payload: string }) => message.payload)).toEqual(['ON', 'OFF']);
+    });
+
+    it('reports refused subscriptions and keeps the ones it had and the ones granted', async () => {
+        const response = await post('subscribe', { topics: ['home/light', 'denied'] });
+        expect(response.status).toBe(502);
+        expect((await response.json()).error).toMatch(/refused the subscription to denied/);
+        const { topics, messages } = await (await fetch(`${base}/messages`)).json();
+        expect(topics).toEqual(['home/fan', 'home/light']);
+        expect(messages['home/fan'].payload).toBe('OFF');
+    });
+
+    it('drops the filters left out once the new ones are in', async () => {
+        const response = await post('subscribe', { topics: ['home/light'] });
+        expect(await response.json()).toEqual({ connected: true, topics: ['home/light'] });
+        expect((await (await fetch(`${base}/messages`)).json()).messages['home/fan']).toBeUndefined();
+    });
+
+    it('turns away cross-site requests and bodies that are not JSON', async () => {
+        const crossSite = await fetch(`${base}/publish`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Origin: 'http://elsewhere.example' },
+            body: JSON.stringify({ topic: 'home/fan/set', payload: 'ON' }),
+        });
+        expect(crossSite.status).toBe(403);
+        const form = await fetch(`${base}/publish`, { method: 'POST', body: 'topic=home/fan/set' });
+        expect(form.status).toBe(415);
+        expect(published).not.toContain('home/fan/set ON');
+    });
+});
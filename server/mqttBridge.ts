@@ -0,0 +1,198 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type Plugin } from 'vite';
+import { connect, type MqttClient } from 'mqtt';
+import { type ApiAccess, HttpError, failRequest, guardRequest, readBody, reply } from './http';
+
+const BRIDGE_PATH = '/api/mqtt';
+// Messages kept per topic for the device history; older ones are dropped
+const MAX_MESSAGES_PER_TOPIC = 500;
+const RECONNECT_DELAY_MS = 5000;
+// How long a request waits for the broker before giving up; the client keeps trying in the background
+const CONNECT_TIMEOUT_MS = 10000;
+// The client pings the broker when idle and counts the connection dead if no answer comes in time
+const KEEP_ALIVE_SECONDS = 60;
+
+export interface MqttConfig {
+    url: string; // mqtt://host:1883, or mqtts://host:8883 for TLS
+    user?: string;
+    password?: string;
+}
+
+interface StoredMessage {
+    payload: string;
+    time: string; // ISO 8601, when the bridge received it
+}
+
+/**
+ * Reads the MQTT broker settings from the environment: MQTT_URL (e.g. mqtt://localhost:1883) and,
+ * if the broker wants a login, MQTT_USER and MQTT_PASSWORD. Null unless MQTT_URL is set.
+ */
+export function getMqttConfig(env: Record<string, string>): MqttConfig | null {
+    if (!env.MQTT_URL) return null;
+    return { url: env.MQTT_URL, user: env.MQTT_USER || undefined, password: env.MQTT_PASSWORD || undefined };
+}
+
+// Whether a topic matches a subscription filter, with its + and # wildcards.
+export function matchesFilter(filter: string, topic: string): boolean {
+    const filterLevels = filter.split('/');
+    const topicLevels = topic.split('/');
+    for (let i = 0; i < filterLevels.length; i++) {
+        if (filterLevels[i] === '#') return true;
+        if (i >= topicLevels.length || (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i])) return false;
+    }
+    return filterLevels.length === topicLevels.length;
+}
+
+/**
+ * One connection to the broker, shared by every browser tab. It holds the topics the app subscribed to
+ * and the messages that came in on them. The client keeps the connection alive, reconnects when it
+ * drops and subscribes again.
+ */
+class MqttBridge {
+    private client: MqttClient | null = null;
+    private filters: string[] = [];
+    private messages = new Map<string, StoredMessage[]>();
+    private lastError: string | null = null;
+
+    constructor(private config: MqttConfig) {}
+
+    get status() {
+        return { connected: this.client?.connected ?? false, topics: this.filters, ...(this.lastError && { error: this.lastError }) };
+    }
+
+    latestMessages(): { [topic: string]: StoredMessage } {
+        return Object.fromEntries([...this.messages].map(([topic, messages]) => [topic, messages[messages.length - 1]]));
+    }
+
+    history(topic: string): StoredMessage[] {
+        return this.messages.get(topic) ?? [];
+    }
+
+    async subscribe(filters: string[]): Promise<void> {
+        const added = filters.filter(filter => !this.filters.includes(filter));
+        const removed = this.filters.filter(filter => !filters.includes(filter));
+        const client = await this.connected();
+        // One subscription per filter, so a refused one leaves the others subscribed and tracked
+        const results = await Promise.allSettled(added.map(filter => client.subscribeAsync(filter, { qos: 1 })));
+        const refused = added.filter((_filter, i) => results[i].status === 'rejected');
+        this.filters = [...this.filters, ...added.filter(filter => !refused.includes(filter))];
+        if (refused.length > 0) {
+            const { reason } = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+            throw new Error(`The MQTT broker refused the subscription to ${refused.join(', ')}: ${reason.message}`);
+        }
+        // The old filters are only dropped once the new ones are in
+        if (removed.length > 0) await client.unsubscribeAsync(removed);
+        this.filters = filters;
+        for (const topic of this.messages.keys()) {
+            if (!filters.some(filter => matchesFilter(filter, topic))) this.messages.delete(topic);
+        }
+    }
+
+    async publish(topic: string, payload: string, retain: boolean): Promise<void> {
+        await (await this.connected()).publishAsync(topic, payload, { retain });
+    }
+
+    // The client once it is connected, starting it on first use.
+    private connected(): Promise<MqttClient> {
+        const client = this.client ??= this.start();
+        if (client.connected) return Promise.resolve(client);
+        return new Promise((resolve, reject) => {
+            const done = (problem?: string) => {
+                clearTimeout(timer);
+                client.off('connect', onConnect).off('error', onError);
+                if (problem) reject(new Error(`The MQTT broker could not be reached: ${problem}`));
+                else resolve(client);
+            };
+            const onConnect = () => done();
+            const onError = (error: Error) => done(error.message);
+            const timer = setTimeout(() => done(this.lastError ?? 'it did not answer.'), CONNECT_TIMEOUT_MS);
+            client.on('connect', onConnect).on('error', onError);
+        });
+    }
+
+    private start(): MqttClient {
+        const client = connect(this.config.url, {
+            username: this.config.user,
+            password: this.config.password,
+            keepalive: KEEP_ALIVE_SECONDS,
+            reconnectPeriod: RECONNECT_DELAY_MS,
+            connectTimeout: CONNECT_TIMEOUT_MS,
+        });
+        client.on('connect', () => { this.lastError = null; });
+        client.on('message', (topic, payload) => this.store(topic, payload.toString('utf-8')));
+        client.on('error', error => {
+            this.lastError = error.message;
+            console.error('MQTT bridge failed:', error.message);
+        });
+        client.on('offline', () => { this.lastError ??= 'The MQTT connection dropped.'; });
+        return client;
+    }
+
+    private store(topic: string, payload: string) {
+        const messages = this.messages.get(topic) ?? [];
+        messages.push({ payload, time: new Date().toISOString() });
+        if (messages.length > MAX_MESSAGES_PER_TOPIC) messages.shift();
+        this.messages.set(topic, messages);
+    }
+}
+
+const isTopic = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && !/[+#\0]/.test(value);
+const isFilter = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && !value.includes('\0');
+
+async function handleRequest(bridge: MqttBridge | null, req: IncomingMessage, res: ServerResponse) {
+    if (!bridge) {
+        return reply(res, 503, { error: 'MQTT is not set up. Set MQTT_URL (and MQTT_USER and MQTT_PASSWORD if the broker needs them) in .env.local and restart the server.' });
+    }
+    const url = new URL(req.url ?? '', 'http://localhost');
+    const route = `${req.method} ${url.pathname.slice(BRIDGE_PATH.length)}`;
+    try {
+        switch (route) {
+            case 'GET /messages':
+                return reply(res, 200, { ...bridge.status, messages: bridge.latestMessages() });
+            case 'GET /history': {
+                const topic = url.searchParams.get('topic');
+                if (!isTopic(topic)) return reply(res, 400, { error: 'A topic without wildcards is required.' });
+                return reply(res, 200, { messages: bridge.history(topic) });
+            }
+            case 'POST /subscribe': {
+                const { topics } = JSON.parse(await readBody(req));
+                if (!Array.isArray(topics) || !topics.every(isFilter)) return reply(res, 400, { error: '"topics" must be a list of topic filters.' });
+                await bridge.subscribe([...new Set<string>(topics)]);
+                return reply(res, 200, bridge.status);
+            }
+            case 'POST /publish': {
+                const { topic, payload, retain } = JSON.parse(await readBody(req));
+                if (!isTopic(topic)) return reply(res, 400, { error: 'A topic without wildcards is required.' });
+                if (typeof payload !== 'string') return reply(res, 400, { error: '"payload" must be a string.' });
+                await bridge.publish(topic, payload, retain === true);
+                return reply(res, 200, { published: true });
+            }
+            default:
+                return reply(res, 404, { error: `${route} is not available on the MQTT bridge.` });
+        }
+    } catch (error) {
+        if (error instanceof HttpError) return reply(res, error.status, { error: error.message });
+        if (error instanceof SyntaxError) return reply(res, 400, { error: 'The request body is not valid JSON.' });
+        console.error('MQTT bridge failed:', error);
+        reply(res, 502, { error: (error as Error).message });
+    }
+}
+
+/**
+ * Serves /api/mqtt on the dev and preview servers: the app subscribes to state topics, reads the
+ * messages that came in and publishes commands, while the broker login stays on the server.
+ */
+export function mqttBridgePlugin(config: MqttConfig | null, access: ApiAccess): Plugin {
+    const bridge = config ? new MqttBridge(config) : null;
+    const middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        const path = req.url?.split('?')[0];
+        if (path !== BRIDGE_PATH && !path?.startsWith(`${BRIDGE_PATH}/`)) return next();
+        if (!guardRequest(req, res, access)) return;
+        handleRequest(bridge, req, res).catch(failRequest(res, 'MQTT bridge'));
+    };
+    return {
+        name: 'mqtt-bridge',
+        configureServer: server => { server.middlewares.use(middleware); },
+        configurePreviewServer: server => { server.middlewares.use(middleware); },
+    };
+}
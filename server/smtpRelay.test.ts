@@ -0,0 +1,135 @@
+import http from 'http';
+import net, { type AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { getSmtpConfig, smtpRelayPlugin } from './smtpRelay';
+
+interface Received {
+    commands: string[];
+    data?: string;
+}
+
+// Just enough of an SMTP server to take one message: multi-line EHLO, no TLS, optional AUTH PLAIN.
+function startSmtpServer(received: Received[], password: string): net.Server {
+    return net.createServer(socket => {
+        const session: Received = { commands: [] };
+        received.push(session);
+        let buffer = '';
+        let inData = false;
+        socket.write('220 fake.example ESMTP\r\n');
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf-8');
+            if (inData) {
+                const end = buffer.indexOf('\r\n.\r\n');
+                if (end === -1) return;
+                session.data = buffer.slice(0, end);
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                socket.write('250 Queued\r\n');
+            }
+            let newline: number;
+            while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 2);
+                session.commands.push(line);
+                const verb = line.split(' ')[0].toUpperCase();
+                if (verb === 'EHLO') socket.write('250-fake.example\r\n250-SIZE 1000000\r\n250 AUTH PLAIN\r\n');
+                else if (verb === 'AUTH') {
+                    const [, user, pass] = Buffer.from(line.split(' ')[2] ?? '', 'base64').toString().split('\0');
+                    socket.write(user === 'me@example.com' && pass === password ? '235 OK\r\n' : '535 Authentication failed\r\n');
+                } else if (verb === 'DATA') {
+                    inData = true;
+                    socket.write('354 Go ahead\r\n');
+                } else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+                else socket.write('250 OK\r\n');
+            }
+        });
+    });
+}
+
+const message = (from: string) => [
+    `From: Me <${from}>`,
+    'To: friend@example.com',
+    'Subject: Hello',
+    '',
+    'Line one',
+    '.leading dot',
+    '',
+].join('\r\n');
+
+describe('SMTP relay', () => {
+    const received: Received[] = [];
+    let smtp: net.Server;
+    let relay: http.Server;
+    let relayUrl: string;
+    let smtpPort: number;
+    let password = 'secret';
+
+    beforeAll(async () => {
+        smtp = startSmtpServer(received, 'secret');
+        await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve));
+        smtpPort = (smtp.address() as AddressInfo).port;
+        relay = http.createServer((req, res) => {
+            const config = getSmtpConfig({ SMTP_HOST: '127.0.0.1', SMTP_PORT: String(smtpPort), SMTP_USER: 'me@example.com', SMTP_PASSWORD: password });
+            const plugin = smtpRelayPlugin(config, { allowRemote: false });
+            let middleware: http.RequestListener | undefined;
+            (plugin.configureServer as Function)({ middlewares: { use: (handler: http.RequestListener) => middleware = handler } });
+            (middleware as Function)(req, res, () => { res.statusCode = 404; res.end(); });
+        });
+        await new Promise<void>(resolve => relay.listen(0, '127.0.0.1', resolve));
+        relayUrl = `http://127.0.0.1:${(relay.address() as AddressInfo).port}/api/send-email`;
+    });
+
+    afterAll(() => {
+        relay.close();
+        smtp.close();
+    });
+
+    beforeEach(() => {
+        received.length = 0;
+        password = 'secret';
+    });
+
+    const send = (body: object, headers: Record<string, string> = {}) => fetch(relayUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+    });
+
+    it('relays the message as given, dot-stuffed, after logging in', async () => {
+        const response = await send({ from: 'me@example.com', to: ['friend@example.com'], data: message('me@example.com') });
+        expect(response.status).toBe(200);
+        const [session] = received;
+        expect(session.commands).toContain('MAIL FROM:<me@example.com>');
+        expect(session.commands).toContain('RCPT TO:<friend@example.com>');
+        expect(session.commands.some(command => command.startsWith('AUTH PLAIN'))).toBe(true);
+        expect(session.data).toContain('Line one\r\n..leading dot');
+    });
+
+    it('reports a refused login', async () => {
+        password = 'wrong';
+        const response = await send({ from: 'me@example.com', to: ['friend@example.com'], data: message('me@example.com') });
+        expect(response.status).toBe(502);
+        expect((await response.json()).error).toMatch(/535/);
+    });
+
+    it('only sends from the configured addresses', async () => {
+        const other = await send({ from: 'ceo@example.com', to: ['friend@example.com'], data: message('ceo@example.com') });
+        expect(other.status).toBe(403);
+        const spoofed = await send({ from: 'me@example.com', to: ['friend@example.com'], data: message('ceo@example.com') });
+        expect(spoofed.status).toBe(403);
+        expect(received).toHaveLength(0);
+    });
+
+    it('turns away cross-site requests and bodies that are not JSON', async () => {
+        const crossSite = await send({ from: 'me@example.com', to: ['friend@example.com'], data: message('me@example.com') }, { 'Sec-Fetch-Site': 'cross-site' });
+        expect(crossSite.status).toBe(403);
+        const form = await fetch(relayUrl, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: '{}' });
+        expect(form.status).toBe(415);
+        expect(received).toHaveLength(0);
+    });
+
+    it('refuses bodies over the size limit', async () => {
+        const response = await send({ from: 'me@example.com', to: ['friend@example.com'], data: 'x'.repeat(11 * 1024 * 1024) });
+        expect(response.status).toBe(413);
+    });
+});
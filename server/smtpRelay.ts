@@ -0,0 +1,99 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { type Plugin } from 'vite';
+import nodemailer from 'nodemailer';
+import { type ApiAccess, HttpError, failRequest, guardRequest, readBody, reply } from './http';
+
+const RELAY_PATH = '/api/send-email';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    // Implicit TLS from the start (usually port 465). Otherwise STARTTLS is used when the server offers it.
+    secure: boolean;
+    user?: string;
+    password?: string;
+    // The addresses mail may be sent from, lowercased
+    from: string[];
+}
+
+// Each address ends up in an SMTP command, so line breaks and brackets would let it inject others.
+const isSafeAddress = (value: unknown): value is string => typeof value === 'string' && /^[^\s<>]+@[^\s<>]+$/.test(value);
+
+/**
+ * Reads the SMTP settings from the environment: SMTP_HOST and SMTP_PORT, SMTP_SECURE=true for
+ * implicit TLS, SMTP_USER / SMTP_PASSWORD when the server needs a login, and SMTP_FROM, the
+ * comma-separated addresses mail may come from (SMTP_USER when it is one). Null without SMTP_HOST.
+ */
+export function getSmtpConfig(env: Record<string, string>): SmtpConfig | null {
+    if (!env.SMTP_HOST) return null;
+    const secure = env.SMTP_SECURE === 'true';
+    const from = (env.SMTP_FROM || env.SMTP_USER || '').split(',').map(address => address.trim().toLowerCase()).filter(isSafeAddress);
+    return {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? Number(env.SMTP_PORT) : secure ? 465 : 587,
+        secure,
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+        from,
+    };
+}
+
+// The address in the message's From header, so the message can't claim another sender than the envelope.
+function getHeaderFrom(data: string): string | undefined {
+    const headers = data.split(/\r?\n\r?\n/)[0].replace(/\r?\n[ \t]+/g, ' ');
+    const from = /^from:(.*)$/im.exec(headers)?.[1];
+    return from && (/<([^>]+)>/.exec(from)?.[1] ?? from).trim().toLowerCase();
+}
+
+async function handleSend(config: SmtpConfig | null, req: IncomingMessage, res: ServerResponse) {
+    if (!config) {
+        return reply(res, 503, { error: 'Sending email is not set up. Set SMTP_HOST (and SMTP_PORT) in .env.local and restart the server.' });
+    }
+    let envelope: { from?: unknown, to?: unknown, data?: unknown };
+    try {
+        envelope = JSON.parse(await readBody(req));
+    } catch (error) {
+        if (error instanceof HttpError) return reply(res, error.status, { error: error.message });
+        return reply(res, 400, { error: 'The request body is not JSON.' });
+    }
+    const { from, to, data } = envelope;
+    if (!isSafeAddress(from) || !Array.isArray(to) || to.length === 0 || !to.every(isSafeAddress) || typeof data !== 'string') {
+        return reply(res, 400, { error: 'Expected a sender address, at least one recipient address and the message data.' });
+    }
+    if (!config.from.includes(from.toLowerCase()) || getHeaderFrom(data) !== from.toLowerCase()) {
+        return reply(res, 403, { error: `Mail can't be sent from ${from}. Add it to SMTP_FROM in .env.local and restart the server.` });
+    }
+    const transport = nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+    });
+    try {
+        await transport.sendMail({ envelope: { from, to }, raw: data });
+        reply(res, 200, { ok: true });
+    } catch (error) {
+        console.error('SMTP relay failed:', error);
+        reply(res, 502, { error: (error as Error).message });
+    } finally {
+        transport.close();
+    }
+}
+
+/**
+ * Serves POST /api/send-email on the dev and preview servers, relaying the message to the SMTP server.
+ * The browser can't speak SMTP itself, and the credentials stay on the server. Only the configured
+ * sender addresses are relayed.
+ */
+export function smtpRelayPlugin(config: SmtpConfig | null, access: ApiAccess): Plugin {
+    const middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        if (req.url !== RELAY_PATH || req.method !== 'POST') return next();
+        if (!guardRequest(req, res, access)) return;
+        handleSend(config, req, res).catch(failRequest(res, 'SMTP relay'));
+    };
+    return {
+        name: 'smtp-relay',
+        configureServer: server => { server.middlewares.use(middleware); },
+        configurePreviewServer: server => { server.middlewares.use(middleware); },
+    };
+}
@@ -0,0 +1,92 @@
+import { type AuditConsent, type AuditEntry } from '../types';
+
+const AUDIT_LOG_KEY = 'jarvis-audit-log';
+
+// The oldest entries are dropped past this, to stay well inside the localStorage quota.
+const MAX_AUDIT_ENTRIES = 1000;
+
+// Longer string arguments (usually data URLs) are cut to this many characters.
+const MAX_ARG_LENGTH = 200;
+
+export interface AuditFilter {
+    toolName?: string;
+    sessionId?: string;
+    consent?: AuditConsent;
+    errorsOnly?: boolean;
+    // Matched against the tool name, arguments, summary and error
+    query?: string;
+}
+
+export function loadAuditLog(): AuditEntry[] {
+    try {
+        const saved = localStorage.getItem(AUDIT_LOG_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error('Failed to load audit log:', error);
+        return [];
+    }
+}
+
+export function saveAuditLog(entries: AuditEntry[]): void {
+    try {
+        localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error('Failed to save audit log:', error);
+    }
+}
+
+function shortenArgs(value: unknown): any {
+    if (typeof value === 'string') {
+        return value.length > MAX_ARG_LENGTH ? `${value.slice(0, MAX_ARG_LENGTH)}… (${value.length} characters)` : value;
+    }
+    if (Array.isArray(value)) return value.map(shortenArgs);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shortenArgs(item)]));
+    }
+    return value;
+}
+
+export function createAuditEntry(fields: Omit<AuditEntry, 'id' | 'timestamp'>, now = Date.now()): AuditEntry {
+    return {
+        ...fields,
+        id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: now,
+        args: shortenArgs(fields.args ?? {}),
+    };
+}
+
+// Adds an entry, keeping at most MAX_AUDIT_ENTRIES.
+export function appendAuditEntry(entries: AuditEntry[], entry: AuditEntry): AuditEntry[] {
+    return [...entries, entry].slice(-MAX_AUDIT_ENTRIES);
+}
+
+export function filterAuditLog(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+    const query = filter.query?.trim().toLowerCase();
+    return entries.filter(entry =>
+        (!filter.toolName || entry.toolName === filter.toolName)
+        && (!filter.sessionId || entry.sessionId === filter.sessionId)
+        && (!filter.consent || entry.consent === filter.consent)
+        && (!filter.errorsOnly || entry.error !== undefined)
+        && (!query || [entry.toolName, JSON.stringify(entry.args), entry.summary, entry.error].some(text => text?.toLowerCase().includes(query)))
+    );
+}
+
+export function exportAuditLogJson(entries: AuditEntry[]): string {
+    return JSON.stringify(entries, null, 2);
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ['timestamp', 'sessionId', 'toolName', 'args', 'consent', 'summary', 'error', 'durationMs', 'dryRun'];
+
+function toCsvField(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per entry; timestamps as ISO dates and arguments as JSON.
+export function exportAuditLogCsv(entries: AuditEntry[]): string {
+    const rows = entries.map(entry => CSV_COLUMNS.map(column =>
+        toCsvField(column === 'timestamp' ? new Date(entry.timestamp).toISOString() : entry[column])
+    ).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
@@ -0,0 +1,54 @@
+import { type CalendarEvent, type CalendarRange } from './types';
+import { getLocalTimeZone, fromWallTime, formatZonedIso, parseDateOnly, addDays, getEventTime } from './time';
+
+export interface FreeSlotOptions {
+    range: CalendarRange;
+    durationMs: number;
+    // The part of each day to look in, in minutes after midnight
+    dayStart?: number;
+    dayEnd?: number;
+    weekdaysOnly?: boolean;
+    timeZone?: string; // The zone days and their hours are counted in; defaults to the user's
+    limit?: number;
+}
+
+export const DEFAULT_DAY_START = 9 * 60;
+export const DEFAULT_DAY_END = 17 * 60;
+export const DEFAULT_FREE_SLOT_LIMIT = 10;
+
+// Busy time is what timed events take up; all-day events (holidays, reminders) leave the day free.
+function getBusyTimes(events: CalendarEvent[]): CalendarRange[] {
+    return events
+        .filter(event => !event.allDay && event.status !== 'cancelled')
+        .map(event => ({ start: getEventTime(event.start), end: getEventTime(event.end) }))
+        .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the gaps between events, within the given hours of each day, that are at least as long as
+ * the duration. Each slot is the whole gap, so a meeting can go anywhere inside it.
+ */
+export function findFreeSlots(events: CalendarEvent[], options: FreeSlotOptions): CalendarRange[] {
+    const { range, durationMs, dayStart = DEFAULT_DAY_START, dayEnd = DEFAULT_DAY_END, limit = DEFAULT_FREE_SLOT_LIMIT } = options;
+    const timeZone = options.timeZone ?? getLocalTimeZone();
+    const busy = getBusyTimes(events);
+    const slots: CalendarRange[] = [];
+    const atMinute = (date: string, minutes: number) =>
+        fromWallTime({ ...parseDateOnly(date), hour: Math.floor(minutes / 60), minute: minutes % 60 }, timeZone);
+
+    for (let date = formatZonedIso(range.start, timeZone).slice(0, 10); atMinute(date, 0) < range.end; date = addDays(date, 1)) {
+        const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+        if (options.weekdaysOnly && (weekday === 0 || weekday === 6)) continue;
+        const windowStart = Math.max(atMinute(date, dayStart), range.start);
+        const windowEnd = Math.min(atMinute(date, dayEnd), range.end);
+        let cursor = windowStart;
+        for (const time of busy) {
+            if (time.end <= cursor || time.start >= windowEnd) continue;
+            if (time.start - cursor >= durationMs) slots.push({ start: cursor, end: time.start });
+            cursor = Math.max(cursor, time.end);
+        }
+        if (windowEnd - cursor >= durationMs) slots.push({ start: cursor, end: windowEnd });
+        if (slots.length >= limit) return slots.slice(0, limit);
+    }
+    return slots;
+}
@@ -0,0 +1,99 @@
+import { type CalendarAdapter, type CalendarEvent, type CalendarRange } from './types';
+import { parseIcs, formatIcs } from './ics';
+
+// Served by the dev and preview servers (see server/caldavProxy.ts), which hold the CalDAV settings.
+export const DEFAULT_CALDAV_ENDPOINT = '/api/caldav';
+
+const DAV_NS = 'DAV:';
+const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+
+const formatUtc = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// A calendar-query REPORT for the VEVENTs overlapping the range, with their iCalendar data.
+function buildQuery(range?: CalendarRange): string {
+    const timeRange = range ? `<c:time-range start="${formatUtc(range.start)}" end="${formatUtc(range.end)}"/>` : '';
+    return `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">${timeRange}</c:comp-filter></c:comp-filter></c:filter>
+</c:calendar-query>`;
+}
+
+async function checkResponse(response: Response, action: string): Promise<void> {
+    if (response.ok) return;
+    if (response.status === 412) throw new Error(`${action} failed: the event was changed on the CalDAV server since it was read. Read it again and retry.`);
+    const reply = await response.json().catch(() => ({}));
+    throw new Error(reply.error || `${action} failed: the CalDAV server answered ${response.status}.`);
+}
+
+/**
+ * Keeps the calendar on a CalDAV server (such as Radicale or Nextcloud) through the app server's
+ * proxy. Each series is one resource, named after its UID unless the server already named it.
+ * Changes carry the ETag the resource was read with, so they don't overwrite someone else's edit.
+ */
+export function createCalDavAdapter(endpoint = DEFAULT_CALDAV_ENDPOINT): CalendarAdapter {
+    // Resource names of the events seen so far, by UID
+    const resources = new Map<string, string>();
+    // Their ETags as last read or written, by UID
+    const etags = new Map<string, string>();
+    const resourceUrl = (id: string) => `${endpoint}/${resources.get(id) ?? encodeURIComponent(`${id}.ics`)}`;
+    const ifMatch = (id: string): Record<string, string> => etags.has(id) ? { 'If-Match': etags.get(id)! } : {};
+    const keepEtag = (id: string, response: Response) => {
+        const etag = response.headers.get('etag');
+        if (etag) etags.set(id, etag);
+        else etags.delete(id);
+    };
+
+    return {
+        name: 'caldav',
+        async loadEvents(range) {
+            const response = await fetch(endpoint, {
+                method: 'REPORT',
+                headers: { 'Content-Type': 'application/xml; charset=utf-8', Depth: '1' },
+                body: buildQuery(range),
+            });
+            await checkResponse(response, 'Reading the calendar');
+            const document = new DOMParser().parseFromString(await response.text(), 'application/xml');
+            const events: CalendarEvent[] = [];
+            for (const item of Array.from(document.getElementsByTagNameNS(DAV_NS, 'response'))) {
+                const href = item.getElementsByTagNameNS(DAV_NS, 'href')[0]?.textContent ?? '';
+                const data = item.getElementsByTagNameNS(CALDAV_NS, 'calendar-data')[0]?.textContent;
+                const etag = item.getElementsByTagNameNS(DAV_NS, 'getetag')[0]?.textContent;
+                if (!data) continue;
+                const name = href.split('/').filter(Boolean).pop();
+                for (const event of parseIcs(data)) {
+                    if (name) resources.set(event.id, name);
+                    if (etag) etags.set(event.id, etag);
+                    events.push(event);
+                }
+            }
+            return events;
+        },
+        async getEvents(id) {
+            const response = await fetch(resourceUrl(id));
+            if (response.status === 404) return [];
+            await checkResponse(response, 'Reading the event');
+            keepEtag(id, response);
+            return parseIcs(await response.text());
+        },
+        async saveEvents(events) {
+            const id = events[0].id;
+            const response = await fetch(resourceUrl(id), {
+                method: 'PUT',
+                headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...ifMatch(id) },
+                body: formatIcs(events),
+            });
+            await checkResponse(response, 'Saving the event');
+            // Servers that change the event as they store it send no ETag; the next save then goes unchecked
+            keepEtag(id, response);
+        },
+        async deleteEvent(id) {
+            const response = await fetch(resourceUrl(id), { method: 'DELETE', headers: ifMatch(id) });
+            if (response.status === 404) return false;
+            await checkResponse(response, 'Deleting the event');
+            resources.delete(id);
+            etags.delete(id);
+            return true;
+        },
+    };
+}
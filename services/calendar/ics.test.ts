@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { type CalendarEvent } from './types';
+import { formatIcs, parseIcs } from './ics';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+// The lines of a component, by the value of its BEGIN
+function components(text: string, name: string): string[][] {
+    const lines = text.replace(/\r\n /g, '').split('\r\n');
+    const found: string[][] = [];
+    lines.forEach((line, index) => {
+        if (line === `BEGIN:${name}`) found.push(lines.slice(index + 1, lines.indexOf(`END:${name}`, index)));
+    });
+    return found;
+}
+
+describe('parseIcs', () => {
+    it('reads zoned, UTC and all-day times, folded lines and escapes', () => {
+        const [timed, allDay] = parseIcs([
+            'BEGIN:VCALENDAR',
+            'BEGIN:VTIMEZONE',
+            'TZID:Europe/Berlin',
+            'BEGIN:STANDARD',
+            'DTSTART:19701025T030000',
+            'END:STANDARD',
+            'END:VTIMEZONE',
+            'BEGIN:VEVENT',
+            'UID:review@example.com',
+            'DTSTART;TZID=Europe/Berlin:20261020T140000',
+            'DURATION:PT1H30M',
+            'SUMMARY:Design review\\, round two',
+            'DESCRIPTION:Bring the mockups.\\nAnd the notes',
+            'LOCATION:Room 4',
+            'ATTENDEE;CN="Lee, Sam";PARTSTAT=ACCEPTED:mailto:sam@example.com',
+            'RRULE:FREQ=WEEKLY;COUNT=4',
+            'EXDATE;TZID=Europe/Berlin:20261027T140000',
+            'CATEGORIES:Work,Design',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'DTSTART;VALUE=DATE:20261224',
+            'SUMMARY:Holiday with a very long title that is folded onto the next line by the writ',
+            ' er',
+            'STATUS:TENTATIVE',
+            'END:VEVENT',
+            'END:VCALENDAR',
+        ].join('\r\n'));
+        expect(timed).toMatchObject({
+            id: 'review@example.com',
+            title: 'Design review, round two',
+            start: '2026-10-20T12:00:00.000Z',
+            end: '2026-10-20T13:30:00.000Z',
+            timeZone: 'Europe/Berlin',
+            description: 'Bring the mockups.\nAnd the notes',
+            location: 'Room 4',
+            attendees: [{ email: 'sam@example.com', name: 'Lee, Sam', status: 'accepted' }],
+            recurrence: 'FREQ=WEEKLY;COUNT=4',
+            exceptions: ['2026-10-27T13:00:00.000Z'],
+            categories: ['Work', 'Design'],
+        });
+        expect(allDay).toMatchObject({
+            title: 'Holiday with a very long title that is folded onto the next line by the writer',
+            start: '2026-12-24',
+            end: '2026-12-25',
+            allDay: true,
+            status: 'tentative',
+        });
+        expect(allDay.id).toMatch(/^imported-2026-12-24-1-holiday/);
+    });
+
+    it('rejects times that are not iCalendar dates', () => {
+        expect(() => parseIcs('BEGIN:VEVENT\r\nDTSTART:tomorrow\r\nEND:VEVENT')).toThrow(/not an iCalendar date/);
+    });
+});
+
+describe('formatIcs', () => {
+    const event: CalendarEvent = {
+        id: 'review@example.com',
+        title: 'Review; bring notes',
+        start: '2026-10-20T12:00:00.000Z',
+        end: '2026-10-20T13:00:00.000Z',
+        timeZone: 'Europe/Berlin',
+        recurrence: 'FREQ=WEEKLY',
+        exceptions: ['2026-10-27T13:00:00.000Z'],
+        attendees: [{ email: 'sam@example.com', name: 'Sam', status: 'needs-action' }],
+    };
+
+    it('round-trips events', () => {
+        const allDay: CalendarEvent = { id: 'trip', title: 'Trip', start: '2026-12-24', end: '2026-12-27', allDay: true };
+        const text = formatIcs([event, allDay], NOW);
+        expect(text).toContain('DTSTART;TZID=Europe/Berlin:20261020T140000\r\n');
+        expect(text).toContain('SUMMARY:Review\\; bring notes\r\n');
+        expect(parseIcs(text)).toEqual([
+            { ...event, allDay: undefined, location: undefined, description: undefined, recurrenceId: undefined, status: undefined, categories: undefined },
+            { ...allDay, timeZone: undefined, location: undefined, description: undefined, attendees: undefined, recurrence: undefined, exceptions: undefined, recurrenceId: undefined, status: undefined, categories: undefined },
+        ]);
+    });
+
+    it('folds long lines at 75 octets without splitting characters', () => {
+        const text = formatIcs([{ ...event, title: 'Überprüfung '.repeat(10) }], NOW);
+        for (const line of text.split('\r\n')) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+        expect(parseIcs(text)[0].title).toBe('Überprüfung '.repeat(10));
+    });
+
+    it('writes a yearly rule for each DST change of the zone', () => {
+        const [zone] = components(formatIcs([event], NOW), 'VTIMEZONE');
+        expect(zone).toContain('TZID:Europe/Berlin');
+        expect(zone.join('\n')).toContain([
+            'DTSTART:20261025T030000',
+            'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+            'TZOFFSETFROM:+0200',
+            'TZOFFSETTO:+0100',
+        ].join('\n'));
+    });
+
+    it('covers every year the events span, ending rules where the zone changed them', () => {
+        // The US moved its DST changes in 2007, from April and October to March and November
+        const old: CalendarEvent = { ...event, timeZone: 'America/New_York', recurrence: undefined, exceptions: undefined, start: '2005-06-01T16:00:00.000Z', end: '2005-06-01T17:00:00.000Z' };
+        const current: CalendarEvent = { ...old, id: 'current', start: '2026-06-01T16:00:00.000Z', end: '2026-06-01T17:00:00.000Z' };
+        const [zone] = components(formatIcs([old, current], NOW), 'VTIMEZONE');
+        const rules = zone.filter(line => line.startsWith('RRULE:'));
+        expect(rules).toEqual([
+            'RRULE:FREQ=YEARLY;BYMONTH=4;BYDAY=1SU;UNTIL=20060402T070000Z',
+            'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU;UNTIL=20061029T060000Z',
+            'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+            'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+        ]);
+        expect(zone).toContain('DTSTART:20050403T020000');
+        expect(zone).toContain('DTSTART:20070311T020000');
+    });
+
+    it('writes a fixed offset for zones without DST', () => {
+        const [zone] = components(formatIcs([{ ...event, timeZone: 'Asia/Kolkata' }], NOW), 'VTIMEZONE');
+        expect(zone).toEqual(['TZID:Asia/Kolkata', 'BEGIN:STANDARD', 'DTSTART:19700101T000000', 'TZOFFSETFROM:+0530', 'TZOFFSETTO:+0530', 'END:STANDARD']);
+    });
+});
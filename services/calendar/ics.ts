@@ -0,0 +1,335 @@
+import { type AttendeeStatus, type CalendarAttendee, type CalendarEvent } from './types';
+import {
+    type WallTime, getLocalTimeZone, isValidTimeZone, toWallTime, fromWallTime, getOffsetMs,
+    wallTimeToNaive, naiveToWallTime, formatDate, addDays, parseDateOnly,
+} from './time';
+
+const PRODUCT_ID = '-//Jarvis//Calendar//EN';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ATTENDEE_STATUSES: AttendeeStatus[] = ['needs-action', 'accepted', 'declined', 'tentative'];
+
+interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+// Splits "NAME;PARAM=a;OTHER="x:y":value", minding quoted parameter values.
+function parseLine(line: string): IcsProperty | null {
+    let index = 0;
+    let inQuotes = false;
+    const separators: number[] = [];
+    for (; index < line.length; index++) {
+        const char = line[index];
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && char === ';') separators.push(index);
+        else if (!inQuotes && char === ':') break;
+    }
+    if (index === line.length) return null;
+    const head = line.slice(0, index);
+    const [name, ...rawParams] = separators.length > 0
+        ? [head.slice(0, separators[0]), ...separators.map((start, i) => head.slice(start + 1, separators[i + 1]))]
+        : [head];
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const equals = param.indexOf('=');
+        if (equals !== -1) params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+const unescapeText = (value: string) => value.replace(/\\([\\;,nN])/g, (_, char) => char.toLowerCase() === 'n' ? '\n' : char);
+const escapeText = (value: string) => value.replace(/[\\;,]/g, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+
+interface IcsTime {
+    value: string; // As CalendarEvent stores it: a UTC ISO instant, or a date
+    allDay: boolean;
+    timeZone?: string;
+}
+
+// DATE values are all-day; a TZID that isn't an IANA zone (such as Outlook's Windows names) and
+// floating times are read in the local zone.
+function parseTime({ value, params }: IcsProperty): IcsTime {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+    if (!match) throw new Error(`"${value}" is not an iCalendar date.`);
+    const [year, month, day, hour, minute, second, utc] = match.slice(1);
+    const wall: WallTime = { year: +year, month: +month, day: +day, hour: +(hour ?? 0), minute: +(minute ?? 0), second: +(second ?? 0) };
+    if (hour === undefined || params.VALUE === 'DATE') return { value: formatDate(wall), allDay: true };
+    if (utc) return { value: new Date(wallTimeToNaive(wall)).toISOString(), allDay: false };
+    const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : getLocalTimeZone();
+    return { value: new Date(fromWallTime(wall, timeZone)).toISOString(), allDay: false, timeZone };
+}
+
+// "P1DT2H30M", "PT45M", "P2W"
+function parseDuration(value: string): number {
+    const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return 0;
+    const [sign, weeks, days, hours, minutes, seconds] = match.slice(1);
+    const ms = ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 * 3600 + +(hours ?? 0) * 3600 + +(minutes ?? 0) * 60 + +(seconds ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+}
+
+function parseAttendee({ value, params }: IcsProperty): CalendarAttendee {
+    const status = params.PARTSTAT?.toLowerCase() as AttendeeStatus | undefined;
+    return {
+        email: value.replace(/^mailto:/i, ''),
+        name: params.CN,
+        status: status && ATTENDEE_STATUSES.includes(status) ? status : undefined,
+    };
+}
+
+function toEvent(properties: IcsProperty[], index: number): CalendarEvent | null {
+    const get = (name: string) => properties.find(property => property.name === name);
+    const getText = (name: string) => {
+        const property = get(name);
+        return property ? unescapeText(property.value) : undefined;
+    };
+    const startProperty = get('DTSTART');
+    if (!startProperty) return null;
+    const start = parseTime(startProperty);
+    const endProperty = get('DTEND');
+    const durationProperty = get('DURATION');
+    let end: string;
+    if (endProperty) {
+        end = parseTime(endProperty).value;
+    } else if (durationProperty) {
+        const duration = parseDuration(durationProperty.value);
+        end = start.allDay ? addDays(start.value, Math.round(duration / DAY_MS)) : new Date(Date.parse(start.value) + duration).toISOString();
+    } else {
+        // Without an end, an all-day event takes its day and a timed one takes no time
+        end = start.allDay ? addDays(start.value, 1) : start.value;
+    }
+    const status = get('STATUS')?.value.toLowerCase();
+    const recurrenceIdProperty = get('RECURRENCE-ID');
+    const attendees = properties.filter(property => property.name === 'ATTENDEE').map(parseAttendee);
+    const exceptions = properties.filter(property => property.name === 'EXDATE')
+        .flatMap(property => property.value.split(',').map(value => parseTime({ ...property, value }).value));
+    const categories = properties.filter(property => property.name === 'CATEGORIES')
+        .flatMap(property => property.value.split(/(?<!\\),/).map(unescapeText));
+    const title = getText('SUMMARY') ?? '(No title)';
+    return {
+        // Events without a UID get a stable one, so importing the file again replaces them
+        id: getText('UID') ?? `imported-${start.value}-${index}-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        title,
+        start: start.value,
+        end,
+        allDay: start.allDay || undefined,
+        timeZone: start.timeZone,
+        location: getText('LOCATION'),
+        description: getText('DESCRIPTION'),
+        attendees: attendees.length > 0 ? attendees : undefined,
+        recurrence: get('RRULE')?.value,
+        exceptions: exceptions.length > 0 ? exceptions : undefined,
+        recurrenceId: recurrenceIdProperty ? parseTime(recurrenceIdProperty).value : undefined,
+        status: status === 'confirmed' || status === 'tentative' || status === 'cancelled' ? status : undefined,
+        categories: categories.length > 0 ? categories : undefined,
+    };
+}
+
+/**
+ * Reads the VEVENTs of an iCalendar (.ics) file. Time zones are taken from TZIDs, which are
+ * expected to be IANA names; the file's VTIMEZONE definitions are not read.
+ */
+export function parseIcs(text: string): CalendarEvent[] {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: CalendarEvent[] = [];
+    const stack: string[] = [];
+    let properties: IcsProperty[] = [];
+    for (const line of lines) {
+        const property = parseLine(line);
+        if (!property) continue;
+        if (property.name === 'BEGIN') {
+            stack.push(property.value.toUpperCase());
+            if (property.value.toUpperCase() === 'VEVENT') properties = [];
+        } else if (property.name === 'END') {
+            if (stack.pop() === 'VEVENT') {
+                const event = toEvent(properties, events.length);
+                if (event) events.push(event);
+            }
+        } else if (stack[stack.length - 1] === 'VEVENT') {
+            properties.push(property);
+        }
+    }
+    return events;
+}
+
+// --- Writing ---
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const formatCompactDate = (wall: WallTime) => formatDate(wall).replace(/-/g, '');
+const formatCompactTime = (wall: WallTime) => `${formatCompactDate(wall)}T${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}`;
+const formatUtc = (time: number) => `${formatCompactTime(naiveToWallTime(time))}Z`;
+
+function formatOffset(offsetMs: number): string {
+    const minutes = Math.round(offsetMs / 60000);
+    return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+// A time property in the event's zone, in UTC, or as a date for all-day events.
+function formatTimeProperty(name: string, value: string, event: CalendarEvent): string {
+    if (event.allDay) return `${name};VALUE=DATE:${formatCompactDate(parseDateOnly(value))}`;
+    const time = Date.parse(value);
+    if (!event.timeZone) return `${name}:${formatUtc(time)}`;
+    return `${name};TZID=${event.timeZone}:${formatCompactTime(toWallTime(time, event.timeZone))}`;
+}
+
+// Finds the instant within [from, to) where the zone's offset changes, to the minute.
+function findTransition(timeZone: string, from: number, to: number): number {
+    const offset = getOffsetMs(from, timeZone);
+    while (to - from > 60000) {
+        const middle = Math.floor((from + to) / 2 / 60000) * 60000;
+        if (getOffsetMs(middle, timeZone) === offset) from = middle;
+        else to = middle;
+    }
+    return to;
+}
+
+interface ZoneRule {
+    type: 'DAYLIGHT' | 'STANDARD';
+    key: string; // What a yearly repeat has to match: month, weekday, time of day and offsets
+    onsets: number[];
+    lastYear: number;
+    lines: string[];
+}
+
+// The yearly rule a transition follows, such as the second Sunday of March at 02:00.
+function describeTransition(timeZone: string, transition: number): Omit<ZoneRule, 'onsets' | 'lastYear'> {
+    const offsetFrom = getOffsetMs(transition - 1, timeZone);
+    const offsetTo = getOffsetMs(transition, timeZone);
+    const type = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    // Onsets are written in the wall time before the change
+    const wall = naiveToWallTime(transition + offsetFrom);
+    const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day));
+    const lastDay = new Date(Date.UTC(wall.year, wall.month, 0)).getUTCDate();
+    const ordinal = wall.day + 7 > lastDay ? -1 : Math.ceil(wall.day / 7);
+    const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][date.getUTCDay()];
+    const byDay = `BYMONTH=${wall.month};BYDAY=${ordinal}${weekday}`;
+    const offsets = [`TZOFFSETFROM:${formatOffset(offsetFrom)}`, `TZOFFSETTO:${formatOffset(offsetTo)}`];
+    return {
+        type,
+        key: [type, byDay, formatCompactTime(wall).slice(9), ...offsets].join('|'),
+        lines: [`DTSTART:${formatCompactTime(wall)}`, `RRULE:FREQ=YEARLY;${byDay}`, ...offsets],
+    };
+}
+
+/**
+ * A VTIMEZONE for the zone, built from its offset changes from the first year to the last. Changes
+ * that recur on the same weekday of the month (e.g. the second Sunday of March) are written as one
+ * yearly rule, which ends where the zone's rules changed; the rules of the last year carry on.
+ */
+function formatTimeZone(timeZone: string, firstYear: number, lastYear: number): string[] {
+    const rules: ZoneRule[] = [];
+    let firstTransition: number | undefined;
+    for (let year = firstYear; year <= lastYear; year++) {
+        const yearStart = Date.UTC(year, 0, 1);
+        const days = (Date.UTC(year + 1, 0, 1) - yearStart) / DAY_MS;
+        for (let day = 0; day < days; day++) {
+            const from = yearStart + day * DAY_MS;
+            if (getOffsetMs(from, timeZone) === getOffsetMs(from + DAY_MS, timeZone)) continue;
+            const transition = findTransition(timeZone, from, from + DAY_MS);
+            firstTransition ??= transition;
+            const { type, key, lines } = describeTransition(timeZone, transition);
+            const rule = rules.find(rule => rule.key === key && rule.lastYear === year - 1);
+            if (rule) {
+                rule.onsets.push(transition);
+                rule.lastYear = year;
+            } else {
+                rules.push({ type, key, lines, onsets: [transition], lastYear: year });
+            }
+        }
+    }
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+    // The offset before the first change, or the only one for zones that don't change
+    const yearStart = Date.UTC(firstYear, 0, 1);
+    if (firstTransition === undefined || firstTransition >= Date.UTC(firstYear + 1, 0, 1)) {
+        const offset = formatOffset(getOffsetMs(yearStart, timeZone));
+        lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+    }
+    for (const rule of rules) {
+        const [start, repeat, ...offsets] = rule.lines;
+        const lastOnset = rule.onsets[rule.onsets.length - 1];
+        lines.push(`BEGIN:${rule.type}`, start);
+        if (rule.lastYear === lastYear) lines.push(repeat);
+        else if (rule.onsets.length > 1) lines.push(`${repeat};UNTIL=${formatUtc(lastOnset)}`);
+        lines.push(...offsets, `END:${rule.type}`);
+    }
+    lines.push('END:VTIMEZONE');
+    return lines;
+}
+
+// The years a zone's events span, from the first start to the last end or the end of a repeat.
+function getZoneYears(events: CalendarEvent[], now: number): [number, number] {
+    const years = events.flatMap(event => {
+        const until = /UNTIL=(\d{4})/.exec(event.recurrence ?? '')?.[1];
+        return [event.start, event.end, ...(event.exceptions ?? []), ...(until ? [`${until}-01-01`] : [])]
+            .map(value => new Date(value).getUTCFullYear());
+    }).filter(year => !isNaN(year));
+    if (years.length === 0) years.push(new Date(now).getUTCFullYear());
+    return [Math.min(...years), Math.max(...years)];
+}
+
+function formatEvent(event: CalendarEvent, stamp: string): string[] {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.id}`,
+        `DTSTAMP:${stamp}`,
+        formatTimeProperty('DTSTART', event.start, event),
+        formatTimeProperty('DTEND', event.end, event),
+        `SUMMARY:${escapeText(event.title)}`,
+    ];
+    if (event.recurrenceId) lines.push(formatTimeProperty('RECURRENCE-ID', event.recurrenceId, event));
+    if (event.recurrence) lines.push(`RRULE:${event.recurrence}`);
+    for (const exception of event.exceptions ?? []) lines.push(formatTimeProperty('EXDATE', exception, event));
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    for (const attendee of event.attendees ?? []) {
+        const params = [
+            attendee.name ? `;CN="${attendee.name.replace(/"/g, "'")}"` : '',
+            attendee.status ? `;PARTSTAT=${attendee.status.toUpperCase()}` : '',
+        ].join('');
+        lines.push(`ATTENDEE${params}:mailto:${attendee.email}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character.
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let length = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        if (length + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            length = 0;
+        }
+        current += char;
+        length += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+/**
+ * Writes events as an iCalendar file, with a VTIMEZONE for every zone they use.
+ */
+export function formatIcs(events: CalendarEvent[], now = Date.now()): string {
+    const stamp = formatUtc(now);
+    const zoned = events.filter(event => !event.allDay && event.timeZone);
+    const timeZones = [...new Set(zoned.map(event => event.timeZone!))];
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        ...timeZones.flatMap(timeZone => formatTimeZone(timeZone, ...getZoneYears(zoned.filter(event => event.timeZone === timeZone), now))),
+        ...events.flatMap(event => formatEvent(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type CalendarAdapter, type CalendarEvent } from './types';
+import { findConflicts, findFreeSlots, setCalendarAdapter } from '.';
+
+// Keeps events in memory, one list per id
+function createMemoryAdapter(events: CalendarEvent[]): CalendarAdapter {
+    const stored = new Map<string, CalendarEvent[]>();
+    for (const event of events) stored.set(event.id, [...(stored.get(event.id) ?? []), event]);
+    return {
+        name: 'memory',
+        loadEvents: async () => [...stored.values()].flat(),
+        getEvents: async id => stored.get(id) ?? [],
+        saveEvents: async saved => { stored.set(saved[0].id, saved); },
+        deleteEvent: async id => stored.delete(id),
+    };
+}
+
+const event = (id: string, start: string, end: string, extra: Partial<CalendarEvent> = {}): CalendarEvent =>
+    ({ id, title: id, start, end, ...extra });
+
+describe('findConflicts', () => {
+    beforeEach(() => {
+        setCalendarAdapter(createMemoryAdapter([
+            event('review', '2026-10-20T10:00:00.000Z', '2026-10-20T11:00:00.000Z'),
+            event('cancelled', '2026-10-20T13:00:00.000Z', '2026-10-20T14:00:00.000Z', { status: 'cancelled' }),
+            event('holiday', '2026-10-20', '2026-10-21', { allDay: true }),
+        ]));
+    });
+
+    it('finds timed events that overlap, but not ones that only touch it', async () => {
+        const conflicts = await findConflicts(event('new', '2026-10-20T10:30:00.000Z', '2026-10-20T11:30:00.000Z'));
+        expect(conflicts.map(other => other.id)).toEqual(['review']);
+        expect(await findConflicts(event('new', '2026-10-20T11:00:00.000Z', '2026-10-20T12:00:00.000Z'))).toEqual([]);
+    });
+
+    it('leaves out cancelled events, which free-slot search counts as free too', async () => {
+        const booking = event('new', '2026-10-20T13:00:00.000Z', '2026-10-20T14:00:00.000Z');
+        expect(await findConflicts(booking)).toEqual([]);
+        const slots = await findFreeSlots({
+            range: { start: Date.parse('2026-10-20T00:00:00Z'), end: Date.parse('2026-10-21T00:00:00Z') },
+            durationMs: 60 * 60 * 1000,
+            timeZone: 'UTC',
+        });
+        expect(slots.some(slot => slot.start <= Date.parse(booking.start) && slot.end >= Date.parse(booking.end))).toBe(true);
+    });
+
+    it('does not count the event against itself', async () => {
+        expect(await findConflicts(event('review', '2026-10-20T10:00:00.000Z', '2026-10-20T11:00:00.000Z'))).toEqual([]);
+    });
+});
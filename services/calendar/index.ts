@@ -0,0 +1,154 @@
+import { type CalendarAdapter, type CalendarEvent, type CalendarRange } from './types';
+import { localCalendarAdapter } from './localCalendar';
+import { createCalDavAdapter } from './caldavAdapter';
+import { expandEvents } from './recurrence';
+import { parseIcs, formatIcs } from './ics';
+import { getEventTime } from './time';
+import { findFreeSlots as findFreeSlotsIn, type FreeSlotOptions } from './availability';
+
+export * from './types';
+export { parseIcs, formatIcs } from './ics';
+export { expandEvents, isValidRecurrence } from './recurrence';
+export { createCalDavAdapter, DEFAULT_CALDAV_ENDPOINT } from './caldavAdapter';
+export { DEFAULT_DAY_START, DEFAULT_DAY_END, DEFAULT_FREE_SLOT_LIMIT, type FreeSlotOptions } from './availability';
+export {
+    getLocalTimeZone, isValidTimeZone, parseDateTime, formatZonedIso, getEventTime, isDateOnly, addDays,
+} from './time';
+
+let activeAdapter: CalendarAdapter | null = null;
+
+/**
+ * Returns where the calendar is kept: the CalDAV server when the app server has one configured
+ * (CALDAV_URL), otherwise this browser's storage.
+ */
+export function getCalendarAdapter(): CalendarAdapter {
+    activeAdapter ??= process.env.CALDAV_SYNC === 'true' ? createCalDavAdapter() : localCalendarAdapter;
+    return activeAdapter;
+}
+
+/**
+ * Replaces the calendar adapter, e.g. with one that keeps events in memory in tests.
+ */
+export function setCalendarAdapter(adapter: CalendarAdapter): void {
+    activeAdapter = adapter;
+}
+
+/**
+ * The events overlapping the range, one per occurrence of recurring events, sorted by start.
+ */
+export async function getCalendarEvents(range: CalendarRange): Promise<CalendarEvent[]> {
+    return expandEvents(await getCalendarAdapter().loadEvents(range), range);
+}
+
+export async function createCalendarEvent(event: CalendarEvent): Promise<CalendarEvent> {
+    await getCalendarAdapter().saveEvents([event]);
+    return event;
+}
+
+// The occurrence of a stored series (or the single event) that starts at the given time.
+function findOccurrence(events: CalendarEvent[], start: number): CalendarEvent {
+    const occurrence = expandEvents(events, { start, end: start + 1 }).find(event => getEventTime(event.start, event.allDay) === start);
+    if (!occurrence) {
+        throw new Error(`"${events[0].title}" has no occurrence starting at ${new Date(start).toISOString()}.`);
+    }
+    return occurrence;
+}
+
+async function getStoredEvents(id: string): Promise<CalendarEvent[]> {
+    const events = await getCalendarAdapter().getEvents(id);
+    if (events.length === 0) throw new Error(`There is no calendar event with the id "${id}".`);
+    return events;
+}
+
+const getSeries = (events: CalendarEvent[]) => events.find(event => !event.recurrenceId) ?? events[0];
+
+export interface CalendarUpdate {
+    updated: CalendarEvent; // The changed event, or the changed occurrence
+    events: CalendarEvent[]; // What to store: the series with its changed occurrences
+    previous: CalendarEvent[]; // What was stored, to restore
+}
+
+/**
+ * Works out a change to an event, or to a whole repeating series; with `occurrenceStart`, only that
+ * occurrence of the series changes. Nothing is stored until the update is passed to saveCalendarEvents.
+ */
+export async function planCalendarUpdate(
+    id: string,
+    change: (event: CalendarEvent) => CalendarEvent,
+    occurrenceStart?: number,
+): Promise<CalendarUpdate> {
+    const previous = await getStoredEvents(id);
+    const series = getSeries(previous);
+    if (occurrenceStart === undefined || !series.recurrence) {
+        const updated = change(series);
+        return { updated, events: previous.map(event => event === series ? updated : event), previous };
+    }
+    // A changed occurrence is stored next to its series, marked with the start it replaces
+    const { recurrence, exceptions, ...occurrence } = findOccurrence(previous, occurrenceStart);
+    const replacedStart = occurrence.recurrenceId ?? occurrence.start;
+    const updated = { ...change(occurrence), recurrenceId: replacedStart };
+    return { updated, events: [...previous.filter(event => event.recurrenceId !== replacedStart), updated], previous };
+}
+
+/**
+ * Removes an event with all its occurrences, or with `occurrenceStart` just that occurrence.
+ * Resolves with the stored events as they were, to restore; empty when there was nothing to remove.
+ */
+export async function deleteCalendarEvent(id: string, occurrenceStart?: number): Promise<CalendarEvent[]> {
+    const previous = await getCalendarAdapter().getEvents(id);
+    if (previous.length === 0) return [];
+    const series = getSeries(previous);
+    if (occurrenceStart === undefined || !series.recurrence) {
+        await getCalendarAdapter().deleteEvent(id);
+        return previous;
+    }
+    const occurrence = findOccurrence(previous, occurrenceStart);
+    const cancelledStart = occurrence.recurrenceId ?? occurrence.start;
+    const remaining = previous
+        .filter(event => event.recurrenceId !== cancelledStart)
+        .map(event => event === series ? { ...series, exceptions: [...(series.exceptions ?? []), cancelledStart] } : event);
+    await getCalendarAdapter().saveEvents(remaining);
+    return previous;
+}
+
+// Stores a series with its changed occurrences: a planned update, or events to put back as they were.
+export async function saveCalendarEvents(events: CalendarEvent[]): Promise<void> {
+    await getCalendarAdapter().saveEvents(events);
+}
+
+/**
+ * The timed events that overlap the event's time, other than itself. All-day and cancelled events
+ * and events that only touch it don't count, as in findFreeSlots; for a series, only its first
+ * occurrence is checked.
+ */
+export async function findConflicts(event: CalendarEvent): Promise<CalendarEvent[]> {
+    if (event.allDay) return [];
+    const range = { start: getEventTime(event.start), end: getEventTime(event.end) };
+    if (range.end <= range.start) return [];
+    const events = await getCalendarEvents(range);
+    return events.filter(other => other.id !== event.id && !other.allDay && other.status !== 'cancelled'
+        && getEventTime(other.start) < range.end && getEventTime(other.end) > range.start);
+}
+
+export async function findFreeSlots(options: FreeSlotOptions): Promise<CalendarRange[]> {
+    return findFreeSlotsIn(await getCalendarEvents(options.range), options);
+}
+
+/**
+ * Adds the events of an .ics file to the calendar. Events whose UID is already there replace it.
+ * Resolves with the number of events (series counted once) imported.
+ */
+export async function importCalendar(text: string): Promise<number> {
+    const series = new Map<string, CalendarEvent[]>();
+    for (const event of parseIcs(text)) {
+        series.set(event.id, [...(series.get(event.id) ?? []), event]);
+    }
+    for (const events of series.values()) {
+        await getCalendarAdapter().saveEvents(events);
+    }
+    return series.size;
+}
+
+export async function exportCalendar(): Promise<string> {
+    return formatIcs(await getCalendarAdapter().loadEvents());
+}
@@ -0,0 +1,48 @@
+import { type CalendarAdapter, type CalendarEvent } from './types';
+import { getMockCalendarEvents } from '../mockDataService';
+
+const CALENDAR_KEY = 'jarvis-calendar';
+
+// Until something is saved, the calendar holds today's sample events.
+function loadEvents(): CalendarEvent[] {
+    try {
+        const saved = localStorage.getItem(CALENDAR_KEY);
+        return saved ? JSON.parse(saved) : getMockCalendarEvents();
+    } catch (error) {
+        console.error('Failed to load the calendar:', error);
+        return [];
+    }
+}
+
+function saveEvents(events: CalendarEvent[]): void {
+    try {
+        localStorage.setItem(CALENDAR_KEY, JSON.stringify(events));
+    } catch (error) {
+        console.error('Failed to save the calendar:', error);
+    }
+}
+
+/**
+ * The calendar kept in this browser's storage, used when no CalDAV server is configured.
+ */
+export const localCalendarAdapter: CalendarAdapter = {
+    name: 'local',
+    // Few enough events are stored locally to hand them all over and let expansion pick the range
+    async loadEvents() {
+        return loadEvents();
+    },
+    async getEvents(id) {
+        return loadEvents().filter(event => event.id === id);
+    },
+    async saveEvents(events) {
+        const ids = new Set(events.map(event => event.id));
+        saveEvents([...loadEvents().filter(event => !ids.has(event.id)), ...events]);
+    },
+    async deleteEvent(id) {
+        const events = loadEvents();
+        const remaining = events.filter(event => event.id !== id);
+        if (remaining.length === events.length) return false;
+        saveEvents(remaining);
+        return true;
+    },
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { type CalendarEvent } from './types';
+import { expandEvents, isValidRecurrence } from './recurrence';
+
+const range = (start: string, end: string) => ({ start: Date.parse(start), end: Date.parse(end) });
+
+const standup: CalendarEvent = {
+    id: 'standup',
+    title: 'Standup',
+    start: '2026-03-02T14:00:00.000Z', // 09:00 in New York, before DST
+    end: '2026-03-02T14:15:00.000Z',
+    timeZone: 'America/New_York',
+    recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE',
+};
+
+const starts = (events: CalendarEvent[]) => events.map(event => event.start);
+
+describe('expandEvents', () => {
+    it('keeps the wall-clock time across a DST change', () => {
+        const occurrences = expandEvents([standup], range('2026-03-01T00:00:00Z', '2026-03-12T00:00:00Z'));
+        expect(starts(occurrences)).toEqual([
+            '2026-03-02T14:00:00.000Z',
+            '2026-03-04T14:00:00.000Z',
+            '2026-03-09T13:00:00.000Z', // 09:00 EDT
+            '2026-03-11T13:00:00.000Z',
+        ]);
+        expect(occurrences[2].end).toBe('2026-03-09T13:15:00.000Z');
+    });
+
+    it('stops at COUNT and UNTIL', () => {
+        const all = range('2026-01-01T00:00:00Z', '2027-01-01T00:00:00Z');
+        expect(expandEvents([{ ...standup, recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3' }], all)).toHaveLength(3);
+        expect(starts(expandEvents([{ ...standup, recurrence: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260316' }], all))).toEqual([
+            '2026-03-02T14:00:00.000Z',
+            '2026-03-09T13:00:00.000Z',
+            '2026-03-16T13:00:00.000Z',
+        ]);
+    });
+
+    it('picks ordinal weekdays and skips months without the day', () => {
+        const lastFriday = { ...standup, start: '2026-01-30T17:00:00.000Z', end: '2026-01-30T18:00:00.000Z', recurrence: 'FREQ=MONTHLY;BYDAY=-1FR' };
+        expect(starts(expandEvents([lastFriday], range('2026-01-01T00:00:00Z', '2026-04-01T00:00:00Z')))).toEqual([
+            '2026-01-30T17:00:00.000Z',
+            '2026-02-27T17:00:00.000Z',
+            '2026-03-27T16:00:00.000Z',
+        ]);
+        const thirtyFirst = { ...lastFriday, start: '2026-01-31T17:00:00.000Z', end: '2026-01-31T18:00:00.000Z', recurrence: 'FREQ=MONTHLY' };
+        expect(starts(expandEvents([thirtyFirst], range('2026-01-01T00:00:00Z', '2026-06-01T00:00:00Z')))
+            .map(start => start.slice(0, 10))).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    });
+
+    it('repeats all-day events by date', () => {
+        const birthday: CalendarEvent = { id: 'birthday', title: 'Birthday', start: '2024-02-29', end: '2024-03-01', allDay: true, recurrence: 'FREQ=YEARLY' };
+        const occurrences = expandEvents([birthday], range('2024-01-01T00:00:00Z', '2029-01-01T00:00:00Z'));
+        expect(starts(occurrences)).toEqual(['2024-02-29', '2028-02-29']);
+        expect(occurrences[1].end).toBe('2028-03-01');
+    });
+
+    it('leaves out exceptions and puts moved occurrences in place of theirs', () => {
+        const series = { ...standup, exceptions: ['2026-03-04T14:00:00.000Z'] };
+        const moved: CalendarEvent = { ...standup, recurrence: undefined, recurrenceId: '2026-03-09T13:00:00.000Z', start: '2026-03-10T13:00:00.000Z', end: '2026-03-10T13:15:00.000Z' };
+        const cancelled: CalendarEvent = { ...moved, recurrenceId: '2026-03-11T13:00:00.000Z', start: '2026-03-11T13:00:00.000Z', end: '2026-03-11T13:15:00.000Z', status: 'cancelled' };
+        expect(starts(expandEvents([series, moved, cancelled], range('2026-03-01T00:00:00Z', '2026-03-12T00:00:00Z')))).toEqual([
+            '2026-03-02T14:00:00.000Z',
+            '2026-03-10T13:00:00.000Z',
+        ]);
+    });
+
+    it('includes events that overlap the range, sorted by start', () => {
+        const late: CalendarEvent = { id: 'late', title: 'Late', start: '2026-03-01T23:30:00.000Z', end: '2026-03-02T00:30:00.000Z' };
+        const ended: CalendarEvent = { id: 'ended', title: 'Ended', start: '2026-03-01T22:00:00.000Z', end: '2026-03-02T00:00:00.000Z' };
+        expect(expandEvents([standup, ended, late], range('2026-03-02T00:00:00Z', '2026-03-03T00:00:00Z')).map(event => event.id))
+            .toEqual(['late', 'standup']);
+    });
+});
+
+describe('isValidRecurrence', () => {
+    it('accepts the supported frequencies only', () => {
+        expect(isValidRecurrence('FREQ=DAILY;INTERVAL=2')).toBe(true);
+        expect(isValidRecurrence('FREQ=HOURLY')).toBe(false);
+    });
+});
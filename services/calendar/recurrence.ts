@@ -0,0 +1,193 @@
+import { type CalendarEvent, type CalendarRange } from './types';
+import {
+    type WallTime, getLocalTimeZone, toWallTime, fromWallTime, wallTimeToNaive, naiveToWallTime,
+    parseDateOnly, formatDate, getEventTime,
+} from './time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Stops runaway rules: a daily event is followed for about 27 years past its start
+const MAX_PERIODS = 10000;
+
+interface RecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+    interval: number;
+    count?: number;
+    until?: string;
+    byDay?: { weekday: number; ordinal?: number }[];
+    byMonthDay?: number[];
+    byMonth?: number[];
+}
+
+function parseRule(value: string): RecurrenceRule {
+    const parts = new Map(value.split(';').map(part => part.split('=') as [string, string]));
+    const freq = parts.get('FREQ')?.toUpperCase();
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+        throw new Error(`Unsupported recurrence "${value}". Use FREQ=DAILY, WEEKLY, MONTHLY or YEARLY.`);
+    }
+    const numbers = (key: string) => parts.get(key)?.split(',').map(Number).filter(n => !isNaN(n) && n !== 0);
+    return {
+        freq,
+        interval: Math.max(1, Number(parts.get('INTERVAL')) || 1),
+        count: parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined,
+        until: parts.get('UNTIL'),
+        byDay: parts.get('BYDAY')?.split(',').flatMap(day => {
+            const match = /^([+-]?\d{1,2})?([A-Z]{2})$/i.exec(day.trim());
+            const weekday = match ? WEEKDAYS.indexOf(match[2].toUpperCase()) : -1;
+            return weekday === -1 ? [] : [{ weekday, ordinal: match![1] ? Number(match![1]) : undefined }];
+        }),
+        byMonthDay: numbers('BYMONTHDAY'),
+        byMonth: numbers('BYMONTH'),
+    };
+}
+
+export function isValidRecurrence(value: string): boolean {
+    try {
+        parseRule(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// The days of a month a rule picks, before BYMONTH and the series start are applied.
+function pickDaysInMonth(rule: RecurrenceRule, year: number, month: number, startDay: number): number[] {
+    const length = daysInMonth(year, month);
+    if (rule.byDay?.length) {
+        const days: number[] = [];
+        for (const { weekday, ordinal } of rule.byDay) {
+            const matching: number[] = [];
+            for (let day = 1; day <= length; day++) {
+                if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) matching.push(day);
+            }
+            if (ordinal === undefined) days.push(...matching);
+            else {
+                const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (day !== undefined) days.push(day);
+            }
+        }
+        return days;
+    }
+    if (rule.byMonthDay?.length) {
+        return rule.byMonthDay.map(day => day > 0 ? day : length + day + 1).filter(day => day >= 1 && day <= length);
+    }
+    return startDay <= length ? [startDay] : [];
+}
+
+// The candidate dates (as naive day starts) in the period'th period after the series start.
+function getPeriodDays(rule: RecurrenceRule, start: WallTime, period: number): number[] {
+    const startDay = wallTimeToNaive({ ...start, hour: 0, minute: 0, second: 0 });
+    const step = period * rule.interval;
+    switch (rule.freq) {
+        case 'DAILY':
+            return [startDay + step * DAY_MS];
+        case 'WEEKLY': {
+            // Weeks start on Monday
+            const weekStart = startDay - ((new Date(startDay).getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+            const weekdays = rule.byDay?.length ? rule.byDay.map(day => day.weekday) : [new Date(startDay).getUTCDay()];
+            return weekdays.map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS);
+        }
+        case 'MONTHLY': {
+            const monthIndex = start.month - 1 + step;
+            const year = start.year + Math.floor(monthIndex / 12);
+            const month = (monthIndex % 12) + 1;
+            return pickDaysInMonth(rule, year, month, start.day).map(day => Date.UTC(year, month - 1, day));
+        }
+        case 'YEARLY': {
+            const year = start.year + step;
+            const months = rule.byMonth?.length ? rule.byMonth : [start.month];
+            return months.flatMap(month => pickDaysInMonth(rule, year, month, start.day).map(day => Date.UTC(year, month - 1, day)));
+        }
+    }
+}
+
+function matchesFilters(rule: RecurrenceRule, day: number): boolean {
+    const date = new Date(day);
+    if (rule.byMonth?.length && !rule.byMonth.includes(date.getUTCMonth() + 1)) return false;
+    // A daily rule with BYDAY only keeps those weekdays
+    if (rule.freq === 'DAILY' && rule.byDay?.length && !rule.byDay.some(({ weekday }) => weekday === date.getUTCDay())) return false;
+    return true;
+}
+
+// UNTIL is a UTC time ("20261231T235959Z"), or a date that includes the whole day.
+function parseUntil(until: string, timeZone: string): number {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(until);
+    if (!match) return Infinity;
+    const [year, month, day, hour, minute, second, utc] = match.slice(1);
+    if (hour === undefined) return fromWallTime({ year: +year, month: +month, day: +day, hour: 23, minute: 59, second: 59 }, timeZone);
+    const wall = { year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second };
+    return utc ? wallTimeToNaive(wall) : fromWallTime(wall, timeZone);
+}
+
+/**
+ * Expands a series into its occurrences that overlap the range, keeping the wall-clock time of the
+ * first one in the event's time zone. Occurrences listed as exceptions or replaced are left out.
+ */
+function expandSeries(event: CalendarEvent, range: CalendarRange, replaced: Set<number>): CalendarEvent[] {
+    const rule = parseRule(event.recurrence!);
+    const timeZone = event.allDay ? getLocalTimeZone() : event.timeZone ?? 'UTC';
+    const firstStart = getEventTime(event.start, event.allDay);
+    const start = event.allDay ? parseDateOnly(event.start) : toWallTime(firstStart, timeZone);
+    // All-day events last whole days, however long the days are
+    const duration = event.allDay
+        ? wallTimeToNaive(parseDateOnly(event.end)) - wallTimeToNaive(start)
+        : getEventTime(event.end) - firstStart;
+    const timeOfDay = (start.hour * 3600 + start.minute * 60 + start.second) * 1000;
+    const until = rule.until ? parseUntil(rule.until, timeZone) : Infinity;
+    const skipped = new Set([...(event.exceptions ?? []).map(value => getEventTime(value, event.allDay)), ...replaced]);
+
+    const occurrences: CalendarEvent[] = [];
+    let counted = 0;
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        const days = getPeriodDays(rule, start, period).filter(day => matchesFilters(rule, day)).sort((a, b) => a - b);
+        for (const day of days) {
+            const wall = naiveToWallTime(day + timeOfDay);
+            const occurrenceStart = fromWallTime(wall, timeZone);
+            if (occurrenceStart < firstStart) continue;
+            if (occurrenceStart > until || (rule.count !== undefined && counted >= rule.count)) return occurrences;
+            counted++;
+            if (occurrenceStart >= range.end) return occurrences;
+            const endWall = naiveToWallTime(day + duration);
+            const occurrenceEnd = event.allDay ? fromWallTime(endWall, timeZone) : occurrenceStart + duration;
+            if (occurrenceEnd <= range.start && !(duration === 0 && occurrenceStart === range.start)) continue;
+            if (skipped.has(occurrenceStart)) continue;
+            occurrences.push({
+                ...event,
+                start: event.allDay ? formatDate(wall) : new Date(occurrenceStart).toISOString(),
+                end: event.allDay ? formatDate(endWall) : new Date(occurrenceEnd).toISOString(),
+            });
+        }
+    }
+    return occurrences;
+}
+
+function overlaps(event: CalendarEvent, range: CalendarRange): boolean {
+    const start = getEventTime(event.start, event.allDay);
+    const end = getEventTime(event.end, event.allDay);
+    return start < range.end && (end > range.start || (start === end && start >= range.start));
+}
+
+/**
+ * Turns stored events into the occurrences that overlap the range, sorted by start. Changed
+ * occurrences of a series replace the ones they were moved from; cancelled events are dropped.
+ */
+export function expandEvents(events: CalendarEvent[], range: CalendarRange): CalendarEvent[] {
+    const replacedBySeries = new Map<string, Set<number>>();
+    for (const event of events) {
+        if (!event.recurrenceId) continue;
+        const replaced = replacedBySeries.get(event.id) ?? new Set<number>();
+        replaced.add(getEventTime(event.recurrenceId, event.allDay));
+        replacedBySeries.set(event.id, replaced);
+    }
+    const occurrences = events.flatMap(event => {
+        if (event.recurrence && !event.recurrenceId) {
+            return expandSeries(event, range, replacedBySeries.get(event.id) ?? new Set());
+        }
+        return overlaps(event, range) ? [event] : [];
+    });
+    return occurrences
+        .filter(event => event.status !== 'cancelled')
+        .sort((a, b) => getEventTime(a.start, a.allDay) - getEventTime(b.start, b.allDay));
+}
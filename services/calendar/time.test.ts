@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, formatZonedIso, fromWallTime, getOffsetMs, parseDateTime, toWallTime } from './time';
+
+const wall = (year: number, month: number, day: number, hour = 0, minute = 0) => ({ year, month, day, hour, minute, second: 0 });
+
+describe('time zones', () => {
+    it('reads the offset on either side of a DST change', () => {
+        expect(getOffsetMs(Date.parse('2026-01-15T12:00:00Z'), 'America/New_York')).toBe(-5 * 3600000);
+        expect(getOffsetMs(Date.parse('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-4 * 3600000);
+        expect(getOffsetMs(Date.parse('2026-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(5.5 * 3600000);
+    });
+
+    it('turns wall times into instants and back', () => {
+        const time = fromWallTime(wall(2026, 10, 20, 14, 30), 'Europe/Berlin');
+        expect(new Date(time).toISOString()).toBe('2026-10-20T12:30:00.000Z');
+        expect(toWallTime(time, 'Europe/Berlin')).toEqual(wall(2026, 10, 20, 14, 30));
+    });
+
+    it('moves a time skipped by the spring change forward by the gap', () => {
+        // Clocks in New York go from 02:00 to 03:00 on 8 March 2026
+        const time = fromWallTime(wall(2026, 3, 8, 2, 30), 'America/New_York');
+        expect(formatZonedIso(time, 'America/New_York')).toBe('2026-03-08T03:30:00-04:00');
+    });
+
+    it('resolves a time repeated by the autumn change to its first occurrence', () => {
+        // 01:30 happens twice in New York on 1 November 2026
+        const time = fromWallTime(wall(2026, 11, 1, 1, 30), 'America/New_York');
+        expect(formatZonedIso(time, 'America/New_York')).toBe('2026-11-01T01:30:00-04:00');
+    });
+});
+
+describe('parseDateTime', () => {
+    it('reads dates and local times in the given zone', () => {
+        expect(new Date(parseDateTime('2026-10-20', 'Europe/London')).toISOString()).toBe('2026-10-19T23:00:00.000Z');
+        expect(new Date(parseDateTime('2026-10-20T14:00', 'Europe/London')).toISOString()).toBe('2026-10-20T13:00:00.000Z');
+        expect(new Date(parseDateTime('2026-10-20 14:00:30', 'UTC')).toISOString()).toBe('2026-10-20T14:00:30.000Z');
+    });
+
+    it('keeps the offset of ISO times that have one', () => {
+        expect(new Date(parseDateTime('2026-10-20T14:00:00-07:00', 'Europe/London')).toISOString()).toBe('2026-10-20T21:00:00.000Z');
+        expect(new Date(parseDateTime('2026-10-20T14:00:00Z', 'Asia/Tokyo')).toISOString()).toBe('2026-10-20T14:00:00.000Z');
+    });
+
+    it('rejects what is not a time', () => {
+        expect(() => parseDateTime('next Tuesday', 'UTC')).toThrow(/not a date or time/);
+    });
+});
+
+describe('addDays', () => {
+    it('steps across month and year ends', () => {
+        expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+        expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+        expect(addDays('2028-03-01', -1)).toBe('2028-02-29');
+    });
+});
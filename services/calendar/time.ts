@@ -0,0 +1,127 @@
+// Wall-clock time in a time zone. Month is 1-12.
+export interface WallTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23',
+            year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export function getLocalTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function toWallTime(time: number, timeZone: string): WallTime {
+    const parts = getFormatter(timeZone).formatToParts(new Date(time));
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+// Wall times are easiest to step through as if they were UTC: no day is ever skipped or repeated.
+export function wallTimeToNaive(wall: WallTime): number {
+    return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+export function naiveToWallTime(naive: number): WallTime {
+    const date = new Date(naive);
+    return {
+        year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(),
+        hour: date.getUTCHours(), minute: date.getUTCMinutes(), second: date.getUTCSeconds(),
+    };
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant.
+export function getOffsetMs(time: number, timeZone: string): number {
+    return wallTimeToNaive(toWallTime(time, timeZone)) - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. A time skipped by a DST change is moved
+ * forward by the gap; a repeated one resolves to its first occurrence.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): number {
+    const naive = wallTimeToNaive(wall);
+    const before = getOffsetMs(naive - DAY_MS, timeZone);
+    const after = getOffsetMs(naive + DAY_MS, timeZone);
+    const candidates = [naive - before, naive - after];
+    return candidates.find(time => wallTimeToNaive(toWallTime(time, timeZone)) === naive)
+        ?? naive - Math.min(before, after);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export function formatDate({ year, month, day }: WallTime): string {
+    return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+// An ISO 8601 time with the zone's offset, e.g. "2026-10-19T09:00:00-07:00".
+export function formatZonedIso(time: number, timeZone: string): string {
+    const wall = toWallTime(time, timeZone);
+    const offset = Math.round(getOffsetMs(time, timeZone) / 60000);
+    const sign = offset < 0 ? '-' : '+';
+    return `${formatDate(wall)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const LOCAL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/;
+
+export function isDateOnly(value: string): boolean {
+    return DATE_PATTERN.test(value);
+}
+
+export function parseDateOnly(value: string): WallTime {
+    const match = DATE_PATTERN.exec(value);
+    if (!match) throw new Error(`"${value}" is not a date. Use YYYY-MM-DD.`);
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]), hour: 0, minute: 0, second: 0 };
+}
+
+/**
+ * Reads a time the way people and models write it: a date (midnight), a local time such as
+ * "2026-10-20T14:00" in the given zone, or an ISO 8601 time with an offset or Z.
+ */
+export function parseDateTime(value: string, timeZone: string): number {
+    if (isDateOnly(value)) return fromWallTime(parseDateOnly(value), timeZone);
+    const local = LOCAL_TIME_PATTERN.exec(value);
+    if (local) {
+        const [year, month, day, hour, minute, second = '0'] = local.slice(1);
+        return fromWallTime({ year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second }, timeZone);
+    }
+    const time = Date.parse(value);
+    if (isNaN(time)) throw new Error(`"${value}" is not a date or time. Use YYYY-MM-DD or ISO 8601, e.g. 2026-10-20T14:00.`);
+    return time;
+}
+
+// The first instant of an event's start or end: midnight in the local zone for all-day dates.
+export function getEventTime(value: string, allDay?: boolean): number {
+    return allDay ? fromWallTime(parseDateOnly(value), getLocalTimeZone()) : Date.parse(value);
+}
+
+export function addDays(date: string, days: number): string {
+    return formatDate(naiveToWallTime(wallTimeToNaive(parseDateOnly(date)) + days * DAY_MS));
+}
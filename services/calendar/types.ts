@@ -0,0 +1,49 @@
+export type AttendeeStatus = 'needs-action' | 'accepted' | 'declined' | 'tentative';
+
+export interface CalendarAttendee {
+    email: string;
+    name?: string;
+    status?: AttendeeStatus;
+}
+
+// A calendar event, as stored. A recurring event is stored once, as a series; reading a date range
+// expands it into one event per occurrence.
+export interface CalendarEvent {
+    id: string; // The iCalendar UID, shared by a series and its changed occurrences
+    title: string;
+    // ISO 8601 instants in UTC, or YYYY-MM-DD dates for all-day events. The end is exclusive.
+    start: string;
+    end: string;
+    allDay?: boolean;
+    // The IANA time zone the event is planned in: repeats keep its wall-clock time across DST changes
+    timeZone?: string;
+    location?: string;
+    description?: string;
+    attendees?: CalendarAttendee[];
+    recurrence?: string; // An RRULE value, e.g. "FREQ=WEEKLY;BYDAY=MO,WE"
+    exceptions?: string[]; // Starts of cancelled occurrences (EXDATE), in the same form as start
+    recurrenceId?: string; // On a changed occurrence: the start of the occurrence it replaces
+    status?: 'confirmed' | 'tentative' | 'cancelled';
+    categories?: string[];
+}
+
+// A span of time in epoch milliseconds; the end is exclusive.
+export interface CalendarRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Where events are kept, such as this browser's storage or a CalDAV server.
+ */
+export interface CalendarAdapter {
+    name: string;
+    // Series and changed occurrences that may fall in the range, unexpanded; every event without a range
+    loadEvents(range?: CalendarRange): Promise<CalendarEvent[]>;
+    // A series with its changed occurrences, or a single event; empty when the id is unknown
+    getEvents(id: string): Promise<CalendarEvent[]>;
+    // Stores a series with its changed occurrences (all sharing one id), replacing what the id held
+    saveEvents(events: CalendarEvent[]): Promise<void>;
+    // Removes a series and its changed occurrences. Resolves false when there was nothing to remove.
+    deleteEvent(id: string): Promise<boolean>;
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { type ConsentRule } from '../types';
+import { createConsentRules, evaluateConsent, loadConsentRules, mergeConsentRules, saveConsentRules } from './consentService';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const rule = (fields: Partial<ConsentRule>): ConsentRule => ({ id: 'rule', toolName: 'searchEmails', effect: 'allow', createdAt: NOW - HOUR, ...fields });
+
+describe('evaluateConsent', () => {
+    const work = { toolName: 'searchEmails', account: 'work' };
+    const home = { toolName: 'searchEmails', account: 'home' };
+
+    it('asks when no rule covers the call', () => {
+        expect(evaluateConsent([], [work], undefined, NOW)).toBe('ask');
+        expect(evaluateConsent([rule({ toolName: 'getCalendarEvents' })], [work], undefined, NOW)).toBe('ask');
+    });
+
+    it('allows only when every account is allowed', () => {
+        const rules = [rule({ account: 'work' })];
+        expect(evaluateConsent(rules, [work], undefined, NOW)).toBe('allow');
+        expect(evaluateConsent(rules, [work, home], undefined, NOW)).toBe('ask');
+        // A rule without an account covers them all
+        expect(evaluateConsent([rule({})], [work, home], undefined, NOW)).toBe('allow');
+    });
+
+    it('denies when any account is denied, whatever else is allowed', () => {
+        const rules = [rule({}), rule({ account: 'home', effect: 'deny' })];
+        expect(evaluateConsent(rules, [work], undefined, NOW)).toBe('allow');
+        expect(evaluateConsent(rules, [work, home], undefined, NOW)).toBe('deny');
+    });
+
+    it('applies chat-only rules in their chat only', () => {
+        const rules = [rule({ sessionId: 'chat-1' })];
+        expect(evaluateConsent(rules, [work], 'chat-1', NOW)).toBe('allow');
+        expect(evaluateConsent(rules, [work], 'chat-2', NOW)).toBe('ask');
+        expect(evaluateConsent(rules, [work], undefined, NOW)).toBe('ask');
+    });
+
+    it('ignores expired rules', () => {
+        expect(evaluateConsent([rule({ expiresAt: NOW + HOUR })], [work], undefined, NOW)).toBe('allow');
+        expect(evaluateConsent([rule({ expiresAt: NOW })], [work], undefined, NOW)).toBe('ask');
+        expect(evaluateConsent([rule({ effect: 'deny', expiresAt: NOW - 1 })], [work], undefined, NOW)).toBe('ask');
+    });
+});
+
+describe('createConsentRules', () => {
+    const scopes = [{ toolName: 'searchEmails', account: 'work' }, { toolName: 'searchEmails', account: 'home' }];
+
+    it('remembers nothing for a one-off decision', () => {
+        expect(createConsentRules({ effect: 'allow', duration: 'once' }, scopes, 'chat-1', NOW)).toEqual([]);
+    });
+
+    it('makes one rule per scope, tied to the chat for a chat-only decision', () => {
+        const rules = createConsentRules({ effect: 'deny', duration: 'session' }, scopes, 'chat-1', NOW);
+        expect(rules.map(({ account, effect, sessionId, expiresAt }) => ({ account, effect, sessionId, expiresAt }))).toEqual([
+            { account: 'work', effect: 'deny', sessionId: 'chat-1', expiresAt: undefined },
+            { account: 'home', effect: 'deny', sessionId: 'chat-1', expiresAt: undefined },
+        ]);
+    });
+
+    it('sets the expiry of an "always" decision when one was picked', () => {
+        const [timed] = createConsentRules({ effect: 'allow', duration: 'always', expiresInMs: HOUR }, scopes, 'chat-1', NOW);
+        expect(timed).toMatchObject({ sessionId: undefined, createdAt: NOW, expiresAt: NOW + HOUR });
+        const [lasting] = createConsentRules({ effect: 'allow', duration: 'always' }, scopes, 'chat-1', NOW);
+        expect(lasting.expiresAt).toBeUndefined();
+    });
+});
+
+describe('mergeConsentRules', () => {
+    it('replaces the rule for the same tool, account and chat with the latest decision', () => {
+        const old = [rule({ id: 'a', account: 'work' }), rule({ id: 'b', account: 'home' }), rule({ id: 'c', account: 'work', sessionId: 'chat-1' })];
+        const merged = mergeConsentRules(old, [rule({ id: 'd', account: 'work', effect: 'deny' })]);
+        expect(merged.map(r => r.id)).toEqual(['b', 'c', 'd']);
+    });
+});
+
+describe('loadConsentRules', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('drops expired rules', () => {
+        const items = new Map<string, string>();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => items.get(key) ?? null,
+            setItem: (key: string, value: string) => items.set(key, value),
+        });
+        vi.useFakeTimers({ now: NOW });
+        saveConsentRules([rule({ id: 'expired', expiresAt: NOW - 1 }), rule({ id: 'current', expiresAt: NOW + HOUR }), rule({ id: 'lasting' })]);
+        expect(loadConsentRules().map(r => r.id)).toEqual(['current', 'lasting']);
+    });
+});
@@ -0,0 +1,74 @@
+import { type ConsentChoice, type ConsentRule, type ConsentScope } from '../types';
+
+const CONSENT_RULES_KEY = 'jarvis-consent-rules';
+
+// Expiry choices for "always" decisions; unset lasts until revoked.
+export const CONSENT_EXPIRY_OPTIONS: { label: string, value?: number }[] = [
+    { label: 'for 1 hour', value: 60 * 60 * 1000 },
+    { label: 'for 1 day', value: 24 * 60 * 60 * 1000 },
+    { label: 'for 30 days', value: 30 * 24 * 60 * 60 * 1000 },
+    { label: 'until revoked' },
+];
+
+export type ConsentOutcome = 'allow' | 'deny' | 'ask';
+
+// Expired rules are dropped on load.
+export function loadConsentRules(): ConsentRule[] {
+    try {
+        const saved = localStorage.getItem(CONSENT_RULES_KEY);
+        const rules: ConsentRule[] = saved ? JSON.parse(saved) : [];
+        return rules.filter(rule => !rule.expiresAt || rule.expiresAt > Date.now());
+    } catch (error) {
+        console.error('Failed to load consent rules:', error);
+        return [];
+    }
+}
+
+export function saveConsentRules(rules: ConsentRule[]): void {
+    try {
+        localStorage.setItem(CONSENT_RULES_KEY, JSON.stringify(rules));
+    } catch (error) {
+        console.error('Failed to save consent rules:', error);
+    }
+}
+
+function ruleApplies(rule: ConsentRule, scope: ConsentScope, sessionId: string | undefined, now: number): boolean {
+    return rule.toolName === scope.toolName
+        && (rule.account === undefined || rule.account === scope.account)
+        && (!rule.sessionId || rule.sessionId === sessionId)
+        && (!rule.expiresAt || rule.expiresAt > now);
+}
+
+/**
+ * Decides whether a call covering these scopes may run. A matching deny on any scope wins;
+ * otherwise every scope needs a matching allow, and anything left uncovered means asking the user.
+ */
+export function evaluateConsent(rules: ConsentRule[], scopes: ConsentScope[], sessionId?: string, now = Date.now()): ConsentOutcome {
+    const matching = (scope: ConsentScope) => rules.filter(rule => ruleApplies(rule, scope, sessionId, now));
+    if (scopes.some(scope => matching(scope).some(rule => rule.effect === 'deny'))) {
+        return 'deny';
+    }
+    return scopes.every(scope => matching(scope).some(rule => rule.effect === 'allow')) ? 'allow' : 'ask';
+}
+
+/**
+ * Turns the user's answer to a consent prompt into rules to remember, one per scope.
+ * A "once" decision applies to the pending call only, so nothing is remembered.
+ */
+export function createConsentRules(choice: ConsentChoice, scopes: ConsentScope[], sessionId?: string, now = Date.now()): ConsentRule[] {
+    if (choice.duration === 'once') return [];
+    return scopes.map((scope, i) => ({
+        ...scope,
+        id: `${now}-${i}`,
+        effect: choice.effect,
+        sessionId: choice.duration === 'session' ? sessionId : undefined,
+        createdAt: now,
+        expiresAt: choice.duration === 'always' && choice.expiresInMs ? now + choice.expiresInMs : undefined,
+    }));
+}
+
+// Adds new rules, replacing older ones for the same scope and chat so the latest decision is the one kept.
+export function mergeConsentRules(rules: ConsentRule[], added: ConsentRule[]): ConsentRule[] {
+    const sameTarget = (a: ConsentRule, b: ConsentRule) => a.toolName === b.toolName && a.account === b.account && a.sessionId === b.sessionId;
+    return [...rules.filter(rule => !added.some(a => sameTarget(a, rule))), ...added];
+}
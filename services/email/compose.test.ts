@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { type EmailDraft } from '../../types';
+import { createReplyDraft, formatEmail } from './compose';
+import { parseEmail } from './parser';
+
+const draft: EmailDraft = {
+    id: 'draft-1',
+    accountId: 'me@example.com',
+    to: ['"Lee, Sam" <sam@example.com>'],
+    subject: 'Café on Thursday',
+    body: 'See you there.',
+};
+
+const headersOf = (message: string) => message.split('\r\n\r\n')[0].split('\r\n');
+
+describe('formatEmail', () => {
+    it('writes the headers and a base64 body that parse back to the draft', () => {
+        const message = formatEmail({ ...draft, inReplyTo: 'a@example.com', references: ['a@example.com'] }, 'b@example.com', new Date('2026-10-19T08:00:00Z'));
+        expect(headersOf(message)).toContain('Subject: =?UTF-8?B?Q2Fmw6kgb24gVGh1cnNkYXk=?=');
+        expect(headersOf(message)).toContain('References: <a@example.com>');
+        const parsed = parseEmail(message, { id: 'sent', accountId: 'me@example.com' });
+        expect(parsed).toMatchObject({ subject: 'Café on Thursday', body: 'See you there.', to: draft.to, inReplyTo: 'a@example.com' });
+    });
+
+    it('keeps a line break in the subject inside one encoded header', () => {
+        const headers = headersOf(formatEmail({ ...draft, subject: 'Hi\r\nBcc: x@evil.example' }, 'b@example.com'));
+        expect(headers.some(header => header.startsWith('Bcc:'))).toBe(false);
+    });
+
+    it.each([
+        ['To', { to: ['"Name\r\nBcc: x@evil.example" <a@example.com>'] }],
+        ['Cc', { cc: ['a@example.com\nBcc: x@evil.example'] }],
+        ['In-Reply-To', { inReplyTo: 'a@example.com>\r\nBcc: <x@evil.example' }],
+        ['References', { references: ['a@example.com', 'b@example.com>\r\nBcc: <x@evil.example'] }],
+    ])('refuses a line break in %s', (header, change) => {
+        expect(() => formatEmail({ ...draft, ...change }, 'b@example.com')).toThrow(`The ${header} header can't contain line breaks.`);
+    });
+
+    it('refuses to reply to a sender whose encoded name hides a header', () => {
+        const raw = 'From: =?UTF-8?Q?Name=0D=0ABcc:_x@evil.example?= <a@example.com>\nTo: me@example.com\nSubject: Hi\nMessage-ID: <m@example.com>\n\nHello';
+        const reply = createReplyDraft(parseEmail(raw, { id: 'in', accountId: 'me@example.com' }), 'me@example.com', 'Thanks');
+        expect(() => formatEmail(reply, 'b@example.com')).toThrow(/line breaks/);
+    });
+});
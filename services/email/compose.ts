@@ -0,0 +1,79 @@
+import { type EmailDraft } from '../../types';
+import { type EmailMessage } from './types';
+
+// The address part of "Name <address>", or the whole value when there are no brackets.
+export function getAddress(mailbox: string): string {
+    return (mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox).trim();
+}
+
+function toBase64(text: string): string {
+    let binary = '';
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+// Non-ASCII header values are sent as RFC 2047 encoded words.
+function encodeHeaderValue(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+// Addresses and message ids go into the headers as they are, so a line break in one would start
+// another header (a hidden Bcc, say). They come from the model and from received mail.
+function checkHeaderValues(name: string, values: (string | undefined)[]): void {
+    if (values.some(value => value !== undefined && /[\r\n\0]/.test(value))) {
+        throw new Error(`The ${name} header can't contain line breaks.`);
+    }
+}
+
+/**
+ * Formats a draft as an RFC 5322 message with a base64-encoded UTF-8 text body.
+ * Throws when an address or message id holds a line break.
+ */
+export function formatEmail(draft: EmailDraft, messageId: string, date = new Date()): string {
+    checkHeaderValues('From', [draft.accountId]);
+    checkHeaderValues('To', draft.to);
+    checkHeaderValues('Cc', draft.cc ?? []);
+    checkHeaderValues('Message-ID', [messageId]);
+    checkHeaderValues('In-Reply-To', [draft.inReplyTo]);
+    checkHeaderValues('References', draft.references ?? []);
+    const headers = [
+        `From: ${draft.accountId}`,
+        `To: ${draft.to.join(', ')}`,
+        draft.cc?.length ? `Cc: ${draft.cc.join(', ')}` : undefined,
+        `Subject: ${encodeHeaderValue(draft.subject)}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: <${messageId}>`,
+        draft.inReplyTo ? `In-Reply-To: <${draft.inReplyTo}>` : undefined,
+        draft.references?.length ? `References: ${draft.references.map(id => `<${id}>`).join(' ')}` : undefined,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+    ].filter(Boolean);
+    const body = toBase64(draft.body).match(/.{1,76}/g) ?? [];
+    return [...headers, '', ...body].join('\r\n');
+}
+
+export function createMessageId(accountId: string): string {
+    return `${Date.now()}.${Math.random().toString(36).slice(2, 10)}@${getAddress(accountId).split('@')[1] ?? 'localhost'}`;
+}
+
+/**
+ * Drafts a reply from `accountId`: to the sender, or with `replyAll` to every other recipient too,
+ * threaded with In-Reply-To and References, and with the original quoted below the new text.
+ */
+export function createReplyDraft(original: EmailMessage, accountId: string, body: string, replyAll = false): EmailDraft {
+    const self = getAddress(accountId).toLowerCase();
+    const others = (mailboxes: string[]) => mailboxes.filter(m => getAddress(m).toLowerCase() !== self);
+    const quoted = original.body.split('\n').map(line => `> ${line}`).join('\n');
+    const sentOn = original.date ? new Date(original.date).toLocaleString() : undefined;
+    return {
+        id: `draft-${Date.now()}`,
+        accountId,
+        to: replyAll ? [original.from, ...others(original.to)] : [original.from],
+        cc: replyAll && original.cc ? others(original.cc) : undefined,
+        subject: /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`,
+        body: `${body}\n\n${sentOn ? `On ${sentOn}, ` : ''}${original.from} wrote:\n${quoted}`,
+        inReplyTo: original.messageId,
+        references: original.messageId ? [...(original.references ?? []), original.messageId] : original.references,
+    };
+}
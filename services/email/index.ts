@@ -0,0 +1,73 @@
+import { getMockEmails } from '../mockDataService';
+import { type EmailAdapter, type EmailMessage, type EmailQuery, type EmailTransport } from './types';
+import { localMailboxAdapter, hasImportedMail } from './localMailbox';
+import { createSmtpRelayTransport } from './smtpRelayTransport';
+
+export * from './types';
+export { parseEmail, parseMailFile, splitMbox, assignThreads } from './parser';
+export { importMailFiles, clearMailbox, getImportedMailCounts, type MailImportResult } from './localMailbox';
+export { formatEmail, createReplyDraft, getAddress } from './compose';
+export { createSmtpRelayTransport, DEFAULT_SMTP_RELAY_ENDPOINT } from './smtpRelayTransport';
+
+// How many emails a search returns when the query sets no limit.
+export const DEFAULT_EMAIL_LIMIT = 20;
+
+const sampleMailAdapter: EmailAdapter = {
+    name: 'sample',
+    listMessages: getMockEmails,
+};
+
+// Accounts with imported mail are read from it; the others keep the built-in sample mail.
+function getEmailAdapter(accountId: string): EmailAdapter {
+    return hasImportedMail(accountId) ? localMailboxAdapter : sampleMailAdapter;
+}
+
+function matchesQuery(message: EmailMessage, query: EmailQuery): boolean {
+    const words = query.query?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    const text = `${message.subject}\n${message.body}`.toLowerCase();
+    return (!query.from || message.from.toLowerCase().includes(query.from.toLowerCase()))
+        && (query.after === undefined || message.date >= query.after)
+        && (query.before === undefined || message.date < query.before)
+        && (query.unread === undefined || message.unread === query.unread)
+        && (!query.threadId || message.threadId === query.threadId)
+        && words.every(word => text.includes(word));
+}
+
+/**
+ * Reads the mail of the given accounts, newest first, keeping the messages that match every filter.
+ */
+export async function searchEmails(query: EmailQuery): Promise<EmailMessage[]> {
+    const mailboxes = await Promise.all(query.accountIds.map(accountId => getEmailAdapter(accountId).listMessages(accountId)));
+    return mailboxes.flat()
+        .filter(message => matchesQuery(message, query))
+        .sort((a, b) => b.date - a.date)
+        .slice(0, query.limit ?? DEFAULT_EMAIL_LIMIT);
+}
+
+// Email ids start with the account they belong to, e.g. "work@example.com:inbox.mbox#3".
+export function getEmailAccountId(emailId: string): string {
+    return emailId.split(':')[0];
+}
+
+export async function getEmailById(emailId: string): Promise<EmailMessage | undefined> {
+    const accountId = getEmailAccountId(emailId);
+    const messages = await getEmailAdapter(accountId).listMessages(accountId);
+    return messages.find(message => message.id === emailId);
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Returns the transport outgoing mail is sent with: the app server's SMTP relay unless replaced.
+ */
+export function getEmailTransport(): EmailTransport {
+    activeTransport ??= createSmtpRelayTransport();
+    return activeTransport;
+}
+
+/**
+ * Replaces the transport, e.g. with one that records messages in tests.
+ */
+export function setEmailTransport(transport: EmailTransport): void {
+    activeTransport = transport;
+}
@@ -0,0 +1,91 @@
+import { type EmailAdapter, type EmailMessage } from './types';
+import { parseMailFile, assignThreads } from './parser';
+
+const MAILBOXES_KEY = 'jarvis-mailboxes';
+
+// Imported mail lives in localStorage, so only the newest messages are kept, with bodies cut short.
+const MAX_MESSAGES_PER_ACCOUNT = 500;
+const MAX_BODY_LENGTH = 4000;
+
+type Mailboxes = { [accountId: string]: EmailMessage[] };
+
+export interface MailImportResult {
+    imported: number;
+    duplicates: number; // Already imported, matched by Message-ID
+    failed: string[]; // Files that couldn't be read
+}
+
+function loadMailboxes(): Mailboxes {
+    try {
+        const saved = localStorage.getItem(MAILBOXES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error('Failed to load imported mail:', error);
+        return {};
+    }
+}
+
+function saveMailboxes(mailboxes: Mailboxes): void {
+    try {
+        localStorage.setItem(MAILBOXES_KEY, JSON.stringify(mailboxes));
+    } catch (error) {
+        console.error('Failed to save imported mail:', error);
+    }
+}
+
+export function hasImportedMail(accountId: string): boolean {
+    return (loadMailboxes()[accountId]?.length ?? 0) > 0;
+}
+
+export function getImportedMailCounts(): { [accountId: string]: number } {
+    return Object.fromEntries(Object.entries(loadMailboxes()).map(([accountId, messages]) => [accountId, messages.length]));
+}
+
+/**
+ * Imports mbox, Maildir or .eml files picked by the user into an account's local mailbox.
+ * Picking a Maildir folder passes every file in it, with its path in `webkitRelativePath`.
+ */
+export async function importMailFiles(accountId: string, files: File[]): Promise<MailImportResult> {
+    const mailboxes = loadMailboxes();
+    const existing = mailboxes[accountId] ?? [];
+    const knownIds = new Set(existing.map(m => m.messageId ?? m.id));
+    const added: EmailMessage[] = [];
+    const result: MailImportResult = { imported: 0, duplicates: 0, failed: [] };
+
+    for (const file of files) {
+        const path = file.webkitRelativePath || file.name;
+        // Hidden files, e.g. .DS_Store or Maildir's dovecot index files
+        if (path.split('/').some(segment => segment.startsWith('.'))) continue;
+        try {
+            for (const message of parseMailFile(path, await file.text(), accountId)) {
+                const key = message.messageId ?? message.id;
+                if (knownIds.has(key)) {
+                    result.duplicates++;
+                    continue;
+                }
+                knownIds.add(key);
+                added.push({ ...message, body: message.body.slice(0, MAX_BODY_LENGTH) });
+            }
+        } catch (error) {
+            console.error(`Failed to import ${path}:`, error);
+            result.failed.push(path);
+        }
+    }
+
+    const messages = assignThreads([...existing, ...added])
+        .sort((a, b) => b.date - a.date)
+        .slice(0, MAX_MESSAGES_PER_ACCOUNT);
+    saveMailboxes({ ...mailboxes, [accountId]: messages });
+    result.imported = added.length;
+    return result;
+}
+
+export function clearMailbox(accountId: string): void {
+    const { [accountId]: _removed, ...rest } = loadMailboxes();
+    saveMailboxes(rest);
+}
+
+export const localMailboxAdapter: EmailAdapter = {
+    name: 'local',
+    listMessages: async accountId => loadMailboxes()[accountId] ?? [],
+};
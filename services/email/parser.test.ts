@@ -0,0 +1,54 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseEmail, parseMailFile } from './parser';
+
+// Imported files are read as text, so the fixtures are too.
+const readFixture = (name: string) => readFileSync(new URL(`../../fixtures/email/${name}`, import.meta.url), 'utf-8');
+const parseFixture = (name: string) => parseEmail(readFixture(name), { id: name, accountId: 'work' });
+
+describe('parseEmail', () => {
+    it('takes the plain text part of multipart/alternative', () => {
+        const message = parseFixture('alternative.eml');
+        expect(message.body).toBe("The review moved to Thursday — bring the mock-ups.\nThis line is long enough that the sender's mailer wrapped it with a soft line break.");
+        expect(message.subject).toBe('Design review');
+        expect(message.messageId).toBe('alt-1@example.com');
+        expect(message.date).toBe(Date.parse('2025-10-14T16:30:00Z'));
+    });
+
+    it('keeps quoted commas inside one address', () => {
+        const message = parseFixture('alternative.eml');
+        expect(message.from).toBe('"Lee, Sam" <sam@example.com>');
+        expect(message.to).toEqual(['me@example.com', '"Doe, Jo" <jo@example.com>']);
+    });
+
+    it('falls back to the HTML part as text and skips attachments', () => {
+        const message = parseFixture('html-only.eml');
+        expect(message.body).toBe('Coffee is on me & it costs £3, or 3 €.\nSee you\nZoë');
+    });
+
+    it('decodes RFC 2047 words in their own charsets, joining adjacent ones', () => {
+        expect(parseFixture('html-only.eml').subject).toBe('Café au lait ☕ tomorrow?');
+        expect(parseFixture('html-only.eml').from).toBe('Zoë Müller <zoe@example.com>');
+        expect(parseFixture('latin1.eml').subject).toBe('Résumé attached');
+    });
+
+    it('decodes quoted-printable bodies in the declared charset', () => {
+        expect(parseFixture('latin1.eml').body).toBe('Voilà mon résumé.');
+    });
+
+    it('falls back to UTF-8 for an unknown charset', () => {
+        const raw = 'Subject: =?x-unknown?Q?Hello_there?=\nContent-Type: text/plain; charset=x-unknown\nContent-Transfer-Encoding: base64\n\nSGVsbG8=';
+        const message = parseEmail(raw, { id: 'unknown', accountId: 'work' });
+        expect(message.subject).toBe('Hello there');
+        expect(message.body).toBe('Hello');
+    });
+});
+
+describe('parseMailFile', () => {
+    it('reads the seen flag from a Maildir file name', () => {
+        const [read] = parseMailFile('Mail/cur/1697270400.M1P2.host:2,RS', readFixture('latin1.eml'), 'work');
+        const [unread] = parseMailFile('Mail/new/1697270400.M1P2.host', readFixture('latin1.eml'), 'work');
+        expect(read.unread).toBe(false);
+        expect(unread.unread).toBe(true);
+    });
+});
@@ -0,0 +1,243 @@
+import { type EmailMessage } from './types';
+
+// Header names are lowercased; repeated headers keep every value.
+type Headers = Map<string, string[]>;
+
+function getHeader(headers: Headers, name: string): string | undefined {
+    return headers.get(name)?.[0];
+}
+
+function splitHeadersAndBody(raw: string): { headers: Headers, body: string } {
+    const text = raw.replace(/\r\n?/g, '\n');
+    const end = text.indexOf('\n\n');
+    const headerText = end === -1 ? text : text.slice(0, end);
+    const body = end === -1 ? '' : text.slice(end + 2);
+    const headers: Headers = new Map();
+    // Folded headers continue on lines starting with whitespace
+    for (const line of headerText.replace(/\n[ \t]+/g, ' ').split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+        const name = line.slice(0, colon).trim().toLowerCase();
+        headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+    }
+    return { headers, body };
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+    try {
+        return new TextDecoder(charset).decode(bytes);
+    } catch {
+        // Unknown charset label
+        return new TextDecoder().decode(bytes);
+    }
+}
+
+function base64ToBytes(text: string): Uint8Array {
+    try {
+        return Uint8Array.from(atob(text.replace(/[^A-Za-z0-9+/=]/g, '')), c => c.charCodeAt(0));
+    } catch {
+        return new Uint8Array();
+    }
+}
+
+// In headers (RFC 2047 "Q" encoding) underscores stand for spaces.
+function quotedPrintableToBytes(text: string, isHeader = false): Uint8Array {
+    const encoder = new TextEncoder();
+    const bytes: number[] = [];
+    for (const part of text.replace(/=\n/g, '').split(/(=[0-9A-Fa-f]{2})/)) {
+        if (/^=[0-9A-Fa-f]{2}$/.test(part)) {
+            bytes.push(parseInt(part.slice(1), 16));
+        } else {
+            for (const byte of encoder.encode(isHeader ? part.replace(/_/g, ' ') : part)) bytes.push(byte);
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+// Decodes =?charset?B|Q?...?= words; whitespace between two encoded words is dropped.
+function decodeHeaderValue(value: string): string {
+    return value
+        .replace(/(\?=)\s+(=\?)/g, '$1$2')
+        .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) =>
+            decodeBytes(encoding.toUpperCase() === 'B' ? base64ToBytes(text) : quotedPrintableToBytes(text, true), charset.split('*')[0]));
+}
+
+function getParameter(value: string | undefined, name: string): string | undefined {
+    const match = value?.match(new RegExp(`;\\s*${name}\\s*=\\s*("([^"]*)"|[^;\\s]+)`, 'i'));
+    return match ? (match[2] ?? match[1]) : undefined;
+}
+
+function decodeBody(headers: Headers, body: string): string {
+    const encoding = getHeader(headers, 'content-transfer-encoding')?.toLowerCase();
+    const charset = getParameter(getHeader(headers, 'content-type'), 'charset');
+    if (encoding === 'base64') return decodeBytes(base64ToBytes(body), charset);
+    if (encoding === 'quoted-printable') return decodeBytes(quotedPrintableToBytes(body), charset);
+    // 7bit and 8bit bodies were already decoded when the file was read as text
+    return body;
+}
+
+const HTML_ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+            if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+            if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+            return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+        })
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+// The first plain text and HTML parts of a message, skipping attachments and nested messages.
+function findTextParts(headers: Headers, body: string): { plain?: string, html?: string } {
+    const contentType = getHeader(headers, 'content-type')?.toLowerCase() ?? 'text/plain';
+    if (getHeader(headers, 'content-disposition')?.toLowerCase().startsWith('attachment')) return {};
+    if (contentType.startsWith('multipart/')) {
+        const boundary = getParameter(getHeader(headers, 'content-type'), 'boundary');
+        if (!boundary) return {};
+        const found: { plain?: string, html?: string } = {};
+        // The preamble comes before the first boundary and the epilogue after the closing one
+        for (const section of body.split(`--${boundary}--`)[0].split(`--${boundary}`).slice(1)) {
+            const part = splitHeadersAndBody(section.replace(/^[ \t]*\n/, ''));
+            const text = findTextParts(part.headers, part.body);
+            found.plain ??= text.plain;
+            found.html ??= text.html;
+        }
+        return found;
+    }
+    if (contentType.startsWith('text/html')) return { html: decodeBody(headers, body) };
+    if (contentType.startsWith('text/')) return { plain: decodeBody(headers, body) };
+    return {};
+}
+
+// Splits on commas outside quotes and angle brackets.
+function parseAddressList(value: string | undefined): string[] {
+    if (!value) return [];
+    const addresses: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let inBrackets = false;
+    for (const char of decodeHeaderValue(value)) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (char === '<' && !inQuotes) inBrackets = true;
+        else if (char === '>' && !inQuotes) inBrackets = false;
+        if (char === ',' && !inQuotes && !inBrackets) {
+            addresses.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    addresses.push(current.trim());
+    return addresses.filter(Boolean);
+}
+
+function parseMessageIds(value: string | undefined): string[] {
+    return [...(value ?? '').matchAll(/<([^>]+)>/g)].map(match => match[1]);
+}
+
+function parseDate(value: string | undefined): number {
+    // Drops trailing comments such as "(PDT)", which Date.parse rejects
+    const time = value ? Date.parse(value.replace(/\([^)]*\)/g, '').trim()) : NaN;
+    return isNaN(time) ? 0 : time;
+}
+
+// mbox writers record the read flag in Status ("RO") or, for Thunderbird, in X-Mozilla-Status (bit 0x1).
+function isMarkedRead(headers: Headers): boolean {
+    const mozillaStatus = getHeader(headers, 'x-mozilla-status');
+    if (mozillaStatus) return (parseInt(mozillaStatus, 16) & 1) === 1;
+    return /R/.test(getHeader(headers, 'status') ?? '');
+}
+
+/**
+ * Parses one RFC 822 message. Without an explicit `unread`, the mbox status headers decide,
+ * and a message with none is unread. The thread is the message itself until assignThreads runs.
+ */
+export function parseEmail(raw: string, source: { id: string, accountId: string, unread?: boolean }): EmailMessage {
+    const { headers, body } = splitHeadersAndBody(raw);
+    const parts = findTextParts(headers, body);
+    const messageId = parseMessageIds(getHeader(headers, 'message-id'))[0];
+    const references = parseMessageIds(getHeader(headers, 'references'));
+    const cc = parseAddressList(getHeader(headers, 'cc'));
+    return {
+        id: source.id,
+        accountId: source.accountId,
+        messageId,
+        threadId: messageId ?? source.id,
+        from: parseAddressList(getHeader(headers, 'from'))[0] ?? '',
+        to: parseAddressList(getHeader(headers, 'to')),
+        cc: cc.length > 0 ? cc : undefined,
+        subject: decodeHeaderValue(getHeader(headers, 'subject') ?? ''),
+        date: parseDate(getHeader(headers, 'date')),
+        unread: source.unread ?? !isMarkedRead(headers),
+        body: parts.plain?.trim() ?? (parts.html ? htmlToText(parts.html) : ''),
+        inReplyTo: parseMessageIds(getHeader(headers, 'in-reply-to'))[0],
+        references: references.length > 0 ? references : undefined,
+    };
+}
+
+/**
+ * Splits an mbox file into raw messages. A message starts at a "From " line at the start of the
+ * file or after a blank line; ">From " lines escaped by the writer are restored.
+ */
+export function splitMbox(text: string): string[] {
+    const messages: string[] = [];
+    let current: string[] | null = null;
+    let previousBlank = true;
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+        if (previousBlank && line.startsWith('From ')) {
+            if (current) messages.push(current.join('\n'));
+            current = [];
+        } else if (current) {
+            current.push(line.replace(/^>(>*From )/, '$1'));
+        }
+        previousBlank = line === '';
+    }
+    if (current) messages.push(current.join('\n'));
+    return messages;
+}
+
+/**
+ * Parses a mail file picked by the user: a Maildir message (in a `cur` or `new` folder, with its
+ * flags in the file name), an mbox file, or a single .eml message. Files in a Maildir `tmp`
+ * folder are still being delivered and are skipped.
+ */
+export function parseMailFile(path: string, text: string, accountId: string): EmailMessage[] {
+    const segments = path.split('/');
+    const folder = segments[segments.length - 2];
+    if (folder === 'tmp') return [];
+    if (folder === 'new' || folder === 'cur') {
+        // Flags follow ":2," in the file name; S means seen
+        const flags = segments[segments.length - 1].split(':2,')[1] ?? '';
+        return [parseEmail(text, { id: `${accountId}:${path}`, accountId, unread: folder === 'new' || !flags.includes('S') })];
+    }
+    if (text.startsWith('From ')) {
+        return splitMbox(text).map((raw, index) => parseEmail(raw, { id: `${accountId}:${path}#${index}`, accountId }));
+    }
+    return [parseEmail(text, { id: `${accountId}:${path}`, accountId })];
+}
+
+/**
+ * Gives replies the thread of the message they answer, following In-Reply-To and References.
+ * A reply whose parent is missing joins the thread of the oldest message it references.
+ */
+export function assignThreads(messages: EmailMessage[]): EmailMessage[] {
+    const threadByMessageId = new Map<string, string>();
+    const byDate = [...messages].sort((a, b) => a.date - b.date);
+    const threaded = new Map<string, EmailMessage>();
+    for (const message of byDate) {
+        const parents = [message.inReplyTo, ...[...(message.references ?? [])].reverse()].filter((id): id is string => !!id);
+        const knownParent = parents.find(id => threadByMessageId.has(id));
+        const threadId = knownParent
+            ? threadByMessageId.get(knownParent)!
+            : message.references?.[0] ?? message.inReplyTo ?? message.messageId ?? message.id;
+        if (message.messageId) threadByMessageId.set(message.messageId, threadId);
+        threaded.set(message.id, { ...message, threadId });
+    }
+    return messages.map(message => threaded.get(message.id)!);
+}
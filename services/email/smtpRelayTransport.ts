@@ -0,0 +1,34 @@
+import { type EmailDraft } from '../../types';
+import { type EmailTransport } from './types';
+import { formatEmail, createMessageId, getAddress } from './compose';
+
+// Served by the dev and preview servers (see server/smtpRelay.ts), which hold the SMTP settings.
+export const DEFAULT_SMTP_RELAY_ENDPOINT = '/api/send-email';
+
+/**
+ * Sends mail through the app server's SMTP relay: the browser can't open SMTP connections,
+ * and this keeps the SMTP credentials out of the page.
+ */
+export function createSmtpRelayTransport(endpoint = DEFAULT_SMTP_RELAY_ENDPOINT): EmailTransport {
+    return {
+        name: 'smtp',
+        async send(draft: EmailDraft, signal?: AbortSignal) {
+            const messageId = createMessageId(draft.accountId);
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    from: getAddress(draft.accountId),
+                    to: [...draft.to, ...(draft.cc ?? [])].map(getAddress),
+                    data: formatEmail(draft, messageId),
+                }),
+                signal,
+            });
+            if (!response.ok) {
+                const reply = await response.json().catch(() => ({}));
+                throw new Error(reply.error || `The SMTP relay answered ${response.status}.`);
+            }
+            return { messageId };
+        },
+    };
+}
@@ -0,0 +1,47 @@
+import { type EmailDraft } from '../../types';
+
+// An email as the assistant sees it, whichever mailbox it came from.
+export interface EmailMessage {
+    id: string;
+    accountId: string;
+    messageId?: string; // The Message-ID header, without angle brackets
+    threadId: string; // Shared by a message and its replies
+    from: string;
+    to: string[];
+    cc?: string[];
+    subject: string;
+    date: number; // Epoch milliseconds; 0 when the Date header is missing or unreadable
+    unread: boolean;
+    body: string; // Plain text; HTML-only messages are converted
+    inReplyTo?: string;
+    references?: string[];
+}
+
+// Filters for reading mail. Unset filters match everything.
+export interface EmailQuery {
+    accountIds: string[];
+    from?: string; // Part of the sender's name or address, case-insensitive
+    after?: number; // Epoch milliseconds, inclusive
+    before?: number; // Epoch milliseconds, exclusive
+    unread?: boolean;
+    threadId?: string;
+    query?: string; // Words that must all appear in the subject or body, case-insensitive
+    limit?: number;
+}
+
+/**
+ * Delivers outgoing mail. Resolves with the Message-ID the email was sent with.
+ */
+export interface EmailTransport {
+    name: string;
+    send(draft: EmailDraft, signal?: AbortSignal): Promise<{ messageId: string }>;
+}
+
+/**
+ * A source of mail for an account, such as imported local mailbox files or the built-in samples.
+ */
+export interface EmailAdapter {
+    name: string;
+    // Every message of the account, in any order
+    listMessages(accountId: string): Promise<EmailMessage[]>;
+}
@@ -0,0 +1,106 @@
+import { type Part } from '@google/genai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type ChatMessage } from '../types';
+import { INITIAL_INTEGRATIONS } from '../constants';
+import { createFakeProvider, setProvider, type ChatOptions, type ChatTurn } from './providers';
+import { getAiResponse, getAiResponseAfterConsent, getAiResponseAfterDenial } from './geminiService';
+
+// Tasks and consent decisions are kept in localStorage
+function stubLocalStorage() {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+    });
+}
+
+const MODEL_OVERRIDE = { model: 'gemini-2.5-flash' };
+const call = (name: string, args: Record<string, any> = {}): ChatTurn => ({ text: '', functionCalls: [{ name, args }] });
+
+/**
+ * A fake model that plays back `turns` in order, keeping what each turn was sent.
+ */
+function scriptModel(turns: ChatTurn[]) {
+    const sent: { parts: Part[], options: ChatOptions }[] = [];
+    setProvider(createFakeProvider({
+        turns: (parts, options) => {
+            sent.push({ parts, options });
+            return turns[sent.length - 1] ?? { text: 'Out of script.', functionCalls: [] };
+        },
+    }));
+    return sent;
+}
+
+const responses = (parts: Part[]) => parts.map(part => [part.functionResponse?.name, part.functionResponse?.response]);
+
+// Asks for the open tasks, which needs consent, while remembering a fact, which doesn't.
+async function askWithConsent(): Promise<ChatMessage[]> {
+    const user: ChatMessage = { author: 'user', text: "What's on my list? I like lists." };
+    const prompt = await getAiResponse(user.text, undefined, undefined, [], INITIAL_INTEGRATIONS, [], { modelOverride: MODEL_OVERRIDE });
+    return [user, { author: 'ai', ...prompt }];
+}
+
+describe('tool calls that wait for consent', () => {
+    beforeEach(stubLocalStorage);
+
+    it('keeps the answers to the other calls of the turn with the prompt', async () => {
+        scriptModel([{ text: '', functionCalls: [{ name: 'rememberFact', args: { fact: 'Likes lists' } }, { name: 'listTasks', args: {} }] }]);
+        const [, prompt] = await askWithConsent();
+        expect(prompt.requiresConsent).toBe(true);
+        expect(prompt.action).toEqual({ toolName: 'listTasks', toolArgs: {} });
+        expect(prompt.completedCalls).toEqual([{ name: 'rememberFact', args: { fact: 'Likes lists' }, response: { result: 'Fact remembered successfully.' } }]);
+    });
+
+    it('sends them with the approved call and carries on with the tool loop', async () => {
+        const sent = scriptModel([
+            { text: '', functionCalls: [{ name: 'rememberFact', args: { fact: 'Likes lists' } }, { name: 'listTasks', args: {} }] },
+            call('rememberFact', { fact: 'Has no tasks' }),
+            { text: 'Your list is empty.', functionCalls: [] },
+        ]);
+        const history = await askWithConsent();
+        const response = await getAiResponseAfterConsent({ toolName: 'listTasks', toolArgs: {} }, history, INITIAL_INTEGRATIONS, { modelOverride: MODEL_OVERRIDE });
+
+        // The prompt is in the history as the calls the model made
+        const lastTurn = sent[1].options.history[sent[1].options.history.length - 1];
+        expect(lastTurn.parts?.map(part => part.functionCall?.name)).toEqual(['rememberFact', 'requestPermission']);
+        expect(responses(sent[1].parts)).toEqual([
+            ['rememberFact', { result: 'Fact remembered successfully.' }],
+            ['listTasks', { result: JSON.stringify({ tasks: [] }) }],
+        ]);
+        expect(response.text).toBe('Your list is empty.');
+        expect(response.learnedFacts).toEqual(['Has no tasks']);
+        expect(response.toolActivity?.map(activity => activity.toolName)).toEqual(['listTasks', 'rememberFact']);
+    });
+
+    it('sends them with the refusal and lets the model carry on without it', async () => {
+        const sent = scriptModel([
+            { text: '', functionCalls: [{ name: 'rememberFact', args: { fact: 'Likes lists' } }, { name: 'listTasks', args: {} }] },
+            { text: "I won't look at your tasks.", functionCalls: [] },
+        ]);
+        const history = await askWithConsent();
+        const response = await getAiResponseAfterDenial({ toolName: 'listTasks', toolArgs: {} }, history, INITIAL_INTEGRATIONS, { modelOverride: MODEL_OVERRIDE });
+        expect(responses(sent[1].parts)).toEqual([
+            ['rememberFact', { result: 'Fact remembered successfully.' }],
+            ['listTasks', { error: expect.stringContaining('denied permission') }],
+        ]);
+        expect(response.text).toBe("I won't look at your tasks.");
+    });
+
+    it('asks about one call at a time and tells the model about the others', async () => {
+        scriptModel([{ text: '', functionCalls: [{ name: 'listTasks', args: {} }, { name: 'createTask', args: { title: 'Buy milk' } }] }]);
+        const [, prompt] = await askWithConsent();
+        expect(prompt.action?.toolName).toBe('listTasks');
+        expect(prompt.completedCalls).toEqual([
+            { name: 'createTask', args: { title: 'Buy milk' }, response: { error: expect.stringContaining('waiting for the user') } },
+        ]);
+    });
+
+    it('stops a loop that runs on after consent', async () => {
+        scriptModel([call('listTasks'), ...Array(20).fill(call('rememberFact', { fact: 'Again' }))]);
+        const history = await askWithConsent();
+        const response = await getAiResponseAfterConsent({ toolName: 'listTasks', toolArgs: {} }, history, INITIAL_INTEGRATIONS, { modelOverride: MODEL_OVERRIDE });
+        expect(response.text).toMatch(/too many steps/);
+        expect(response.learnedFacts).toHaveLength(8);
+    });
+});
@@ -1,115 +1,23 @@
-
-import { GoogleGenAI, Modality, type Content, GenerateContentResponse, Tool, Part, Type } from "@google/genai";
-import { type ChatMessage, type AiResponse, type ServiceIntegration, GroundingSource, GeneratedVideo } from '../types';
-import { AI_PERSONA_INSTRUCTIONS, generateSystemInstruction, generateLifeStateGraph } from '../constants';
-import { 
-    getEmails, getEmailsFunctionDeclaration,
-    requestPermissionFunctionDeclaration,
-    getCalendarEvents, getCalendarEventsFunctionDeclaration,
-    createCalendarEvent, createCalendarEventFunctionDeclaration,
-    getWellbeingData, getWellbeingDataFunctionDeclaration,
-    getSmartHomeStatus, getSmartHomeStatusFunctionDeclaration,
-    generateImageFunctionDeclaration,
-    editImageFunctionDeclaration,
-    generateVideoFunctionDeclaration,
-    useGoogleSearchFunctionDeclaration,
-    useGoogleMapsFunctionDeclaration,
-    requestLocationFunctionDeclaration,
-    getUserLocation,
-    rememberFactFunctionDeclaration,
-} from './mockDataService';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Helper function to retry operations on 503 (Overloaded) and 429 (Too Many Requests) errors
-async function retryWithBackoff<T>(operation: () => Promise<T>, retries = 3, initialDelay = 1000): Promise<T> {
-    let attempt = 0;
-    while (true) {
-        try {
-            return await operation();
-        } catch (error: any) {
-            attempt++;
-            const isOverloaded = error.status === 503 || error.code === 503 || error.message?.includes('overloaded');
-            const isRateLimited = error.status === 429 || error.code === 429;
-            
-            if (attempt > retries || (!isOverloaded && !isRateLimited)) {
-                throw error;
-            }
-            const delay = initialDelay * Math.pow(2, attempt - 1);
-            console.warn(`Service busy (Status ${error.status}). Retrying in ${delay}ms... (Attempt ${attempt})`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-        }
-    }
-}
-
-// A map of available tools the AI can call.
-const availableTools: { [key: string]: Function } = {
-    getEmails,
-    getCalendarEvents,
-    createCalendarEvent,
-    getWellbeingData,
-    getSmartHomeStatus,
-    getUserLocation,
-    // These are placeholders for the AI to signal intent for grounding
-    useGoogleSearch: async () => ({ result: "Now searching Google..."}),
-    useGoogleMaps: async () => ({ result: "Now searching Google Maps..."}),
-    // The rememberFact tool logic is handled directly in the loop to pass data back to App state
-    rememberFact: async () => ({ result: "Fact remembered." }),
-};
-
-const functionDeclarations = [
-    requestPermissionFunctionDeclaration,
-    getEmailsFunctionDeclaration,
-    getCalendarEventsFunctionDeclaration,
-    createCalendarEventFunctionDeclaration,
-    getWellbeingDataFunctionDeclaration,
-    getSmartHomeStatusFunctionDeclaration,
-    generateImageFunctionDeclaration,
-    editImageFunctionDeclaration,
-    generateVideoFunctionDeclaration,
-    useGoogleSearchFunctionDeclaration,
-    useGoogleMapsFunctionDeclaration,
-    requestLocationFunctionDeclaration,
-    rememberFactFunctionDeclaration,
-];
-
-/**
- * Creates a Part object for an image from a data URL.
- * @param dataUrl The base64 encoded data URL.
- * @returns A Part object for the Gemini API or null if the format is invalid.
- */
-function getMediaPart(dataUrl: string): Part | null {
-    const match = dataUrl.match(/^data:(.+);base64,(.+)$/);
-    if (!match) {
-        console.error("Invalid data URL format");
-        return null;
-    }
-    const mimeType = match[1];
-    const base64Data = match[2];
-    
-    return {
-        inlineData: {
-            mimeType,
-            data: base64Data
-        }
-    };
+import { type Content, type FunctionCall, type Part } from "@google/genai";
+import { type ChatMessage, type AiResponse, type ServiceIntegration, type UsageEntry, type RoutingConfig, type ModelChoice, type RouteDecision, type ConversationSummary, type ToolActivity, type ConsentRule, type AuditEntry } from '../types';
+import { AI_PERSONA_INSTRUCTIONS, generateSystemInstruction, generateLifeStateGraph, generateConversationSummary } from '../constants';
+import { DEFAULT_ROUTING_CONFIG, CLASSIFIER_INSTRUCTIONS, findMatchingRule, decideRoute, parseClassifierReply, getFallbackChain } from './routingService';
+import { retryWithBackoff, runWithFallback } from './resilienceService';
+import { SUMMARY_MODEL, SUMMARY_INSTRUCTIONS, planHistory, dedupeMedia, buildSummaryPrompt, getMediaPart } from './historyService';
+import { createAuditEntry } from './auditService';
+import { getProvider, type LlmProvider, type ChatTurn, type ChatOptions, type ProviderChat } from './providers';
+import { getTool, getToolDeclarations, runTool, describeToolResult, type ToolContext, type ToolResult } from './tools';
+
+export function isAbortError(error: any): boolean {
+    return error?.name === 'AbortError';
 }
 
 
+// Converts messages already pruned by prepareHistory into the API's content format.
 function formatHistoryForApi(history: ChatMessage[]): Content[] {
     const apiHistory: Content[] = [];
     
-    // Prune history to last 30 messages to handle "heavy input" context limits and improve latency
-    let processingHistory = [...history];
-    const MAX_HISTORY_LENGTH = 30;
-    if (processingHistory.length > MAX_HISTORY_LENGTH) {
-        processingHistory = processingHistory.slice(processingHistory.length - MAX_HISTORY_LENGTH);
-    }
-
+    const processingHistory = [...history];
     if (processingHistory.length > 0 && processingHistory[0].author === 'ai') {
         processingHistory.shift();
     }
@@ -138,7 +46,7 @@ function formatHistoryForApi(history: ChatMessage[]): Content[] {
             if (message.requiresConsent && message.action) {
                 apiHistory.push({
                     role: 'model',
-                    parts: [{
+                    parts: [...(message.completedCalls ?? []).map(call => ({ functionCall: { name: call.name, args: call.args } })), {
                         functionCall: {
                             name: 'requestPermission',
                             args: {
@@ -160,71 +68,262 @@ function formatHistoryForApi(history: ChatMessage[]): Content[] {
     return apiHistory;
 }
 
-async function executeTool(toolName: string, toolArgs: any, connections: ServiceIntegration[]): Promise<Part> {
-     if (toolName in availableTools) {
+/**
+ * Fits the history into the token budget, sending media only once. Messages that no longer fit are
+ * folded into the chat's running summary with a cheap model call, which the caller should persist.
+ * If the summary can't be updated (or `canSummarize` is false), the oldest messages are just left out.
+ */
+async function prepareHistory(
+    provider: LlmProvider,
+    history: ChatMessage[],
+    currentMedia: string | undefined,
+    { summary, signal, onUsage }: AiRequestOptions,
+    canSummarize = true
+): Promise<{ contents: Content[], summary?: ConversationSummary }> {
+    const plan = planHistory(dedupeMedia(history, currentMedia), summary);
+    if (plan.toSummarize.length === 0) {
+        return { contents: formatHistoryForApi(plan.recent), summary };
+    }
+    if (canSummarize) {
         try {
-            const toolResponse = await availableTools[toolName](toolArgs);
-            return {
-                functionResponse: {
-                    name: toolName,
-                    response: { result: toolResponse },
-                },
-            };
+            const summarizer = provider.createChat({ model: SUMMARY_MODEL, systemInstruction: SUMMARY_INSTRUCTIONS, tools: [], history: [] });
+            // Wrapped in retry
+            const turn = await retryWithBackoff(() => summarizer.sendMessage([{ text: buildSummaryPrompt(summary?.text, plan.toSummarize) }], signal), signal);
+            if (turn.usage) onUsage?.(turn.usage);
+            if (turn.text.trim()) {
+                return {
+                    contents: formatHistoryForApi(plan.recent),
+                    summary: { text: turn.text.trim(), coveredCount: plan.coveredCount, updatedAt: Date.now() },
+                };
+            }
         } catch (error) {
-            console.error(`Error executing tool ${toolName}:`, error);
-            return {
-                functionResponse: {
-                    name: toolName,
-                    response: { error: "Failed to execute function." },
-                },
-            };
+            if (signal?.aborted) throw error;
+            console.error("Error summarizing conversation history:", error);
         }
-    } else if (toolName === 'requestLocation') {
-        // Special handling for client-side permission request
-        try {
-            const location = await getUserLocation();
-            return {
-                functionResponse: {
-                    name: toolName,
-                    response: { result: JSON.stringify(location) }
-                }
-            };
-        } catch (error) {
-            return {
-                functionResponse: {
-                    name: toolName,
-                    response: { error: (error as Error).message }
-                }
-            };
+    }
+    return { contents: formatHistoryForApi(plan.unsummarized), summary };
+}
+
+export interface AiRequestOptions {
+    // Called with the text generated so far in the current model turn. A new turn (e.g. after a tool call) starts again from empty.
+    onPartialText?: (partialText: string) => void;
+    // Cancels the request, including retries, tool calls and media generation. The promise rejects with an AbortError.
+    signal?: AbortSignal;
+    // Called with the usage of every model call made for the request, as soon as it completes.
+    onUsage?: (usage: UsageEntry) => void;
+    // Rules and tiers for choosing the model; defaults to DEFAULT_ROUTING_CONFIG.
+    routingConfig?: RoutingConfig;
+    // The chat's fixed model, which skips routing altogether.
+    modelOverride?: ModelChoice;
+    // The chat's running summary of messages too old to send verbatim.
+    summary?: ConversationSummary;
+    // The user's remembered consent decisions; private tools not covered by them ask first.
+    consentRules?: ConsentRule[];
+    // The chat being answered, for consent given for this chat only.
+    sessionId?: string;
+    // Called with the audit log entry of every tool call made for the request.
+    onAudit?: (entry: AuditEntry) => void;
+    // Previews tools with side effects instead of running them.
+    dryRun?: boolean;
+}
+
+// A provider chat that can move down the fallback chain in the middle of a conversation.
+interface FallbackChat {
+    // The model answering now; a later one in the chain after a fallback
+    model: string;
+    chat: ProviderChat;
+    options: ChatOptions;
+    chain: string[];
+    // Turns exchanged so far, replayed as history when switching to a fallback model
+    transcript: Content[];
+}
+
+function openFallbackChat(provider: LlmProvider, options: ChatOptions, chain: string[]): FallbackChat {
+    return { model: options.model, chat: provider.createChat(options), options, chain, transcript: [] };
+}
+
+// Makes a single attempt at a turn, streaming text to `onPartialText` when both the caller and the chat support it.
+// Function calls arriving mid-stream are collected and returned with the completed turn.
+async function sendTurnOnce(chat: ProviderChat, parts: Part[], { onPartialText, signal }: AiRequestOptions): Promise<ChatTurn> {
+    if (!onPartialText || !chat.sendMessageStream) {
+        return chat.sendMessage(parts, signal);
+    }
+    const turn: ChatTurn = { text: '', functionCalls: [] };
+    for await (const chunk of chat.sendMessageStream(parts, signal)) {
+        signal?.throwIfAborted();
+        if (chunk.text) {
+            turn.text += chunk.text;
+            onPartialText(turn.text);
         }
-    } else {
-        console.warn(`Function ${toolName} not found.`);
-        return {
-            functionResponse: {
-                name: toolName,
-                response: { error: `Function ${toolName} not found.` },
-            },
-        };
+        turn.functionCalls.push(...chunk.functionCalls);
+        if (chunk.usage) turn.usage = chunk.usage;
     }
+    return turn;
 }
 
+/**
+ * Sends parts to the chat with retries. If its model keeps failing, or its circuit is open,
+ * the turn goes to the next model in the chain, which then answers the rest of the conversation.
+ * A retried or re-routed stream starts the turn over.
+ */
+async function sendTurn(provider: LlmProvider, fallbackChat: FallbackChat, parts: Part[], requestOptions: AiRequestOptions): Promise<ChatTurn> {
+    const chats = new Map<string, ProviderChat>([[fallbackChat.model, fallbackChat.chat]]);
+    const chatFor = (model: string) => {
+        if (!chats.has(model)) {
+            chats.set(model, provider.createChat({
+                ...fallbackChat.options,
+                model,
+                // Budget limits differ between models, so fallbacks use their own default
+                thinkingBudget: undefined,
+                history: [...fallbackChat.options.history, ...fallbackChat.transcript],
+            }));
+        }
+        return chats.get(model)!;
+    };
+    const chain = fallbackChat.chain.slice(fallbackChat.chain.indexOf(fallbackChat.model));
+    const { result: turn, model } = await runWithFallback(chain, m => sendTurnOnce(chatFor(m), parts, requestOptions), requestOptions.signal);
+
+    fallbackChat.model = model;
+    fallbackChat.chat = chats.get(model)!;
+    fallbackChat.transcript.push(
+        { role: 'user', parts },
+        { role: 'model', parts: [...(turn.text ? [{ text: turn.text }] : []), ...turn.functionCalls.map(functionCall => ({ functionCall }))] },
+    );
+    if (turn.usage) requestOptions.onUsage?.(turn.usage);
+    return turn;
+}
 
-function selectModel(prompt: string, media?: { type: 'image' | 'video' | 'audio', data: string }): string {
-    if (media?.type === 'video' || media?.type === 'audio') {
-        return 'gemini-2.5-pro';
+// Records on the route when a fallback model ended up answering.
+function withFallback(route: RouteDecision, fallbackChat: FallbackChat): RouteDecision {
+    return fallbackChat.model === route.model
+        ? route
+        : { ...route, model: fallbackChat.model, thinkingBudget: undefined, fallbackFrom: route.model };
+}
+
+/**
+ * Picks the model for a request: the chat's override if set, otherwise the first matching
+ * routing rule, otherwise the classifier's tier, otherwise the default tier.
+ */
+async function routeRequest(
+    provider: LlmProvider,
+    prompt: string,
+    media: { type: 'image' | 'video' | 'audio', data: string } | undefined,
+    requestOptions: AiRequestOptions
+): Promise<RouteDecision> {
+    const { routingConfig: config = DEFAULT_ROUTING_CONFIG, modelOverride, signal, onUsage } = requestOptions;
+    if (modelOverride) {
+        return { ...modelOverride, source: 'override' };
+    }
+    const rule = findMatchingRule(config, prompt, media?.type);
+    if (rule) {
+        return decideRoute(config, rule.tier, 'rule', rule.name);
     }
-    const complexKeywords = ['analyze', 'code', 'plan', 'complex', 'explain in detail'];
-    if (complexKeywords.some(kw => prompt.toLowerCase().includes(kw))) {
-        return 'gemini-2.5-pro';
+    if (config.useClassifier && prompt.trim()) {
+        try {
+            const classifier = provider.createChat({
+                model: config.classifierModel,
+                systemInstruction: CLASSIFIER_INSTRUCTIONS,
+                tools: [],
+                history: [],
+            });
+            // Wrapped in retry
+            const turn = await retryWithBackoff(() => classifier.sendMessage([{ text: prompt }], signal), signal);
+            if (turn.usage) onUsage?.(turn.usage);
+            const tier = parseClassifierReply(turn.text);
+            if (tier) {
+                return decideRoute(config, tier, 'classifier', tier);
+            }
+            console.warn("Classifier gave no tier, using the default:", turn.text);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error("Error classifying request, using the default tier:", error);
+        }
     }
-    if (prompt.split(' ').length <= 3) {
-        return 'gemini-2.5-flash-lite';
+    return decideRoute(config, config.defaultTier, 'default');
+}
+
+// Upper bound on model round-trips with tool calls for a single user message, to stop runaway loops.
+const MAX_TOOL_ITERATIONS = 8;
+
+function functionResponsePart(functionCall: FunctionCall, { result, error, invalidArguments }: ToolResult): Part {
+    const response = error !== undefined ? { error, ...(invalidArguments ? { invalidArguments } : {}) } : { result };
+    return { functionResponse: { id: functionCall.id, name: functionCall.name, response } };
+}
+
+// What a tool loop needs besides the model's turn: where to send results and what to record.
+interface ToolLoop {
+    provider: LlmProvider;
+    chat: FallbackChat;
+    toolContext: ToolContext;
+    requestOptions: AiRequestOptions;
+    toolActivity: ToolActivity[];
+}
+
+/**
+ * Sends `parts` and runs the tools the model calls, answering them until it replies without any or
+ * MAX_TOOL_ITERATIONS rounds have passed. A tool that ends the request (a consent prompt, generated
+ * media) stops the loop with its response; a consent prompt carries the answers to the other calls
+ * of its turn, so they reach the model with the user's decision.
+ */
+async function runToolLoop({ provider, chat, toolContext, requestOptions, toolActivity }: ToolLoop, parts: Part[], toolOutput: Partial<AiResponse> = {}): Promise<AiResponse> {
+    let response = await sendTurn(provider, chat, parts, requestOptions);
+    let iterations = 0;
+
+    while (response.functionCalls.length > 0) {
+        if (++iterations > MAX_TOOL_ITERATIONS) {
+            console.warn(`Stopping after ${MAX_TOOL_ITERATIONS} tool iterations.`);
+            return {
+                ...toolOutput,
+                text: response.text || "I had to stop because this request needed too many steps. Could you narrow it down?",
+            };
+        }
+        const functionCalls = response.functionCalls;
+
+        // A tool that must run on its own (asking for consent, grounding) takes the whole turn
+        const exclusiveCall = functionCalls.find(c => getTool(c.name!)?.exclusive);
+
+        // --- Run every call in the turn concurrently and answer them all in one message ---
+        const results = await Promise.all(functionCalls.map(async (functionCall): Promise<ToolResult> => {
+            if (exclusiveCall && functionCall !== exclusiveCall) {
+                const error = `Not run, because ${exclusiveCall.name} was called in the same turn.`;
+                requestOptions.onAudit?.(createAuditEntry({ sessionId: requestOptions.sessionId, toolName: functionCall.name!, args: functionCall.args ?? {}, consent: 'not-required', error }));
+                return { error };
+            }
+            return runTool(functionCall.name!, functionCall.args ?? {}, toolContext);
+        }));
+        if (!exclusiveCall) {
+            // Calls waiting for consent haven't run yet
+            functionCalls.forEach((functionCall, i) => {
+                if (!results[i].finalResponse?.requiresConsent) {
+                    toolActivity.push(describeToolResult(functionCall.name!, functionCall.args ?? {}, results[i]));
+                }
+            });
+        }
+        for (const result of results) {
+            toolOutput = { ...toolOutput, ...result.output };
+        }
+        const finalIndex = results.findIndex(r => r.finalResponse);
+        if (finalIndex !== -1) {
+            const finalResponse = results[finalIndex].finalResponse!;
+            if (!finalResponse.requiresConsent) return { ...toolOutput, ...finalResponse };
+            // One prompt at a time; calls waiting on another are made again once this one is settled
+            const completedCalls = functionCalls.flatMap((functionCall, i) => {
+                if (i === finalIndex) return [];
+                const result = results[i].finalResponse?.requiresConsent
+                    ? { error: `Not run yet, because ${functionCalls[finalIndex].name} is waiting for the user's permission. Call it again once that is settled.` }
+                    : results[i];
+                return [{ name: functionCall.name!, args: functionCall.args ?? {}, response: functionResponsePart(functionCall, result).functionResponse!.response! }];
+            });
+            return { ...toolOutput, ...finalResponse, completedCalls: completedCalls.length > 0 ? completedCalls : undefined };
+        }
+        response = await sendTurn(provider, chat, functionCalls.map((functionCall, i) => functionResponsePart(functionCall, results[i])), requestOptions);
     }
-    return 'gemini-2.5-flash';
+
+    return { ...toolOutput, text: response.text };
 }
 
 /**
- * Gets a text response from the Gemini model, handling tool calls, model selection, and various generation tasks.
+ * Gets a text response from the active provider, handling tool calls, model selection, and various generation tasks.
  */
 export async function getAiResponse(
     prompt: string, 
@@ -232,25 +331,20 @@ export async function getAiResponse(
     options: { aspectRatio?: string } | undefined,
     history: ChatMessage[],
     connections: ServiceIntegration[],
-    userMemory: string[] = [] // New parameter for Long-Term Memory
+    userMemory: string[] = [], // New parameter for Long-Term Memory
+    requestOptions: AiRequestOptions = {}
 ): Promise<AiResponse> {
-    const modelName = selectModel(prompt, media);
-    console.log(`Using model: ${modelName}`);
-
-    const config: any = {
-        tools: [{ functionDeclarations }],
-        systemInstruction: generateSystemInstruction(connections, userMemory)
-    };
-
-    if (modelName === 'gemini-2.5-pro') {
-        config.thinkingConfig = { thinkingBudget: 32768 };
-    }
-
-    const chat = ai.chats.create({
-        model: modelName,
-        config: config,
-        history: formatHistoryForApi(history)
-    });
+    const provider = getProvider();
+    const route = await routeRequest(provider, prompt, media, requestOptions);
+
+    const prepared = await prepareHistory(provider, history, media?.data, requestOptions);
+    const chat = openFallbackChat(provider, {
+        model: route.model,
+        systemInstruction: generateSystemInstruction(connections, userMemory, prepared.summary?.text),
+        tools: getToolDeclarations(provider, connections),
+        history: prepared.contents,
+        thinkingBudget: route.thinkingBudget,
+    }, getFallbackChain(requestOptions.routingConfig ?? DEFAULT_ROUTING_CONFIG, route.model));
 
     const userParts: Part[] = [{ text: prompt }];
     if (media) {
@@ -260,246 +354,135 @@ export async function getAiResponse(
         }
     }
 
-    // Wrapped in retry
-    let result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: userParts }));
-    let response = result;
     const learnedFacts: string[] = [];
+    const toolActivity: ToolActivity[] = [];
+    const toolContext: ToolContext = {
+        provider,
+        connections,
+        // Includes the message being sent, so generative tools can find a just-uploaded image
+        history: [...history, { author: 'user', text: prompt, image: media?.type === 'image' ? media.data : undefined }],
+        userParts,
+        signal: requestOptions.signal,
+        onUsage: requestOptions.onUsage,
+        onFactLearned: fact => learnedFacts.push(fact),
+        consentRules: requestOptions.consentRules,
+        sessionId: requestOptions.sessionId,
+        onAudit: requestOptions.onAudit,
+        dryRun: requestOptions.dryRun,
+    };
 
-    while (response.functionCalls && response.functionCalls.length > 0) {
-        const functionCall = response.functionCalls[0];
-        console.log("AI wants to call a tool:", functionCall);
-
-        // --- SPECIAL TOOL HANDLING ---
-        if (functionCall.name === 'rememberFact') {
-            const fact = functionCall.args.fact as string;
-            learnedFacts.push(fact);
-            const functionResponsePart: Part = { functionResponse: { name: 'rememberFact', response: { result: "Fact remembered successfully." } } };
-            // Wrapped in retry
-            result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-            response = result;
-            // Continue the loop to allow the AI to generate a response acknowledging the memory
-            continue;
-        }
-
-        if (functionCall.name === 'requestPermission') {
-            return {
-                text: functionCall.args.reason as string,
-                requiresConsent: true,
-                action: {
-                    toolName: functionCall.args.toolToCall as string,
-                    toolArgs: functionCall.args.toolArgs || {}
-                },
-                learnedFacts
-            };
-        }
-        
-        if (functionCall.name === 'generateImage') {
-            const imagePrompt = functionCall.args.prompt as string;
-            const aspectRatio = functionCall.args.aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
-             try {
-                // Wrapped in retry
-                const imageResult: any = await retryWithBackoff(() => ai.models.generateImages({
-                    model: 'imagen-4.0-generate-001',
-                    prompt: imagePrompt,
-                    config: {
-                        numberOfImages: 1,
-                        aspectRatio: aspectRatio || '1:1'
-                    },
-                }));
-
-                const base64ImageBytes = imageResult.generatedImages[0].image.imageBytes;
-                const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                 const functionResponsePart: Part = { functionResponse: { name: 'generateImage', response: { result: `Successfully generated image.` } } };
-                // Wrapped in retry
-                result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-                return { text: result.text, generatedImage: imageUrl, learnedFacts };
-             } catch (error: any) {
-                 console.error("Error generating image:", error);
-                 if (error.message?.includes('billed users') || error.status === 400 || error.code === 400) {
-                     return { 
-                         text: "To generate images, you need to select a billing project. Please use the button above to configure your project.", 
-                         requiresBillingProject: true,
-                         learnedFacts
-                     };
-                 }
-                 const functionResponsePart: Part = { functionResponse: { name: 'generateImage', response: { error: (error as Error).message } } };
-                 // Wrapped in retry
-                 result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-                 return { text: result.text, learnedFacts };
-             }
-        }
-        
-        if (functionCall.name === 'editImage') {
-             const imagePrompt = functionCall.args.prompt as string;
-             // Find the last user message with an image to edit
-             const lastUserImageMsg = [...history].reverse().find(m => m.author === 'user' && m.image);
-             if (!lastUserImageMsg || !lastUserImageMsg.image) {
-                 return { text: "I'm sorry, I couldn't find an image to edit. Please upload one first.", learnedFacts };
-             }
-             try {
-                const imagePart = getMediaPart(lastUserImageMsg.image);
-                if (!imagePart) throw new Error("Invalid image format for editing.");
-                
-                // Wrapped in retry
-                const imageResult = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: { parts: [imagePart, { text: imagePrompt }] },
-                    config: { responseModalities: [Modality.IMAGE] },
-                }));
-                const resultPart = imageResult.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-                if (resultPart?.inlineData) {
-                    const imageUrl = `data:${resultPart.inlineData.mimeType};base64,${resultPart.inlineData.data}`;
-                    const functionResponsePart: Part = { functionResponse: { name: 'editImage', response: { result: "Successfully edited the image." } } };
-                    // Wrapped in retry
-                    result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-                    return { text: result.text, generatedImage: imageUrl, learnedFacts };
-                } else {
-                    throw new Error("No edited image data received.");
-                }
-             } catch(error) {
-                console.error("Error editing image:", error);
-                const functionResponsePart: Part = { functionResponse: { name: 'editImage', response: { error: (error as Error).message } } };
-                // Wrapped in retry
-                result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-                return { text: result.text, learnedFacts };
-             }
-        }
-        
-        if (functionCall.name === 'generateVideo') {
-             const videoPrompt = functionCall.args.prompt as string;
-             const aspectRatio = functionCall.args.aspectRatio as '16:9' | '9:16';
-             const imageToAnimate = functionCall.args.image as string | undefined; // Assuming AI might pass this if it decides to animate
-
-             const lastUserImageMsg = [...history, {author: 'user', text: prompt, image: media?.type === 'image' ? media.data : undefined}].reverse().find(m => m.author === 'user' && m.image);
-             const imagePayload = imageToAnimate || lastUserImageMsg?.image ? { image: getMediaPart(imageToAnimate || lastUserImageMsg!.image!) } : {};
-             
-             try {
-                 // @ts-ignore
-                 if (window.aistudio && await window.aistudio.hasSelectedApiKey() === false) {
-                    return { 
-                        text: "To generate a video, you first need to select a project. Please click the 'Select Project' button to continue.",
-                        requiresBillingProject: true,
-                        learnedFacts
-                    };
-                 }
-
-                const localAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                const request = {
-                    model: 'veo-3.1-fast-generate-preview',
-                    prompt: videoPrompt,
-                    ...imagePayload,
-                    config: {
-                        numberOfVideos: 1,
-                        aspectRatio: aspectRatio || '16:9',
-                    },
-                };
-                
-                // Wrapped in retry
-                // @ts-ignore
-                const operation: any = await retryWithBackoff(() => localAi.models.generateVideos(request));
-                const functionResponsePart: Part = { functionResponse: { name: 'generateVideo', response: { result: `Starting video generation. This may take a few minutes.` } } };
-                // Wrapped in retry
-                result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-                return {
-                    text: result.text,
-                    generatedVideo: { state: 'generating', operationName: operation.name },
-                    learnedFacts
-                };
-
-             } catch (error) {
-                 console.error("Error starting video generation:", error);
-                 const functionResponsePart: Part = { functionResponse: { name: 'generateVideo', response: { error: (error as Error).message } } };
-                 // Wrapped in retry
-                 result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-                 return { text: result.text, learnedFacts };
-             }
-        }
-        
-        // --- GROUNDING HANDLING ---
-        if (functionCall.name === 'useGoogleSearch' || functionCall.name === 'useGoogleMaps') {
-             const isMaps = functionCall.name === 'useGoogleMaps';
-             const groundingConfig: any = {
-                 tools: isMaps ? [{ googleMaps: {} }, {googleSearch: {}}] : [{ googleSearch: {} }],
-             };
-             if (isMaps) {
-                 try {
-                     const location = await getUserLocation();
-                     groundingConfig.toolConfig = { retrievalConfig: { latLng: location } };
-                 } catch (e) { /* fail silently, proceed without location */ }
-             }
-
-             // Wrapped in retry
-             const groundingResult = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-                 model: 'gemini-2.5-flash',
-                 contents: userParts,
-                 config: groundingConfig
-             }));
-             
-             const groundingChunks = groundingResult.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-             const sources: GroundingSource[] = groundingChunks.map((chunk: any) => ({
-                 uri: chunk.web?.uri || chunk.maps?.uri || '',
-                 title: chunk.web?.title || chunk.maps?.title || 'Source'
-             })).filter((s: GroundingSource) => s.uri);
-             
-             return { text: groundingResult.text, groundingSources: sources, learnedFacts };
-        }
+    const response = await runToolLoop({ provider, chat, toolContext, requestOptions, toolActivity }, userParts);
+    // Everything a response carries besides its content
+    return {
+        ...response,
+        learnedFacts,
+        route: withFallback(route, chat),
+        toolActivity: toolActivity.length > 0 ? toolActivity : undefined,
+        summary: prepared.summary !== requestOptions.summary ? prepared.summary : undefined,
+    };
+}
 
-        // --- REGULAR TOOL HANDLING ---
-        const functionResponsePart = await executeTool(functionCall.name, functionCall.args, connections);
-        // Wrapped in retry
-        result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
-        response = result;
-    }
+// The model turn that reports the outcome of a consent prompt back to the model, and the tool loop it continues.
+async function openConsentFollowUp(history: ChatMessage[], connections: ServiceIntegration[], requestOptions: AiRequestOptions) {
+    const provider = getProvider();
+    // The follow-up only reports the tool result, so it skips the rules and classifier
+    const config = requestOptions.routingConfig ?? DEFAULT_ROUTING_CONFIG;
+    const route: RouteDecision = requestOptions.modelOverride
+        ? { ...requestOptions.modelOverride, source: 'override' }
+        : decideRoute(config, config.defaultTier, 'default');
+    // Summarizing is left to the next regular message
+    const prepared = await prepareHistory(provider, history, undefined, requestOptions, false);
+    const chat = openFallbackChat(provider, {
+        model: route.model,
+        systemInstruction: `${AI_PERSONA_INSTRUCTIONS}\n\n${generateLifeStateGraph(connections)}${generateConversationSummary(prepared.summary?.text)}`,
+        tools: getToolDeclarations(provider, connections),
+        history: prepared.contents,
+        thinkingBudget: route.thinkingBudget,
+    }, getFallbackChain(config, route.model));
 
-    return { text: response.text, learnedFacts };
+    const learnedFacts: string[] = [];
+    const toolActivity: ToolActivity[] = [];
+    const toolContext: ToolContext = {
+        provider,
+        connections,
+        history,
+        userParts: [],
+        signal: requestOptions.signal,
+        onUsage: requestOptions.onUsage,
+        onFactLearned: fact => learnedFacts.push(fact),
+        consentRules: requestOptions.consentRules,
+        sessionId: requestOptions.sessionId,
+        onAudit: requestOptions.onAudit,
+        dryRun: requestOptions.dryRun,
+    };
+    // The prompt is the last message; the calls answered alongside it go first, so the outcome
+    // sent after them answers the permission request
+    const completedParts: Part[] = (history[history.length - 1]?.completedCalls ?? [])
+        .map(call => ({ functionResponse: { name: call.name, response: call.response } }));
+    const finish = (response: AiResponse): AiResponse => ({
+        ...response,
+        learnedFacts,
+        route: withFallback(route, chat),
+        toolActivity: toolActivity.length > 0 ? toolActivity : undefined,
+    });
+    return { loop: { provider, chat, toolContext, requestOptions, toolActivity }, completedParts, finish };
 }
 
-
 /**
  * Continues the conversation after user has granted consent to execute a tool.
+ * The approved call runs as is, with any arguments the user edited; the consent policy is not consulted again for it.
+ * The model then carries on as after any tool call, and may call more tools.
  */
 export async function getAiResponseAfterConsent(
     action: { toolName: string; toolArgs: any; },
     history: ChatMessage[],
-    connections: ServiceIntegration[]
+    connections: ServiceIntegration[],
+    requestOptions: AiRequestOptions = {}
 ): Promise<AiResponse> {
-    const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            tools: [{ functionDeclarations }],
-            systemInstruction: `${AI_PERSONA_INSTRUCTIONS}\n\n${generateLifeStateGraph(connections)}`
-        },
-        history: formatHistoryForApi(history)
-    });
-
-    console.log("Executing tool after consent:", action);
-    const functionResponsePart = await executeTool(action.toolName, action.toolArgs, connections);
-    // Wrapped in retry
-    const result = await retryWithBackoff<GenerateContentResponse>(() => chat.sendMessage({ message: [functionResponsePart] }));
+    const { loop, completedParts, finish } = await openConsentFollowUp(history, connections, requestOptions);
+    const toolResult = await runTool(action.toolName, action.toolArgs ?? {}, { ...loop.toolContext, consentGranted: true });
+    loop.toolActivity.push(describeToolResult(action.toolName, action.toolArgs ?? {}, toolResult));
+    if (toolResult.finalResponse) {
+        return finish({ ...toolResult.output, ...toolResult.finalResponse });
+    }
+    return finish(await runToolLoop(loop, [...completedParts, functionResponsePart({ name: action.toolName }, toolResult)], toolResult.output));
+}
 
-    return { text: result.text };
+/**
+ * Tells the model the user refused a tool call, and returns its reply, which may carry on without it.
+ */
+export async function getAiResponseAfterDenial(
+    action: { toolName: string; toolArgs: any; },
+    history: ChatMessage[],
+    connections: ServiceIntegration[],
+    requestOptions: AiRequestOptions = {}
+): Promise<AiResponse> {
+    const { loop, completedParts, finish } = await openConsentFollowUp(history, connections, requestOptions);
+    const refusal: ToolResult = { error: `The user denied permission to run ${action.toolName}. Don't run it or ask again for this request; carry on without it.` };
+    requestOptions.onAudit?.(createAuditEntry({
+        sessionId: requestOptions.sessionId,
+        toolName: action.toolName,
+        args: action.toolArgs ?? {},
+        consent: 'denied',
+        error: 'Denied by the user.',
+    }));
+    return finish(await runToolLoop(loop, [...completedParts, functionResponsePart({ name: action.toolName }, refusal)]));
 }
 
 /**
- * Generates speech audio from the given text using the Gemini TTS model.
+ * Generates speech audio from the given text using the active provider's TTS model.
+ * Returns null when the provider has no speech capability or generation fails.
  */
-export async function getAiSpeech(text: string): Promise<string | null> {
+export async function getAiSpeech(text: string, onUsage?: (usage: UsageEntry) => void): Promise<string | null> {
+    const provider = getProvider();
+    if (!provider.generateSpeech) {
+        return null;
+    }
     try {
         // Wrapped in retry
-        const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: `Speak the following text: ${text}` }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        }));
-
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        const speech = await retryWithBackoff(() => provider.generateSpeech!(text));
+        if (speech.usage) onUsage?.(speech.usage);
+        const base64Audio = speech.audio;
         if (!base64Audio) {
             throw new Error("No audio data received from API.");
         }
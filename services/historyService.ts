@@ -0,0 +1,116 @@
+import { type Part } from '@google/genai';
+import { type ChatMessage, type ConversationSummary } from '../types';
+
+// Estimated tokens of recent messages sent verbatim with each request.
+export const HISTORY_TOKEN_BUDGET = 24000;
+// When older messages have to be summarized, trim the verbatim history to this share of the
+// budget, so the summary is updated every few messages rather than on every one.
+const SUMMARY_HEADROOM = 0.6;
+
+export const SUMMARY_MODEL = 'gemini-2.5-flash-lite';
+
+// Rough token costs: ~4 characters per text token, a fixed cost per image, and for audio
+// and video an estimate from the encoded size (about 16 kB/s audio at 32 tokens/s, ~100 kB/s video at 263 tokens/s).
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const AUDIO_BYTES_PER_TOKEN = 500;
+const VIDEO_BYTES_PER_TOKEN = 380;
+
+const base64Bytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+export function estimateMessageTokens(message: ChatMessage): number {
+    let tokens = Math.ceil(message.text.length / CHARS_PER_TOKEN);
+    if (message.image) tokens += IMAGE_TOKENS;
+    if (message.audio) tokens += Math.ceil(base64Bytes(message.audio) / AUDIO_BYTES_PER_TOKEN);
+    if (message.video) tokens += Math.ceil(base64Bytes(message.video) / VIDEO_BYTES_PER_TOKEN);
+    return tokens;
+}
+
+/**
+ * Creates an inlineData Part from a data URL.
+ * @param dataUrl The base64 encoded data URL.
+ * @returns A Part object for the Gemini API or null if the format is invalid.
+ */
+export function getMediaPart(dataUrl: string): Part | null {
+    const match = dataUrl.match(/^data:(.+);base64,(.+)$/);
+    if (!match) {
+        console.error("Invalid data URL format");
+        return null;
+    }
+    return { inlineData: { mimeType: match[1], data: match[2] } };
+}
+
+const MEDIA_FIELDS = ['image', 'video', 'audio'] as const;
+
+/**
+ * Drops media that is attached again later (including with the message being sent), so each
+ * file is sent once, at its latest position. Earlier copies are replaced with a short note.
+ */
+export function dedupeMedia(history: ChatMessage[], currentMedia?: string): ChatMessage[] {
+    const seen = new Set<string>(currentMedia ? [currentMedia] : []);
+    const result: ChatMessage[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+        let message = history[i];
+        for (const field of MEDIA_FIELDS) {
+            const data = message[field];
+            if (!data) continue;
+            if (seen.has(data)) {
+                message = { ...message, [field]: undefined, text: `${message.text}\n[The same ${field} is attached again later in the conversation.]` };
+            } else {
+                seen.add(data);
+            }
+        }
+        result.unshift(message);
+    }
+    return result;
+}
+
+// Index of the oldest message such that it and everything after it fit the budget. Keeps at least the last message.
+function findBudgetStart(history: ChatMessage[], budget: number): number {
+    let tokens = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+        tokens += estimateMessageTokens(history[i]);
+        if (tokens > budget) return Math.min(i + 1, history.length - 1);
+    }
+    return 0;
+}
+
+export interface HistoryPlan {
+    // Messages to send verbatim
+    recent: ChatMessage[];
+    // Messages that fell out of the budget and are not in the summary yet
+    toSummarize: ChatMessage[];
+    // How many leading messages the summary covers once toSummarize is added to it
+    coveredCount: number;
+    // What to send instead if the summary cannot be updated: the newest messages that fit the budget
+    unsummarized: ChatMessage[];
+}
+
+/**
+ * Splits the history into what is sent verbatim and what must first be folded into the running summary.
+ */
+export function planHistory(history: ChatMessage[], summary?: ConversationSummary, budget = HISTORY_TOKEN_BUDGET): HistoryPlan {
+    const covered = Math.min(summary?.coveredCount ?? 0, history.length);
+    const budgetStart = findBudgetStart(history, budget);
+    if (budgetStart <= covered) {
+        const recent = history.slice(covered);
+        return { recent, toSummarize: [], coveredCount: covered, unsummarized: recent };
+    }
+    const start = Math.max(covered, findBudgetStart(history, budget * SUMMARY_HEADROOM));
+    return { recent: history.slice(start), toSummarize: history.slice(covered, start), coveredCount: start, unsummarized: history.slice(budgetStart) };
+}
+
+export const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a long conversation between a user and their personal assistant, so the assistant can keep its context once older messages are dropped.
+Merge the new messages into the existing summary. Keep facts about the user, decisions made, commitments and open tasks, names, dates, places and numbers. Drop small talk.
+Reply with the updated summary only, as short paragraphs or bullet points, in at most 300 words.`;
+
+export function buildSummaryPrompt(previousSummary: string | undefined, messages: ChatMessage[]): string {
+    const transcript = messages.map(message => {
+        const attachments = MEDIA_FIELDS.filter(field => message[field]).map(field => `[${field} attached]`);
+        if (message.generatedImage) attachments.push('[generated an image]');
+        if (message.generatedVideo) attachments.push('[generated a video]');
+        if (message.wellbeingChart) attachments.push('[showed a wellbeing chart]');
+        return `${message.author === 'user' ? 'User' : 'Assistant'}: ${[message.text, ...attachments].filter(Boolean).join(' ')}`;
+    }).join('\n');
+    return `Existing summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${transcript}`;
+}
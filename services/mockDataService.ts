@@ -1,6 +1,10 @@
 
 import { FunctionDeclaration, Type } from '@google/genai';
 import { ServiceAccount, User } from '../types';
+import { type EmailMessage } from './email/types';
+import { type CalendarEvent } from './calendar/types';
+import { type WellbeingSeries } from './wellbeing/types';
+import { type SmartHomeDevice, type DeviceCommand } from './smarthome/types';
 
 // --- MOCK USER DATA ---
 const MOCK_USER: User = {
@@ -14,9 +18,36 @@ const MOCK_USER: User = {
 
 const MOCK_DEVICE_ACCOUNTS = [ { id: 'personal@example.com' }, { id: 'work@example.com' } ];
 const MOCK_EMAILS_INTERNAL = { "personal@example.com": [ { from: "Sarah <sarah@widgets.com>", subject: "Re: 1:1 Canceled", body: "Hi, I need to cancel our 1:1 today. Can we reschedule for tomorrow afternoon?" }, { from: "Dr. Smith's Office", subject: "Your Appointment Reminder", body: "This is a reminder for your dentist appointment tomorrow at 5:00 PM." }, ], "work@example.com": [ { from: "Alex <alex@investors.com>", subject: "Quick Question", body: "Hey, can we confirm the investor meeting for tomorrow at 10 AM?" }, { from: "Slack #design-team", subject: "Reminder: Design Review Feedback", body: "Don't forget to submit your design review feedback by EOD." }, ] };
-const MOCK_CALENDAR_EVENTS_INTERNAL = [ { title: "Design Review", time: "9:00 AM - 10:00 AM", status: "Critical" }, { title: "1:1 with Sarah", time: "2:00 PM - 2:30 PM", status: "Normal" }, { title: "Dentist Appointment", time: "5:00 PM", status: "Personal" } ];
-const MOCK_WELLBEING_DATA_INTERNAL = { sleep: { hours: 6, minutes: 15, quality: "below average" }, hrv: "Low", readinessScore: 65, notes: "Suggests a lighter day due to potential stress or fatigue." };
-const MOCK_SMARTHOME_STATUS_INTERNAL = { officeLight: "On", thermostat: "70°F" };
+const MOCK_CALENDAR_EVENTS_INTERNAL = [ { title: "Design Review", start: [9, 0], end: [10, 0], categories: ["Critical"] }, { title: "1:1 with Sarah", start: [14, 0], end: [14, 30], attendees: [{ email: "sarah@widgets.com", name: "Sarah" }] }, { title: "Dentist Appointment", start: [17, 0], end: [18, 0], location: "Dr. Smith's Office", categories: ["Personal"] } ];
+// Four weeks of wearable data, oldest first: a steady three weeks, then a short-slept week ending on 6h15m with low HRV
+const MOCK_WELLBEING_DAYS_INTERNAL = {
+    sleep: [452, 438, 461, 447, 429, 476, 488, 455, 441, 436, 458, 444, 471, 483, 449, 437, 452, 440, 433, 468, 479, 421, 407, 398, 412, 389, 401, 375],
+    steps: [8420, 9150, 7630, 10240, 8870, 12310, 6540, 9020, 8310, 9780, 7950, 8660, 13050, 5980, 8740, 9410, 8120, 9960, 8530, 11870, 7210, 7340, 6820, 7150, 6410, 8030, 5620, 4980],
+    restingHeartRate: [57, 58, 57, 56, 58, 57, 56, 57, 58, 57, 57, 56, 57, 56, 58, 57, 57, 56, 58, 57, 56, 59, 60, 60, 61, 62, 61, 63],
+    hrv: [56, 54, 58, 55, 52, 59, 61, 55, 53, 57, 54, 56, 60, 62, 55, 54, 57, 53, 55, 58, 60, 48, 46, 44, 45, 41, 43, 38],
+    activeEnergy: [412, 455, 371, 518, 430, 622, 305, 448, 401, 490, 386, 427, 660, 280, 433, 471, 392, 502, 418, 601, 344, 352, 318, 339, 297, 389, 262, 231],
+    weight: [74.2, 74.1, 74.3, 74.0, 74.1, 73.9, 74.0, 74.0, 73.8, 73.9, 73.9, 73.7, 73.8, 73.8, 73.7, 73.6, 73.8, 73.7, 73.6, 73.5, 73.6, 73.7, 73.8, 73.7, 73.9, 73.8, 73.9, 74.0],
+};
+const MOCK_SMARTHOME_DEVICES_INTERNAL: Omit<SmartHomeDevice, 'domain'>[] = [
+    { id: 'light.office', name: 'Office light', state: 'on', brightness: 80 },
+    { id: 'light.living_room', name: 'Living room light', state: 'off' },
+    { id: 'switch.coffee_maker', name: 'Coffee maker', state: 'off' },
+    { id: 'climate.thermostat', name: 'Thermostat', state: 'heat', temperature: 70, currentTemperature: 69, hvacModes: ['off', 'heat', 'cool', 'auto'] },
+    { id: 'lock.front_door', name: 'Front door', state: 'locked' },
+    { id: 'cover.garage_door', name: 'Garage door', state: 'closed', position: 0 },
+    { id: 'sensor.outdoor_temperature', name: 'Outdoor temperature', state: '54', unit: '°F' },
+    { id: 'scene.movie_night', name: 'Movie night', state: 'scening', entities: ['light.living_room', 'light.office'] },
+    { id: 'scene.leave_home', name: 'Leave home', state: 'scening', entities: ['light.office', 'light.living_room', 'lock.front_door', 'cover.garage_door'] },
+];
+const MOCK_SMARTHOME_SCENES_INTERNAL: { [sceneId: string]: { id: string, command: DeviceCommand }[] } = {
+    'scene.movie_night': [{ id: 'light.living_room', command: { brightness: 20 } }, { id: 'light.office', command: { state: 'off' } }],
+    'scene.leave_home': [
+        { id: 'light.office', command: { state: 'off' } },
+        { id: 'light.living_room', command: { state: 'off' } },
+        { id: 'lock.front_door', command: { state: 'locked' } },
+        { id: 'cover.garage_door', command: { state: 'closed' } },
+    ],
+};
 
 
 // --- SIMULATED DEVICE API ---
@@ -48,27 +79,58 @@ export function getUserLocation(): Promise<{latitude: number, longitude: number}
     });
 }
 
-export async function getEmails({ accountIds }: { accountIds: string[] }): Promise<string> {
+// Sample mail for accounts with no imported mailbox: unread, and an hour apart from now backwards.
+export async function getMockEmails(accountId: string): Promise<EmailMessage[]> {
     await simulateNetworkDelay();
-    if (!accountIds || accountIds.length === 0) return JSON.stringify({ error: "No email accounts were specified or connected." });
-    let allEmails: object[] = [];
-    for (const id of accountIds) {
-        if (MOCK_EMAILS_INTERNAL[id as keyof typeof MOCK_EMAILS_INTERNAL]) {
-            allEmails = allEmails.concat(MOCK_EMAILS_INTERNAL[id as keyof typeof MOCK_EMAILS_INTERNAL].map(email => ({ ...email, account: id })));
-        }
-    }
-    return JSON.stringify(allEmails);
+    const emails = MOCK_EMAILS_INTERNAL[accountId as keyof typeof MOCK_EMAILS_INTERNAL] ?? [];
+    return emails.map((email, index) => ({
+        ...email,
+        id: `${accountId}:sample-${index}`,
+        accountId,
+        threadId: `${accountId}:sample-${index}`,
+        to: [accountId],
+        date: Date.now() - (index + 1) * 60 * 60 * 1000,
+        unread: true,
+    }));
 }
 
-export async function getCalendarEvents(): Promise<string> { await simulateNetworkDelay(); return JSON.stringify(MOCK_CALENDAR_EVENTS_INTERNAL); }
-export async function createCalendarEvent({ title, date, time }: { title: string, date: string, time: string }): Promise<string> {
-    await simulateNetworkDelay();
-    const newEvent = { title, date, time, status: "Scheduled" };
-    MOCK_CALENDAR_EVENTS_INTERNAL.push(newEvent);
-    return JSON.stringify({ success: true, event: newEvent });
+// Sample events for a calendar nothing has been saved to yet, on today's date in the local time zone.
+export function getMockCalendarEvents(): CalendarEvent[] {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const today = (hours: number, minutes: number) => {
+        const date = new Date();
+        date.setHours(hours, minutes, 0, 0);
+        return date.toISOString();
+    };
+    return MOCK_CALENDAR_EVENTS_INTERNAL.map(({ start, end, ...event }, index) => ({
+        ...event,
+        id: `sample-${index}@jarvis`,
+        start: today(start[0], start[1]),
+        end: today(end[0], end[1]),
+        timeZone,
+    }));
+}
+// The sample days above, with the last one today
+export function getMockWellbeingSeries(): WellbeingSeries {
+    const series: WellbeingSeries = {};
+    for (const [metric, values] of Object.entries(MOCK_WELLBEING_DAYS_INTERNAL) as [keyof WellbeingSeries, number[]][]) {
+        series[metric] = Object.fromEntries(values.map((value, index) => {
+            const date = new Date();
+            date.setDate(date.getDate() - (values.length - 1 - index));
+            return [date.toLocaleDateString('en-CA'), value];
+        }));
+    }
+    return series;
+}
+// The sample home, as it was at the start of today
+export function getMockSmartHomeDevices(): SmartHomeDevice[] {
+    const startOfDay = new Date(new Date().setHours(0, 0, 0, 0)).toISOString();
+    return MOCK_SMARTHOME_DEVICES_INTERNAL.map(device => ({ ...device, domain: device.id.split('.')[0], lastChanged: startOfDay }));
+}
+// What each sample scene sets
+export function getMockSmartHomeScenes(): { [sceneId: string]: { id: string, command: DeviceCommand }[] } {
+    return MOCK_SMARTHOME_SCENES_INTERNAL;
 }
-export async function getWellbeingData(): Promise<string> { await simulateNetworkDelay(); return JSON.stringify(MOCK_WELLBEING_DATA_INTERNAL); }
-export async function getSmartHomeStatus(): Promise<string> { await simulateNetworkDelay(); return JSON.stringify(MOCK_SMARTHOME_STATUS_INTERNAL); }
 
 
 // --- FUNCTION DECLARATIONS for Gemini ---
@@ -80,7 +142,7 @@ export const generateImageFunctionDeclaration: FunctionDeclaration = {
         type: Type.OBJECT,
         properties: {
             prompt: { type: Type.STRING, description: "A detailed, descriptive prompt of the image to generate." },
-            aspectRatio: { type: Type.STRING, description: "The desired aspect ratio. Supported values: '1:1', '16:9', '9:16', '4:3', '3:4'." }
+            aspectRatio: { type: Type.STRING, enum: ['1:1', '16:9', '9:16', '4:3', '3:4'], description: "The desired aspect ratio. Supported values: '1:1', '16:9', '9:16', '4:3', '3:4'." }
         },
         required: ['prompt']
     }
@@ -105,7 +167,7 @@ export const generateVideoFunctionDeclaration: FunctionDeclaration = {
         type: Type.OBJECT,
         properties: {
             prompt: { type: Type.STRING, description: "A detailed prompt describing the video content or animation." },
-            aspectRatio: { type: Type.STRING, description: "The video aspect ratio, MUST be '16:9' or '9:16'." },
+            aspectRatio: { type: Type.STRING, enum: ['16:9', '9:16'], description: "The video aspect ratio, MUST be '16:9' or '9:16'." },
             image: { type: Type.STRING, description: "Optional. The base64 encoded image to animate."}
         },
         required: ['prompt', 'aspectRatio']
@@ -156,8 +218,274 @@ export const rememberFactFunctionDeclaration: FunctionDeclaration = {
     }
 };
 
-export const getEmailsFunctionDeclaration: FunctionDeclaration = { name: 'getEmails', description: "Fetches the user's unread emails.", parameters: { type: Type.OBJECT, properties: { accountIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. Specific email accounts to check." } } } };
-export const getCalendarEventsFunctionDeclaration: FunctionDeclaration = { name: 'getCalendarEvents', description: "Fetches today's upcoming calendar events.", parameters: { type: Type.OBJECT, properties: {} } };
-export const createCalendarEventFunctionDeclaration: FunctionDeclaration = { name: 'createCalendarEvent', description: "Creates a new event in the user's calendar.", parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING, description: "The title of the event." }, date: { type: Type.STRING, description: "The date of the event." }, time: { type: Type.STRING, description: "The time of the event." } }, required: ['title', 'date', 'time'] } };
-export const getWellbeingDataFunctionDeclaration: FunctionDeclaration = { name: 'getWellbeingData', description: "Fetches the user's latest health data from a wearable device.", parameters: { type: Type.OBJECT, properties: {} } };
-export const getSmartHomeStatusFunctionDeclaration: FunctionDeclaration = { name: 'getSmartHomeStatus', description: "Fetches the current status of connected smart home devices.", parameters: { type: Type.OBJECT, properties: {} } };
+export const getEmailsFunctionDeclaration: FunctionDeclaration = {
+    name: 'getEmails',
+    description: "Fetches the user's emails, newest first. Without filters, returns the latest emails whether read or not. Emails in the same conversation share a threadId.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            accountIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. Specific email accounts to check." },
+            from: { type: Type.STRING, description: "Optional. Only emails whose sender name or address contains this text." },
+            after: { type: Type.STRING, description: "Optional. Only emails sent on or after this date (YYYY-MM-DD or ISO 8601)." },
+            before: { type: Type.STRING, description: "Optional. Only emails sent before this date (YYYY-MM-DD or ISO 8601)." },
+            unread: { type: Type.BOOLEAN, description: "Optional. true for unread emails only, false for read emails only." },
+            threadId: { type: Type.STRING, description: "Optional. Only emails in this conversation." },
+            query: { type: Type.STRING, description: "Optional. Words that must all appear in the subject or body." },
+            limit: { type: Type.INTEGER, description: "Optional. Maximum number of emails to return. Defaults to 20." },
+        },
+    },
+};
+// The fields of an email being written, shared by draftEmail and sendEmail.
+const outgoingEmailProperties = {
+    accountId: { type: Type.STRING, description: "Optional. The connected email account to send from. Defaults to the first connected account." },
+    to: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Recipients, as addresses or \"Name <address>\"." },
+    cc: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. Recipients to copy." },
+    subject: { type: Type.STRING, description: "The subject line." },
+    body: { type: Type.STRING, description: "The plain text body." },
+};
+export const draftEmailFunctionDeclaration: FunctionDeclaration = {
+    name: 'draftEmail',
+    description: "Shows the user a new email draft they can edit and send themselves. Use this rather than sendEmail unless the user asked you to send.",
+    parameters: { type: Type.OBJECT, properties: outgoingEmailProperties, required: ['to', 'subject', 'body'] },
+};
+export const replyToEmailFunctionDeclaration: FunctionDeclaration = {
+    name: 'replyToEmail',
+    description: "Drafts a reply to an email from getEmails, addressed and threaded automatically with the original quoted. The user edits and sends the draft.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            emailId: { type: Type.STRING, description: "The id of the email to answer, from getEmails." },
+            body: { type: Type.STRING, description: "The text of the reply, without the quoted original." },
+            replyAll: { type: Type.BOOLEAN, description: "Optional. Also address everyone else the original was sent to." },
+        },
+        required: ['emailId', 'body'],
+    },
+};
+export const sendEmailFunctionDeclaration: FunctionDeclaration = {
+    name: 'sendEmail',
+    description: "Sends an email. The user always reviews and approves it first. Only use when the user explicitly asked you to send.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            ...outgoingEmailProperties,
+            inReplyTo: { type: Type.STRING, description: "Optional. Message-ID of the email being answered." },
+        },
+        required: ['to', 'subject', 'body'],
+    },
+};
+export const getCalendarEventsFunctionDeclaration: FunctionDeclaration = {
+    name: 'getCalendarEvents',
+    description: "Fetches the user's calendar events in a date range, one entry per occurrence of repeating events. Without a range, returns today's events. Times are in the user's time zone.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            start: { type: Type.STRING, description: "Optional. The first day (YYYY-MM-DD) or time (ISO 8601) to include. Defaults to the start of today." },
+            end: { type: Type.STRING, description: "Optional. The last day to include (YYYY-MM-DD), or the time (ISO 8601) to stop at. Defaults to the end of the start day." },
+        },
+    },
+};
+export const createCalendarEventFunctionDeclaration: FunctionDeclaration = {
+    name: 'createCalendarEvent',
+    description: "Creates a new event in the user's calendar.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING, description: "The title of the event." },
+            start: { type: Type.STRING, description: "When it starts, as a local time such as 2026-10-20T14:00. A date alone (YYYY-MM-DD) makes an all-day event." },
+            end: { type: Type.STRING, description: "Optional. When it ends, in the same form as start. For all-day events, the last day." },
+            durationMinutes: { type: Type.INTEGER, description: "Optional. How long it lasts when no end is given. Defaults to 60." },
+            allDay: { type: Type.BOOLEAN, description: "Optional. Makes it an all-day event on the start date." },
+            timeZone: { type: Type.STRING, description: "Optional. The IANA time zone of start and end, e.g. Europe/Paris. Defaults to the user's." },
+            location: { type: Type.STRING, description: "Optional. Where it takes place." },
+            description: { type: Type.STRING, description: "Optional. Notes for the event." },
+            attendees: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. People to invite, as addresses or \"Name <address>\"." },
+            recurrence: { type: Type.STRING, description: "Optional. An iCalendar RRULE for repeating events, e.g. FREQ=WEEKLY;BYDAY=MO,WE or FREQ=MONTHLY;COUNT=6." },
+            allowConflicts: { type: Type.BOOLEAN, description: "Optional. Book it even if it overlaps other events. Only set this after the user has agreed to the clash." },
+        },
+        required: ['title', 'start'],
+    },
+};
+// Picks out one occurrence of a repeating event.
+const occurrenceStartProperty = { type: Type.STRING, description: "Optional. For a repeating event, the start of the one occurrence to act on, exactly as getCalendarEvents gave it. Without it, the whole series is affected." };
+export const updateCalendarEventFunctionDeclaration: FunctionDeclaration = {
+    name: 'updateCalendarEvent',
+    description: "Moves or changes an event from getCalendarEvents. Only the given fields change; moving the start keeps the event's length unless an end or duration is given.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The id of the event, from getCalendarEvents." },
+            occurrenceStart: occurrenceStartProperty,
+            title: { type: Type.STRING, description: "Optional. A new title." },
+            start: { type: Type.STRING, description: "Optional. The new start, as a local time such as 2026-10-20T14:00, or a date for all-day events." },
+            end: { type: Type.STRING, description: "Optional. The new end, in the same form as start." },
+            durationMinutes: { type: Type.INTEGER, description: "Optional. The new length, when no end is given." },
+            allDay: { type: Type.BOOLEAN, description: "Optional. Makes it an all-day event, or a timed one when false." },
+            timeZone: { type: Type.STRING, description: "Optional. The IANA time zone of start and end. Defaults to the event's." },
+            location: { type: Type.STRING, description: "Optional. A new location." },
+            description: { type: Type.STRING, description: "Optional. New notes." },
+            attendees: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Optional. The full new list of people invited." },
+            recurrence: { type: Type.STRING, description: "Optional. A new RRULE for the whole series." },
+            allowConflicts: { type: Type.BOOLEAN, description: "Optional. Save it even if the new time overlaps other events. Only set this after the user has agreed to the clash." },
+        },
+        required: ['id'],
+    },
+};
+export const deleteCalendarEventFunctionDeclaration: FunctionDeclaration = {
+    name: 'deleteCalendarEvent',
+    description: "Cancels an event from getCalendarEvents, removing it from the calendar.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The id of the event, from getCalendarEvents." },
+            occurrenceStart: occurrenceStartProperty,
+        },
+        required: ['id'],
+    },
+};
+export const findFreeSlotsFunctionDeclaration: FunctionDeclaration = {
+    name: 'findFreeSlots',
+    description: "Finds free time in the user's calendar: the gaps between timed events, within the given hours of each day, that are at least durationMinutes long. Each slot is a whole gap. Use it before proposing or moving meetings.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            durationMinutes: { type: Type.INTEGER, description: "How long the free time must be." },
+            start: { type: Type.STRING, description: "Optional. The first day (YYYY-MM-DD) or time (ISO 8601) to look from. Defaults to now." },
+            end: { type: Type.STRING, description: "Optional. The last day to look in (YYYY-MM-DD), or the time (ISO 8601) to stop at. Defaults to a week." },
+            earliest: { type: Type.STRING, description: "Optional. The earliest time of day a slot may start, as HH:MM. Defaults to 09:00; use 12:00 for afternoons." },
+            latest: { type: Type.STRING, description: "Optional. The time of day slots must end by, as HH:MM. Defaults to 17:00." },
+            weekdaysOnly: { type: Type.BOOLEAN, description: "Optional. Skip Saturdays and Sundays." },
+            limit: { type: Type.INTEGER, description: "Optional. The most slots to return. Defaults to 10." },
+        },
+        required: ['durationMinutes'],
+    },
+};
+export const getWellbeingDataFunctionDeclaration: FunctionDeclaration = {
+    name: 'getWellbeingData',
+    description: "Fetches the user's daily health data from their wearable or imported health exports, summarized per metric with the average, range and latest value, and the change against the same number of days before. Use it to talk about trends, e.g. 'your sleep dropped 40 minutes this week'.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            metrics: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING, enum: ['sleep', 'steps', 'restingHeartRate', 'hrv', 'activeEnergy', 'weight'] },
+                description: "Optional. The metrics to fetch. Sleep is in minutes, counted on the day the user woke up. Defaults to all.",
+            },
+            start: { type: Type.STRING, description: "Optional. The first day to include (YYYY-MM-DD). Defaults to 6 days before the end, making a week." },
+            end: { type: Type.STRING, description: "Optional. The last day to include (YYYY-MM-DD). Defaults to today." },
+        },
+    },
+};
+export const showWellbeingChartFunctionDeclaration: FunctionDeclaration = {
+    name: 'showWellbeingChart',
+    description: "Shows the user an interactive chart of their daily health data under your answer. Use it when discussing wellbeing trends, alongside the numbers from 'getWellbeingData'.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            metrics: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING, enum: ['sleep', 'steps', 'restingHeartRate', 'hrv', 'activeEnergy', 'weight', 'readiness'] },
+                description: "Optional. The metrics to chart; 'readiness' is a 0-100 score from sleep, HRV and resting heart rate. Defaults to sleep, hrv, restingHeartRate and readiness.",
+            },
+            start: { type: Type.STRING, description: "Optional. The first day to chart (YYYY-MM-DD). Defaults to 6 days before the end, making a week." },
+            end: { type: Type.STRING, description: "Optional. The last day to chart (YYYY-MM-DD). Defaults to today." },
+        },
+    },
+};
+export const getSmartHomeStatusFunctionDeclaration: FunctionDeclaration = { name: 'getSmartHomeStatus', description: "Lists the user's smart home devices and scenes with their ids and current state.", parameters: { type: Type.OBJECT, properties: {} } };
+export const setDeviceStateFunctionDeclaration: FunctionDeclaration = {
+    name: 'setDeviceState',
+    description: "Changes a smart home device: turns lights and switches on or off, dims lights, locks or unlocks doors, opens or closes covers, or sets the thermostat. Get the device id from 'getSmartHomeStatus' first.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The device id, e.g. 'light.office'." },
+            state: { type: Type.STRING, enum: ['on', 'off', 'locked', 'unlocked', 'open', 'closed'], description: "Optional. The state to put the device in." },
+            brightness: { type: Type.INTEGER, description: "Optional. For lights, the brightness from 0 to 100; turns the light on." },
+            temperature: { type: Type.NUMBER, description: "Optional. For thermostats, the temperature to aim for, in the unit the device uses." },
+            hvacMode: { type: Type.STRING, description: "Optional. For thermostats, one of the device's hvacModes, e.g. 'heat', 'cool', 'auto' or 'off'." },
+            position: { type: Type.INTEGER, description: "Optional. For covers such as blinds, how far open from 0 to 100." },
+        },
+        required: ['id'],
+    },
+};
+export const activateSceneFunctionDeclaration: FunctionDeclaration = {
+    name: 'activateScene',
+    description: "Activates a smart home scene, which sets several devices at once. Get the scene id from 'getSmartHomeStatus' first.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The scene id, e.g. 'scene.movie_night'." },
+        },
+        required: ['id'],
+    },
+};
+export const getDeviceHistoryFunctionDeclaration: FunctionDeclaration = {
+    name: 'getDeviceHistory',
+    description: "Fetches when a smart home device changed state, e.g. when the front door was unlocked or how warm it was overnight.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The device id, e.g. 'lock.front_door'." },
+            start: { type: Type.STRING, description: "Optional. The start of the period, as a date (YYYY-MM-DD) or ISO 8601 time. Defaults to 24 hours before the end." },
+            end: { type: Type.STRING, description: "Optional. The end of the period, as a date (the whole day is included) or ISO 8601 time. Defaults to now." },
+        },
+        required: ['id'],
+    },
+};
+const taskPriorityProperty = { type: Type.STRING, enum: ['high', 'normal', 'low'], description: "Optional. How much it matters; new tasks are normal." };
+export const createTaskFunctionDeclaration: FunctionDeclaration = {
+    name: 'createTask',
+    description: "Adds a task to the user's to-do list, e.g. for \"remind me to send the design feedback\".",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING, description: "What needs doing, as a short imperative, e.g. 'Send the design feedback'." },
+            due: { type: Type.STRING, description: "Optional. When it is due, as a date (YYYY-MM-DD) or a local time (2026-10-20T17:00)." },
+            priority: taskPriorityProperty,
+            project: { type: Type.STRING, description: "Optional. The project or list it belongs to, e.g. 'Work'." },
+            notes: { type: Type.STRING, description: "Optional. Details worth keeping with it." },
+        },
+        required: ['title'],
+    },
+};
+export const listTasksFunctionDeclaration: FunctionDeclaration = {
+    name: 'listTasks',
+    description: "Lists the user's tasks with their ids, soonest due first.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            status: { type: Type.STRING, enum: ['open', 'completed', 'all'], description: "Optional. Which tasks to list. Defaults to open." },
+            project: { type: Type.STRING, description: "Optional. Only tasks in this project." },
+            dueBy: { type: Type.STRING, description: "Optional. A date (YYYY-MM-DD): only tasks due on or before it, overdue ones included." },
+            query: { type: Type.STRING, description: "Optional. Words to look for in the title or notes." },
+        },
+    },
+};
+export const completeTaskFunctionDeclaration: FunctionDeclaration = {
+    name: 'completeTask',
+    description: "Marks a task as done, or as not done again.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The id of the task, from listTasks or the Life State Graph." },
+            completed: { type: Type.BOOLEAN, description: "Optional. False reopens a completed task. Defaults to true." },
+        },
+        required: ['id'],
+    },
+};
+export const updateTaskFunctionDeclaration: FunctionDeclaration = {
+    name: 'updateTask',
+    description: "Changes a task. Only the given fields change; an empty string removes the due date, project or notes.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, description: "The id of the task, from listTasks or the Life State Graph." },
+            title: { type: Type.STRING, description: "Optional. A new title." },
+            due: { type: Type.STRING, description: "Optional. A new due date (YYYY-MM-DD) or local time (2026-10-20T17:00)." },
+            priority: taskPriorityProperty,
+            project: { type: Type.STRING, description: "Optional. A new project." },
+            notes: { type: Type.STRING, description: "Optional. New notes, replacing the old ones." },
+        },
+        required: ['id'],
+    },
+};
@@ -0,0 +1,73 @@
+import { type Part } from '@google/genai';
+import { type LlmProvider, type ChatOptions, type ChatTurn } from './types';
+
+// A 1x1 transparent PNG, used as the fake provider's generated and edited image.
+const FAKE_IMAGE_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export type FakeResponder = (parts: Part[], options: ChatOptions) => ChatTurn;
+
+export interface FakeProviderOptions {
+    // Either a fixed script of turns, served in order across all chats, or a function computing each turn.
+    turns?: ChatTurn[] | FakeResponder;
+}
+
+/**
+ * Creates a deterministic in-memory provider for offline development and tests.
+ * With no script it echoes the user's text back. Every capability is available
+ * and returns fixed placeholder data.
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): LlmProvider {
+    const script = options.turns;
+    let nextTurn = 0;
+
+    const respond = (parts: Part[], chatOptions: ChatOptions): ChatTurn => {
+        if (typeof script === 'function') {
+            return script(parts, chatOptions);
+        }
+        if (script && nextTurn < script.length) {
+            return script[nextTurn++];
+        }
+        const text = parts.map(p => p.text).filter(Boolean).join(' ');
+        return { text: text ? `You said: ${text}` : 'Done.', functionCalls: [] };
+    };
+
+    return {
+        name: 'fake',
+        createChat(chatOptions) {
+            return {
+                async sendMessage(parts, signal) {
+                    signal?.throwIfAborted();
+                    return respond(parts, chatOptions);
+                },
+                // Streams the same turn word by word so partial rendering can be exercised offline.
+                async *sendMessageStream(parts, signal) {
+                    signal?.throwIfAborted();
+                    const turn = respond(parts, chatOptions);
+                    for (const word of turn.text.match(/\S+\s*/g) ?? []) {
+                        signal?.throwIfAborted();
+                        yield { text: word, functionCalls: [] };
+                    }
+                    // The calls and usage come last, as they do from the real backends
+                    if (turn.functionCalls.length > 0 || turn.usage) {
+                        yield { text: '', functionCalls: turn.functionCalls, usage: turn.usage };
+                    }
+                },
+            };
+        },
+        async generateImage() {
+            return { dataUrl: FAKE_IMAGE_DATA_URL };
+        },
+        async editImage() {
+            return { dataUrl: FAKE_IMAGE_DATA_URL };
+        },
+        async generateVideo() {
+            return { operationName: 'operations/fake-video' };
+        },
+        async generateSpeech() {
+            return { audio: '' };
+        },
+        async groundedAnswer() {
+            return { text: 'This is a grounded answer from the fake provider.', sources: [{ title: 'Example', uri: 'https://example.com' }] };
+        },
+    };
+}
@@ -0,0 +1,178 @@
+import { GoogleGenAI, Modality, type GenerateContentResponse, type GenerateContentResponseUsageMetadata } from "@google/genai";
+import { type GroundingSource, type UsageEntry } from '../../types';
+import {
+    type LlmProvider, type ChatOptions, type ProviderChat, type ChatTurn,
+    type ImageGenerationRequest, type ImageEditRequest, type VideoGenerationRequest,
+    type GroundingRequest, type GroundedAnswer, type GeneratedMedia, type StartedVideo, type GeneratedSpeech,
+    BillingProjectRequiredError,
+} from './types';
+
+// Veo bills per second of output; requests use the model's default clip length.
+const VEO_DEFAULT_DURATION_SECONDS = 8;
+
+function toUsageEntry(model: string, metadata: GenerateContentResponseUsageMetadata | undefined): UsageEntry | undefined {
+    if (!metadata) return undefined;
+    return {
+        model,
+        timestamp: Date.now(),
+        inputTokens: (metadata.promptTokenCount ?? 0) + (metadata.toolUsePromptTokenCount ?? 0),
+        outputTokens: metadata.candidatesTokenCount ?? 0,
+        thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+    };
+}
+
+function toChatTurn(model: string, response: GenerateContentResponse): ChatTurn {
+    return {
+        text: response.text ?? '',
+        functionCalls: response.functionCalls ?? [],
+        usage: toUsageEntry(model, response.usageMetadata),
+    };
+}
+
+/**
+ * Creates the Gemini adapter. This is the default provider and supports every capability.
+ */
+export function createGeminiProvider(apiKey: string | undefined = process.env.API_KEY): LlmProvider {
+    if (!apiKey) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        createChat(options: ChatOptions): ProviderChat {
+            const config: any = {
+                tools: options.tools.length > 0 ? [{ functionDeclarations: options.tools }] : undefined,
+                systemInstruction: options.systemInstruction,
+            };
+            if (options.thinkingBudget !== undefined) {
+                config.thinkingConfig = { thinkingBudget: options.thinkingBudget };
+            }
+            const chat = ai.chats.create({ model: options.model, config, history: options.history });
+            return {
+                async sendMessage(parts, signal) {
+                    return toChatTurn(options.model, await chat.sendMessage({ message: parts, config: { abortSignal: signal } }));
+                },
+                async *sendMessageStream(parts, signal) {
+                    const stream = await chat.sendMessageStream({ message: parts, config: { abortSignal: signal } });
+                    for await (const chunk of stream) {
+                        yield toChatTurn(options.model, chunk);
+                    }
+                },
+            };
+        },
+
+        async generateImage({ prompt, aspectRatio }: ImageGenerationRequest, signal?: AbortSignal): Promise<GeneratedMedia> {
+            try {
+                const model = 'imagen-4.0-generate-001';
+                const imageResult: any = await ai.models.generateImages({
+                    model,
+                    prompt,
+                    config: {
+                        numberOfImages: 1,
+                        aspectRatio,
+                        abortSignal: signal,
+                    },
+                });
+                const base64ImageBytes = imageResult.generatedImages[0].image.imageBytes;
+                return {
+                    dataUrl: `data:image/png;base64,${base64ImageBytes}`,
+                    usage: { model, timestamp: Date.now(), inputTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 1 },
+                };
+            } catch (error: any) {
+                if (error.message?.includes('billed users') || error.status === 400 || error.code === 400) {
+                    throw new BillingProjectRequiredError(error.message);
+                }
+                throw error;
+            }
+        },
+
+        async editImage({ image, prompt }: ImageEditRequest, signal?: AbortSignal): Promise<GeneratedMedia> {
+            const model = 'gemini-2.5-flash-image';
+            const imageResult = await ai.models.generateContent({
+                model,
+                contents: { parts: [image, { text: prompt }] },
+                config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+            });
+            const resultPart = imageResult.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            if (!resultPart?.inlineData) {
+                throw new Error("No edited image data received.");
+            }
+            return {
+                dataUrl: `data:${resultPart.inlineData.mimeType};base64,${resultPart.inlineData.data}`,
+                usage: toUsageEntry(model, imageResult.usageMetadata),
+            };
+        },
+
+        async generateVideo({ prompt, aspectRatio, image }: VideoGenerationRequest, signal?: AbortSignal): Promise<StartedVideo> {
+            // @ts-ignore
+            if (window.aistudio && await window.aistudio.hasSelectedApiKey() === false) {
+                throw new BillingProjectRequiredError();
+            }
+            // Veo uses the key selected in AI Studio, so build a fresh client for each request.
+            const localAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            const model = 'veo-3.1-fast-generate-preview';
+            const operation = await localAi.models.generateVideos({
+                model,
+                prompt,
+                ...(image?.inlineData ? { image: { imageBytes: image.inlineData.data, mimeType: image.inlineData.mimeType } } : {}),
+                config: {
+                    numberOfVideos: 1,
+                    aspectRatio,
+                    abortSignal: signal,
+                },
+            });
+            return {
+                operationName: operation.name ?? '',
+                usage: { model, timestamp: Date.now(), inputTokens: 0, outputTokens: 0, thinkingTokens: 0, videoSeconds: VEO_DEFAULT_DURATION_SECONDS },
+            };
+        },
+
+        async generateSpeech(text: string, signal?: AbortSignal): Promise<GeneratedSpeech> {
+            const model = "gemini-2.5-flash-preview-tts";
+            const response = await ai.models.generateContent({
+                model,
+                contents: [{ parts: [{ text: `Speak the following text: ${text}` }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    abortSignal: signal,
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: 'Kore' },
+                        },
+                    },
+                },
+            });
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("No audio data received from API.");
+            }
+            return { audio: base64Audio, usage: toUsageEntry(model, response.usageMetadata) };
+        },
+
+        async groundedAnswer({ parts, useMaps, location }: GroundingRequest, signal?: AbortSignal): Promise<GroundedAnswer> {
+            const groundingConfig: any = {
+                tools: useMaps ? [{ googleMaps: {} }, { googleSearch: {} }] : [{ googleSearch: {} }],
+                abortSignal: signal,
+            };
+            if (useMaps && location) {
+                groundingConfig.toolConfig = { retrievalConfig: { latLng: location } };
+            }
+            const model = 'gemini-2.5-flash';
+            const groundingResult = await ai.models.generateContent({
+                model,
+                contents: parts,
+                config: groundingConfig,
+            });
+
+            const groundingChunks = groundingResult.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+            const sources: GroundingSource[] = groundingChunks.map((chunk: any) => ({
+                uri: chunk.web?.uri || chunk.maps?.uri || '',
+                title: chunk.web?.title || chunk.maps?.title || 'Source'
+            })).filter((s: GroundingSource) => s.uri);
+
+            return { text: groundingResult.text ?? '', sources, usage: toUsageEntry(model, groundingResult.usageMetadata) };
+        },
+    };
+}
@@ -0,0 +1,79 @@
+import { type LlmProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createFakeProvider } from './fakeProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createRecordingProvider, createReplayProvider, type ConversationFixture, type RecordingProvider } from './recordReplayProvider';
+
+export * from './types';
+export { createGeminiProvider } from './geminiProvider';
+export { createFakeProvider } from './fakeProvider';
+export { createOpenAiCompatibleProvider, type OpenAiCompatibleConfig } from './openAiCompatibleProvider';
+export {
+    createRecordingProvider, createReplayProvider, ReplayMismatchError,
+    type ConversationFixture, type FixtureExchange, type RecordingProvider, type ReplayProvider, type ReplayOptions,
+} from './recordReplayProvider';
+
+// Factories for the backends selectable through the LLM_PROVIDER environment variable.
+const providerFactories: { [name: string]: () => LlmProvider } = {
+    gemini: () => createGeminiProvider(),
+    fake: () => createFakeProvider(),
+    // Self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM); defaults target a local Ollama.
+    openai: () => createOpenAiCompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.OPENAI_MODEL || 'llama3.1',
+        apiKey: process.env.OPENAI_API_KEY,
+        ttsModel: process.env.OPENAI_TTS_MODEL,
+        imageModel: process.env.OPENAI_IMAGE_MODEL,
+    }),
+    // Serves the fixture file named by LLM_REPLAY_FIXTURE, which vite inlines at build time.
+    replay: () => {
+        if (!process.env.LLM_REPLAY_FIXTURE) {
+            throw new Error("LLM_REPLAY_FIXTURE must name a recorded fixture file to use the replay provider");
+        }
+        return createReplayProvider(JSON.parse(process.env.LLM_REPLAY_FIXTURE) as ConversationFixture);
+    },
+};
+
+let activeProvider: LlmProvider | null = null;
+let recordingProvider: RecordingProvider | null = null;
+
+/**
+ * Registers a named provider factory so it can be selected with LLM_PROVIDER.
+ */
+export function registerProvider(name: string, factory: () => LlmProvider): void {
+    providerFactories[name] = factory;
+}
+
+/**
+ * Returns the active provider, creating it from LLM_PROVIDER (default 'gemini') on first use.
+ * With LLM_RECORD=true every call it makes is captured; see getRecording.
+ */
+export function getProvider(): LlmProvider {
+    if (!activeProvider) {
+        const name = process.env.LLM_PROVIDER || 'gemini';
+        const factory = providerFactories[name];
+        if (!factory) {
+            throw new Error(`Unknown LLM provider "${name}". Available: ${Object.keys(providerFactories).join(', ')}`);
+        }
+        activeProvider = factory();
+        if (process.env.LLM_RECORD === 'true') {
+            recordingProvider = createRecordingProvider(activeProvider);
+            activeProvider = recordingProvider;
+        }
+    }
+    return activeProvider;
+}
+
+/**
+ * Returns the fixture captured so far when recording is on, or null.
+ */
+export function getRecording(): ConversationFixture | null {
+    return recordingProvider?.fixture ?? null;
+}
+
+/**
+ * Replaces the active provider, e.g. with a fake in tests.
+ */
+export function setProvider(provider: LlmProvider): void {
+    activeProvider = provider;
+}
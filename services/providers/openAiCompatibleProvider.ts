@@ -0,0 +1,247 @@
+import { type Content, type FunctionCall, type FunctionDeclaration, type Part, type Schema } from '@google/genai';
+import { type LlmProvider, type ChatOptions, type ProviderChat, type ChatTurn, type ImageGenerationRequest } from './types';
+
+export interface OpenAiCompatibleConfig {
+    baseUrl: string; // e.g. 'http://localhost:11434/v1' for Ollama
+    model: string; // Used for every chat unless overridden in modelMap
+    apiKey?: string;
+    modelMap?: { [geminiModel: string]: string };
+    ttsModel?: string; // Enables speech via /audio/speech when set
+    imageModel?: string; // Enables image generation via /images/generations when set
+}
+
+// --- Wire format (the subset of the Chat Completions API we use) ---
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+type OpenAiContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+type OpenAiMessage =
+    | { role: 'system'; content: string }
+    | { role: 'user'; content: string | OpenAiContentPart[] }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAiTool {
+    type: 'function';
+    function: { name: string; description?: string; parameters: object };
+}
+
+/**
+ * Converts a Gemini Schema (upper-case Type enum) into the JSON Schema expected by OpenAI-style tools.
+ */
+function toJsonSchema(schema: Schema | undefined): object {
+    if (!schema) {
+        return { type: 'object', properties: {} };
+    }
+    const json: { [key: string]: any } = {};
+    if (schema.type) json.type = String(schema.type).toLowerCase();
+    if (schema.description) json.description = schema.description;
+    if (schema.enum) json.enum = schema.enum;
+    if (schema.items) json.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        json.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+    }
+    if (schema.required) json.required = schema.required;
+    return json;
+}
+
+export function toOpenAiTools(declarations: FunctionDeclaration[]): OpenAiTool[] {
+    return declarations.map(declaration => ({
+        type: 'function',
+        function: {
+            name: declaration.name!,
+            description: declaration.description,
+            parameters: toJsonSchema(declaration.parameters),
+        },
+    }));
+}
+
+async function postJson(config: OpenAiCompatibleConfig, path: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        signal,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+        // Carry the HTTP status and any Retry-After hint so retryWithBackoff can recognise 429/503 and wait as asked.
+        const detail = await response.text().catch(() => '');
+        throw Object.assign(new Error(`${path} failed with ${response.status}: ${detail}`), {
+            status: response.status,
+            retryAfter: response.headers.get('retry-after') ?? undefined,
+        });
+    }
+    return response;
+}
+
+/**
+ * Creates an adapter for any server speaking the OpenAI Chat Completions API
+ * (Ollama, llama.cpp server, vLLM). Image editing, video and grounding are not
+ * available; speech and image generation only when their models are configured.
+ */
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig): LlmProvider {
+    const resolveModel = (model: string) => config.modelMap?.[model] ?? config.model;
+
+    const createChat = (options: ChatOptions): ProviderChat => {
+        const messages: OpenAiMessage[] = [{ role: 'system', content: options.systemInstruction }];
+        const tools = toOpenAiTools(options.tools);
+        // Tool calls the model made that have not been answered yet, oldest first.
+        let pendingCalls: OpenAiToolCall[] = [];
+        let syntheticIdCounter = 0;
+
+        // The API rejects a transcript where a tool call is left unanswered,
+        // so close out any leftovers before the conversation moves on.
+        const closePendingCalls = () => {
+            for (const call of pendingCalls) {
+                messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify({ error: 'Not executed.' }) });
+            }
+            pendingCalls = [];
+        };
+
+        const appendParts = (role: Content['role'], parts: Part[]) => {
+            const text = parts.filter(p => p.text).map(p => p.text).join('\n');
+            const functionCalls = parts.filter(p => p.functionCall).map(p => p.functionCall!);
+            const functionResponses = parts.filter(p => p.functionResponse).map(p => p.functionResponse!);
+
+            if (role === 'model') {
+                closePendingCalls();
+                const toolCalls: OpenAiToolCall[] = functionCalls.map(call => ({
+                    id: call.id ?? `call_${syntheticIdCounter++}`,
+                    type: 'function',
+                    function: { name: call.name!, arguments: JSON.stringify(call.args ?? {}) },
+                }));
+                messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+                pendingCalls = toolCalls;
+                return;
+            }
+
+            for (const functionResponse of functionResponses) {
+                // Answer the matching call by id or name, falling back to the oldest pending call
+                // (e.g. a tool run after consent answers the earlier requestPermission call).
+                const index = Math.max(0, pendingCalls.findIndex(c => c.id === functionResponse.id || c.function.name === functionResponse.name));
+                const [call] = pendingCalls.splice(index, 1);
+                const toolCallId = call?.id ?? `call_${syntheticIdCounter++}`;
+                messages.push({ role: 'tool', tool_call_id: toolCallId, content: JSON.stringify(functionResponse.response ?? {}) });
+            }
+            if (functionResponses.length > 0) {
+                closePendingCalls();
+            }
+
+            const images = parts.filter(p => p.inlineData?.mimeType?.startsWith('image/'));
+            if (text || images.length > 0) {
+                closePendingCalls();
+                const skipped = parts.filter(p => p.inlineData && !p.inlineData.mimeType?.startsWith('image/')).length;
+                const noteText = skipped > 0 ? `${text}\n\n(${skipped} audio/video attachment(s) omitted: not supported by this backend.)` : text;
+                messages.push({
+                    role: 'user',
+                    content: images.length === 0 ? noteText : [
+                        { type: 'text', text: noteText },
+                        ...images.map(p => ({ type: 'image_url' as const, image_url: { url: `data:${p.inlineData!.mimeType};base64,${p.inlineData!.data}` } })),
+                    ],
+                });
+            }
+        };
+
+        for (const content of options.history) {
+            appendParts(content.role, content.parts ?? []);
+        }
+
+        return {
+            async sendMessage(parts: Part[], signal?: AbortSignal): Promise<ChatTurn> {
+                // Roll the transcript back if the request fails, so a retry doesn't send the parts twice.
+                const checkpoint = { length: messages.length, pendingCalls: [...pendingCalls] };
+                appendParts('user', parts);
+                let data;
+                try {
+                    const response = await postJson(config, '/chat/completions', {
+                        model: resolveModel(options.model),
+                        messages,
+                        ...(tools.length > 0 ? { tools } : {}),
+                    }, signal);
+                    data = await response.json();
+                } catch (error) {
+                    messages.length = checkpoint.length;
+                    pendingCalls = checkpoint.pendingCalls;
+                    throw error;
+                }
+                const message = data.choices?.[0]?.message ?? {};
+                const toolCalls: OpenAiToolCall[] = message.tool_calls ?? [];
+
+                const functionCalls: FunctionCall[] = toolCalls.map(call => {
+                    let args: { [key: string]: unknown } = {};
+                    try {
+                        args = typeof call.function.arguments === 'string' ? JSON.parse(call.function.arguments || '{}') : call.function.arguments;
+                    } catch (error) {
+                        console.warn(`Could not parse arguments for ${call.function.name}:`, call.function.arguments);
+                    }
+                    return { id: call.id, name: call.function.name, args };
+                });
+
+                appendParts('model', [
+                    ...(message.content ? [{ text: message.content }] : []),
+                    ...functionCalls.map(functionCall => ({ functionCall })),
+                ]);
+                // completion_tokens includes any reasoning tokens; report them separately like Gemini does.
+                const reasoningTokens = data.usage?.completion_tokens_details?.reasoning_tokens ?? 0;
+                const usage = data.usage ? {
+                    model: data.model ?? resolveModel(options.model),
+                    timestamp: Date.now(),
+                    inputTokens: data.usage.prompt_tokens ?? 0,
+                    outputTokens: (data.usage.completion_tokens ?? 0) - reasoningTokens,
+                    thinkingTokens: reasoningTokens,
+                } : undefined;
+                return { text: message.content ?? '', functionCalls, usage };
+            },
+        };
+    };
+
+    const provider: LlmProvider = { name: 'openai', createChat };
+
+    if (config.ttsModel) {
+        provider.generateSpeech = async (text: string, signal?: AbortSignal) => {
+            // 'pcm' is 24kHz 16-bit mono, the same format the Gemini TTS model returns.
+            const response = await postJson(config, '/audio/speech', {
+                model: config.ttsModel,
+                input: text,
+                voice: 'alloy',
+                response_format: 'pcm',
+            }, signal);
+            const bytes = new Uint8Array(await response.arrayBuffer());
+            let binary = '';
+            for (let i = 0; i < bytes.length; i++) {
+                binary += String.fromCharCode(bytes[i]);
+            }
+            return { audio: btoa(binary) };
+        };
+    }
+
+    if (config.imageModel) {
+        provider.generateImage = async ({ prompt }: ImageGenerationRequest, signal?: AbortSignal) => {
+            const response = await postJson(config, '/images/generations', {
+                model: config.imageModel,
+                prompt,
+                n: 1,
+                response_format: 'b64_json',
+            }, signal);
+            const data = await response.json();
+            return {
+                dataUrl: `data:image/png;base64,${data.data[0].b64_json}`,
+                usage: { model: config.imageModel!, timestamp: Date.now(), inputTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 1 },
+            };
+        };
+    }
+
+    return provider;
+}
@@ -0,0 +1,61 @@
+import { readFileSync } from 'fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type UsageEntry } from '../../types';
+import { INITIAL_INTEGRATIONS } from '../../constants';
+import { getAiResponse } from '../geminiService';
+import { type ChatTurn, type ConversationFixture, createFakeProvider, createRecordingProvider, createReplayProvider, ReplayMismatchError, setProvider } from '.';
+
+// Recorded from "I prefer 9am meetings": the classifier's tier, a rememberFact call and the streamed answer.
+const fixture: ConversationFixture = JSON.parse(readFileSync(new URL('../../fixtures/remember-fact.json', import.meta.url), 'utf-8'));
+
+const ask = (prompt: string, onUsage?: (usage: UsageEntry) => void) =>
+    getAiResponse(prompt, undefined, undefined, [], INITIAL_INTEGRATIONS, [], { onPartialText: () => undefined, onUsage });
+
+describe('replaying a recorded conversation', () => {
+    beforeEach(() => {
+        const items = new Map<string, string>();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => items.get(key) ?? null,
+            setItem: (key: string, value: string) => items.set(key, value),
+            removeItem: (key: string) => items.delete(key),
+        });
+    });
+
+    it('plays the recording back through the tool loop', async () => {
+        const replay = createReplayProvider(fixture, { strict: true });
+        setProvider(replay);
+        const usage: UsageEntry[] = [];
+        const response = await ask('I prefer 9am meetings', entry => usage.push(entry));
+        expect(response.text).toBe("Got it, I'll keep mornings at 9 for your meetings.");
+        expect(response.learnedFacts).toEqual(['Prefers 9am meetings']);
+        expect(response.route).toMatchObject({ model: 'gemini-2.5-flash-lite', source: 'classifier' });
+        expect(usage.map(entry => entry.outputTokens)).toEqual([1, 18, 14]);
+        expect(replay.remaining()).toBe(0);
+    });
+
+    it('records the same fixture again from the same turns', async () => {
+        const turns = fixture.exchanges.map((exchange): ChatTurn => exchange.response as ChatTurn ?? {
+            text: exchange.chunks!.map(chunk => chunk.text).join(''),
+            functionCalls: exchange.chunks!.flatMap(chunk => chunk.functionCalls),
+            usage: exchange.chunks!.find(chunk => chunk.usage)?.usage,
+        });
+        const recording = createRecordingProvider(createFakeProvider({ turns }));
+        setProvider(recording);
+        await ask('I prefer 9am meetings');
+        expect(recording.fixture.exchanges.map(exchange => exchange.request)).toEqual(fixture.exchanges.map(exchange => exchange.request));
+        expect(recording.fixture.exchanges[2].chunks?.at(-1)?.usage).toEqual(fixture.exchanges[2].chunks?.at(-1)?.usage);
+    });
+
+    it('refuses a request the recording does not have', async () => {
+        setProvider(createReplayProvider(fixture, { strict: true }));
+        // The classifier's mismatch falls back to the default tier, whose model then differs from the recording
+        await expect(ask('I prefer 10am meetings')).rejects.toThrow(ReplayMismatchError);
+    });
+
+    it('refuses calls past the end of the recording', async () => {
+        const replay = createReplayProvider(fixture);
+        setProvider(replay);
+        await ask('I prefer 9am meetings');
+        await expect(ask('I prefer 9am meetings')).rejects.toThrow(/Replay exhausted/);
+    });
+});
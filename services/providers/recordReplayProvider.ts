@@ -0,0 +1,250 @@
+import { type Part } from '@google/genai';
+import { type LlmProvider, type ChatOptions, type ChatTurn, type ProviderChat } from './types';
+
+type ProviderCall = 'chat' | 'generateImage' | 'editImage' | 'generateVideo' | 'generateSpeech' | 'groundedAnswer';
+
+const MEDIA_CALLS: Exclude<ProviderCall, 'chat'>[] = ['generateImage', 'editImage', 'generateVideo', 'generateSpeech', 'groundedAnswer'];
+
+// The parts of a failed call needed to rethrow it faithfully, so retries and fallbacks replay too.
+interface RecordedError {
+    message: string;
+    status?: number;
+    code?: number;
+    retryAfter?: string;
+}
+
+export interface FixtureExchange {
+    call: ProviderCall;
+    model?: string; // For chat calls
+    request: unknown; // What was asked, used to check a replay follows the same path
+    response?: unknown; // The ChatTurn or media result
+    chunks?: ChatTurn[]; // For streamed chat calls, every chunk in order
+    error?: RecordedError;
+}
+
+export interface ConversationFixture {
+    version: 1;
+    provider: string; // The recorded provider's name
+    capabilities: Exclude<ProviderCall, 'chat'>[]; // Replay offers the same tools to the model
+    recordedAt: string;
+    exchanges: FixtureExchange[];
+}
+
+// Thrown during replay when the code asks for something other than what was recorded next.
+export class ReplayMismatchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayMismatchError';
+    }
+}
+
+// Media is replaced by its type and size so fixtures stay small and requests remain comparable.
+function summarizeParts(parts: Part[] | undefined): unknown[] {
+    return (parts ?? []).map(part => part.inlineData
+        ? { inlineData: { mimeType: part.inlineData.mimeType, length: part.inlineData.data?.length ?? 0 } }
+        : part);
+}
+
+function summarizeRequest(call: ProviderCall, request: any): unknown {
+    switch (call) {
+        case 'editImage':
+        case 'generateVideo':
+            return { ...request, image: request.image ? summarizeParts([request.image])[0] : undefined };
+        case 'groundedAnswer':
+            return { ...request, parts: summarizeParts(request.parts) };
+        default:
+            return request;
+    }
+}
+
+// The system instruction is left out of chat requests because it embeds the current time.
+function summarizeChatRequest(options: ChatOptions, parts: Part[]): unknown {
+    return {
+        tools: options.tools.map(t => t.name),
+        historyLength: options.history.length,
+        parts: summarizeParts(parts),
+    };
+}
+
+function toRecordedError(error: any): RecordedError {
+    return {
+        message: error?.message ?? String(error),
+        status: error?.status,
+        code: error?.code,
+        retryAfter: error?.retryAfter,
+    };
+}
+
+function mergeChunks(chunks: ChatTurn[]): ChatTurn {
+    return {
+        text: chunks.map(c => c.text).join(''),
+        functionCalls: chunks.flatMap(c => c.functionCalls),
+        usage: [...chunks].reverse().find(c => c.usage)?.usage,
+    };
+}
+
+export interface RecordingProvider extends LlmProvider {
+    // Grows as calls complete; serialize it to save a fixture
+    fixture: ConversationFixture;
+}
+
+/**
+ * Wraps a provider so every call made through it, and its result or error, is captured
+ * in order into a fixture that createReplayProvider can serve offline.
+ */
+export function createRecordingProvider(inner: LlmProvider): RecordingProvider {
+    const fixture: ConversationFixture = {
+        version: 1,
+        provider: inner.name,
+        capabilities: MEDIA_CALLS.filter(call => inner[call]),
+        recordedAt: new Date().toISOString(),
+        exchanges: [],
+    };
+
+    // Exchanges are added when the call starts, so concurrent calls keep their start order.
+    const begin = (exchange: FixtureExchange) => {
+        fixture.exchanges.push(exchange);
+        return exchange;
+    };
+    // Stopped calls are dropped: they say nothing about the backend.
+    const fail = (exchange: FixtureExchange, error: unknown, signal?: AbortSignal) => {
+        if (signal?.aborted) {
+            fixture.exchanges.splice(fixture.exchanges.indexOf(exchange), 1);
+        } else {
+            exchange.error = toRecordedError(error);
+        }
+    };
+
+    const provider: RecordingProvider = {
+        name: inner.name,
+        fixture,
+        createChat(options: ChatOptions): ProviderChat {
+            const chat = inner.createChat(options);
+            const recordingChat: ProviderChat = {
+                async sendMessage(parts, signal) {
+                    const exchange = begin({ call: 'chat', model: options.model, request: summarizeChatRequest(options, parts) });
+                    try {
+                        const turn = await chat.sendMessage(parts, signal);
+                        exchange.response = turn;
+                        return turn;
+                    } catch (error) {
+                        fail(exchange, error, signal);
+                        throw error;
+                    }
+                },
+            };
+            if (chat.sendMessageStream) {
+                recordingChat.sendMessageStream = async function* (parts, signal) {
+                    const exchange = begin({ call: 'chat', model: options.model, request: summarizeChatRequest(options, parts), chunks: [] });
+                    try {
+                        for await (const chunk of chat.sendMessageStream!(parts, signal)) {
+                            exchange.chunks!.push(chunk);
+                            yield chunk;
+                        }
+                    } catch (error) {
+                        fail(exchange, error, signal);
+                        throw error;
+                    }
+                };
+            }
+            return recordingChat;
+        },
+    };
+
+    for (const call of MEDIA_CALLS) {
+        const method = inner[call] as ((request: any, signal?: AbortSignal) => Promise<unknown>) | undefined;
+        if (!method) continue;
+        (provider as any)[call] = async (request: any, signal?: AbortSignal) => {
+            const exchange = begin({ call, request: summarizeRequest(call, request) });
+            try {
+                const result = await method.call(inner, request, signal);
+                exchange.response = result;
+                return result;
+            } catch (error) {
+                fail(exchange, error, signal);
+                throw error;
+            }
+        };
+    }
+
+    return provider;
+}
+
+export interface ReplayOptions {
+    // Also require each request to equal the recorded one, not just the call and model
+    strict?: boolean;
+}
+
+export interface ReplayProvider extends LlmProvider {
+    // Exchanges not yet served; 0 once the conversation has replayed completely
+    remaining(): number;
+}
+
+/**
+ * Serves a recorded fixture without network access. Calls of each kind are served in recorded
+ * order (speech overlaps chat calls, so the order across kinds is not enforced) and must match
+ * the recorded call and model, otherwise a ReplayMismatchError is thrown. Recorded errors are rethrown.
+ */
+export function createReplayProvider(fixture: ConversationFixture, options: ReplayOptions = {}): ReplayProvider {
+    const queues = new Map<ProviderCall, FixtureExchange[]>();
+    for (const exchange of fixture.exchanges) {
+        queues.set(exchange.call, [...(queues.get(exchange.call) ?? []), exchange]);
+    }
+
+    const take = (call: ProviderCall, request: unknown, model?: string): FixtureExchange => {
+        const exchange = queues.get(call)?.shift();
+        if (!exchange) {
+            throw new ReplayMismatchError(`Replay exhausted: no recorded ${call} call left.`);
+        }
+        const position = fixture.exchanges.indexOf(exchange);
+        if (exchange.model !== model) {
+            throw new ReplayMismatchError(`Exchange ${position}: expected ${call} with ${exchange.model}, got ${model}.`);
+        }
+        if (options.strict && JSON.stringify(exchange.request) !== JSON.stringify(request)) {
+            throw new ReplayMismatchError(`Exchange ${position}: ${call} request differs from the recording.\nExpected: ${JSON.stringify(exchange.request)}\nActual: ${JSON.stringify(request)}`);
+        }
+        return exchange;
+    };
+
+    const throwIfFailed = (exchange: FixtureExchange) => {
+        if (exchange.error) {
+            throw Object.assign(new Error(exchange.error.message), exchange.error);
+        }
+    };
+
+    const provider: ReplayProvider = {
+        name: fixture.provider,
+        remaining: () => [...queues.values()].reduce((sum, queue) => sum + queue.length, 0),
+        createChat(chatOptions: ChatOptions): ProviderChat {
+            return {
+                async sendMessage(parts, signal) {
+                    signal?.throwIfAborted();
+                    const exchange = take('chat', summarizeChatRequest(chatOptions, parts), chatOptions.model);
+                    throwIfFailed(exchange);
+                    return exchange.chunks ? mergeChunks(exchange.chunks) : exchange.response as ChatTurn;
+                },
+                // Yields the chunks received before a recorded mid-stream failure, then fails the same way.
+                async *sendMessageStream(parts, signal) {
+                    signal?.throwIfAborted();
+                    const exchange = take('chat', summarizeChatRequest(chatOptions, parts), chatOptions.model);
+                    for (const chunk of exchange.chunks ?? (exchange.response ? [exchange.response as ChatTurn] : [])) {
+                        signal?.throwIfAborted();
+                        yield chunk;
+                    }
+                    throwIfFailed(exchange);
+                },
+            };
+        },
+    };
+
+    for (const call of fixture.capabilities) {
+        (provider as any)[call] = async (request: any, signal?: AbortSignal) => {
+            signal?.throwIfAborted();
+            const exchange = take(call, summarizeRequest(call, request));
+            throwIfFailed(exchange);
+            return exchange.response;
+        };
+    }
+
+    return provider;
+}
@@ -0,0 +1,99 @@
+import { type Content, type FunctionCall, type FunctionDeclaration, type Part } from '@google/genai';
+import { type GroundingSource, type UsageEntry } from '../../types';
+
+// The provider layer speaks in the Gemini SDK's Content/Part/FunctionDeclaration shapes,
+// since those are what the tool declarations in mockDataService.ts are written in.
+// Adapters for other backends translate to and from these types.
+
+export type ImageAspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export interface ChatOptions {
+    model: string;
+    systemInstruction: string;
+    tools: FunctionDeclaration[];
+    history: Content[];
+    thinkingBudget?: number;
+}
+
+// A single model turn: either text, tool calls, or both.
+export interface ChatTurn {
+    text: string;
+    functionCalls: FunctionCall[];
+    usage?: UsageEntry; // When streaming, the latest chunk's usage covers the whole turn
+}
+
+// A stateful conversation with a provider, mirroring the SDK's Chat object.
+export interface ProviderChat {
+    sendMessage(parts: Part[], signal?: AbortSignal): Promise<ChatTurn>;
+    /** Optional. Yields the turn in pieces as it is generated: text deltas and any function calls. */
+    sendMessageStream?(parts: Part[], signal?: AbortSignal): AsyncIterable<ChatTurn>;
+}
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    aspectRatio: ImageAspectRatio;
+}
+
+export interface ImageEditRequest {
+    image: Part; // inlineData part of the image to edit
+    prompt: string;
+}
+
+export interface VideoGenerationRequest {
+    prompt: string;
+    aspectRatio: VideoAspectRatio;
+    image?: Part; // Optional inlineData part of an image to animate
+}
+
+export interface GroundingRequest {
+    parts: Part[];
+    useMaps: boolean;
+    location?: { latitude: number; longitude: number };
+}
+
+export interface GroundedAnswer {
+    text: string;
+    sources: GroundingSource[];
+    usage?: UsageEntry;
+}
+
+export interface GeneratedMedia {
+    dataUrl: string;
+    usage?: UsageEntry;
+}
+
+export interface StartedVideo {
+    operationName: string;
+    usage?: UsageEntry;
+}
+
+export interface GeneratedSpeech {
+    audio: string; // Raw 24kHz PCM, base64 encoded
+    usage?: UsageEntry;
+}
+
+/**
+ * A backend the assistant can run against. Chat with tools is mandatory; every
+ * other capability is optional and callers must check for it before use.
+ * Every request accepts an AbortSignal and should reject promptly once it fires,
+ * and reports the usage it incurred when the backend provides it.
+ */
+export interface LlmProvider {
+    readonly name: string;
+    createChat(options: ChatOptions): ProviderChat;
+    generateImage?(request: ImageGenerationRequest, signal?: AbortSignal): Promise<GeneratedMedia>;
+    editImage?(request: ImageEditRequest, signal?: AbortSignal): Promise<GeneratedMedia>;
+    /** Starts a long-running video generation and returns its operation name. */
+    generateVideo?(request: VideoGenerationRequest, signal?: AbortSignal): Promise<StartedVideo>;
+    generateSpeech?(text: string, signal?: AbortSignal): Promise<GeneratedSpeech>;
+    groundedAnswer?(request: GroundingRequest, signal?: AbortSignal): Promise<GroundedAnswer>;
+}
+
+// Thrown by generative capabilities that need a billed project selected first.
+export class BillingProjectRequiredError extends Error {
+    constructor(message = 'A billing project must be selected for this feature.') {
+        super(message);
+        this.name = 'BillingProjectRequiredError';
+    }
+}
@@ -0,0 +1,151 @@
+// Retries, circuit breaking and model fallback for calls to the AI backend.
+
+// Longest server-requested wait we sit out before retrying; anything longer fails over instead.
+const MAX_RETRY_AFTER_MS = 20000;
+// Consecutive failed requests (after retries) that open a model's circuit
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+// How long an open circuit skips its model, unless the server asked for longer
+const CIRCUIT_COOLDOWN_MS = 60000;
+
+// Thrown when every model in a chain is skipped or failing.
+export class ModelsUnavailableError extends Error {
+    // When the first skipped model may be tried again
+    readonly retryAt?: number;
+
+    constructor(message = "Every model is currently unavailable.", retryAt?: number) {
+        super(message);
+        this.name = 'ModelsUnavailableError';
+        this.retryAt = retryAt;
+    }
+}
+
+// Waits for the given time, rejecting early if the signal is aborted.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Races a promise against the signal, for work (like the mock tools) that can't be cancelled itself.
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+// 503 (Overloaded) and 429 (Too Many Requests) are worth retrying; anything else is a real failure.
+export function isTransientError(error: any): boolean {
+    return error?.status === 503 || error?.code === 503 || error?.status === 429 || error?.code === 429
+        || !!error?.message?.includes('overloaded');
+}
+
+/**
+ * Reads how long the server asked us to wait, from a Retry-After header (seconds or
+ * HTTP date) attached as `retryAfter`, or the RetryInfo detail in a Gemini error body.
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+    const header = error?.retryAfter;
+    if (header !== undefined && header !== null) {
+        const seconds = Number(header);
+        if (!isNaN(seconds)) return seconds * 1000;
+        const date = Date.parse(header);
+        if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+    const retryDelay = String(error?.message ?? '').match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined;
+}
+
+// Retries transient errors with exponential backoff, waiting at least as long as the server asks.
+// Gives up straight away on long waits, other errors, or once the signal is aborted.
+export async function retryWithBackoff<T>(operation: () => Promise<T>, signal?: AbortSignal, retries = 3, initialDelay = 1000): Promise<T> {
+    let attempt = 0;
+    while (true) {
+        signal?.throwIfAborted();
+        try {
+            return await operation();
+        } catch (error: any) {
+            attempt++;
+            const retryAfter = getRetryAfterMs(error);
+            if (signal?.aborted || attempt > retries || !isTransientError(error) || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) {
+                throw error;
+            }
+            const delay = Math.max(initialDelay * Math.pow(2, attempt - 1), retryAfter ?? 0);
+            console.warn(`Service busy (Status ${error.status ?? error.code}). Retrying in ${delay}ms... (Attempt ${attempt})`);
+            await sleep(delay, signal);
+        }
+    }
+}
+
+// --- Circuit breaker, one per model ---
+
+interface Circuit {
+    failures: number;
+    openUntil: number;
+}
+
+const circuits = new Map<string, Circuit>();
+
+// An open circuit lets a single trial request through once its cooldown has passed.
+function isCircuitOpen(model: string): boolean {
+    const circuit = circuits.get(model);
+    return !!circuit && circuit.failures >= CIRCUIT_FAILURE_THRESHOLD && Date.now() < circuit.openUntil;
+}
+
+function recordSuccess(model: string) {
+    circuits.delete(model);
+}
+
+function recordFailure(model: string, retryAfterMs?: number) {
+    const circuit = circuits.get(model) ?? { failures: 0, openUntil: 0 };
+    circuit.failures += 1;
+    if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+        circuit.openUntil = Date.now() + Math.max(CIRCUIT_COOLDOWN_MS, retryAfterMs ?? 0);
+        console.warn(`Circuit opened for ${model} until ${new Date(circuit.openUntil).toLocaleTimeString()}.`);
+    }
+    circuits.set(model, circuit);
+}
+
+/**
+ * Runs the operation on each model of the chain in turn, with retries, until one succeeds.
+ * Models with an open circuit are skipped, and only transient errors move on to the next
+ * model; anything else is thrown as is. Resolves with the result and the model that produced it.
+ */
+export async function runWithFallback<T>(
+    chain: string[],
+    operation: (model: string) => Promise<T>,
+    signal?: AbortSignal
+): Promise<{ result: T, model: string }> {
+    let lastError: unknown;
+    for (const model of chain) {
+        if (isCircuitOpen(model)) {
+            console.warn(`Skipping ${model}: circuit open.`);
+            continue;
+        }
+        try {
+            const result = await retryWithBackoff(() => operation(model), signal);
+            recordSuccess(model);
+            return { result, model };
+        } catch (error) {
+            if (signal?.aborted || !isTransientError(error)) throw error;
+            recordFailure(model, getRetryAfterMs(error));
+            lastError = error;
+            console.warn(`${model} unavailable, falling back.`, error);
+        }
+    }
+    if (lastError) throw lastError;
+    const retryAt = Math.min(...chain.map(model => circuits.get(model)?.openUntil ?? Infinity));
+    throw new ModelsUnavailableError(undefined, isFinite(retryAt) ? retryAt : undefined);
+}
@@ -0,0 +1,108 @@
+import { type RouteDecision, type RouteTier, type RoutingConfig, type RoutingRule } from '../types';
+
+const ROUTING_CONFIG_KEY = 'jarvis-routing-config';
+
+// Models offered in the routing settings and the per-chat override.
+export const ROUTABLE_MODELS = ['gemini-2.5-flash-lite', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+export const ROUTE_TIERS: RouteTier[] = ['simple', 'standard', 'complex'];
+
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+    rules: [
+        { id: 'media', name: 'Audio & video', mediaTypes: ['video', 'audio'], tier: 'complex' },
+    ],
+    useClassifier: true,
+    classifierModel: 'gemini-2.5-flash-lite',
+    defaultTier: 'standard',
+    fallbackChain: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+    tiers: {
+        simple: { model: 'gemini-2.5-flash-lite' },
+        standard: { model: 'gemini-2.5-flash' },
+        complex: { model: 'gemini-2.5-pro', thinkingBudget: 32768 },
+    },
+};
+
+export function loadRoutingConfig(): RoutingConfig {
+    try {
+        const saved = localStorage.getItem(ROUTING_CONFIG_KEY);
+        return saved ? { ...DEFAULT_ROUTING_CONFIG, ...JSON.parse(saved) } : DEFAULT_ROUTING_CONFIG;
+    } catch (error) {
+        console.error('Failed to load routing config:', error);
+        return DEFAULT_ROUTING_CONFIG;
+    }
+}
+
+export function saveRoutingConfig(config: RoutingConfig): void {
+    try {
+        localStorage.setItem(ROUTING_CONFIG_KEY, JSON.stringify(config));
+    } catch (error) {
+        console.error('Failed to save routing config:', error);
+    }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function matchesRule(rule: RoutingRule, prompt: string, mediaType?: 'image' | 'video' | 'audio'): boolean {
+    if (rule.mediaTypes?.length && !(mediaType && rule.mediaTypes.includes(mediaType))) {
+        return false;
+    }
+    const keywords = rule.keywords?.map(k => k.trim()).filter(Boolean) ?? [];
+    // Whole-word matching, so "plan" matches "plan my week" but not "planet"
+    if (keywords.length > 0 && !keywords.some(k => new RegExp(`\\b${escapeRegExp(k)}\\b`, 'i').test(prompt))) {
+        return false;
+    }
+    if (rule.maxWords !== undefined && prompt.trim().split(/\s+/).filter(Boolean).length > rule.maxWords) {
+        return false;
+    }
+    return true;
+}
+
+export function findMatchingRule(config: RoutingConfig, prompt: string, mediaType?: 'image' | 'video' | 'audio'): RoutingRule | undefined {
+    return config.rules.find(rule => matchesRule(rule, prompt, mediaType));
+}
+
+export function decideRoute(config: RoutingConfig, tier: RouteTier, source: RouteDecision['source'], detail?: string): RouteDecision {
+    return { ...config.tiers[tier], source, detail };
+}
+
+// The models to try, in order, for a request routed to `model`: itself, then everything after it in the chain.
+export function getFallbackChain(config: RoutingConfig, model: string): string[] {
+    const chain = config.fallbackChain.map(m => m.trim()).filter(Boolean);
+    const index = chain.indexOf(model);
+    return index === -1 ? [model] : chain.slice(index);
+}
+
+export const CLASSIFIER_INSTRUCTIONS = `You route requests for a personal assistant to a model. Classify the user's message by how much reasoning a good answer needs:
+- simple: greetings, small talk, quick facts, simple commands
+- standard: everyday questions, summaries, explanations, short writing
+- complex: multi-step reasoning, coding, detailed analysis or planning, long documents
+Reply with exactly one word: simple, standard or complex.`;
+
+// Reads the tier from the classifier's reply, tolerating punctuation or extra words.
+export function parseClassifierReply(reply: string): RouteTier | null {
+    const match = reply.toLowerCase().match(/\b(simple|standard|complex)\b/);
+    return match ? match[1] as RouteTier : null;
+}
+
+// A short label for where a message's model came from, e.g. "rule: Audio & video".
+export function describeRoute(route: RouteDecision): string {
+    switch (route.source) {
+        case 'override': return 'chat override';
+        case 'rule': return `rule: ${route.detail}`;
+        case 'classifier': return `classified ${route.detail}`;
+        default: return 'default';
+    }
+}
+
+// Thinking budgets offered in the UI. Pro models always think, so 'Off' does not apply to them.
+export const THINKING_BUDGET_OPTIONS: { label: string, value: number | undefined }[] = [
+    { label: 'Default', value: undefined },
+    { label: 'Off', value: 0 },
+    { label: 'Low', value: 1024 },
+    { label: 'Medium', value: 8192 },
+    { label: 'High', value: 32768 },
+];
+
+export function getThinkingOptions(model: string) {
+    return model.includes('pro') ? THINKING_BUDGET_OPTIONS.filter(o => o.value !== 0) : THINKING_BUDGET_OPTIONS;
+}
@@ -0,0 +1,104 @@
+import { type DeviceCommand, type ServiceCall, type SmartHomeDevice } from './types';
+
+// Devices that guard the home or run up bills when set wrong: every change needs the user's approval.
+export const SENSITIVE_DOMAINS = ['lock', 'climate', 'cover', 'alarm_control_panel'];
+
+// Entities worth showing the assistant; the hub also has automations, zones, people and so on.
+export const DEVICE_DOMAINS = ['light', 'switch', 'fan', 'input_boolean', 'media_player', 'climate', 'lock', 'cover', 'sensor', 'binary_sensor', 'scene'];
+
+const TOGGLE_DOMAINS = ['switch', 'fan', 'input_boolean', 'media_player'];
+
+// How each kind of device can be set, for the model when a command doesn't fit.
+const CONTROLS: { [domain: string]: string } = {
+    ...Object.fromEntries(TOGGLE_DOMAINS.map(domain => [domain, 'Set state "on" or "off".'])),
+    light: 'Set state "on" or "off", or a brightness from 0 to 100.',
+    lock: 'Set state "locked" or "unlocked".',
+    cover: 'Set state "open" or "closed", or a position from 0 (closed) to 100 (open).',
+    climate: 'Set a temperature, an hvacMode, or state "off".',
+    scene: "Activate it with 'activateScene'.",
+};
+
+export const getDomain = (id: string) => id.split('.')[0];
+
+export const isSensitiveDevice = (id: string) => SENSITIVE_DOMAINS.includes(getDomain(id));
+
+function checkPercent(name: string, value: number | undefined): void {
+    if (value !== undefined && !(value >= 0 && value <= 100)) throw new Error(`${name} must be from 0 to 100.`);
+}
+
+/**
+ * Turns a command into the service call that carries it out, or throws when the device can't do it.
+ */
+export function toServiceCall(device: SmartHomeDevice, command: DeviceCommand): ServiceCall {
+    const { domain } = device;
+    const target = { entity_id: device.id };
+    checkPercent('brightness', command.brightness);
+    checkPercent('position', command.position);
+    switch (domain) {
+        case 'light':
+            if (command.state === 'off') return { domain, service: 'turn_off', data: target };
+            if (command.state === 'on' || command.brightness !== undefined) {
+                return { domain, service: 'turn_on', data: command.brightness !== undefined ? { ...target, brightness_pct: command.brightness } : target };
+            }
+            break;
+        case 'lock':
+            if (command.state === 'locked') return { domain, service: 'lock', data: target };
+            if (command.state === 'unlocked') return { domain, service: 'unlock', data: target };
+            break;
+        case 'cover':
+            if (command.position !== undefined) return { domain, service: 'set_cover_position', data: { ...target, position: command.position } };
+            if (command.state === 'open') return { domain, service: 'open_cover', data: target };
+            if (command.state === 'closed') return { domain, service: 'close_cover', data: target };
+            break;
+        case 'climate': {
+            const hvacMode = command.hvacMode ?? (command.state === 'off' ? 'off' : undefined);
+            if (hvacMode && device.hvacModes && !device.hvacModes.includes(hvacMode)) {
+                throw new Error(`${device.name} has no "${hvacMode}" mode; it has ${device.hvacModes.join(', ')}.`);
+            }
+            if (command.temperature !== undefined) {
+                return { domain, service: 'set_temperature', data: { ...target, temperature: command.temperature, ...(hvacMode && { hvac_mode: hvacMode }) } };
+            }
+            if (hvacMode) return { domain, service: 'set_hvac_mode', data: { ...target, hvac_mode: hvacMode } };
+            break;
+        }
+        default:
+            if (TOGGLE_DOMAINS.includes(domain) && (command.state === 'on' || command.state === 'off')) {
+                return { domain, service: `turn_${command.state}`, data: target };
+            }
+    }
+    throw new Error(`${device.name} can't be set that way. ${CONTROLS[domain] ?? "It can only be read."}`);
+}
+
+// The command that puts a device back the way it was, for Undo.
+export function getRestoreCommand(device: SmartHomeDevice): DeviceCommand {
+    switch (device.domain) {
+        case 'light':
+            return device.state === 'on' && device.brightness !== undefined ? { brightness: device.brightness } : { state: device.state };
+        case 'climate':
+            return { hvacMode: device.state, temperature: device.temperature };
+        case 'cover':
+            return device.position !== undefined ? { position: device.position } : { state: device.state };
+        default:
+            return { state: device.state };
+    }
+}
+
+// "on, 80%", "heat, set to 70 (now 68)", "54 °F"
+export function describeState(device: SmartHomeDevice): string {
+    const details: string[] = [];
+    if (device.domain === 'light' && device.state === 'on' && device.brightness !== undefined) details.push(`${device.brightness}%`);
+    if (device.temperature !== undefined) details.push(`set to ${device.temperature}${device.currentTemperature !== undefined ? ` (now ${device.currentTemperature})` : ''}`);
+    // Fully open or closed is already the state
+    if (device.domain === 'cover' && device.position !== undefined && device.position > 0 && device.position < 100) details.push(`${device.position}% open`);
+    return [device.unit ? `${device.state} ${device.unit}` : device.state, ...details].join(', ');
+}
+
+export function describeCommand(command: DeviceCommand): string {
+    const parts: string[] = [];
+    if (command.state) parts.push(command.state);
+    if (command.hvacMode) parts.push(command.hvacMode);
+    if (command.brightness !== undefined) parts.push(`${command.brightness}% brightness`);
+    if (command.temperature !== undefined) parts.push(`${command.temperature}°`);
+    if (command.position !== undefined) parts.push(`${command.position}% open`);
+    return parts.join(', ');
+}
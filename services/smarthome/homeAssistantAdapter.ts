@@ -0,0 +1,79 @@
+import { type SmartHomeAdapter, type SmartHomeDevice } from './types';
+import { DEVICE_DOMAINS, getDomain } from './commands';
+
+// Served by the dev and preview servers (see server/homeAssistantProxy.ts), which hold the access token.
+export const DEFAULT_HOME_ASSISTANT_ENDPOINT = '/api/homeassistant';
+
+// An entity's state as Home Assistant's REST API returns it.
+interface HaState {
+    entity_id: string;
+    state: string;
+    attributes: { [name: string]: any };
+    last_changed: string;
+}
+
+const toNumber = (value: unknown) => typeof value === 'number' ? value : undefined;
+
+export function fromHaState({ entity_id, state, attributes, last_changed }: HaState): SmartHomeDevice {
+    const domain = getDomain(entity_id);
+    const device: SmartHomeDevice = {
+        id: entity_id,
+        name: attributes.friendly_name ?? entity_id,
+        domain,
+        state,
+        unit: attributes.unit_of_measurement,
+        temperature: toNumber(attributes.temperature),
+        currentTemperature: toNumber(attributes.current_temperature),
+        hvacModes: attributes.hvac_modes,
+        position: toNumber(attributes.current_position),
+        lastChanged: last_changed,
+    };
+    // Home Assistant keeps brightness from 0 to 255
+    if (domain === 'light' && typeof attributes.brightness === 'number') device.brightness = Math.round(attributes.brightness / 255 * 100);
+    if (domain === 'scene' && Array.isArray(attributes.entity_id)) device.entities = attributes.entity_id;
+    // Drops the fields this kind of device doesn't have
+    return Object.fromEntries(Object.entries(device).filter(([, value]) => value !== undefined)) as SmartHomeDevice;
+}
+
+async function checkResponse(response: Response, action: string): Promise<void> {
+    if (response.ok) return;
+    const reply = await response.json().catch(() => ({}));
+    throw new Error(reply.error || reply.message || `${action} failed: Home Assistant answered ${response.status}.`);
+}
+
+/**
+ * Reads and controls devices through Home Assistant's REST API, via the app server's proxy.
+ * Every entity in a device domain (lights, switches, climate, locks, covers, sensors, scenes...) is a device.
+ */
+export function createHomeAssistantAdapter(endpoint = DEFAULT_HOME_ASSISTANT_ENDPOINT): SmartHomeAdapter {
+    return {
+        name: 'home-assistant',
+        async getDevices() {
+            const response = await fetch(`${endpoint}/states`);
+            await checkResponse(response, 'Reading the devices');
+            const states: HaState[] = await response.json();
+            return states.filter(state => DEVICE_DOMAINS.includes(getDomain(state.entity_id))).map(fromHaState);
+        },
+        async getDevice(id) {
+            const response = await fetch(`${endpoint}/states/${encodeURIComponent(id)}`);
+            if (response.status === 404) return null;
+            await checkResponse(response, 'Reading the device');
+            return fromHaState(await response.json());
+        },
+        async callService({ domain, service, data }) {
+            const response = await fetch(`${endpoint}/services/${encodeURIComponent(domain)}/${encodeURIComponent(service)}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(data),
+            });
+            await checkResponse(response, `${domain}.${service}`);
+        },
+        async getHistory(id, range) {
+            const query = new URLSearchParams({ filter_entity_id: id, end_time: new Date(range.end).toISOString() });
+            const response = await fetch(`${endpoint}/history/period/${encodeURIComponent(new Date(range.start).toISOString())}?${query}&minimal_response&no_attributes`);
+            await checkResponse(response, 'Reading the history');
+            const [entries = []]: { state: string, last_changed: string }[][] = await response.json();
+            return entries.map(entry => ({ time: entry.last_changed, state: entry.state }));
+        },
+    };
+}
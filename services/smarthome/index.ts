@@ -0,0 +1,98 @@
+import { type DeviceCommand, type DeviceHistoryEntry, type SmartHomeAdapter, type SmartHomeDevice, type SmartHomeRange } from './types';
+import { toServiceCall, describeState, isSensitiveDevice } from './commands';
+import { createSampleSmartHomeAdapter } from './sampleSmartHome';
+import { createHomeAssistantAdapter } from './homeAssistantAdapter';
+import { createMqttAdapter, withMqttDevices } from './mqttAdapter';
+
+export * from './types';
+export { toServiceCall, getRestoreCommand, describeState, describeCommand, isSensitiveDevice, getDomain, SENSITIVE_DOMAINS, DEVICE_DOMAINS } from './commands';
+export { createHomeAssistantAdapter, DEFAULT_HOME_ASSISTANT_ENDPOINT } from './homeAssistantAdapter';
+export { createMqttAdapter, withMqttDevices, DEFAULT_MQTT_ENDPOINT } from './mqttAdapter';
+export { loadMqttDevices, saveMqttDevices, validateMqttDevice, parsePayloads, formatPayloads, MQTT_DOMAINS } from './mqttDevices';
+
+let activeAdapter: SmartHomeAdapter | null = null;
+// The devices as last read, for the Life State Graph, which can't wait for the hub
+let knownDevices: SmartHomeDevice[] | null = null;
+
+/**
+ * Returns where devices live: Home Assistant when the app server has one configured
+ * (HOME_ASSISTANT_URL and HOME_ASSISTANT_TOKEN), plus the MQTT devices when it has a broker (MQTT_URL).
+ * With neither, the sample home.
+ */
+export function getSmartHomeAdapter(): SmartHomeAdapter {
+    if (!activeAdapter) {
+        const hub = process.env.HOME_ASSISTANT_SYNC === 'true' ? createHomeAssistantAdapter() : null;
+        const mqtt = process.env.MQTT_SYNC === 'true' ? createMqttAdapter() : null;
+        activeAdapter = hub && mqtt ? withMqttDevices(hub, mqtt) : hub ?? mqtt ?? createSampleSmartHomeAdapter();
+    }
+    return activeAdapter;
+}
+
+/**
+ * Replaces the smart home adapter, e.g. with a stub hub in tests.
+ */
+export function setSmartHomeAdapter(adapter: SmartHomeAdapter): void {
+    activeAdapter = adapter;
+    knownDevices = null;
+}
+
+export async function getSmartHomeDevices(): Promise<SmartHomeDevice[]> {
+    knownDevices = await getSmartHomeAdapter().getDevices();
+    return knownDevices;
+}
+
+export function getKnownDevices(): SmartHomeDevice[] | null {
+    return knownDevices;
+}
+
+function remember(device: SmartHomeDevice): void {
+    knownDevices = knownDevices?.map(known => known.id === device.id ? device : known) ?? null;
+}
+
+async function requireDevice(id: string): Promise<SmartHomeDevice> {
+    const device = await getSmartHomeAdapter().getDevice(id);
+    if (!device) throw new Error(`There is no device with the id "${id}". Use getSmartHomeStatus to find it.`);
+    return device;
+}
+
+/**
+ * Sends a command to a device. Returns the device before and after, so the change can be undone.
+ */
+export async function setDeviceState(id: string, command: DeviceCommand): Promise<{ previous: SmartHomeDevice, device: SmartHomeDevice }> {
+    const adapter = getSmartHomeAdapter();
+    const previous = await requireDevice(id);
+    await adapter.callService(toServiceCall(previous, command));
+    const device = await requireDevice(id);
+    remember(device);
+    return { previous, device };
+}
+
+export async function activateScene(id: string): Promise<SmartHomeDevice> {
+    const scene = await requireDevice(id);
+    if (scene.domain !== 'scene') throw new Error(`${scene.name} is not a scene; use setDeviceState to change it.`);
+    await getSmartHomeAdapter().callService({ domain: 'scene', service: 'turn_on', data: { entity_id: id } });
+    // A scene changes other devices, so read them all again
+    await getSmartHomeDevices().catch(error => console.error('Failed to refresh the devices:', error));
+    return scene;
+}
+
+export async function getDeviceHistory(id: string, range: SmartHomeRange): Promise<{ device: SmartHomeDevice, history: DeviceHistoryEntry[] }> {
+    const device = await requireDevice(id);
+    return { device, history: await getSmartHomeAdapter().getHistory(id, range) };
+}
+
+/**
+ * Whether activating a scene may change locks, thermostats or covers. Scenes that haven't been
+ * read yet, or don't say what they set, are assumed to.
+ */
+export function isSensitiveScene(id: string): boolean {
+    const scene = knownDevices?.find(device => device.id === id);
+    return !scene?.entities || scene.entities.some(isSensitiveDevice);
+}
+
+// One line per device for the Life State Graph, e.g. "Office light (light.office): on, 80%".
+export function describeKnownDevices(): string[] | null {
+    return knownDevices
+        ?.filter(device => device.domain !== 'scene')
+        .map(device => `${device.name} (${device.id}): ${describeState(device)}`) ?? null;
+}
@@ -0,0 +1,144 @@
+import { type MqttDeviceMapping, type SmartHomeAdapter, type SmartHomeDevice } from './types';
+import { loadMqttDevices, readMqttDevice, toMqttCommand, assumeServiceCall } from './mqttDevices';
+
+// Served by the dev and preview servers (see server/mqttBridge.ts), which hold the broker connection.
+export const DEFAULT_MQTT_ENDPOINT = '/api/mqtt';
+
+// How long a command waits for the device to report its new state
+const CONFIRM_TIMEOUT_MS = 2000;
+const CONFIRM_POLL_MS = 250;
+// Retained states follow the broker's answer to a new subscription, so they get a moment to arrive
+const RETAINED_WAIT_MS = 300;
+
+interface TopicMessage {
+    payload: string;
+    time: string;
+}
+
+interface BridgeStatus {
+    connected: boolean;
+    topics: string[];
+    error?: string;
+    messages: { [topic: string]: TopicMessage };
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function checkResponse(response: Response, action: string): Promise<void> {
+    if (response.ok) return;
+    const reply = await response.json().catch(() => ({}));
+    throw new Error(reply.error || `${action} failed: the MQTT bridge answered ${response.status}.`);
+}
+
+/**
+ * Reads and controls the MQTT devices set up in Manage Connections, through the app server's bridge.
+ * State comes from the last message on each device's state topic; commands are published to its
+ * command topic.
+ */
+export function createMqttAdapter(endpoint = DEFAULT_MQTT_ENDPOINT, getMappings: () => MqttDeviceMapping[] = loadMqttDevices): SmartHomeAdapter {
+    // What commands should have done to devices that haven't reported back, with the message they replace
+    const assumed = new Map<string, { device: SmartHomeDevice, replaces?: string }>();
+
+    async function post(path: string, body: object, action: string): Promise<void> {
+        const response = await fetch(`${endpoint}/${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        await checkResponse(response, action);
+    }
+
+    async function readStatus(): Promise<BridgeStatus> {
+        const response = await fetch(`${endpoint}/messages`);
+        await checkResponse(response, 'Reading the MQTT devices');
+        return response.json();
+    }
+
+    // The last message per state topic, subscribing first if the bridge isn't listening to all of them:
+    // devices change in Manage Connections, and the bridge forgets its topics when the server restarts.
+    async function readMessages(): Promise<{ [topic: string]: TopicMessage }> {
+        const topics = [...new Set(getMappings().map(mapping => mapping.stateTopic))];
+        const status = await readStatus();
+        if (topics.length === status.topics.length && topics.every(topic => status.topics.includes(topic))) return status.messages;
+        await post('subscribe', { topics }, 'Subscribing to the MQTT topics');
+        await delay(RETAINED_WAIT_MS);
+        return (await readStatus()).messages;
+    }
+
+    function toDevice(mapping: MqttDeviceMapping, messages: { [topic: string]: TopicMessage }): SmartHomeDevice {
+        const message = messages[mapping.stateTopic];
+        const pending = assumed.get(mapping.id);
+        if (pending && pending.replaces === message?.time) return pending.device;
+        assumed.delete(mapping.id);
+        return readMqttDevice(mapping, message);
+    }
+
+    function requireMapping(id: string): MqttDeviceMapping {
+        const mapping = getMappings().find(mapping => mapping.id === id);
+        if (!mapping) throw new Error(`There is no MQTT device with the id "${id}".`);
+        return mapping;
+    }
+
+    return {
+        name: 'mqtt',
+        async getDevices() {
+            const mappings = getMappings();
+            if (mappings.length === 0) return [];
+            const messages = await readMessages();
+            return mappings.map(mapping => toDevice(mapping, messages));
+        },
+        async getDevice(id) {
+            const mapping = getMappings().find(mapping => mapping.id === id);
+            return mapping ? toDevice(mapping, await readMessages()) : null;
+        },
+        async callService(call) {
+            const mapping = requireMapping(call.data.entity_id);
+            const { topic, payload } = toMqttCommand(mapping, call);
+            const before = (await readMessages())[mapping.stateTopic];
+            await post('publish', { topic, payload }, `${call.domain}.${call.service}`);
+            // Waits for the device to report back; one that doesn't is taken to have done as told
+            for (let waited = 0; waited < CONFIRM_TIMEOUT_MS; waited += CONFIRM_POLL_MS) {
+                await delay(CONFIRM_POLL_MS);
+                const after = (await readMessages())[mapping.stateTopic];
+                if (after && after.time !== before?.time) return;
+            }
+            assumed.set(mapping.id, { device: assumeServiceCall(readMqttDevice(mapping, before), call), replaces: before?.time });
+        },
+        async getHistory(id, range) {
+            const mapping = requireMapping(id);
+            const response = await fetch(`${endpoint}/history?${new URLSearchParams({ topic: mapping.stateTopic })}`);
+            await checkResponse(response, 'Reading the history');
+            const { messages }: { messages: TopicMessage[] } = await response.json();
+            const start = new Date(range.start).toISOString();
+            const end = new Date(range.end).toISOString();
+            // The bridge only has what came in since it subscribed
+            const atStart = messages.filter(message => message.time < start).pop();
+            return [...(atStart ? [atStart] : []), ...messages.filter(message => message.time >= start && message.time <= end)]
+                .map(message => ({ time: message.time, state: readMqttDevice(mapping, message).state }));
+        },
+    };
+}
+
+/**
+ * Puts the MQTT devices next to a hub's: each call goes to whichever has the device. A broken MQTT
+ * bridge leaves the hub's devices readable.
+ */
+export function withMqttDevices(hub: SmartHomeAdapter, mqtt: SmartHomeAdapter, getMappings: () => MqttDeviceMapping[] = loadMqttDevices): SmartHomeAdapter {
+    const pick = (id: string) => getMappings().some(mapping => mapping.id === id) ? mqtt : hub;
+    return {
+        name: `${hub.name}+${mqtt.name}`,
+        async getDevices() {
+            const [hubDevices, mqttDevices] = await Promise.all([
+                hub.getDevices(),
+                mqtt.getDevices().catch(error => {
+                    console.error('Failed to read the MQTT devices:', error);
+                    return [];
+                }),
+            ]);
+            return [...hubDevices, ...mqttDevices];
+        },
+        getDevice: id => pick(id).getDevice(id),
+        callService: call => pick(call.data.entity_id).callService(call),
+        getHistory: (id, range) => pick(id).getHistory(id, range),
+    };
+}
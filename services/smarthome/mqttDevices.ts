@@ -0,0 +1,131 @@
+import { type MqttDeviceMapping, type ServiceCall, type SmartHomeDevice } from './types';
+import { getDomain } from './commands';
+
+const MQTT_DEVICES_KEY = 'jarvis-mqtt-devices';
+
+// The kinds of device one state topic can describe; thermostats need several and are left to Home Assistant.
+export const MQTT_DOMAINS = ['light', 'switch', 'fan', 'lock', 'cover', 'sensor', 'binary_sensor'];
+
+const READ_ONLY_DOMAINS = ['sensor', 'binary_sensor'];
+
+// The state each service sets, in the device's terms
+const SERVICE_STATES: { [service: string]: string } = {
+    turn_on: 'on',
+    turn_off: 'off',
+    lock: 'locked',
+    unlock: 'unlocked',
+    open_cover: 'open',
+    close_cover: 'closed',
+};
+
+export function loadMqttDevices(): MqttDeviceMapping[] {
+    try {
+        const saved = localStorage.getItem(MQTT_DEVICES_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error('Failed to load MQTT devices:', error);
+        return [];
+    }
+}
+
+export function saveMqttDevices(devices: MqttDeviceMapping[]): void {
+    try {
+        localStorage.setItem(MQTT_DEVICES_KEY, JSON.stringify(devices));
+    } catch (error) {
+        console.error('Failed to save MQTT devices:', error);
+    }
+}
+
+/**
+ * Checks a device before it is saved, against the other devices. Returns what is wrong, or null.
+ */
+export function validateMqttDevice(device: MqttDeviceMapping, others: MqttDeviceMapping[]): string | null {
+    const domain = getDomain(device.id);
+    if (!device.name.trim()) return 'Give the device a name.';
+    if (!/^[a-z_]+\.[a-z0-9_]+$/.test(device.id) || !MQTT_DOMAINS.includes(domain)) {
+        return `The id is a kind and a name, e.g. "light.garage", where the kind is one of ${MQTT_DOMAINS.join(', ')}.`;
+    }
+    if (others.some(other => other.id === device.id)) return `There is already a device with the id "${device.id}".`;
+    if (!device.stateTopic || /[+#]/.test(device.stateTopic)) return 'The state topic is required and must not have wildcards.';
+    if (device.commandTopic && /[+#]/.test(device.commandTopic)) return 'The command topic must not have wildcards.';
+    if (device.commandTopic && READ_ONLY_DOMAINS.includes(domain)) return 'Sensors only report; leave the command topic empty.';
+    return null;
+}
+
+// "on=1, off=0" → { on: "1", off: "0" }
+export function parsePayloads(text: string): { [state: string]: string } | undefined {
+    const entries = text.split(',')
+        .map(part => part.split('=').map(side => side.trim()))
+        .filter(([state, payload]) => state && payload !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries.map(([state, payload]) => [state.toLowerCase(), payload])) : undefined;
+}
+
+export function formatPayloads(payloads: { [state: string]: string } | undefined): string {
+    return Object.entries(payloads ?? {}).map(([state, payload]) => `${state}=${payload}`).join(', ');
+}
+
+const payloadFor = (mapping: MqttDeviceMapping, state: string) => mapping.payloads?.[state] ?? state.toUpperCase();
+
+// The state a payload stands for: a configured payload's state, or else the payload itself.
+function readState(mapping: MqttDeviceMapping, payload: string): string {
+    let value: unknown = payload.trim();
+    if (mapping.stateField) {
+        try {
+            value = JSON.parse(payload)?.[mapping.stateField];
+        } catch {
+            value = undefined;
+        }
+    }
+    if (value === undefined || value === null) return 'unknown';
+    const text = String(value);
+    const configured = Object.entries(mapping.payloads ?? {}).find(([, payload]) => payload.toLowerCase() === text.toLowerCase());
+    if (configured) return configured[0];
+    // "ON", "LOCKED" and so on; a sensor's reading is kept as it came
+    return getDomain(mapping.id) === 'sensor' ? text : text.toLowerCase();
+}
+
+/**
+ * The device as its last message on the state topic describes it; "unavailable" until one has come in.
+ */
+export function readMqttDevice(mapping: MqttDeviceMapping, message?: { payload: string, time: string }): SmartHomeDevice {
+    const device: SmartHomeDevice = { id: mapping.id, name: mapping.name, domain: getDomain(mapping.id), state: 'unavailable' };
+    if (mapping.unit) device.unit = mapping.unit;
+    if (!message) return device;
+    device.state = readState(mapping, message.payload);
+    device.lastChanged = message.time;
+    // Covers that report how far open they are rather than open or closed
+    if (device.domain === 'cover' && /^\d+(\.\d+)?$/.test(device.state)) {
+        device.position = Math.round(Number(device.state));
+        device.state = device.position > 0 ? 'open' : 'closed';
+    }
+    return device;
+}
+
+/**
+ * The message that carries out a service call on an MQTT device, or throws when the device can't take it.
+ */
+export function toMqttCommand(mapping: MqttDeviceMapping, { service, data }: ServiceCall): { topic: string, payload: string } {
+    if (!mapping.commandTopic) throw new Error(`${mapping.name} only reports its state; it has no MQTT command topic.`);
+    const value = service === 'set_cover_position' ? String(data.position) : SERVICE_STATES[service] && payloadFor(mapping, SERVICE_STATES[service]);
+    if (value === undefined) throw new Error(`${mapping.name} can't ${service.replace(/_/g, ' ')} over MQTT.`);
+    const template = mapping.commandTemplate ?? '{value}';
+    if (data.brightness_pct !== undefined && !template.includes('{brightness}')) {
+        throw new Error(`${mapping.name} takes no brightness over MQTT; its command template would need {brightness}.`);
+    }
+    // A template without a brightness for this command gets the full one
+    const payload = template.replace(/\{value\}/g, value).replace(/\{brightness\}/g, String(data.brightness_pct ?? 100));
+    return { topic: mapping.commandTopic, payload };
+}
+
+// The device as a service call should leave it, for devices that don't report back.
+export function assumeServiceCall(device: SmartHomeDevice, { service, data }: ServiceCall): SmartHomeDevice {
+    const next = { ...device, lastChanged: new Date().toISOString() };
+    if (service === 'set_cover_position') {
+        next.position = data.position as number;
+        next.state = next.position > 0 ? 'open' : 'closed';
+    } else {
+        next.state = SERVICE_STATES[service] ?? device.state;
+    }
+    if (typeof data.brightness_pct === 'number') next.brightness = data.brightness_pct;
+    return next;
+}
@@ -0,0 +1,83 @@
+import { type DeviceHistoryEntry, type ServiceCall, type SmartHomeAdapter, type SmartHomeDevice } from './types';
+import { toServiceCall } from './commands';
+import { getMockSmartHomeDevices, getMockSmartHomeScenes } from '../mockDataService';
+
+// What a service call does to a device, as a hub would report it afterwards.
+function applyServiceCall(device: SmartHomeDevice, { service, data }: ServiceCall): SmartHomeDevice {
+    const next = { ...device, lastChanged: new Date().toISOString() };
+    switch (service) {
+        case 'turn_on':
+            next.state = 'on';
+            if (device.domain === 'light') next.brightness = (data.brightness_pct as number | undefined) ?? device.brightness ?? 100;
+            break;
+        case 'turn_off':
+            next.state = 'off';
+            break;
+        case 'lock':
+            next.state = 'locked';
+            break;
+        case 'unlock':
+            next.state = 'unlocked';
+            break;
+        case 'open_cover':
+        case 'close_cover':
+            next.position = service === 'open_cover' ? 100 : 0;
+            next.state = service === 'open_cover' ? 'open' : 'closed';
+            break;
+        case 'set_cover_position':
+            next.position = data.position as number;
+            next.state = next.position > 0 ? 'open' : 'closed';
+            break;
+        case 'set_temperature':
+            next.temperature = data.temperature as number;
+            if (data.hvac_mode) next.state = data.hvac_mode as string;
+            break;
+        case 'set_hvac_mode':
+            next.state = data.hvac_mode as string;
+            break;
+    }
+    return next;
+}
+
+/**
+ * The sample home, kept in memory: devices answer commands the way Home Assistant's would, and
+ * every change is recorded for `getHistory`. It starts over when the page is reloaded.
+ */
+export function createSampleSmartHomeAdapter(): SmartHomeAdapter {
+    const devices = new Map(getMockSmartHomeDevices().map(device => [device.id, device]));
+    const history: { id: string, time: string, state: string }[] = [...devices.values()].map(device => ({ id: device.id, time: device.lastChanged!, state: device.state }));
+
+    const apply = (call: ServiceCall) => {
+        const device = devices.get(call.data.entity_id);
+        if (!device) throw new Error(`There is no device with the id "${call.data.entity_id}".`);
+        if (call.domain === 'scene') {
+            for (const { id, command } of getMockSmartHomeScenes()[device.id] ?? []) {
+                apply(toServiceCall(devices.get(id)!, command));
+            }
+            return;
+        }
+        const next = applyServiceCall(device, call);
+        devices.set(device.id, next);
+        if (next.state !== device.state) history.push({ id: device.id, time: next.lastChanged!, state: next.state });
+    };
+
+    return {
+        name: 'sample',
+        async getDevices() {
+            return [...devices.values()];
+        },
+        async getDevice(id) {
+            return devices.get(id) ?? null;
+        },
+        async callService(call) {
+            apply(call);
+        },
+        async getHistory(id, range) {
+            const entries = history.filter(entry => entry.id === id);
+            // The state it was in when the range began, then what changed during it
+            const before = entries.filter(entry => Date.parse(entry.time) <= range.start).pop();
+            const during = entries.filter(entry => Date.parse(entry.time) > range.start && Date.parse(entry.time) < range.end);
+            return [...(before ? [before] : []), ...during].map(({ time, state }): DeviceHistoryEntry => ({ time, state }));
+        },
+    };
+}
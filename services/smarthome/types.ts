@@ -0,0 +1,74 @@
+/**
+ * A device or entity on the smart home hub, in Home Assistant's terms: the id is the entity id
+ * ("light.office") and its part before the dot is the domain, which decides how it can be controlled.
+ */
+export interface SmartHomeDevice {
+    id: string;
+    name: string;
+    domain: string;
+    state: string; // As the hub reports it: "on", "off", "locked", "heat", "21.5", "unavailable"
+    unit?: string; // For sensors
+    brightness?: number; // Lights, 0–100
+    temperature?: number; // Thermostats: the temperature they aim for
+    currentTemperature?: number;
+    hvacModes?: string[];
+    position?: number; // Covers, from 0 (closed) to 100 (open)
+    entities?: string[]; // Scenes: the devices they set
+    lastChanged?: string; // ISO 8601
+}
+
+// What the user asked a device to do; which fields apply depends on its domain.
+export interface DeviceCommand {
+    state?: string;
+    brightness?: number;
+    temperature?: number;
+    hvacMode?: string;
+    position?: number;
+}
+
+// A Home Assistant service call, e.g. light.turn_on with { entity_id, brightness_pct }.
+export interface ServiceCall {
+    domain: string;
+    service: string;
+    data: { entity_id: string, [field: string]: unknown };
+}
+
+export interface DeviceHistoryEntry {
+    time: string; // ISO 8601
+    state: string;
+}
+
+export interface SmartHomeRange {
+    start: number; // Epoch milliseconds
+    end: number;
+}
+
+/**
+ * Where devices are read and controlled: the sample home, or a Home Assistant hub.
+ */
+export interface SmartHomeAdapter {
+    name: string;
+    getDevices(): Promise<SmartHomeDevice[]>;
+    // Null when there is no device with that id
+    getDevice(id: string): Promise<SmartHomeDevice | null>;
+    callService(call: ServiceCall): Promise<void>;
+    // State changes in the range, oldest first, starting with the state at its start
+    getHistory(id: string, range: SmartHomeRange): Promise<DeviceHistoryEntry[]>;
+}
+
+/**
+ * A device that speaks plain MQTT, as set up in Manage Connections. Its id picks the domain, and so the
+ * commands it takes, like a Home Assistant entity id: "light.garage", "switch.heater".
+ */
+export interface MqttDeviceMapping {
+    id: string;
+    name: string;
+    stateTopic: string; // Where the device reports its state, e.g. "zigbee2mqtt/garage_light"
+    stateField?: string; // For JSON payloads, the field holding the state, e.g. "state" in {"state":"ON"}
+    commandTopic?: string; // Where commands go, e.g. "zigbee2mqtt/garage_light/set"; read-only without one
+    // The command payload, with {value} for the state to set and {brightness} for a light's 0–100; the bare value by default
+    commandTemplate?: string;
+    // The payload for each state when the device doesn't use the uppercase name, e.g. { on: "1", off: "0" }
+    payloads?: { [state: string]: string };
+    unit?: string;
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeTask, createTask, deleteTask, describeDue, getTask, listTasks, loadTasks, saveTask, updateTask } from '.';
+
+describe('tasks', () => {
+    let items: Map<string, string>;
+
+    beforeEach(() => {
+        items = new Map();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => items.get(key) ?? null,
+            setItem: (key: string, value: string) => items.set(key, value),
+        });
+        vi.useFakeTimers({ now: new Date(2026, 9, 19, 12, 0) });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('creates tasks with trimmed fields and normal priority', () => {
+        const task = createTask({ title: '  Send the design feedback ', notes: '', project: 'Work' });
+        expect(task).toMatchObject({ title: 'Send the design feedback', priority: 'normal', project: 'Work' });
+        expect(task.notes).toBeUndefined();
+        expect(loadTasks()).toEqual([task]);
+    });
+
+    it('refuses tasks without a title, with a malformed due date or an unknown priority', () => {
+        expect(() => createTask({ title: ' ' })).toThrow('A task needs a title.');
+        expect(() => createTask({ title: 'Pay rent', due: 'next friday' })).toThrow(/is not a due date/);
+        expect(() => createTask({ title: 'Pay rent', due: '2026-13-40' })).toThrow(/is not a due date/);
+        expect(() => createTask({ title: 'Pay rent', priority: 'urgent' as any })).toThrow(/must be one of high, normal, low/);
+        expect(loadTasks()).toEqual([]);
+    });
+
+    it('lists open tasks by due date, then priority, with undated ones last', () => {
+        createTask({ title: 'Undated' });
+        createTask({ title: 'Later', due: '2026-10-25' });
+        createTask({ title: 'Soon, low', due: '2026-10-20', priority: 'low' });
+        createTask({ title: 'Soon, high', due: '2026-10-20', priority: 'high' });
+        expect(listTasks().map(task => task.title)).toEqual(['Soon, high', 'Soon, low', 'Later', 'Undated']);
+    });
+
+    it('filters by status, project, due date and words', () => {
+        const report = createTask({ title: 'Write the report', notes: 'Quarterly numbers', project: 'Work', due: '2026-10-20T17:00' });
+        createTask({ title: 'Buy milk', due: '2026-10-22' });
+        const done = createTask({ title: 'Book flights', project: 'work' });
+        completeTask(done.id);
+        expect(listTasks({ project: 'WORK' }).map(task => task.id)).toEqual([report.id]);
+        expect(listTasks({ status: 'completed' }).map(task => task.id)).toEqual([done.id]);
+        expect(listTasks({ status: 'all', project: 'work' })).toHaveLength(2);
+        expect(listTasks({ dueBy: '2026-10-20' }).map(task => task.id)).toEqual([report.id]);
+        expect(listTasks({ query: 'quarterly REPORT' }).map(task => task.id)).toEqual([report.id]);
+    });
+
+    it('updates fields, clearing them with empty strings, and returns the task before the change', () => {
+        const task = createTask({ title: 'Pay rent', due: '2026-10-20', project: 'Home' });
+        const { previous, task: updated } = updateTask(task.id, { due: '', priority: 'high' });
+        expect(previous).toEqual(task);
+        expect(updated).toMatchObject({ title: 'Pay rent', priority: 'high', project: 'Home' });
+        expect(updated.due).toBeUndefined();
+        expect(getTask(task.id)).toEqual(updated);
+        expect(() => updateTask(task.id, { title: '' })).toThrow('A task needs a title.');
+    });
+
+    it('completes and reopens tasks, keeping the first completion time', () => {
+        const task = createTask({ title: 'Pay rent' });
+        const { task: done } = completeTask(task.id);
+        vi.advanceTimersByTime(60_000);
+        expect(completeTask(task.id).task.completedAt).toBe(done.completedAt);
+        expect(completeTask(task.id, false).task.completedAt).toBeUndefined();
+        expect(() => completeTask('task-missing')).toThrow(/no task with the id "task-missing"/);
+    });
+
+    it('puts deleted and changed tasks back as they were', () => {
+        const task = createTask({ title: 'Pay rent' });
+        const { previous } = updateTask(task.id, { title: 'Pay the rent' });
+        saveTask(previous);
+        expect(getTask(task.id).title).toBe('Pay rent');
+        expect(deleteTask(task.id)).toEqual(task);
+        expect(deleteTask(task.id)).toBeNull();
+        saveTask(task);
+        expect(loadTasks()).toEqual([task]);
+    });
+
+    it('describes when a task is due and whether it is overdue', () => {
+        const now = Date.now();
+        expect(describeDue(createTask({ title: 'Today', due: '2026-10-19' }), now)).toBe('due today');
+        expect(describeDue(createTask({ title: 'Morning', due: '2026-10-19T09:00' }), now)).toBe('due today 09:00, overdue');
+        expect(describeDue(createTask({ title: 'Later', due: '2026-10-25T17:30' }), now)).toBe('due 2026-10-25 17:30');
+    });
+
+    it('starts empty when the stored list cannot be read', () => {
+        items.set('jarvis-tasks', '{not json');
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        expect(loadTasks()).toEqual([]);
+    });
+});
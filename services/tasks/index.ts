@@ -0,0 +1,133 @@
+import { type Task, type TaskFields, type TaskFilter, TASK_PRIORITIES } from './types';
+import { loadTasks, saveTasks } from './store';
+
+export * from './types';
+export { loadTasks } from './store';
+
+// Open tasks listed in the Life State Graph; the rest are left to listTasks
+const MAX_TASKS_IN_GRAPH = 20;
+
+const DUE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/;
+
+const today = () => new Date().toLocaleDateString('en-CA');
+
+// When a task falls due: the given time, or the end of the given day.
+export function getDueTime(due: string): number {
+    return new Date(due.includes('T') ? due : `${due}T23:59:59`).getTime();
+}
+
+export const isOverdue = (task: Task, now = Date.now()) => !task.completedAt && task.due !== undefined && getDueTime(task.due) < now;
+
+function checkFields(fields: TaskFields): void {
+    if (fields.title !== undefined && !fields.title.trim()) throw new Error('A task needs a title.');
+    if (fields.due && (!DUE_PATTERN.test(fields.due) || isNaN(getDueTime(fields.due)))) {
+        throw new Error(`"${fields.due}" is not a due date. Use YYYY-MM-DD, or YYYY-MM-DDTHH:MM for a time.`);
+    }
+    if (fields.priority !== undefined && !TASK_PRIORITIES.includes(fields.priority)) {
+        throw new Error(`The priority must be one of ${TASK_PRIORITIES.join(', ')}.`);
+    }
+}
+
+// Empty strings clear a field, so "no due date" and "no project" can be said.
+function applyFields(task: Task, fields: TaskFields): Task {
+    const next: Task = { ...task };
+    for (const field of ['title', 'notes', 'due', 'priority', 'project'] as const) {
+        const value = fields[field]?.trim();
+        if (value === undefined) continue;
+        if (value) Object.assign(next, { [field]: value });
+        else if (field !== 'title' && field !== 'priority') delete next[field];
+    }
+    return next;
+}
+
+// Open tasks by due date (undated last), then priority; completed ones most recent first.
+function compareTasks(a: Task, b: Task): number {
+    if (!!a.completedAt !== !!b.completedAt) return a.completedAt ? 1 : -1;
+    if (a.completedAt && b.completedAt) return b.completedAt.localeCompare(a.completedAt);
+    const byDue = (a.due ? getDueTime(a.due) : Infinity) - (b.due ? getDueTime(b.due) : Infinity);
+    if (byDue) return byDue;
+    return TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority) || a.createdAt.localeCompare(b.createdAt);
+}
+
+export function getTask(id: string): Task {
+    const task = loadTasks().find(task => task.id === id);
+    if (!task) throw new Error(`There is no task with the id "${id}". Use listTasks to find it.`);
+    return task;
+}
+
+export function listTasks(filter: TaskFilter = {}): Task[] {
+    const status = filter.status ?? 'open';
+    const words = filter.query?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    return loadTasks()
+        .filter(task => status === 'all' || (status === 'completed') === !!task.completedAt)
+        .filter(task => !filter.project || task.project?.toLowerCase() === filter.project.toLowerCase())
+        .filter(task => !filter.dueBy || (task.due !== undefined && task.due.slice(0, 10) <= filter.dueBy))
+        .filter(task => words.every(word => `${task.title} ${task.notes ?? ''}`.toLowerCase().includes(word)))
+        .sort(compareTasks);
+}
+
+export function createTask(fields: TaskFields): Task {
+    checkFields(fields);
+    if (!fields.title?.trim()) throw new Error('A task needs a title.');
+    const task = applyFields({
+        id: `task-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        title: '',
+        priority: 'normal',
+        createdAt: new Date().toISOString(),
+    }, fields);
+    saveTasks([...loadTasks(), task]);
+    return task;
+}
+
+/**
+ * Changes a task. Returns it before and after, so the change can be undone.
+ */
+export function updateTask(id: string, fields: TaskFields): { previous: Task, task: Task } {
+    checkFields(fields);
+    const previous = getTask(id);
+    const task = applyFields(previous, fields);
+    saveTask(task);
+    return { previous, task };
+}
+
+// Marks a task done, or open again when `completed` is false.
+export function completeTask(id: string, completed = true): { previous: Task, task: Task } {
+    const previous = getTask(id);
+    const task = { ...previous };
+    if (completed) task.completedAt = previous.completedAt ?? new Date().toISOString();
+    else delete task.completedAt;
+    saveTask(task);
+    return { previous, task };
+}
+
+// Puts a task back as given, adding it if it was deleted.
+export function saveTask(task: Task): void {
+    const tasks = loadTasks();
+    saveTasks(tasks.some(other => other.id === task.id) ? tasks.map(other => other.id === task.id ? task : other) : [...tasks, task]);
+}
+
+export function deleteTask(id: string): Task | null {
+    const tasks = loadTasks();
+    const task = tasks.find(task => task.id === id);
+    if (task) saveTasks(tasks.filter(other => other !== task));
+    return task ?? null;
+}
+
+// "due today", "due 2026-10-20 17:00, overdue"
+export function describeDue(task: Task, now = Date.now()): string | undefined {
+    if (!task.due) return undefined;
+    const day = task.due.slice(0, 10) === today() ? 'today' : task.due.slice(0, 10);
+    const time = task.due.includes('T') ? ` ${task.due.slice(11, 16)}` : '';
+    return `due ${day}${time}${isOverdue(task, now) ? ', overdue' : ''}`;
+}
+
+// One line per open task for the Life State Graph, e.g. "Send the design feedback (task-1): due today, high priority, Work".
+export function describeOpenTasks(): string[] {
+    const open = listTasks();
+    const lines = open.slice(0, MAX_TASKS_IN_GRAPH).map(task => {
+        const details = [describeDue(task), task.priority !== 'normal' && `${task.priority} priority`, task.project].filter(Boolean);
+        return `${task.title} (${task.id})${details.length ? `: ${details.join(', ')}` : ''}`;
+    });
+    if (open.length > MAX_TASKS_IN_GRAPH) lines.push(`…and ${open.length - MAX_TASKS_IN_GRAPH} more; use 'listTasks' to see them`);
+    return lines;
+}
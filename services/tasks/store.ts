@@ -0,0 +1,21 @@
+import { type Task } from './types';
+
+const TASKS_KEY = 'jarvis-tasks';
+
+export function loadTasks(): Task[] {
+    try {
+        const saved = localStorage.getItem(TASKS_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error('Failed to load tasks:', error);
+        return [];
+    }
+}
+
+export function saveTasks(tasks: Task[]): void {
+    try {
+        localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+    } catch (error) {
+        console.error('Failed to save tasks:', error);
+    }
+}
@@ -0,0 +1,27 @@
+export type TaskPriority = 'high' | 'normal' | 'low';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * A to-do on the user's list. It is open until completedAt is set.
+ */
+export interface Task {
+    id: string;
+    title: string;
+    notes?: string;
+    due?: string; // A date (2026-10-20) or a local time (2026-10-20T17:00)
+    priority: TaskPriority;
+    project?: string;
+    createdAt: string; // ISO 8601
+    completedAt?: string;
+}
+
+// The fields a task is created or changed with.
+export type TaskFields = Partial<Pick<Task, 'title' | 'notes' | 'due' | 'priority' | 'project'>>;
+
+export interface TaskFilter {
+    status?: 'open' | 'completed' | 'all'; // Open by default
+    project?: string; // Matched without regard to case
+    dueBy?: string; // A date: tasks due on or before it, overdue ones included
+    query?: string; // Words in the title or notes
+}
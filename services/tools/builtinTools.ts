@@ -0,0 +1,961 @@
+import {
+    getEmailsFunctionDeclaration,
+    draftEmailFunctionDeclaration,
+    replyToEmailFunctionDeclaration,
+    sendEmailFunctionDeclaration,
+    requestPermissionFunctionDeclaration,
+    getCalendarEventsFunctionDeclaration,
+    createCalendarEventFunctionDeclaration,
+    updateCalendarEventFunctionDeclaration,
+    deleteCalendarEventFunctionDeclaration,
+    findFreeSlotsFunctionDeclaration,
+    getWellbeingDataFunctionDeclaration,
+    showWellbeingChartFunctionDeclaration,
+    getSmartHomeStatusFunctionDeclaration,
+    setDeviceStateFunctionDeclaration,
+    activateSceneFunctionDeclaration,
+    getDeviceHistoryFunctionDeclaration,
+    createTaskFunctionDeclaration,
+    listTasksFunctionDeclaration,
+    completeTaskFunctionDeclaration,
+    updateTaskFunctionDeclaration,
+    generateImageFunctionDeclaration,
+    editImageFunctionDeclaration,
+    generateVideoFunctionDeclaration,
+    useGoogleSearchFunctionDeclaration,
+    useGoogleMapsFunctionDeclaration,
+    requestLocationFunctionDeclaration,
+    getUserLocation,
+    rememberFactFunctionDeclaration,
+} from '../mockDataService';
+import { retryWithBackoff, abortable } from '../resilienceService';
+import { getMediaPart } from '../historyService';
+import { searchEmails, getEmailById, getEmailAccountId, getEmailTransport, createReplyDraft, getAddress } from '../email';
+import {
+    type CalendarAttendee, type CalendarEvent, type CalendarRange,
+    getCalendarEvents, createCalendarEvent, planCalendarUpdate, saveCalendarEvents, deleteCalendarEvent,
+    findConflicts, findFreeSlots, DEFAULT_DAY_START, DEFAULT_DAY_END,
+    getLocalTimeZone, isValidTimeZone, isValidRecurrence, parseDateTime, formatZonedIso, getEventTime, isDateOnly, addDays,
+} from '../calendar';
+import {
+    ALL_WELLBEING_METRICS, WELLBEING_METRICS, WELLBEING_CHART_METRICS, DEFAULT_CHART_METRICS,
+    getWellbeingSeries, summarizeMetric, getWeeklyAverages, buildWellbeingChart,
+} from '../wellbeing';
+import {
+    type SmartHomeDevice, type SmartHomeRange,
+    getSmartHomeDevices, setDeviceState, activateScene, getDeviceHistory,
+    isSensitiveDevice, isSensitiveScene, getRestoreCommand, describeState, describeCommand,
+} from '../smarthome';
+import { type Task, createTask, listTasks, completeTask, updateTask, deleteTask, saveTask, isOverdue } from '../tasks';
+import { BillingProjectRequiredError, type ImageAspectRatio, type VideoAspectRatio } from '../providers';
+import { type ChatMessage, type EmailDraft, type ServiceIntegration } from '../../types';
+import { type ToolContext, type ToolDefinition, type ToolResult } from './types';
+import { getTool } from './registry';
+import { checkConsent } from './consent';
+
+// The mock data tools answer with a JSON string; counts the items in it for the result line.
+function countItems(result: unknown): number {
+    try {
+        const parsed = JSON.parse(result as string);
+        return Array.isArray(parsed) ? parsed.length : 0;
+    } catch {
+        return 0;
+    }
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function findLastUserImage(history: ChatMessage[]): string | undefined {
+    return [...history].reverse().find(m => m.author === 'user' && m.image)?.image;
+}
+
+// --- Consent and grounding: both end the turn ---
+
+// Lets the model explain why it wants a private tool before using it. The consent policy decides:
+// a call that is already allowed or refused is answered straight away, otherwise the user is asked.
+const requestPermissionTool: ToolDefinition = {
+    declaration: requestPermissionFunctionDeclaration,
+    label: 'Ask for permission',
+    privacy: 'public',
+    exclusive: true,
+    async execute(args, context) {
+        const target = getTool(args.toolToCall as string);
+        if (!target) {
+            return { error: `There is no tool named ${args.toolToCall}.` };
+        }
+        const consent = checkConsent(target, args.toolArgs || {}, context);
+        if (!consent) {
+            return { result: `Permission granted. Call ${args.toolToCall} now.` };
+        }
+        if (!consent.finalResponse) {
+            return consent;
+        }
+        // The app continues with getAiResponseAfterConsent once the user decides
+        return { finalResponse: { ...consent.finalResponse, text: args.reason as string } };
+    },
+};
+
+// Answered by a separate grounded call rather than by replying to the model.
+async function runGrounding(useMaps: boolean, { provider, userParts, signal, onUsage }: ToolContext): Promise<ToolResult> {
+    let location: { latitude: number, longitude: number } | undefined;
+    if (useMaps) {
+        try {
+            location = await abortable(getUserLocation(), signal);
+        } catch (e) {
+            // Fail silently and proceed without location, unless the request was stopped
+            if (signal?.aborted) throw e;
+        }
+    }
+    // Wrapped in retry
+    const grounded = await retryWithBackoff(() => provider.groundedAnswer!({ parts: userParts, useMaps, location }, signal), signal);
+    if (grounded.usage) onUsage?.(grounded.usage);
+    return { finalResponse: { text: grounded.text, groundingSources: grounded.sources } };
+}
+
+const useGoogleSearchTool: ToolDefinition = {
+    declaration: useGoogleSearchFunctionDeclaration,
+    label: 'Search Google',
+    privacy: 'public',
+    capability: 'groundedAnswer',
+    exclusive: true,
+    execute: (_args, context) => runGrounding(false, context),
+};
+
+const useGoogleMapsTool: ToolDefinition = {
+    declaration: useGoogleMapsFunctionDeclaration,
+    label: 'Search Google Maps',
+    privacy: 'public',
+    capability: 'groundedAnswer',
+    exclusive: true,
+    execute: (_args, context) => runGrounding(true, context),
+};
+
+// --- Personal data ---
+
+function getConnectedEmailAccounts(connections: ServiceIntegration[]): string[] {
+    return connections.find(c => c.id === 'email')?.accounts?.filter(a => a.connected).map(a => a.id) ?? [];
+}
+
+// Only connected accounts are read; with none named, all of them are.
+function resolveEmailAccounts(args: Record<string, any>, connections: ServiceIntegration[]): string[] {
+    const connected = getConnectedEmailAccounts(connections);
+    const requested: string[] = args.accountIds ?? [];
+    return requested.length > 0 ? requested.filter(id => connected.includes(id)) : connected;
+}
+
+// Bodies sent to the model are cut to this length; long threads would otherwise fill the context.
+const MAX_EMAIL_BODY_FOR_MODEL = 1500;
+
+// Accepts a date (midnight UTC) or a full ISO 8601 timestamp.
+function parseDateArgument(value: unknown): number | undefined {
+    if (value === undefined) return undefined;
+    const time = Date.parse(value as string);
+    if (isNaN(time)) throw new Error(`"${value}" is not a date. Use YYYY-MM-DD or ISO 8601.`);
+    return time;
+}
+
+const getEmailsTool: ToolDefinition = {
+    declaration: getEmailsFunctionDeclaration,
+    label: 'Read your emails',
+    privacy: 'private',
+    integration: 'email',
+    consentAccounts: resolveEmailAccounts,
+    async execute(args, { connections }) {
+        const accountIds = resolveEmailAccounts(args, connections);
+        if (accountIds.length === 0) {
+            return { error: "No email accounts were specified or connected." };
+        }
+        const emails = await searchEmails({
+            accountIds,
+            from: args.from,
+            after: parseDateArgument(args.after),
+            before: parseDateArgument(args.before),
+            unread: args.unread,
+            threadId: args.threadId,
+            query: args.query,
+            limit: args.limit,
+        });
+        return {
+            result: JSON.stringify(emails.map(email => ({
+                id: email.id,
+                account: email.accountId,
+                threadId: email.threadId,
+                from: email.from,
+                to: email.to,
+                cc: email.cc,
+                subject: email.subject,
+                date: email.date ? new Date(email.date).toISOString() : undefined,
+                unread: email.unread,
+                body: email.body.length > MAX_EMAIL_BODY_FOR_MODEL ? `${email.body.slice(0, MAX_EMAIL_BODY_FOR_MODEL)}…` : email.body,
+            }))),
+        };
+    },
+    renderResult: result => `Read ${plural(countItems(result), 'email')}`,
+};
+
+// The account to send from: the one named if it is connected, otherwise the first connected one.
+function resolveSenderAccount(args: Record<string, any>, connections: ServiceIntegration[]): string | undefined {
+    const connected = getConnectedEmailAccounts(connections);
+    return args.accountId ? connected.find(id => id === args.accountId) : connected[0];
+}
+
+function createDraft(args: Record<string, any>, accountId: string): EmailDraft {
+    return {
+        id: `draft-${Date.now()}`,
+        accountId,
+        to: args.to,
+        cc: args.cc?.length ? args.cc : undefined,
+        subject: args.subject,
+        body: args.body,
+        inReplyTo: args.inReplyTo,
+        references: args.references,
+    };
+}
+
+const senderNotConnected = (args: Record<string, any>) =>
+    args.accountId ? `${args.accountId} is not a connected email account.` : "No email account is connected.";
+
+// Drafts only show a card; nothing is sent until the user presses Send, which runs sendEmail.
+const draftEmailTool: ToolDefinition = {
+    declaration: draftEmailFunctionDeclaration,
+    label: 'Draft an email',
+    privacy: 'public',
+    integration: 'email',
+    async execute(args, { connections }) {
+        const accountId = resolveSenderAccount(args, connections);
+        if (!accountId) return { error: senderNotConnected(args) };
+        return { result: "The draft is shown to the user, who can edit and send it.", output: { emailDraft: createDraft(args, accountId) } };
+    },
+    renderResult: (_result, args) => `Drafted "${args.subject}"`,
+};
+
+// Private because it reads the email being answered.
+const replyToEmailTool: ToolDefinition = {
+    declaration: replyToEmailFunctionDeclaration,
+    label: 'Draft a reply',
+    privacy: 'private',
+    integration: 'email',
+    consentAccounts: args => [getEmailAccountId(args.emailId)],
+    async execute(args, { connections }) {
+        const original = await getEmailById(args.emailId);
+        if (!original) return { error: `There is no email with the id ${args.emailId}.` };
+        if (!getConnectedEmailAccounts(connections).includes(original.accountId)) {
+            return { error: `${original.accountId} is not a connected email account.` };
+        }
+        const draft = createReplyDraft(original, original.accountId, args.body, args.replyAll);
+        return { result: "The reply draft is shown to the user, who can edit and send it.", output: { emailDraft: draft } };
+    },
+    renderResult: () => 'Drafted a reply',
+};
+
+const sendEmailTool: ToolDefinition = {
+    declaration: sendEmailFunctionDeclaration,
+    label: 'Send an email',
+    privacy: 'private',
+    integration: 'email',
+    sideEffects: true,
+    alwaysAsk: true,
+    consentAccounts: (args, connections) => [resolveSenderAccount(args, connections) ?? args.accountId].filter(Boolean),
+    async execute(args, { connections, signal }) {
+        const accountId = resolveSenderAccount(args, connections);
+        if (!accountId) return { error: senderNotConnected(args) };
+        const draft = createDraft(args, accountId);
+        const { messageId } = await getEmailTransport().send(draft, signal);
+        return { result: `Sent with Message-ID ${messageId}.`, output: { emailDraft: { ...draft, sentAt: Date.now() } } };
+    },
+    renderResult: (_result, args) => `Sent "${args.subject}" to ${args.to.join(', ')}`,
+    preview: args => `Would send "${args.subject}" to ${args.to.join(', ')}`,
+};
+
+// --- Calendar ---
+
+const MAX_CALENDAR_RANGE_DAYS = 366;
+const DEFAULT_EVENT_MINUTES = 60;
+const DEFAULT_FREE_SLOT_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The day after the one a time falls on, in the zone.
+const nextDay = (time: number, timeZone: string) => addDays(formatZonedIso(time, timeZone).slice(0, 10), 1);
+
+// From the start of today (or the given default) for a number of days unless the model asks for
+// another range. An end date includes that whole day.
+function parseCalendarRange(args: Record<string, any>, defaultStart = new Date().setHours(0, 0, 0, 0), defaultDays = 1): CalendarRange {
+    const timeZone = getLocalTimeZone();
+    const start = args.start ? parseDateTime(args.start, timeZone) : defaultStart;
+    const end = args.end
+        ? parseDateTime(isDateOnly(args.end) ? addDays(args.end, 1) : args.end, timeZone)
+        : parseDateTime(addDays(nextDay(start, timeZone), defaultDays - 1), timeZone);
+    if (end <= start) throw new Error('The end of the range must come after its start.');
+    if (end - start > MAX_CALENDAR_RANGE_DAYS * DAY_MS) throw new Error(`Ask for at most ${MAX_CALENDAR_RANGE_DAYS} days at a time.`);
+    return { start, end };
+}
+
+// Times are given in the user's zone; the zone the event was planned in is only named when it differs.
+function describeEventForModel(event: CalendarEvent) {
+    const timeZone = getLocalTimeZone();
+    const formatTime = (value: string) => event.allDay ? value : formatZonedIso(Date.parse(value), timeZone);
+    return {
+        id: event.id,
+        title: event.title,
+        start: formatTime(event.start),
+        end: formatTime(event.allDay ? addDays(event.end, -1) : event.end),
+        allDay: event.allDay,
+        timeZone: event.timeZone !== timeZone ? event.timeZone : undefined,
+        location: event.location,
+        description: event.description,
+        attendees: event.attendees?.map(attendee => attendee.name ? `${attendee.name} <${attendee.email}>` : attendee.email),
+        recurrence: event.recurrence,
+        status: event.status,
+        categories: event.categories,
+    };
+}
+
+// "on Tue, Oct 20 at 2:00 PM", or "on Tue, Oct 20" for all-day events.
+function describeEventTime(start: string, allDay?: boolean): string {
+    const date = new Date(getEventTime(start, allDay));
+    const day = date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+    return allDay ? `on ${day}` : `on ${day} at ${date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+// "Design Review (Critical)"
+const describeConflict = (event: CalendarEvent) => event.categories?.length ? `${event.title} (${event.categories.join(', ')})` : event.title;
+
+function parseAttendee(value: string): CalendarAttendee {
+    const name = value.includes('<') ? value.slice(0, value.indexOf('<')).trim().replace(/^"|"$/g, '') : '';
+    return { email: getAddress(value), name: name || undefined };
+}
+
+function checkTimeZone(timeZone: string) {
+    if (!isValidTimeZone(timeZone)) throw new Error(`"${timeZone}" is not a time zone. Use an IANA name such as Europe/Paris.`);
+}
+
+function checkRecurrence(recurrence: string | undefined) {
+    if (recurrence && !isValidRecurrence(recurrence)) {
+        throw new Error(`"${recurrence}" is not a recurrence rule. Use an RRULE such as FREQ=WEEKLY;BYDAY=MO.`);
+    }
+}
+
+// The start, end and zone of an event from a tool's arguments, reading local times in the zone.
+// Without an end, the event lasts durationMinutes (whole days for all-day events).
+function resolveEventTimes(args: Record<string, any>, timeZone: string): Pick<CalendarEvent, 'start' | 'end' | 'allDay' | 'timeZone'> {
+    const allDay = args.allDay ?? isDateOnly(args.start);
+    const durationMinutes = args.durationMinutes ?? (allDay ? 24 * 60 : DEFAULT_EVENT_MINUTES);
+    let start: string, end: string;
+    if (allDay) {
+        const toDate = (value: string) => formatZonedIso(parseDateTime(value, timeZone), timeZone).slice(0, 10);
+        start = toDate(args.start);
+        end = args.end ? addDays(toDate(args.end), 1) : addDays(start, Math.max(1, Math.round(durationMinutes / (24 * 60))));
+    } else {
+        const startTime = parseDateTime(args.start, timeZone);
+        start = new Date(startTime).toISOString();
+        end = new Date(args.end ? parseDateTime(args.end, timeZone) : startTime + durationMinutes * 60000).toISOString();
+    }
+    if (end < start) throw new Error('The event must end after it starts.');
+    return { start, end, allDay: allDay || undefined, timeZone: allDay ? undefined : timeZone };
+}
+
+// Turns createCalendarEvent's arguments into an event, reading times in the given or the user's zone.
+function buildCalendarEvent(args: Record<string, any>): CalendarEvent {
+    const timeZone: string = args.timeZone || getLocalTimeZone();
+    checkTimeZone(timeZone);
+    checkRecurrence(args.recurrence);
+    return {
+        id: `event-${Date.now()}@jarvis`,
+        title: args.title,
+        ...resolveEventTimes(args, timeZone),
+        location: args.location,
+        description: args.description,
+        attendees: args.attendees?.length ? (args.attendees as string[]).map(parseAttendee) : undefined,
+        recurrence: args.recurrence || undefined,
+    };
+}
+
+// Applies updateCalendarEvent's arguments to an event. Moving the start keeps the event's length.
+function applyEventChanges(event: CalendarEvent, args: Record<string, any>): CalendarEvent {
+    const timeZone: string = args.timeZone || event.timeZone || getLocalTimeZone();
+    checkTimeZone(timeZone);
+    checkRecurrence(args.recurrence);
+    const changesTime = ['start', 'end', 'durationMinutes', 'allDay', 'timeZone'].some(key => args[key] !== undefined);
+    const duration = getEventTime(event.end, event.allDay) - getEventTime(event.start, event.allDay);
+    const times = changesTime ? resolveEventTimes({
+        start: args.start ?? event.start,
+        end: args.end,
+        durationMinutes: args.durationMinutes ?? Math.round(duration / 60000),
+        allDay: args.allDay ?? (args.start ? undefined : event.allDay ?? false),
+    }, timeZone) : {};
+    return {
+        ...event,
+        ...times,
+        title: args.title ?? event.title,
+        location: args.location ?? event.location,
+        description: args.description ?? event.description,
+        attendees: args.attendees ? (args.attendees as string[]).map(parseAttendee) : event.attendees,
+        recurrence: args.recurrence ?? event.recurrence,
+    };
+}
+
+// Reads the occurrenceStart argument: the start of one occurrence, as getCalendarEvents gave it.
+const parseOccurrenceStart = (value: string | undefined) =>
+    value === undefined ? undefined : isDateOnly(value) ? getEventTime(value, true) : parseDateTime(value, getLocalTimeZone());
+
+// Before booking, the model is told about clashes and asked to check with the user.
+async function checkConflicts(event: CalendarEvent, allowConflicts: boolean | undefined): Promise<ToolResult | null> {
+    if (allowConflicts) return null;
+    const conflicts = await findConflicts(event);
+    if (conflicts.length === 0) return null;
+    return {
+        result: JSON.stringify({
+            success: false,
+            event: describeEventForModel(event),
+            message: `Nothing was saved: this overlaps ${conflicts.map(describeConflict).join(', ')}. Tell the user, suggest another time, and only call again with allowConflicts set to true if they still want it.`,
+            conflicts: conflicts.map(describeEventForModel),
+        }),
+    };
+}
+
+// The line for a result that may have stopped at a conflict.
+function renderCalendarChange(result: unknown, verb: string): string {
+    const parsed = JSON.parse(result as string);
+    if (parsed.conflicts) {
+        return `Didn't book "${parsed.event.title}": it clashes with ${parsed.conflicts.map((event: any) => `"${event.title}"`).join(', ')}`;
+    }
+    return `${verb} "${parsed.event.title}" ${describeEventTime(parsed.event.start, parsed.event.allDay)}`;
+}
+
+const getCalendarEventsTool: ToolDefinition = {
+    declaration: getCalendarEventsFunctionDeclaration,
+    label: 'Check your calendar',
+    privacy: 'private',
+    integration: 'calendar',
+    async execute(args) {
+        const events = await getCalendarEvents(parseCalendarRange(args));
+        return { result: JSON.stringify(events.map(describeEventForModel)) };
+    },
+    renderResult: result => `Checked ${plural(countItems(result), 'calendar event')}`,
+};
+
+const findFreeSlotsTool: ToolDefinition = {
+    declaration: findFreeSlotsFunctionDeclaration,
+    label: 'Find free time',
+    privacy: 'private',
+    integration: 'calendar',
+    async execute(args) {
+        if (!(args.durationMinutes > 0)) throw new Error('durationMinutes must be more than 0.');
+        const range = parseCalendarRange(args, Date.now(), DEFAULT_FREE_SLOT_DAYS);
+        // Slots in the past are no use
+        range.start = Math.max(range.start, Date.now());
+        const dayStart = parseTimeOfDay(args.earliest, DEFAULT_DAY_START);
+        const dayEnd = parseTimeOfDay(args.latest, DEFAULT_DAY_END);
+        if (dayEnd <= dayStart) throw new Error('latest must come after earliest.');
+        const timeZone = getLocalTimeZone();
+        const slots = range.end > range.start ? await findFreeSlots({
+            range,
+            durationMs: args.durationMinutes * 60000,
+            dayStart,
+            dayEnd,
+            weekdaysOnly: args.weekdaysOnly,
+            limit: args.limit,
+        }) : [];
+        return {
+            result: JSON.stringify(slots.map(slot => ({
+                start: formatZonedIso(slot.start, timeZone),
+                end: formatZonedIso(slot.end, timeZone),
+                minutes: Math.round((slot.end - slot.start) / 60000),
+            }))),
+        };
+    },
+    renderResult: result => `Found ${plural(countItems(result), 'free slot')}`,
+};
+
+// "14:30" as minutes after midnight; "24:00" is the end of the day.
+function parseTimeOfDay(value: string | undefined, fallback: number): number {
+    if (value === undefined) return fallback;
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+    if (!(minutes >= 0 && minutes <= 24 * 60)) throw new Error(`"${value}" is not a time of day. Use HH:MM, e.g. 09:00.`);
+    return minutes;
+}
+
+const createCalendarEventTool: ToolDefinition = {
+    declaration: createCalendarEventFunctionDeclaration,
+    label: 'Create a calendar event',
+    privacy: 'private',
+    integration: 'calendar',
+    sideEffects: true,
+    async execute(args) {
+        const event = buildCalendarEvent(args);
+        const conflict = await checkConflicts(event, args.allowConflicts);
+        if (conflict) return conflict;
+        await createCalendarEvent(event);
+        return { result: JSON.stringify({ success: true, event: describeEventForModel(event) }), undoData: event };
+    },
+    renderResult: result => renderCalendarChange(result, 'Added'),
+    preview: args => {
+        try {
+            const event = buildCalendarEvent(args);
+            return `Would add "${event.title}" to your calendar ${describeEventTime(event.start, event.allDay)}`;
+        } catch {
+            return `Would add "${args.title}" to your calendar`;
+        }
+    },
+    async undo(data) {
+        const event = data as CalendarEvent;
+        if ((await deleteCalendarEvent(event.id)).length === 0) {
+            throw new Error(`"${event.title}" is no longer in your calendar.`);
+        }
+        return `Removed "${event.title}" from your calendar`;
+    },
+};
+
+const updateCalendarEventTool: ToolDefinition = {
+    declaration: updateCalendarEventFunctionDeclaration,
+    label: 'Change a calendar event',
+    privacy: 'private',
+    integration: 'calendar',
+    sideEffects: true,
+    async execute(args) {
+        const { updated, events, previous } = await planCalendarUpdate(args.id, event => applyEventChanges(event, args), parseOccurrenceStart(args.occurrenceStart));
+        const conflict = await checkConflicts(updated, args.allowConflicts);
+        if (conflict) return conflict;
+        await saveCalendarEvents(events);
+        return { result: JSON.stringify({ success: true, event: describeEventForModel(updated) }), undoData: previous };
+    },
+    renderResult: result => renderCalendarChange(result, 'Updated'),
+    preview: args => args.start ? `Would move event ${args.id} to ${args.start}` : `Would change event ${args.id}`,
+    async undo(data) {
+        const previous = data as CalendarEvent[];
+        await saveCalendarEvents(previous);
+        return `Put "${previous[0].title}" back as it was`;
+    },
+};
+
+const deleteCalendarEventTool: ToolDefinition = {
+    declaration: deleteCalendarEventFunctionDeclaration,
+    label: 'Cancel a calendar event',
+    privacy: 'private',
+    integration: 'calendar',
+    sideEffects: true,
+    async execute(args) {
+        const previous = await deleteCalendarEvent(args.id, parseOccurrenceStart(args.occurrenceStart));
+        if (previous.length === 0) return { error: `There is no calendar event with the id "${args.id}".` };
+        return { result: JSON.stringify({ success: true, title: previous[0].title }), undoData: previous };
+    },
+    renderResult: (result, args) => {
+        const { title } = JSON.parse(result as string);
+        return args.occurrenceStart ? `Cancelled one "${title}" in your calendar` : `Removed "${title}" from your calendar`;
+    },
+    preview: args => args.occurrenceStart ? `Would cancel the ${args.occurrenceStart} occurrence of event ${args.id}` : `Would cancel event ${args.id}`,
+    async undo(data) {
+        const previous = data as CalendarEvent[];
+        await saveCalendarEvents(previous);
+        return `Put "${previous[0].title}" back in your calendar`;
+    },
+};
+
+// --- Wellbeing ---
+
+const DEFAULT_WELLBEING_DAYS = 7;
+const MAX_WELLBEING_RANGE_DAYS = 3 * 366;
+const MAX_CHART_DAYS = 366;
+// Past this many days the model gets weekly averages instead of every day
+const MAX_DAILY_WELLBEING_VALUES = 62;
+
+// The days asked for, inclusive: by default the week up to today.
+function parseWellbeingRange(args: Record<string, any>, maxDays: number): { start: string, end: string, days: number } {
+    for (const date of [args.start, args.end]) {
+        if (date && !isDateOnly(date)) throw new Error(`"${date}" is not a date; use YYYY-MM-DD.`);
+    }
+    const end: string = args.end ?? new Date().toLocaleDateString('en-CA');
+    const start: string = args.start ?? addDays(end, 1 - DEFAULT_WELLBEING_DAYS);
+    if (end < start) throw new Error('The end of the range must not come before its start.');
+    const days = Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS) + 1;
+    if (days > maxDays) throw new Error(`Ask for at most ${maxDays} days at a time.`);
+    return { start, end, days };
+}
+
+function parseWellbeingMetrics<T extends string>(requested: string[] | undefined, known: Record<T, unknown>, defaults: T[]): T[] {
+    if (!requested?.length) return defaults;
+    const unknown = requested.find(metric => !(metric in known));
+    if (unknown) throw new Error(`There is no wellbeing metric "${unknown}".`);
+    return requested as T[];
+}
+
+const describeMetrics = (series: { label: string }[]) => series.map(({ label }) => label.toLowerCase()).join(', ');
+
+const getWellbeingDataTool: ToolDefinition = {
+    declaration: getWellbeingDataFunctionDeclaration,
+    label: 'Read your wellbeing data',
+    privacy: 'private',
+    integration: 'wellbeing',
+    async execute(args) {
+        const metrics = parseWellbeingMetrics(args.metrics, WELLBEING_METRICS, ALL_WELLBEING_METRICS);
+        const { start, end, days } = parseWellbeingRange(args, MAX_WELLBEING_RANGE_DAYS);
+        const { series, source } = getWellbeingSeries();
+        const summaries = metrics.map(metric => {
+            const { days: values, ...summary } = summarizeMetric(series, metric, start, end);
+            return days > MAX_DAILY_WELLBEING_VALUES
+                ? { ...summary, weeklyAverages: getWeeklyAverages(values, start) }
+                : { ...summary, days: values };
+        });
+        return { result: JSON.stringify({ start, end, source, metrics: summaries }) };
+    },
+    renderResult: result => {
+        const { start, end, metrics } = JSON.parse(result as string);
+        return start === end ? `Read your ${describeMetrics(metrics)} for ${start}` : `Read your ${describeMetrics(metrics)} from ${start} to ${end}`;
+    },
+};
+
+// The chart goes to the user; the model only hears what it shows.
+const showWellbeingChartTool: ToolDefinition = {
+    declaration: showWellbeingChartFunctionDeclaration,
+    label: 'Chart your wellbeing data',
+    privacy: 'private',
+    integration: 'wellbeing',
+    async execute(args) {
+        const metrics = parseWellbeingMetrics(args.metrics, WELLBEING_CHART_METRICS, DEFAULT_CHART_METRICS);
+        const { start, end } = parseWellbeingRange(args, MAX_CHART_DAYS);
+        const { series, source } = getWellbeingSeries();
+        const chart = buildWellbeingChart(series, metrics, start, end, source);
+        const empty = chart.series.filter(({ points }) => points.length === 0).map(({ label }) => label);
+        return {
+            result: `The chart of ${describeMetrics(chart.series)} from ${start} to ${end} is shown to the user.${empty.length > 0 ? ` There is no data for: ${empty.join(', ')}.` : ''}`,
+            output: { wellbeingChart: chart },
+        };
+    },
+    renderResult: (_result, args) => `Charted your ${describeMetrics(parseWellbeingMetrics(args.metrics, WELLBEING_CHART_METRICS, DEFAULT_CHART_METRICS).map(metric => WELLBEING_CHART_METRICS[metric]))}`,
+};
+
+// --- Smart home ---
+
+const DEFAULT_HISTORY_HOURS = 24;
+const MAX_HISTORY_DAYS = 31;
+// The most recent changes the model is given
+const MAX_HISTORY_ENTRIES = 200;
+
+const getSmartHomeStatusTool: ToolDefinition = {
+    declaration: getSmartHomeStatusFunctionDeclaration,
+    label: 'Check your smart home',
+    privacy: 'private',
+    integration: 'smarthome',
+    execute: async () => ({ result: JSON.stringify(await getSmartHomeDevices()) }),
+    renderResult: result => `Checked ${plural(countItems(result), 'device')}`,
+};
+
+// Each device is its own consent scope; locks, thermostats and covers are asked about every time.
+const setDeviceStateTool: ToolDefinition = {
+    declaration: setDeviceStateFunctionDeclaration,
+    label: 'Control a device',
+    privacy: 'private',
+    integration: 'smarthome',
+    sideEffects: true,
+    alwaysAsk: args => isSensitiveDevice(args.id),
+    consentAccounts: args => [args.id],
+    async execute({ id, ...command }) {
+        const { previous, device } = await setDeviceState(id, command);
+        return { result: JSON.stringify(device), undoData: previous };
+    },
+    renderResult: result => {
+        const device: SmartHomeDevice = JSON.parse(result as string);
+        return `Set ${device.name} to ${describeState(device)}`;
+    },
+    preview: ({ id, ...command }) => `Would set ${id} to ${describeCommand(command)}`,
+    async undo(data) {
+        const previous = data as SmartHomeDevice;
+        await setDeviceState(previous.id, getRestoreCommand(previous));
+        return `Put ${previous.name} back to ${describeState(previous)}`;
+    },
+};
+
+// Scenes can't be undone: the hub doesn't keep what the devices were before.
+const activateSceneTool: ToolDefinition = {
+    declaration: activateSceneFunctionDeclaration,
+    label: 'Activate a scene',
+    privacy: 'private',
+    integration: 'smarthome',
+    sideEffects: true,
+    alwaysAsk: args => isSensitiveScene(args.id),
+    consentAccounts: args => [args.id],
+    async execute(args) {
+        const scene = await activateScene(args.id);
+        return { result: JSON.stringify({ success: true, scene: scene.name }) };
+    },
+    renderResult: result => `Activated ${JSON.parse(result as string).scene}`,
+    preview: args => `Would activate ${args.id}`,
+};
+
+// Times are ISO 8601 or dates in the user's zone; an end date includes that whole day.
+function parseHistoryRange(args: Record<string, any>): SmartHomeRange {
+    const timeZone = getLocalTimeZone();
+    const end = args.end ? parseDateTime(isDateOnly(args.end) ? addDays(args.end, 1) : args.end, timeZone) : Date.now();
+    const start = args.start ? parseDateTime(args.start, timeZone) : end - DEFAULT_HISTORY_HOURS * 60 * 60 * 1000;
+    if (end <= start) throw new Error('The end of the period must come after its start.');
+    if (end - start > MAX_HISTORY_DAYS * DAY_MS) throw new Error(`Ask for at most ${MAX_HISTORY_DAYS} days at a time.`);
+    return { start, end };
+}
+
+const getDeviceHistoryTool: ToolDefinition = {
+    declaration: getDeviceHistoryFunctionDeclaration,
+    label: 'Read device history',
+    privacy: 'private',
+    integration: 'smarthome',
+    async execute(args) {
+        const { device, history } = await getDeviceHistory(args.id, parseHistoryRange(args));
+        const timeZone = getLocalTimeZone();
+        return {
+            result: JSON.stringify({
+                device: device.name,
+                unit: device.unit,
+                changes: history.slice(-MAX_HISTORY_ENTRIES).map(entry => ({ time: formatZonedIso(Date.parse(entry.time), timeZone), state: entry.state })),
+                truncated: history.length > MAX_HISTORY_ENTRIES || undefined,
+            }),
+        };
+    },
+    renderResult: result => {
+        const { device, changes } = JSON.parse(result as string);
+        return `Read ${plural(changes.length, 'state change')} of ${device}`;
+    },
+};
+
+// --- Tasks ---
+
+// The most tasks listTasks hands the model
+const MAX_LISTED_TASKS = 100;
+
+const describeTaskForModel = (task: Task) => ({ ...task, overdue: isOverdue(task) || undefined });
+
+const createTaskTool: ToolDefinition = {
+    declaration: createTaskFunctionDeclaration,
+    label: 'Add a task',
+    privacy: 'private',
+    integration: 'tasks',
+    sideEffects: true,
+    async execute({ title, due, priority, project, notes }) {
+        const task = createTask({ title, due, priority, project, notes });
+        return { result: JSON.stringify({ success: true, task }), undoData: task };
+    },
+    renderResult: result => `Added "${JSON.parse(result as string).task.title}" to your tasks`,
+    preview: args => `Would add "${args.title}" to your tasks${args.due ? `, due ${args.due}` : ''}`,
+    async undo(data) {
+        const task = data as Task;
+        if (!deleteTask(task.id)) throw new Error(`"${task.title}" is no longer in your tasks.`);
+        return `Removed "${task.title}" from your tasks`;
+    },
+};
+
+const listTasksTool: ToolDefinition = {
+    declaration: listTasksFunctionDeclaration,
+    label: 'Check your tasks',
+    privacy: 'private',
+    integration: 'tasks',
+    async execute({ status, project, dueBy, query }) {
+        if (dueBy && !isDateOnly(dueBy)) throw new Error(`"${dueBy}" is not a date. Use YYYY-MM-DD.`);
+        const tasks = listTasks({ status, project, dueBy, query });
+        return {
+            result: JSON.stringify({
+                tasks: tasks.slice(0, MAX_LISTED_TASKS).map(describeTaskForModel),
+                truncated: tasks.length > MAX_LISTED_TASKS || undefined,
+            }),
+        };
+    },
+    renderResult: result => `Checked ${plural(JSON.parse(result as string).tasks.length, 'task')}`,
+};
+
+const completeTaskTool: ToolDefinition = {
+    declaration: completeTaskFunctionDeclaration,
+    label: 'Complete a task',
+    privacy: 'private',
+    integration: 'tasks',
+    sideEffects: true,
+    async execute({ id, completed }) {
+        const { previous, task } = completeTask(id, completed !== false);
+        return { result: JSON.stringify({ success: true, task }), undoData: previous };
+    },
+    renderResult: result => {
+        const { task } = JSON.parse(result as string);
+        return task.completedAt ? `Completed "${task.title}"` : `Reopened "${task.title}"`;
+    },
+    preview: args => args.completed === false ? `Would reopen task ${args.id}` : `Would mark task ${args.id} as done`,
+    async undo(data) {
+        const previous = data as Task;
+        saveTask(previous);
+        return `Put "${previous.title}" back as it was`;
+    },
+};
+
+const updateTaskTool: ToolDefinition = {
+    declaration: updateTaskFunctionDeclaration,
+    label: 'Change a task',
+    privacy: 'private',
+    integration: 'tasks',
+    sideEffects: true,
+    async execute({ id, title, due, priority, project, notes }) {
+        const { previous, task } = updateTask(id, { title, due, priority, project, notes });
+        return { result: JSON.stringify({ success: true, task: describeTaskForModel(task) }), undoData: previous };
+    },
+    renderResult: result => `Updated "${JSON.parse(result as string).task.title}"`,
+    preview: args => args.due ? `Would make task ${args.id} due ${args.due}` : `Would change task ${args.id}`,
+    async undo(data) {
+        const previous = data as Task;
+        saveTask(previous);
+        return `Put "${previous.title}" back as it was`;
+    },
+};
+
+// --- Location and memory ---
+
+// Asks the browser, which prompts the user for permission itself.
+const requestLocationTool: ToolDefinition = {
+    declaration: requestLocationFunctionDeclaration,
+    label: 'Get your location',
+    privacy: 'public',
+    execute: async () => ({ result: JSON.stringify(await getUserLocation()) }),
+    renderResult: () => 'Used your location',
+};
+
+const rememberFactTool: ToolDefinition = {
+    declaration: rememberFactFunctionDeclaration,
+    label: 'Remember a fact',
+    privacy: 'public',
+    sideEffects: true,
+    async execute(args, { onFactLearned }) {
+        onFactLearned?.(args.fact as string);
+        return { result: "Fact remembered successfully." };
+    },
+    renderResult: (_result, args) => `Remembered: ${args.fact}`,
+    preview: args => `Would remember: ${args.fact}`,
+};
+
+// --- Media generation ---
+
+const generateImageTool: ToolDefinition = {
+    declaration: generateImageFunctionDeclaration,
+    label: 'Generate an image',
+    privacy: 'public',
+    capability: 'generateImage',
+    async execute(args, { provider, signal, onUsage }) {
+        const aspectRatio = args.aspectRatio as ImageAspectRatio;
+        try {
+            // Wrapped in retry
+            const image = await retryWithBackoff(() => provider.generateImage!({ prompt: args.prompt as string, aspectRatio: aspectRatio || '1:1' }, signal), signal);
+            if (image.usage) onUsage?.(image.usage);
+            return { result: `Successfully generated image.`, output: { generatedImage: image.dataUrl } };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error("Error generating image:", error);
+            if (error instanceof BillingProjectRequiredError) {
+                return {
+                    error: error.message,
+                    finalResponse: {
+                        text: "To generate images, you need to select a billing project. Please use the button above to configure your project.",
+                        requiresBillingProject: true,
+                    },
+                };
+            }
+            return { error: (error as Error).message };
+        }
+    },
+    renderResult: () => 'Generated an image',
+};
+
+const editImageTool: ToolDefinition = {
+    declaration: editImageFunctionDeclaration,
+    label: 'Edit an image',
+    privacy: 'public',
+    capability: 'editImage',
+    async execute(args, { provider, history, signal, onUsage }) {
+        // Edits the last image the user sent
+        const image = findLastUserImage(history);
+        if (!image) {
+            return {
+                error: "No image to edit.",
+                finalResponse: { text: "I'm sorry, I couldn't find an image to edit. Please upload one first." },
+            };
+        }
+        try {
+            const imagePart = getMediaPart(image);
+            if (!imagePart) throw new Error("Invalid image format for editing.");
+
+            // Wrapped in retry
+            const edited = await retryWithBackoff(() => provider.editImage!({ image: imagePart, prompt: args.prompt as string }, signal), signal);
+            if (edited.usage) onUsage?.(edited.usage);
+            return { result: "Successfully edited the image.", output: { generatedImage: edited.dataUrl } };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error("Error editing image:", error);
+            return { error: (error as Error).message };
+        }
+    },
+    renderResult: () => 'Edited your image',
+};
+
+const generateVideoTool: ToolDefinition = {
+    declaration: generateVideoFunctionDeclaration,
+    label: 'Generate a video',
+    privacy: 'public',
+    capability: 'generateVideo',
+    async execute(args, { provider, history, signal, onUsage }) {
+        const aspectRatio = args.aspectRatio as VideoAspectRatio;
+        const imageToAnimate = args.image as string | undefined; // Assuming AI might pass this if it decides to animate
+        const imageSource = imageToAnimate || findLastUserImage(history);
+        const imagePart = imageSource ? getMediaPart(imageSource) ?? undefined : undefined;
+
+        try {
+            // Wrapped in retry
+            const operation = await retryWithBackoff(() => provider.generateVideo!({
+                prompt: args.prompt as string,
+                aspectRatio: aspectRatio || '16:9',
+                image: imagePart,
+            }, signal), signal);
+            if (operation.usage) onUsage?.(operation.usage);
+            return {
+                result: `Starting video generation. This may take a few minutes.`,
+                output: { generatedVideo: { state: 'generating', operationName: operation.operationName } },
+            };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            if (error instanceof BillingProjectRequiredError) {
+                return {
+                    error: error.message,
+                    finalResponse: {
+                        text: "To generate a video, you first need to select a project. Please click the 'Select Project' button to continue.",
+                        requiresBillingProject: true,
+                    },
+                };
+            }
+            console.error("Error starting video generation:", error);
+            return { error: (error as Error).message };
+        }
+    },
+    renderResult: () => 'Started generating a video',
+};
+
+// In the order they are declared to the model.
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+    requestPermissionTool,
+    getEmailsTool,
+    draftEmailTool,
+    replyToEmailTool,
+    sendEmailTool,
+    getCalendarEventsTool,
+    createCalendarEventTool,
+    updateCalendarEventTool,
+    deleteCalendarEventTool,
+    findFreeSlotsTool,
+    getWellbeingDataTool,
+    showWellbeingChartTool,
+    getSmartHomeStatusTool,
+    setDeviceStateTool,
+    activateSceneTool,
+    getDeviceHistoryTool,
+    createTaskTool,
+    listTasksTool,
+    completeTaskTool,
+    updateTaskTool,
+    generateImageTool,
+    editImageTool,
+    generateVideoTool,
+    useGoogleSearchTool,
+    useGoogleMapsTool,
+    requestLocationTool,
+    rememberFactTool,
+];
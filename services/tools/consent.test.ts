@@ -0,0 +1,56 @@
+import { Type } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { type ConsentRule, type ServiceIntegration } from '../../types';
+import { checkConsent } from './consent';
+import { type ToolContext, type ToolDefinition } from './types';
+
+const searchEmails: ToolDefinition = {
+    declaration: { name: 'searchEmails', parameters: { type: Type.OBJECT, properties: { accountIds: { type: Type.ARRAY, items: { type: Type.STRING } } } } },
+    label: 'Search email',
+    privacy: 'private',
+    consentAccounts: args => args.accountIds ?? [],
+    execute: async () => ({ result: [] }),
+};
+
+// Asks every time it sends, but can be refused for good
+const sendEmail: ToolDefinition = { ...searchEmails, declaration: { name: 'sendEmail' }, label: 'Send email', alwaysAsk: true, consentAccounts: undefined };
+
+const rule = (fields: Partial<ConsentRule>): ConsentRule => ({ id: 'rule', toolName: 'searchEmails', effect: 'allow', createdAt: 0, ...fields });
+
+const context = (consentRules: ConsentRule[], extra: Partial<ToolContext> = {}) =>
+    ({ connections: [] as ServiceIntegration[], consentRules, sessionId: 'chat-1', ...extra }) as ToolContext;
+
+describe('checkConsent', () => {
+    it('lets public tools and approved calls through', () => {
+        expect(checkConsent({ ...searchEmails, privacy: 'public' }, {}, context([]))).toBeUndefined();
+        expect(checkConsent(searchEmails, {}, context([], { consentGranted: true }))).toBeUndefined();
+    });
+
+    it('asks about each account the call reads that has no rule', () => {
+        const prompt = checkConsent(searchEmails, { accountIds: ['work', 'home'] }, context([rule({ account: 'work' })]));
+        expect(prompt?.finalResponse).toMatchObject({
+            text: 'May I search email (work, home)?',
+            requiresConsent: true,
+            action: { toolName: 'searchEmails', toolArgs: { accountIds: ['work', 'home'] } },
+            consentScopes: [{ toolName: 'searchEmails', account: 'work' }, { toolName: 'searchEmails', account: 'home' }],
+        });
+        expect(checkConsent(searchEmails, { accountIds: ['work'] }, context([rule({ account: 'work' })]))).toBeUndefined();
+    });
+
+    it('tells the model about a refusal instead of asking again', () => {
+        const result = checkConsent(searchEmails, { accountIds: ['work'] }, context([rule({ account: 'work', effect: 'deny' })]));
+        expect(result?.error).toMatch(/has not allowed you to search email \(work\)/);
+    });
+
+    it('only lets remembered refusals decide for tools that ask every time', () => {
+        expect(checkConsent(sendEmail, {}, context([rule({ toolName: 'sendEmail' })]))?.finalResponse?.requiresConsent).toBe(true);
+        expect(checkConsent(sendEmail, {}, context([rule({ toolName: 'sendEmail', effect: 'deny' })]))?.error).toBeDefined();
+    });
+
+    it('asks every time only for the calls alwaysAsk picks', () => {
+        const sendsOutside = { ...sendEmail, alwaysAsk: (args: Record<string, any>) => args.external === true };
+        const rules = [rule({ toolName: 'sendEmail' })];
+        expect(checkConsent(sendsOutside, { external: false }, context(rules))).toBeUndefined();
+        expect(checkConsent(sendsOutside, { external: true }, context(rules))?.finalResponse?.requiresConsent).toBe(true);
+    });
+});
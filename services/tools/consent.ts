@@ -0,0 +1,44 @@
+import { type ConsentScope, type ServiceIntegration } from '../../types';
+import { evaluateConsent } from '../consentService';
+import { type ToolContext, type ToolDefinition, type ToolResult } from './types';
+
+/**
+ * What a call would access: one scope per account for tools that read accounts, otherwise the tool as a whole.
+ */
+export function getConsentScopes(tool: ToolDefinition, args: Record<string, any>, connections: ServiceIntegration[]): ConsentScope[] {
+    const toolName = tool.declaration.name!;
+    const accounts = tool.consentAccounts?.(args, connections) ?? [];
+    return accounts.length > 0 ? accounts.map(account => ({ toolName, account })) : [{ toolName }];
+}
+
+// Whether this call needs the user's approval even when they allowed the tool before.
+export function asksEveryTime(tool: ToolDefinition, args: Record<string, any>): boolean {
+    return typeof tool.alwaysAsk === 'function' ? tool.alwaysAsk(args) : !!tool.alwaysAsk;
+}
+
+/**
+ * Enforces the consent policy for private tools. Returns nothing when the call may run, an error
+ * when the user refused it, or a consent prompt that ends the request when they haven't decided yet.
+ */
+export function checkConsent(tool: ToolDefinition, args: Record<string, any>, context: ToolContext): ToolResult | undefined {
+    if (tool.privacy !== 'private' || context.consentGranted) return undefined;
+    const scopes = getConsentScopes(tool, args, context.connections);
+    const accounts = scopes.filter(s => s.account).map(s => s.account).join(', ');
+    const target = `${tool.label.toLowerCase()}${accounts ? ` (${accounts})` : ''}`;
+    const rules = (context.consentRules ?? []).filter(rule => !asksEveryTime(tool, args) || rule.effect === 'deny');
+    switch (evaluateConsent(rules, scopes, context.sessionId)) {
+        case 'allow':
+            return undefined;
+        case 'deny':
+            return { error: `The user has not allowed you to ${target}. Do not ask again; continue without it.` };
+        case 'ask':
+            return {
+                finalResponse: {
+                    text: `May I ${target}?`,
+                    requiresConsent: true,
+                    action: { toolName: tool.declaration.name!, toolArgs: args },
+                    consentScopes: scopes,
+                },
+            };
+    }
+}
@@ -0,0 +1,170 @@
+import { type FunctionDeclaration } from '@google/genai';
+import { type AuditConsent, type ServiceIntegration, type ServiceName, type ToolActivity } from '../../types';
+import { getProvider, type LlmProvider } from '../providers';
+import { abortable } from '../resilienceService';
+import { createAuditEntry } from '../auditService';
+import { type ToolDefinition, type ToolContext, type ToolResult } from './types';
+import { registerTool, getTool, getTools } from './registry';
+import { BUILTIN_TOOLS } from './builtinTools';
+import { validateArguments } from './validation';
+import { checkConsent } from './consent';
+
+export * from './types';
+export { registerTool, getTool, getTools, getToolsForIntegration } from './registry';
+export { validateArguments, type ArgumentError } from './validation';
+export { getConsentScopes, asksEveryTime } from './consent';
+
+BUILTIN_TOOLS.forEach(registerTool);
+
+// How long Undo is offered for tools that don't set their own window.
+export const DEFAULT_UNDO_WINDOW_MS = 5 * 60 * 1000;
+
+function isIntegrationConnected(connections: ServiceIntegration[], integration: ServiceName): boolean {
+    return connections.some(c => c.id === integration && c.connected);
+}
+
+// Why the tool can't run right now, if it can't.
+function getUnavailableReason(tool: ToolDefinition, provider: LlmProvider, connections: ServiceIntegration[]): string | undefined {
+    if (tool.capability && !provider[tool.capability]) {
+        return `${tool.declaration.name} is not available with the current AI backend.`;
+    }
+    if (tool.integration && !isIntegrationConnected(connections, tool.integration)) {
+        return `${tool.declaration.name} needs the ${tool.integration} connection, which is turned off.`;
+    }
+    return undefined;
+}
+
+/**
+ * Returns the declarations of the tools that can run with this provider and these connections,
+ * so the model is never offered a tool it can't use.
+ */
+export function getToolDeclarations(provider: LlmProvider, connections: ServiceIntegration[]): FunctionDeclaration[] {
+    return getTools()
+        .filter(tool => !getUnavailableReason(tool, provider, connections))
+        .map(tool => tool.declaration);
+}
+
+// How consent stood for a call that got past the consent check, or was stopped by it.
+function getAuditConsent(tool: ToolDefinition, context: ToolContext, consentResult: ToolResult | undefined): AuditConsent {
+    if (tool.privacy !== 'private') return 'not-required';
+    if (context.consentGranted) return 'granted';
+    if (!consentResult) return 'remembered';
+    return consentResult.finalResponse?.requiresConsent ? 'requested' : 'denied';
+}
+
+async function executeTool(name: string, args: Record<string, any>, context: ToolContext): Promise<{ result: ToolResult, consent: AuditConsent, durationMs?: number }> {
+    const tool = getTool(name);
+    if (!tool) {
+        console.warn(`Function ${name} not found.`);
+        return { result: { error: `Function ${name} not found.` }, consent: 'not-required' };
+    }
+    const unavailable = getUnavailableReason(tool, context.provider, context.connections);
+    if (unavailable) {
+        console.warn(unavailable);
+        return { result: { error: unavailable }, consent: 'not-required' };
+    }
+    const invalidArguments = validateArguments(tool.declaration.parameters, args);
+    if (invalidArguments.length > 0) {
+        console.warn(`Invalid arguments for ${name}:`, invalidArguments);
+        return { result: { error: `Invalid arguments for ${name}. Fix them and call it again.`, invalidArguments }, consent: 'not-required' };
+    }
+    const consentResult = checkConsent(tool, args, context);
+    const consent = getAuditConsent(tool, context, consentResult);
+    if (consentResult) {
+        return { result: consentResult, consent };
+    }
+    if (context.dryRun && tool.sideEffects) {
+        return { result: { result: `Dry run, nothing was changed: ${describePreview(tool, args)}. Tell the user this was only a preview.`, dryRun: true }, consent };
+    }
+    const startedAt = Date.now();
+    try {
+        const result = await abortable(tool.execute(args, context), context.signal);
+        return { result, consent, durationMs: Date.now() - startedAt };
+    } catch (error) {
+        if (context.signal?.aborted) throw error;
+        console.error(`Error executing tool ${name}:`, error);
+        return { result: { error: (error as Error).message || "Failed to execute function." }, consent, durationMs: Date.now() - startedAt };
+    }
+}
+
+/**
+ * Runs a tool by name, after checking its arguments against the declaration and, for private
+ * tools, the user's consent. Unknown or unavailable tools, invalid arguments, denied consent and
+ * failed executions come back as an `error` for the model, so it can correct the call or tell the
+ * user; only an abort is thrown. A call that needs consent ends the request with a consent prompt.
+ * Every call except an aborted one is reported to `context.onAudit`.
+ */
+export async function runTool(name: string, args: Record<string, any>, context: ToolContext): Promise<ToolResult> {
+    const { result, consent, durationMs } = await executeTool(name, args, context);
+    context.onAudit?.(createAuditEntry({
+        sessionId: context.sessionId,
+        toolName: name,
+        args,
+        consent,
+        // Failed calls are described by their error, and a call waiting for the user has no outcome yet
+        summary: result.error === undefined && consent !== 'requested' ? describeToolResult(name, args, result).summary : undefined,
+        error: result.error,
+        durationMs,
+        dryRun: result.dryRun,
+    }));
+    return result;
+}
+
+/**
+ * Runs a tool the user started from the interface, such as a draft's Send button. Pressing the
+ * button is their approval, so consent isn't asked again; everything else is checked as usual.
+ */
+export function runUserTool(name: string, args: Record<string, any>, context: Omit<ToolContext, 'provider' | 'history' | 'userParts' | 'consentGranted'>): Promise<ToolResult> {
+    return runTool(name, args, { ...context, provider: getProvider(), history: [], userParts: [], consentGranted: true });
+}
+
+function describePreview(tool: ToolDefinition, args: Record<string, any>): string {
+    return tool.preview?.(args) ?? `Would ${tool.label.charAt(0).toLowerCase()}${tool.label.slice(1)}`;
+}
+
+// What to show under the answer for a tool call that ran, with Undo for tools that have an inverse.
+export function describeToolResult(name: string, args: Record<string, any>, result: ToolResult, now = Date.now()): ToolActivity {
+    const tool = getTool(name);
+    if (result.error !== undefined) {
+        return { toolName: name, summary: `${tool?.label ?? name} failed`, failed: true };
+    }
+    if (result.dryRun && tool) {
+        return { toolName: name, summary: describePreview(tool, args), dryRun: true };
+    }
+    const activity: ToolActivity = { toolName: name, summary: tool?.renderResult?.(result.result, args) ?? tool?.label ?? name };
+    if (tool?.undo && result.undoData !== undefined) {
+        activity.undo = { data: result.undoData, expiresAt: now + (tool.undoWindowMs ?? DEFAULT_UNDO_WINDOW_MS) };
+    }
+    return activity;
+}
+
+/**
+ * Reverts a tool call shown under an answer, using the tool's inverse. Throws when the call
+ * can't be undone, e.g. because its undo window has closed. The undo is reported to `onAudit`.
+ */
+export async function undoToolCall(activity: ToolActivity, { sessionId, onAudit }: Pick<ToolContext, 'sessionId' | 'onAudit'> = {}): Promise<string> {
+    const tool = getTool(activity.toolName);
+    if (!tool?.undo || !activity.undo || activity.undone) {
+        throw new Error(`"${activity.summary}" can't be undone.`);
+    }
+    if (Date.now() > activity.undo.expiresAt) {
+        throw new Error(`It's too late to undo "${activity.summary}".`);
+    }
+    // Asked for by the user directly, so no consent check
+    const audit = (fields: { summary?: string, error?: string }) => onAudit?.(createAuditEntry({
+        sessionId,
+        toolName: activity.toolName,
+        args: { undo: activity.undo!.data },
+        consent: tool.privacy === 'private' ? 'granted' : 'not-required',
+        ...fields,
+    }));
+    try {
+        const summary = await tool.undo(activity.undo.data);
+        audit({ summary });
+        return summary;
+    } catch (error) {
+        console.error(`Error undoing ${activity.toolName}:`, error);
+        audit({ error: (error as Error).message });
+        throw error;
+    }
+}
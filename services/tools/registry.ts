@@ -0,0 +1,24 @@
+import { type ServiceName } from '../../types';
+import { type ToolDefinition } from './types';
+
+// Every tool the model may be offered, keyed by name, in the order they are declared to it.
+const registry = new Map<string, ToolDefinition>();
+
+/**
+ * Adds a tool, or replaces the one with the same name.
+ */
+export function registerTool(tool: ToolDefinition): void {
+    registry.set(tool.declaration.name!, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+    return registry.get(name);
+}
+
+export function getTools(): ToolDefinition[] {
+    return [...registry.values()];
+}
+
+export function getToolsForIntegration(integration: ServiceName): ToolDefinition[] {
+    return getTools().filter(tool => tool.integration === integration);
+}
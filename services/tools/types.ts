@@ -0,0 +1,81 @@
+import { type FunctionDeclaration, type Part } from '@google/genai';
+import { type AiResponse, type AuditEntry, type ChatMessage, type ConsentRule, type ServiceIntegration, type ServiceName, type UsageEntry } from '../../types';
+import { type LlmProvider } from '../providers';
+import { type ArgumentError } from './validation';
+
+// 'private' tools read or change the user's personal data and need their consent first.
+export type ToolPrivacy = 'public' | 'private';
+
+// What a tool can use while it runs.
+export interface ToolContext {
+    provider: LlmProvider;
+    connections: ServiceIntegration[];
+    // The conversation so far, including the message being answered
+    history: ChatMessage[];
+    // The parts of the message being answered, for tools that re-ask the question elsewhere
+    userParts: Part[];
+    signal?: AbortSignal;
+    onUsage?: (usage: UsageEntry) => void;
+    // Passes a fact to remember back to the app's long-term memory
+    onFactLearned?: (fact: string) => void;
+    // The user's remembered consent decisions, checked before private tools run
+    consentRules?: ConsentRule[];
+    // The chat being answered, for decisions that only hold in one chat
+    sessionId?: string;
+    // Set when the user has just approved this very call
+    consentGranted?: boolean;
+    // Called with the audit log entry of every call, whether it ran or not
+    onAudit?: (entry: AuditEntry) => void;
+    // Tools with side effects describe what they would do instead of doing it
+    dryRun?: boolean;
+}
+
+// What running a tool produced.
+export interface ToolResult {
+    // Sent back to the model as the function response
+    result?: unknown;
+    error?: string;
+    // Set with `error` when the arguments don't match the declaration, one entry per problem
+    invalidArguments?: ArgumentError[];
+    // Media or other output to attach to the final AI message
+    output?: Partial<AiResponse>;
+    // Ends the request immediately with this response, without replying to the model
+    finalResponse?: AiResponse;
+    // Set when a tool with side effects was only previewed
+    dryRun?: boolean;
+    // For tools with an inverse, what it needs to revert this call
+    undoData?: unknown;
+}
+
+/**
+ * A tool the model can call. The declaration is what the model sees; everything
+ * else tells the assistant when the tool is available and how to run it.
+ */
+export interface ToolDefinition {
+    declaration: FunctionDeclaration;
+    // Short user-facing name, e.g. "Read emails"
+    label: string;
+    privacy: ToolPrivacy;
+    // The connection the tool reads from; it is only offered while that connection is on
+    integration?: ServiceName;
+    // The provider capability the tool relies on; it is only offered when the provider has it
+    capability?: keyof LlmProvider;
+    // Runs on its own: when the model calls it, the other calls of the turn are dropped
+    exclusive?: boolean;
+    // Changes something outside the conversation, so dry-run mode previews it instead
+    sideEffects?: boolean;
+    // What a call would do, shown in dry-run mode, e.g. "Would add ..."
+    preview?(args: Record<string, any>): string;
+    // Reverts a call from the `undoData` it returned, and describes what was reverted
+    undo?(data: unknown): Promise<string>;
+    // How long after the call Undo is offered; defaults to DEFAULT_UNDO_WINDOW_MS
+    undoWindowMs?: number;
+    // For private tools: remembered allows are ignored, so every call needs the user's approval.
+    // A function decides per call, e.g. only for the devices that guard the home.
+    alwaysAsk?: boolean | ((args: Record<string, any>) => boolean);
+    // For private tools, the accounts a call would access, so consent can be given per account
+    consentAccounts?(args: Record<string, any>, connections: ServiceIntegration[]): string[];
+    execute(args: Record<string, any>, context: ToolContext): Promise<ToolResult>;
+    // One-line description of a successful result, shown under the answer. Defaults to the label.
+    renderResult?(result: unknown, args: Record<string, any>): string;
+}
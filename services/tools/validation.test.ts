@@ -0,0 +1,61 @@
+import { Type, type Schema } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { validateArguments } from './validation';
+
+const parameters: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        count: { type: Type.INTEGER },
+        ratio: { type: Type.NUMBER },
+        urgent: { type: Type.BOOLEAN },
+        aspectRatio: { type: Type.STRING, enum: ['16:9', '9:16'] },
+        accountIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+        range: {
+            type: Type.OBJECT,
+            properties: { start: { type: Type.STRING }, end: { type: Type.STRING, nullable: true } },
+            required: ['start'],
+        },
+    },
+    required: ['title'],
+};
+
+const paths = (args: unknown) => validateArguments(parameters, args).map(error => error.path);
+
+describe('validateArguments', () => {
+    it('accepts arguments that match, and properties the schema does not describe', () => {
+        expect(validateArguments(parameters, {
+            title: 'Plan', count: 2, ratio: 0.5, urgent: false, aspectRatio: '9:16',
+            accountIds: ['work'], range: { start: '2026-10-19', end: null }, extra: { anything: true },
+        })).toEqual([]);
+    });
+
+    it('reports missing required fields, also in nested objects', () => {
+        expect(validateArguments(parameters, { range: {} })).toEqual([
+            { path: 'title', message: '"title" is required.' },
+            { path: 'range.start', message: '"range.start" is required.' },
+        ]);
+    });
+
+    it('checks each type', () => {
+        expect(paths({ title: 3, count: 1.5, ratio: NaN, urgent: 'yes', range: [] })).toEqual(['title', 'count', 'ratio', 'urgent', 'range']);
+        expect(validateArguments(parameters, { title: 'Plan', urgent: 'yes' })[0].message).toBe('"urgent" must be true or false.');
+    });
+
+    it('checks enums and every array item by index', () => {
+        expect(validateArguments(parameters, { title: 'Plan', aspectRatio: '4:3', accountIds: ['work', 7] })).toEqual([
+            { path: 'aspectRatio', message: `"aspectRatio" must be one of '16:9', '9:16'.` },
+            { path: 'accountIds[1]', message: '"accountIds[1]" must be a string.' },
+        ]);
+    });
+
+    it('only lets null through where the schema allows it', () => {
+        expect(paths({ title: null })).toEqual(['title']);
+        expect(paths({ title: 'Plan', range: { start: '2026-10-19', end: null } })).toEqual([]);
+    });
+
+    it('reports arguments that are not an object, and accepts anything without a schema', () => {
+        expect(validateArguments(parameters, 'Plan')).toEqual([{ path: '', message: 'The arguments must be an object.' }]);
+        expect(validateArguments(undefined, 'Plan')).toEqual([]);
+    });
+});
@@ -0,0 +1,69 @@
+import { Type, type Schema } from '@google/genai';
+
+// A single problem with the arguments of a tool call, reported back to the model so it can retry.
+export interface ArgumentError {
+    path: string; // e.g. "aspectRatio" or "accountIds[1]"; empty for the arguments object itself
+    message: string;
+}
+
+const describePath = (path: string) => path ? `"${path}"` : 'The arguments';
+
+function checkType(schema: Schema, value: unknown): string | undefined {
+    switch (schema.type) {
+        case Type.STRING:
+            return typeof value === 'string' ? undefined : 'must be a string';
+        case Type.NUMBER:
+            return typeof value === 'number' && isFinite(value) ? undefined : 'must be a number';
+        case Type.INTEGER:
+            return Number.isInteger(value) ? undefined : 'must be an integer';
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? undefined : 'must be true or false';
+        case Type.ARRAY:
+            return Array.isArray(value) ? undefined : 'must be an array';
+        case Type.OBJECT:
+            return typeof value === 'object' && value !== null && !Array.isArray(value) ? undefined : 'must be an object';
+        default:
+            return undefined;
+    }
+}
+
+function validateValue(schema: Schema, value: unknown, path: string, errors: ArgumentError[]) {
+    if (value === null && schema.nullable) return;
+    const typeError = checkType(schema, value);
+    if (typeError) {
+        errors.push({ path, message: `${describePath(path)} ${typeError}.` });
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value as string)) {
+        errors.push({ path, message: `${describePath(path)} must be one of ${schema.enum.map(v => `'${v}'`).join(', ')}.` });
+    }
+    if (schema.type === Type.ARRAY && schema.items) {
+        (value as unknown[]).forEach((item, i) => validateValue(schema.items!, item, `${path}[${i}]`, errors));
+    }
+    if (schema.type === Type.OBJECT) {
+        const object = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (object[key] === undefined) {
+                errors.push({ path: path ? `${path}.${key}` : key, message: `${describePath(path ? `${path}.${key}` : key)} is required.` });
+            }
+        }
+        // Properties the schema doesn't describe are passed through unchecked
+        for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+            if (object[key] !== undefined) {
+                validateValue(propertySchema, object[key], path ? `${path}.${key}` : key, errors);
+            }
+        }
+    }
+}
+
+/**
+ * Checks tool call arguments against the declared parameter schema: required fields,
+ * types, array items and enums. Returns every problem found, or an empty list.
+ */
+export function validateArguments(parameters: Schema | undefined, args: unknown): ArgumentError[] {
+    const errors: ArgumentError[] = [];
+    if (parameters) {
+        validateValue(parameters, args, '', errors);
+    }
+    return errors;
+}
@@ -0,0 +1,108 @@
+import { type ChatSession, type ModelPrice, type PriceTable, type UsageEntry } from '../types';
+
+const PRICE_TABLE_KEY = 'jarvis-price-table';
+
+// Published list prices in USD at the time of writing. They are estimates only
+// and can be edited from the usage dashboard; edits are kept in localStorage.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30.00 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.50, outputPerMillion: 10.00 },
+    'imagen-4.0-generate-001': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+    'veo-3.1-fast-generate-preview': { inputPerMillion: 0, outputPerMillion: 0, perVideoSecond: 0.15 },
+};
+
+export function loadPriceTable(): PriceTable {
+    try {
+        const saved = localStorage.getItem(PRICE_TABLE_KEY);
+        return saved ? { ...DEFAULT_PRICE_TABLE, ...JSON.parse(saved) } : DEFAULT_PRICE_TABLE;
+    } catch (error) {
+        console.error('Failed to load price table:', error);
+        return DEFAULT_PRICE_TABLE;
+    }
+}
+
+export function savePriceTable(priceTable: PriceTable): void {
+    try {
+        localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(priceTable));
+    } catch (error) {
+        console.error('Failed to save price table:', error);
+    }
+}
+
+/**
+ * Estimates the cost of a single call. Models missing from the table (e.g. local models) cost nothing.
+ */
+export function estimateCost(entry: UsageEntry, priceTable: PriceTable): number {
+    const price: ModelPrice | undefined = priceTable[entry.model];
+    if (!price) return 0;
+    return (
+        (entry.inputTokens * price.inputPerMillion) / 1_000_000 +
+        ((entry.outputTokens + entry.thinkingTokens) * price.outputPerMillion) / 1_000_000 +
+        (entry.images ?? 0) * (price.perImage ?? 0) +
+        (entry.videoSeconds ?? 0) * (price.perVideoSecond ?? 0)
+    );
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    images: number;
+    videoSeconds: number;
+    cost: number;
+}
+
+export function emptyTotals(): UsageTotals {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, videoSeconds: 0, cost: 0 };
+}
+
+export function sumUsage(entries: UsageEntry[], priceTable: PriceTable): UsageTotals {
+    const totals = emptyTotals();
+    for (const entry of entries) {
+        totals.calls += 1;
+        totals.inputTokens += entry.inputTokens;
+        totals.outputTokens += entry.outputTokens;
+        totals.thinkingTokens += entry.thinkingTokens;
+        totals.images += entry.images ?? 0;
+        totals.videoSeconds += entry.videoSeconds ?? 0;
+        totals.cost += estimateCost(entry, priceTable);
+    }
+    return totals;
+}
+
+export type UsageGrouping = 'model' | 'session' | 'day';
+
+export interface UsageGroup {
+    key: string;
+    totals: UsageTotals;
+}
+
+/**
+ * Breaks down the usage recorded across sessions by model, session or local calendar day,
+ * most expensive (or, for days, most recent) first.
+ */
+export function groupUsage(sessions: ChatSession[], grouping: UsageGrouping, priceTable: PriceTable): UsageGroup[] {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const session of sessions) {
+        for (const entry of session.usage ?? []) {
+            const key = grouping === 'model'
+                ? entry.model
+                : grouping === 'session'
+                    ? session.id
+                    : new Date(entry.timestamp).toLocaleDateString('en-CA'); // YYYY-MM-DD
+            groups.set(key, [...(groups.get(key) ?? []), entry]);
+        }
+    }
+    const result = [...groups.entries()].map(([key, entries]) => ({ key, totals: sumUsage(entries, priceTable) }));
+    return grouping === 'day'
+        ? result.sort((a, b) => b.key.localeCompare(a.key))
+        : result.sort((a, b) => b.totals.cost - a.totals.cost);
+}
+
+export function formatCost(cost: number): string {
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { DailyValues } from './dailyValues';
+import { isAppleHealthExport, readAppleHealthExport } from './appleHealth';
+
+const exportXml = readFileSync(new URL('../../fixtures/wellbeing/apple-health-export.xml', import.meta.url), 'utf-8');
+
+async function readExport(parts: string[]) {
+    const values = new DailyValues();
+    await readAppleHealthExport(new Blob(parts), values);
+    return values.toSeries();
+}
+
+describe('readAppleHealthExport', () => {
+    it('converts units and keeps one source per day', async () => {
+        const series = await readExport([exportXml]);
+        // The phone's two step records beat the watch's one
+        expect(series.steps).toEqual({ '2026-10-17': 6000 });
+        // 418.4 kJ and 50 kcal
+        expect(series.activeEnergy).toEqual({ '2026-10-17': 150 });
+        // The later weighing of 164 lb, although it comes first in the file
+        expect(series.weight).toEqual({ '2026-10-17': 74.4 });
+        expect(series.restingHeartRate).toEqual({ '2026-10-17': 58 });
+    });
+
+    it('counts time asleep on the day it ended, leaving out time in bed and awake', async () => {
+        const series = await readExport([exportXml]);
+        expect(series.sleep).toEqual({ '2026-10-18': 435 });
+    });
+
+    it('skips records without a value or end date and types it does not read', async () => {
+        const series = await readExport([exportXml]);
+        expect(series.steps?.['2026-10-18']).toBeUndefined();
+        expect(Object.keys(series).sort()).toEqual(['activeEnergy', 'restingHeartRate', 'sleep', 'steps', 'weight']);
+    });
+
+    it('reads records split across chunks', async () => {
+        const middle = exportXml.indexOf('value="4000"');
+        expect(await readExport([exportXml.slice(0, middle), exportXml.slice(middle)])).toEqual(await readExport([exportXml]));
+    });
+});
+
+describe('isAppleHealthExport', () => {
+    it('recognizes export.xml by its root element', () => {
+        expect(isAppleHealthExport('apple_health_export/export.xml', exportXml.slice(0, 200))).toBe(true);
+        expect(isAppleHealthExport('apple_health_export/export_cda.xml', '<?xml version="1.0"?><ClinicalDocument>')).toBe(false);
+    });
+});
@@ -0,0 +1,60 @@
+import { type WellbeingMetric } from './types';
+import { type DailyValues } from './dailyValues';
+
+const QUANTITY_TYPES: { [type: string]: WellbeingMetric } = {
+    HKQuantityTypeIdentifierStepCount: 'steps',
+    HKQuantityTypeIdentifierRestingHeartRate: 'restingHeartRate',
+    HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrv',
+    HKQuantityTypeIdentifierActiveEnergyBurned: 'activeEnergy',
+    HKQuantityTypeIdentifierBodyMass: 'weight',
+};
+
+const SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+
+// Converted to the units WELLBEING_METRICS uses
+const UNIT_FACTORS: { [unit: string]: number } = { kJ: 1 / 4.184, lb: 0.45359237, g: 0.001 };
+
+// "2026-10-18 23:10:00 -0700" to epoch milliseconds
+const parseAppleDate = (value: string) => Date.parse(value.replace(' ', 'T').replace(/ ([+-]\d{2})(\d{2})$/, '$1:$2'));
+
+function readAttributes(tag: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    for (const match of tag.matchAll(/(\w+)="([^"]*)"/g)) attributes[match[1]] = match[2];
+    return attributes;
+}
+
+function addRecord(tag: string, values: DailyValues) {
+    const { type, value, unit, sourceName, startDate, endDate } = readAttributes(tag);
+    if (type === SLEEP_TYPE) {
+        // Only time asleep counts (core, deep, REM or unspecified), not time in bed or awake
+        if (!value?.startsWith('HKCategoryValueSleepAnalysisAsleep') || !startDate || !endDate) return;
+        const minutes = (parseAppleDate(endDate) - parseAppleDate(startDate)) / 60000;
+        values.add('sleep', endDate.slice(0, 10), minutes, sourceName);
+        return;
+    }
+    const metric = QUANTITY_TYPES[type];
+    if (!metric || !startDate) return;
+    values.add(metric, startDate.slice(0, 10), parseFloat(value) * (UNIT_FACTORS[unit] ?? 1), sourceName, parseAppleDate(startDate));
+}
+
+/**
+ * Reads the records of an Apple Health export (export.xml from the Health app's "Export All
+ * Health Data"). The file is often hundreds of megabytes, so it is read in chunks rather than parsed whole.
+ */
+export async function readAppleHealthExport(file: Blob, values: DailyValues): Promise<void> {
+    const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (value) buffer += value;
+        // Whole tags only; the rest waits for the next chunk
+        const end = done ? buffer.length : buffer.lastIndexOf('<');
+        for (const match of buffer.slice(0, end).matchAll(/<Record\b[^>]*>/g)) addRecord(match[0], values);
+        buffer = buffer.slice(end);
+        if (done) return;
+    }
+}
+
+export function isAppleHealthExport(path: string, head: string): boolean {
+    return path.endsWith('.xml') && head.includes('<HealthData');
+}
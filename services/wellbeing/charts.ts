@@ -0,0 +1,38 @@
+import { type WellbeingMetric, type WellbeingSeries, WELLBEING_METRICS } from './types';
+import { type WellbeingChart } from '../../types';
+import { getDaysInRange } from './summary';
+import { computeReadiness } from './readiness';
+
+export type WellbeingChartMetric = WellbeingMetric | 'readiness';
+
+export const WELLBEING_CHART_METRICS: Record<WellbeingChartMetric, { label: string, unit: string }> = {
+    ...WELLBEING_METRICS,
+    readiness: { label: 'Readiness', unit: 'score' },
+};
+
+export const ALL_WELLBEING_CHART_METRICS = Object.keys(WELLBEING_CHART_METRICS) as WellbeingChartMetric[];
+
+// What the dashboard and a chart without a metric list show
+export const DEFAULT_CHART_METRICS: WellbeingChartMetric[] = ['sleep', 'hrv', 'restingHeartRate', 'readiness'];
+
+/**
+ * Takes the daily values a chart draws, so it stays the same in the chat after more data is imported.
+ */
+export function buildWellbeingChart(
+    series: WellbeingSeries,
+    metrics: WellbeingChartMetric[],
+    start: string,
+    end: string,
+    source: WellbeingChart['source'],
+): WellbeingChart {
+    return {
+        start,
+        end,
+        source,
+        series: metrics.map(metric => ({
+            metric,
+            ...WELLBEING_CHART_METRICS[metric],
+            points: getDaysInRange(metric === 'readiness' ? computeReadiness(series) : series[metric], start, end),
+        })),
+    };
+}
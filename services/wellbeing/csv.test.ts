@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { DailyValues } from './dailyValues';
+import { parseCsv, readWellbeingCsv } from './csv';
+
+const readFixture = (name: string) => readFileSync(new URL(`../../fixtures/wellbeing/${name}`, import.meta.url), 'utf-8');
+
+function readCsv(text: string) {
+    const values = new DailyValues();
+    return { read: readWellbeingCsv(text, values), series: values.toSeries() };
+}
+
+describe('parseCsv', () => {
+    it('follows quoting and splits on semicolons when the header does', () => {
+        const [header, first] = parseCsv(readFixture('daily.csv'));
+        expect(header).toEqual(['Date', 'Sleep (hours)', 'Steps', 'Resting HR', 'Weight kg', 'Notes']);
+        expect(first).toEqual(['2026-10-16', '7,5', '12,310', '61', '74,4', 'Long run; felt "great"']);
+    });
+
+    it('drops empty rows', () => {
+        expect(parseCsv('a,b\r\n\r\n1,2\r\n,\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('readWellbeingCsv', () => {
+    it('reads a column per metric, converting hours of sleep and decimal commas', () => {
+        const { read, series } = readCsv(readFixture('daily.csv'));
+        expect(read).toBe(true);
+        expect(series.sleep).toEqual({ '2026-10-16': 450, '2026-10-17': 375 });
+        expect(series.weight).toEqual({ '2026-10-16': 74.4, '2026-10-17': 74.2 });
+    });
+
+    it('takes dates written with slashes and skips rows with other dates or unreadable values', () => {
+        const { series } = readCsv(readFixture('daily.csv'));
+        // "18.10.2026" is skipped, and "n/a" leaves the 18th without steps
+        expect(series.steps).toEqual({ '2026-10-16': 12310, '2026-10-17': 9800 });
+        expect(series.restingHeartRate).toEqual({ '2026-10-16': 61, '2026-10-18': 59 });
+    });
+
+    it('reads one reading per row, averaging heart rates and skipping unknown metrics', () => {
+        const { read, series } = readCsv(readFixture('readings.csv'));
+        expect(read).toBe(true);
+        expect(series).toEqual({
+            sleep: { '2026-10-17': 435 },
+            steps: { '2026-10-17': 8000 },
+            restingHeartRate: { '2026-10-17': 59 },
+        });
+    });
+
+    it('turns down files without a date column or known metrics', () => {
+        expect(readCsv('when,steps\n2026-10-17,100').read).toBe(false);
+        expect(readCsv('date,mood\n2026-10-17,4').read).toBe(false);
+        expect(readCsv('').read).toBe(false);
+    });
+});
@@ -0,0 +1,109 @@
+import { type WellbeingMetric, ALL_WELLBEING_METRICS } from './types';
+import { type DailyValues } from './dailyValues';
+
+/**
+ * Splits CSV text into rows of cells, following RFC 4180 quoting ("a ""b""", line breaks in quotes).
+ * Files whose header has more semicolons than commas, as spreadsheets write in some locales, split on semicolons.
+ */
+export function parseCsv(text: string): string[][] {
+    const firstLine = text.split('\n', 1)[0];
+    const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            if (row.some(value => value.trim())) rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell);
+    if (row.some(value => value.trim())) rows.push(row);
+    return rows;
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Column names people use for each metric, normalized. Sleep in hours is converted to minutes.
+const COLUMN_ALIASES: { [alias: string]: { metric: WellbeingMetric, factor?: number } } = {
+    ...Object.fromEntries(ALL_WELLBEING_METRICS.map(metric => [normalize(metric), { metric }])),
+    sleepminutes: { metric: 'sleep' },
+    sleephours: { metric: 'sleep', factor: 60 },
+    steps: { metric: 'steps' },
+    stepcount: { metric: 'steps' },
+    restinghr: { metric: 'restingHeartRate' },
+    restingheartratebpm: { metric: 'restingHeartRate' },
+    rhr: { metric: 'restingHeartRate' },
+    hrvms: { metric: 'hrv' },
+    hrvsdnn: { metric: 'hrv' },
+    activecalories: { metric: 'activeEnergy' },
+    activeenergykcal: { metric: 'activeEnergy' },
+    weightkg: { metric: 'weight' },
+};
+
+// "2026-10-18", "2026-10-18T07:00:00" or "2026/10/18" to YYYY-MM-DD.
+function readDate(value: string): string | null {
+    const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/.exec(value.trim());
+    return match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : null;
+}
+
+// "7,5" has a decimal comma, as spreadsheets write in some locales; "12,310" has a thousands separator
+function readNumber(value: string): number {
+    const trimmed = value.trim();
+    return parseFloat(/^-?\d+,\d{1,2}$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed.replace(/,/g, ''));
+}
+
+/**
+ * Reads a CSV with a date column, in one of two shapes: a column per metric ("date,sleep_hours,steps")
+ * or one reading per row ("date,metric,value"). Returns false when the file has neither shape.
+ */
+export function readWellbeingCsv(text: string, values: DailyValues, source = 'csv'): boolean {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return false;
+    const columns = header.map(normalize);
+    const dateColumn = columns.findIndex(name => name === 'date' || name === 'day');
+    if (dateColumn === -1) return false;
+
+    const metricColumn = columns.indexOf('metric');
+    const valueColumn = columns.indexOf('value');
+    if (metricColumn !== -1 && valueColumn !== -1) {
+        for (const row of rows) {
+            const date = readDate(row[dateColumn] ?? '');
+            const alias = COLUMN_ALIASES[normalize(row[metricColumn] ?? '')];
+            if (date && alias) values.add(alias.metric, date, readNumber(row[valueColumn] ?? '') * (alias.factor ?? 1), source);
+        }
+        return true;
+    }
+
+    const metricColumns = columns.flatMap((name, index) => COLUMN_ALIASES[name] ? [{ index, ...COLUMN_ALIASES[name] }] : []);
+    if (metricColumns.length === 0) return false;
+    rows.forEach((row, rowIndex) => {
+        const date = readDate(row[dateColumn] ?? '');
+        if (!date) return;
+        for (const { index, metric, factor } of metricColumns) {
+            if (row[index]?.trim()) values.add(metric, date, readNumber(row[index]) * (factor ?? 1), source, rowIndex);
+        }
+    });
+    return true;
+}
@@ -0,0 +1,60 @@
+import { type WellbeingMetric, type WellbeingSeries, WELLBEING_METRICS } from './types';
+
+interface Bucket {
+    sum: number;
+    count: number;
+    last: number;
+    lastTime: number;
+}
+
+/**
+ * Collects readings into one value per metric and day. Phone and watch often both record the same
+ * steps or sleep, so totals are kept per source and the day takes the largest rather than adding them up.
+ */
+export class DailyValues {
+    private buckets = new Map<string, Bucket>();
+
+    // `time` orders readings for metrics that keep the day's last one, such as weight
+    add(metric: WellbeingMetric, date: string, value: number, source = '', time = 0): void {
+        if (!isFinite(value)) return;
+        const key = `${metric}|${date}|${source}`;
+        const bucket = this.buckets.get(key) ?? { sum: 0, count: 0, last: value, lastTime: -Infinity };
+        bucket.sum += value;
+        bucket.count++;
+        if (time >= bucket.lastTime) {
+            bucket.last = value;
+            bucket.lastTime = time;
+        }
+        this.buckets.set(key, bucket);
+    }
+
+    get size(): number {
+        return this.buckets.size;
+    }
+
+    toSeries(): WellbeingSeries {
+        const perDay = new Map<string, Bucket[]>();
+        for (const [key, bucket] of this.buckets) {
+            const day = key.slice(0, key.lastIndexOf('|'));
+            perDay.set(day, [...(perDay.get(day) ?? []), bucket]);
+        }
+        const series: WellbeingSeries = {};
+        for (const [day, buckets] of perDay) {
+            const [metric, date] = day.split('|') as [WellbeingMetric, string];
+            let value: number;
+            switch (WELLBEING_METRICS[metric].aggregate) {
+                case 'sum':
+                    value = Math.max(...buckets.map(bucket => bucket.sum));
+                    break;
+                case 'average':
+                    value = buckets.reduce((total, bucket) => total + bucket.sum, 0) / buckets.reduce((total, bucket) => total + bucket.count, 0);
+                    break;
+                case 'last':
+                    value = buckets.reduce((latest, bucket) => bucket.lastTime >= latest.lastTime ? bucket : latest).last;
+                    break;
+            }
+            (series[metric] ??= {})[date] = Math.round(value * 10) / 10;
+        }
+        return series;
+    }
+}
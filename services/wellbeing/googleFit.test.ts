@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { DailyValues } from './dailyValues';
+import { readGoogleFitCsv, readGoogleFitSession } from './googleFit';
+
+const FIT_FOLDER = 'Takeout/Fit/Daily activity metrics';
+const readFixture = (name: string) => readFileSync(new URL(`../../fixtures/wellbeing/google-fit/${name}`, import.meta.url), 'utf-8');
+
+describe('readGoogleFitCsv', () => {
+    it('reads steps and weight from the daily summary, skipping rows without them or a date', () => {
+        const values = new DailyValues();
+        expect(readGoogleFitCsv(`${FIT_FOLDER}/Daily activity metrics.csv`, readFixture('Daily activity metrics.csv'), values)).toBe(true);
+        const series = values.toSeries();
+        expect(series.steps).toEqual({ '2026-10-16': 7012, '2026-10-17': 9320 });
+        expect(series.weight).toEqual({ '2026-10-17': 74.3 });
+    });
+
+    it('adds up the intervals of a per-day file on the day in its name', () => {
+        const values = new DailyValues();
+        expect(readGoogleFitCsv(`${FIT_FOLDER}/2026-10-18.csv`, readFixture('2026-10-18.csv'), values)).toBe(true);
+        expect(values.toSeries().steps).toEqual({ '2026-10-18': 2390 });
+    });
+
+    it('keeps one total when both kinds of file cover a day', () => {
+        const values = new DailyValues();
+        readGoogleFitCsv(`${FIT_FOLDER}/2026-10-18.csv`, readFixture('2026-10-18.csv'), values);
+        readGoogleFitCsv(`${FIT_FOLDER}/Daily activity metrics.csv`, readFixture('Daily activity metrics.csv').replace('2026-10-18,,,,,,,,,', '2026-10-18,20,1900,2400,4,4,2400,,,'), values);
+        expect(values.toSeries().steps?.['2026-10-18']).toBe(2400);
+    });
+
+    it('turns down other CSVs, and interval files without a date in their name', () => {
+        const values = new DailyValues();
+        expect(readGoogleFitCsv('steps.csv', 'date,steps\n2026-10-18,100', values)).toBe(false);
+        expect(readGoogleFitCsv(`${FIT_FOLDER}/export.csv`, readFixture('2026-10-18.csv'), values)).toBe(false);
+        expect(values.size).toBe(0);
+    });
+});
+
+describe('readGoogleFitSession', () => {
+    it('keeps sleep sessions, counted on the day they ended', () => {
+        const values = new DailyValues();
+        expect(readGoogleFitSession(readFixture('2026-10-18T01_05_00+02_00_SLEEP.json'), values)).toBe(true);
+        expect(values.toSeries().sleep).toEqual({ '2026-10-18': 450 });
+    });
+
+    it('accepts other sessions without reading them, and turns down other JSON', () => {
+        const values = new DailyValues();
+        expect(readGoogleFitSession(readFixture('2026-10-18T16_00_00+02_00_WALKING.json'), values)).toBe(true);
+        expect(readGoogleFitSession('{"Data Source": "derived:com.google.step_count.delta"}', values)).toBe(false);
+        expect(readGoogleFitSession('{"fitnessActivity": "sleep", "startTime": ', values)).toBe(false);
+        expect(values.size).toBe(0);
+    });
+});
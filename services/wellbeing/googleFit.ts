@@ -0,0 +1,55 @@
+import { type DailyValues } from './dailyValues';
+import { parseCsv } from './csv';
+
+// A local date, YYYY-MM-DD
+const toLocalDate = (time: number) => new Date(time).toLocaleDateString('en-CA');
+
+const DAILY_FILE = /^\d{4}-\d{2}-\d{2}\.csv$/;
+
+/**
+ * Reads the activity CSVs of a Google Takeout Fit export: "Daily activity metrics.csv", with a row
+ * per day, or the per-day files (2026-10-18.csv) with a row per interval. Returns false for other CSVs.
+ */
+export function readGoogleFitCsv(path: string, text: string, values: DailyValues): boolean {
+    const [header, ...rows] = parseCsv(text);
+    const steps = header?.indexOf('Step count') ?? -1;
+    if (steps === -1 || !header?.includes('Move Minutes count')) return false;
+    const weight = header.indexOf('Average weight (kg)');
+    const fileName = path.split('/').pop() ?? '';
+    const dateColumn = header.indexOf('Date');
+    if (dateColumn === -1 && !DAILY_FILE.test(fileName)) return false;
+    // Both kinds of file count the same steps; as separate sources the day keeps one total, not both
+    const source = dateColumn === -1 ? 'google-fit-intervals' : 'google-fit-daily';
+    for (const row of rows) {
+        const date = dateColumn === -1 ? fileName.slice(0, 10) : row[dateColumn];
+        if (!date) continue;
+        if (row[steps]) values.add('steps', date, parseFloat(row[steps]), source);
+        if (weight !== -1 && row[weight]) values.add('weight', date, parseFloat(row[weight]), source);
+    }
+    return true;
+}
+
+interface FitSession {
+    fitnessActivity?: string;
+    startTime?: string;
+    endTime?: string;
+}
+
+/**
+ * Reads a session from the "All sessions" folder of a Google Takeout Fit export. Only sleep
+ * sessions are kept, counted on the day they ended. Returns false for other JSON files.
+ */
+export function readGoogleFitSession(text: string, values: DailyValues): boolean {
+    let session: FitSession;
+    try {
+        session = JSON.parse(text);
+    } catch {
+        return false;
+    }
+    if (!session?.fitnessActivity || !session.startTime || !session.endTime) return false;
+    if (session.fitnessActivity.startsWith('sleep')) {
+        const end = Date.parse(session.endTime);
+        values.add('sleep', toLocalDate(end), (end - Date.parse(session.startTime)) / 60000, 'google-fit');
+    }
+    return true;
+}
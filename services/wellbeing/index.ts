@@ -0,0 +1,70 @@
+import { type WellbeingImportResult, type WellbeingSeries } from './types';
+import { DailyValues } from './dailyValues';
+import { readAppleHealthExport, isAppleHealthExport } from './appleHealth';
+import { readGoogleFitCsv, readGoogleFitSession } from './googleFit';
+import { readWellbeingCsv } from './csv';
+import { loadImportedSeries, mergeImportedSeries, countImportedDays } from './store';
+import { getMockWellbeingSeries } from '../mockDataService';
+
+export * from './types';
+export { summarizeMetric, getDailyValues, getWeeklyAverages, type MetricSummary, type DailyValue } from './summary';
+export { computeReadiness } from './readiness';
+export * from './charts';
+export { clearImportedSeries as clearWellbeingData, countImportedDays as countWellbeingDays } from './store';
+export { parseCsv } from './csv';
+
+// Reads one file into the collected values; false when it isn't in a format we know.
+async function readFile(file: File, path: string, values: DailyValues): Promise<boolean> {
+    const lowerPath = path.toLowerCase();
+    if (lowerPath.endsWith('.xml')) {
+        if (!isAppleHealthExport(lowerPath, await file.slice(0, 4096).text())) return false;
+        await readAppleHealthExport(file, values);
+        return true;
+    }
+    if (lowerPath.endsWith('.csv')) {
+        const text = await file.text();
+        return readGoogleFitCsv(path, text, values) || readWellbeingCsv(text, values);
+    }
+    if (lowerPath.endsWith('.json')) {
+        return readGoogleFitSession(await file.text(), values);
+    }
+    return false;
+}
+
+/**
+ * Imports wellbeing data from an Apple Health export.xml, a Google Takeout Fit folder or CSV files.
+ * Files in a picked folder that hold no wellbeing data are skipped; picked files that don't are reported.
+ */
+export async function importWellbeingFiles(files: File[]): Promise<WellbeingImportResult> {
+    const values = new DailyValues();
+    const result: WellbeingImportResult = { days: 0, values: 0, failed: [] };
+    for (const file of files) {
+        const path = file.webkitRelativePath || file.name;
+        if (path.split('/').some(segment => segment.startsWith('.'))) continue;
+        try {
+            if (!await readFile(file, path, values) && !file.webkitRelativePath) result.failed.push(path);
+        } catch (error) {
+            console.error(`Failed to import ${path}:`, error);
+            result.failed.push(path);
+        }
+    }
+    const added = values.toSeries();
+    mergeImportedSeries(added);
+    result.days = countImportedDays(added);
+    result.values = Object.values(added).reduce((total, days) => total + Object.keys(days ?? {}).length, 0);
+    return result;
+}
+
+export function hasImportedWellbeingData(): boolean {
+    return countImportedDays() > 0;
+}
+
+/**
+ * The user's daily wellbeing values: what they imported, or four weeks of sample data until they do.
+ */
+export function getWellbeingSeries(): { series: WellbeingSeries, source: 'imported' | 'sample' } {
+    const imported = loadImportedSeries();
+    return countImportedDays(imported) > 0
+        ? { series: imported, source: 'imported' }
+        : { series: getMockWellbeingSeries(), source: 'sample' };
+}
@@ -0,0 +1,41 @@
+import { type WellbeingSeries } from './types';
+import { addDays } from '../calendar/time';
+
+// Nights of sleep that count as fully rested, in minutes
+const SLEEP_GOAL = 480;
+// Days before a date that make up the personal baseline for HRV and resting heart rate
+const BASELINE_DAYS = 28;
+const MIN_BASELINE_DAYS = 7;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+function getBaseline(days: { [date: string]: number } | undefined, date: string): number | undefined {
+    if (!days) return undefined;
+    const from = addDays(date, -BASELINE_DAYS);
+    const values = Object.entries(days).filter(([day]) => day >= from && day < date).map(([, value]) => value);
+    return values.length >= MIN_BASELINE_DAYS ? values.reduce((total, value) => total + value, 0) / values.length : undefined;
+}
+
+/**
+ * A 0–100 readiness score per day, for wearables that don't export one: the average of how much of the
+ * sleep goal was slept, and how HRV and resting heart rate compare with the user's own last four weeks.
+ * A day at baseline with a full night scores about 83; HRV 20% under baseline takes its part down to 50.
+ */
+export function computeReadiness(series: WellbeingSeries): { [date: string]: number } {
+    const { sleep = {}, hrv = {}, restingHeartRate = {} } = series;
+    const dates = new Set([...Object.keys(sleep), ...Object.keys(hrv), ...Object.keys(restingHeartRate)]);
+    const readiness: { [date: string]: number } = {};
+    for (const date of dates) {
+        const parts: number[] = [];
+        if (sleep[date] !== undefined) parts.push(clamp(sleep[date] / SLEEP_GOAL * 100));
+        const hrvBaseline = getBaseline(hrv, date);
+        if (hrv[date] !== undefined && hrvBaseline) parts.push(clamp(75 + 125 * (hrv[date] - hrvBaseline) / hrvBaseline));
+        const heartRateBaseline = getBaseline(restingHeartRate, date);
+        if (restingHeartRate[date] !== undefined && heartRateBaseline) {
+            parts.push(clamp(75 + 250 * (heartRateBaseline - restingHeartRate[date]) / heartRateBaseline));
+        }
+        // Sleep alone says too little about recovery
+        if (parts.length >= 2) readiness[date] = Math.round(parts.reduce((total, part) => total + part, 0) / parts.length);
+    }
+    return readiness;
+}
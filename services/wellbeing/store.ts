@@ -0,0 +1,47 @@
+import { type WellbeingSeries, type WellbeingMetric } from './types';
+
+const WELLBEING_KEY = 'jarvis-wellbeing';
+
+// About three years of daily values per metric
+const MAX_DAYS_PER_METRIC = 1100;
+
+export function loadImportedSeries(): WellbeingSeries {
+    try {
+        const saved = localStorage.getItem(WELLBEING_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error('Failed to load wellbeing data:', error);
+        return {};
+    }
+}
+
+function saveImportedSeries(series: WellbeingSeries): void {
+    try {
+        localStorage.setItem(WELLBEING_KEY, JSON.stringify(series));
+    } catch (error) {
+        console.error('Failed to save wellbeing data:', error);
+    }
+}
+
+/**
+ * Adds imported values to the stored series; a day imported again takes the new value.
+ */
+export function mergeImportedSeries(added: WellbeingSeries): void {
+    const series = loadImportedSeries();
+    for (const [metric, days] of Object.entries(added) as [WellbeingMetric, { [date: string]: number }][]) {
+        const merged = Object.entries({ ...series[metric], ...days })
+            .sort(([a], [b]) => b.localeCompare(a))
+            .slice(0, MAX_DAYS_PER_METRIC);
+        series[metric] = Object.fromEntries(merged.reverse());
+    }
+    saveImportedSeries(series);
+}
+
+export function clearImportedSeries(): void {
+    saveImportedSeries({});
+}
+
+// The number of days with at least one imported value.
+export function countImportedDays(series = loadImportedSeries()): number {
+    return new Set(Object.values(series).flatMap(days => Object.keys(days ?? {}))).size;
+}
@@ -0,0 +1,65 @@
+import { type WellbeingMetric, type WellbeingSeries, WELLBEING_METRICS } from './types';
+import { addDays } from '../calendar/time';
+
+export interface DailyValue {
+    date: string;
+    value: number;
+}
+
+export interface MetricSummary {
+    metric: WellbeingMetric;
+    label: string;
+    unit: string;
+    days: DailyValue[]; // Days with a value, oldest first
+    average?: number;
+    min?: number;
+    max?: number;
+    latest?: DailyValue;
+    // The average over as many days just before the range, and how far the range's average is from it
+    previousAverage?: number;
+    change?: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const dayCount = (start: string, end: string) => Math.round((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000)) + 1;
+
+export function getDaysInRange(days: { [date: string]: number } | undefined, start: string, end: string): DailyValue[] {
+    return Object.entries(days ?? {})
+        .filter(([date]) => date >= start && date <= end)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, value]) => ({ date, value }));
+}
+
+export const getDailyValues = (series: WellbeingSeries, metric: WellbeingMetric, start: string, end: string) => getDaysInRange(series[metric], start, end);
+
+const average = (days: DailyValue[]) => days.length > 0 ? round(days.reduce((total, day) => total + day.value, 0) / days.length) : undefined;
+
+/**
+ * Summarizes a metric between two dates (inclusive), and compares it with the same number of days before.
+ */
+export function summarizeMetric(series: WellbeingSeries, metric: WellbeingMetric, start: string, end: string): MetricSummary {
+    const days = getDailyValues(series, metric, start, end);
+    const length = dayCount(start, end);
+    const previous = getDailyValues(series, metric, addDays(start, -length), addDays(start, -1));
+    const summary: MetricSummary = { metric, label: WELLBEING_METRICS[metric].label, unit: WELLBEING_METRICS[metric].unit, days };
+    if (days.length === 0) return summary;
+    const values = days.map(day => day.value);
+    summary.average = average(days);
+    summary.min = Math.min(...values);
+    summary.max = Math.max(...values);
+    summary.latest = days[days.length - 1];
+    summary.previousAverage = average(previous);
+    if (summary.previousAverage !== undefined) summary.change = round(summary.average! - summary.previousAverage);
+    return summary;
+}
+
+// Weekly averages for long ranges, so the model isn't handed hundreds of numbers. Weeks start on the range's first day.
+export function getWeeklyAverages(days: DailyValue[], start: string): DailyValue[] {
+    const weeks = new Map<string, DailyValue[]>();
+    for (const day of days) {
+        const week = addDays(start, Math.floor((dayCount(start, day.date) - 1) / 7) * 7);
+        weeks.set(week, [...(weeks.get(week) ?? []), day]);
+    }
+    return [...weeks].map(([date, values]) => ({ date, value: average(values)! }));
+}
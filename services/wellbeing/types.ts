@@ -0,0 +1,30 @@
+export type WellbeingMetric = 'sleep' | 'steps' | 'restingHeartRate' | 'hrv' | 'activeEnergy' | 'weight';
+
+// How readings on the same day combine into that day's value.
+export type DailyAggregate = 'sum' | 'average' | 'last';
+
+export interface WellbeingMetricInfo {
+    label: string;
+    unit: string;
+    aggregate: DailyAggregate;
+}
+
+export const WELLBEING_METRICS: Record<WellbeingMetric, WellbeingMetricInfo> = {
+    sleep: { label: 'Sleep', unit: 'minutes', aggregate: 'sum' }, // Counted on the day the user woke up
+    steps: { label: 'Steps', unit: 'steps', aggregate: 'sum' },
+    restingHeartRate: { label: 'Resting heart rate', unit: 'bpm', aggregate: 'average' },
+    hrv: { label: 'Heart rate variability', unit: 'ms', aggregate: 'average' },
+    activeEnergy: { label: 'Active energy', unit: 'kcal', aggregate: 'sum' },
+    weight: { label: 'Weight', unit: 'kg', aggregate: 'last' },
+};
+
+export const ALL_WELLBEING_METRICS = Object.keys(WELLBEING_METRICS) as WellbeingMetric[];
+
+// One value per day (YYYY-MM-DD, the local date where it was recorded) for each metric.
+export type WellbeingSeries = { [metric in WellbeingMetric]?: { [date: string]: number } };
+
+export interface WellbeingImportResult {
+    days: number; // Days with at least one new value
+    values: number;
+    failed: string[]; // Files that couldn't be read or weren't recognized
+}
@@ -4,7 +4,7 @@ import type { FC } from 'react';
 
 export type MessageAuthor = 'user' | 'ai';
 
-export type ServiceName = 'email' | 'calendar' | 'wellbeing' | 'smarthome';
+export type ServiceName = 'email' | 'calendar' | 'wellbeing' | 'smarthome' | 'tasks';
 
 export interface ServiceAccount {
   id: string; // e.g., 'personal@example.com'
@@ -28,6 +28,151 @@ export interface GeneratedVideo {
     operationName?: string; // To poll for status
 }
 
+// Usage reported by a single model call, used for cost accounting.
+export interface UsageEntry {
+    model: string;
+    timestamp: number;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    images?: number; // Billed per image (e.g. Imagen)
+    videoSeconds?: number; // Billed per second of video (e.g. Veo)
+}
+
+// Price per million tokens, per image or per video second, in USD.
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number; // Thinking tokens are billed as output
+    perImage?: number;
+    perVideoSecond?: number;
+}
+
+export type PriceTable = { [model: string]: ModelPrice };
+
+// How demanding a request is; each tier maps to a model in the routing config.
+export type RouteTier = 'simple' | 'standard' | 'complex';
+
+export interface ModelChoice {
+    model: string;
+    thinkingBudget?: number; // Unset uses the model's default
+}
+
+// Sends matching requests to a tier. A rule matches when every condition it sets holds.
+export interface RoutingRule {
+    id: string;
+    name: string;
+    mediaTypes?: ('image' | 'video' | 'audio')[]; // The request has one of these attachments
+    keywords?: string[]; // Whole words or phrases, case-insensitive; any one is enough
+    maxWords?: number; // The prompt has at most this many words
+    tier: RouteTier;
+}
+
+export interface RoutingConfig {
+    rules: RoutingRule[]; // First match wins
+    useClassifier: boolean; // Ask a cheap model to pick the tier when no rule matches
+    classifierModel: string;
+    defaultTier: RouteTier; // Used when no rule matches and the classifier is off or fails
+    fallbackChain: string[]; // Models to fall back to, in order, when one is failing
+    tiers: { [tier in RouteTier]: ModelChoice };
+}
+
+// Which model answered a request and why.
+export interface RouteDecision extends ModelChoice {
+    source: 'override' | 'rule' | 'classifier' | 'default';
+    detail?: string; // The rule name or classified tier
+    fallbackFrom?: string; // The routed model, when it failed and `model` answered instead
+}
+
+// The tool, and optionally the account, a consent decision applies to.
+export interface ConsentScope {
+    toolName: string;
+    account?: string; // Unset covers every account
+}
+
+export type ConsentEffect = 'allow' | 'deny';
+
+// How long the user's decision holds: this call only, this chat, or until it expires or is revoked.
+export type ConsentDuration = 'once' | 'session' | 'always';
+
+export interface ConsentChoice {
+    effect: ConsentEffect;
+    duration: ConsentDuration;
+    expiresInMs?: number; // For 'always'; unset never expires
+}
+
+// A remembered consent decision, checked before private tools run.
+export interface ConsentRule extends ConsentScope {
+    id: string;
+    effect: ConsentEffect;
+    sessionId?: string; // Set when the decision only holds in one chat
+    createdAt: number;
+    expiresAt?: number;
+}
+
+// A tool the assistant ran while answering, shown under the answer.
+export interface ToolActivity {
+    toolName: string;
+    summary: string; // From the tool's result renderer
+    failed?: boolean;
+    dryRun?: boolean; // Only previewed; nothing was changed
+    // What the tool's inverse needs to revert the call, until the undo window closes
+    undo?: { data: unknown; expiresAt: number; };
+    undone?: boolean;
+}
+
+// A tool call answered in the same model turn as one that stopped to ask for consent. Its answer is
+// sent to the model together with the outcome of the consent prompt.
+export interface CompletedToolCall {
+    name: string;
+    args: Record<string, any>;
+    response: Record<string, unknown>; // The function response, as sent to the model
+}
+
+// An email the assistant drafted, shown as an editable card until it is sent.
+export interface EmailDraft {
+    id: string;
+    accountId: string; // The account it is sent from
+    to: string[];
+    cc?: string[];
+    subject: string;
+    body: string;
+    inReplyTo?: string; // Message-ID of the email being answered
+    references?: string[];
+    sentAt?: number;
+    error?: string; // Why the last send failed
+}
+
+// Daily values of wellbeing metrics between two dates, drawn as a chart under the assistant's answer.
+export interface WellbeingChart {
+    start: string; // YYYY-MM-DD
+    end: string;
+    source: 'imported' | 'sample';
+    series: {
+        metric: string;
+        label: string;
+        unit: string;
+        points: { date: string; value: number }[];
+    }[];
+}
+
+// Where consent stood for an audited tool call: not needed (public tool), covered by a remembered
+// decision, just approved by the user, refused (by a rule or the user), or asked for.
+export type AuditConsent = 'not-required' | 'remembered' | 'granted' | 'denied' | 'requested';
+
+// One tool call in the audit log.
+export interface AuditEntry {
+    id: string;
+    timestamp: number;
+    sessionId?: string;
+    toolName: string;
+    args: Record<string, any>; // Long values such as data URLs are shortened
+    consent: AuditConsent;
+    summary?: string; // From the tool's result renderer
+    error?: string;
+    durationMs?: number; // How long the tool itself ran
+    dryRun?: boolean; // Previewed instead of run
+}
+
 export interface ChatMessage {
     author: MessageAuthor;
     text: string;
@@ -40,12 +185,36 @@ export interface ChatMessage {
     // For consent flow
     requiresConsent?: boolean;
     consentGranted?: boolean;
+    consentDenied?: boolean;
     action?: {
         toolName: string;
         toolArgs: any;
     };
+    // What the pending action would access, for the consent prompt
+    consentScopes?: ConsentScope[];
+    // The other calls of the turn that asked for consent, answered once the user decides
+    completedCalls?: CompletedToolCall[];
     // For billing flow
     requiresBillingProject?: boolean;
+    // True while the response text is still arriving
+    isStreaming?: boolean;
+    // True if the user stopped the response before it finished
+    interrupted?: boolean;
+    // Model calls made to produce this message
+    usage?: UsageEntry[];
+    // The model chosen to answer, for AI messages
+    route?: RouteDecision;
+    // Tools run to produce this message
+    toolActivity?: ToolActivity[];
+    emailDraft?: EmailDraft;
+    wellbeingChart?: WellbeingChart;
+}
+
+// A condensed account of the messages that no longer fit in the history sent to the model.
+export interface ConversationSummary {
+    text: string;
+    coveredCount: number; // The number of leading messages folded into the summary
+    updatedAt: number;
 }
 
 // Represents a single, continuous conversation.
@@ -53,6 +222,12 @@ export interface ChatSession {
     id: string;
     lastUpdated: number;
     messages: ChatMessage[];
+    // Every model call made in this session, including speech
+    usage?: UsageEntry[];
+    // Bypasses model routing for every message in this chat
+    modelOverride?: ModelChoice;
+    // Running summary of older messages, sent as context instead of the messages themselves
+    summary?: ConversationSummary;
 }
 
 // A structured response from the AI service
@@ -66,8 +241,15 @@ export interface AiResponse {
         toolName: string;
         toolArgs: any;
     };
+    consentScopes?: ConsentScope[];
+    completedCalls?: CompletedToolCall[];
     requiresBillingProject?: boolean;
     learnedFacts?: string[]; // New facts learned during this interaction
+    route?: RouteDecision;
+    toolActivity?: ToolActivity[];
+    emailDraft?: EmailDraft;
+    wellbeingChart?: WellbeingChart;
+    summary?: ConversationSummary; // Set when the chat's running summary was updated for this request
 }
 
 export interface ServiceIntegration {
@@ -1,18 +1,42 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { smtpRelayPlugin, getSmtpConfig } from './server/smtpRelay';
+import { caldavProxyPlugin, getCalDavConfig } from './server/caldavProxy';
+import { homeAssistantProxyPlugin, getHomeAssistantConfig } from './server/homeAssistantProxy';
+import { mqttBridgePlugin, getMqttConfig } from './server/mqttBridge';
+import { getApiAccess } from './server/http';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const caldavConfig = getCalDavConfig(env);
+    const homeAssistantConfig = getHomeAssistantConfig(env);
+    const mqttConfig = getMqttConfig(env);
+    const access = getApiAccess(env);
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      // The SMTP, CalDAV, Home Assistant and MQTT settings stay on the server; the app goes through the relay, the proxies and the bridge
+      plugins: [react(), smtpRelayPlugin(getSmtpConfig(env), access), caldavProxyPlugin(caldavConfig, access), homeAssistantProxyPlugin(homeAssistantConfig, access), mqttBridgePlugin(mqttConfig, access)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_TTS_MODEL': JSON.stringify(env.OPENAI_TTS_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL),
+        'process.env.LLM_RECORD': JSON.stringify(env.LLM_RECORD),
+        // Only whether CalDAV, Home Assistant and MQTT are configured, so the app knows to use the proxies
+        'process.env.CALDAV_SYNC': JSON.stringify(caldavConfig ? 'true' : undefined),
+        'process.env.HOME_ASSISTANT_SYNC': JSON.stringify(homeAssistantConfig ? 'true' : undefined),
+        'process.env.MQTT_SYNC': JSON.stringify(mqttConfig ? 'true' : undefined),
+        // The fixture's contents, not its path: the browser cannot read files
+        'process.env.LLM_REPLAY_FIXTURE': JSON.stringify(env.LLM_REPLAY_FIXTURE ? fs.readFileSync(path.resolve(env.LLM_REPLAY_FIXTURE), 'utf-8') : undefined)
       },
       resolve: {
         alias: {